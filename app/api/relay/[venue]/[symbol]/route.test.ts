@@ -0,0 +1,124 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { RelayMessage } from '@/lib/relay';
+import { RelayHub, relayHub } from '@/lib/relayhub';
+import { GET } from './route';
+
+const MOCK = fileURLToPath(new URL('../../../../../scripts/mock-upstream.mjs', import.meta.url));
+
+let upstream: ChildProcess;
+
+beforeAll(async () => {
+  upstream = spawn(process.execPath, [MOCK], { env: { ...process.env, PORT: '0' }, stdio: ['ignore', 'pipe', 'inherit'] });
+  process.env.RELAY_UPSTREAM = await new Promise<string>((resolve, reject) => {
+    upstream.stdout!.on('data', (d) => { const m = /http:\/\/localhost:\d+/.exec(String(d)); if (m) resolve(m[0]); });
+    upstream.once('exit', (code) => reject(new Error(`mock upstream exited with ${code}`)));
+  });
+});
+
+afterAll(() => {
+  relayHub().close();
+  upstream?.kill();
+});
+
+function get(venue: string, symbol: string, signal?: AbortSignal) {
+  return GET(new Request(`http://localhost/api/relay/${venue}/${symbol}`, { signal }), { params: Promise.resolve({ venue, symbol }) });
+}
+
+/** Read SSE messages off `res` until `done` accepts the ones seen so far. */
+async function readUntil(res: Response, done: (ms: RelayMessage[]) => boolean): Promise<{ ms: RelayMessage[]; text: string }> {
+  const reader = res.body!.getReader(), dec = new TextDecoder();
+  const ms: RelayMessage[] = [];
+  let text = '', buf = '';
+  while (!done(ms)) {
+    const { value, done: end } = await reader.read();
+    if (end) break;
+    const chunk = dec.decode(value, { stream: true });
+    text += chunk; buf += chunk;
+    let i;
+    while ((i = buf.indexOf('\n\n')) >= 0) {
+      const ev = buf.slice(0, i); buf = buf.slice(i + 2);
+      if (ev.startsWith('data: ')) ms.push(JSON.parse(ev.slice(6)) as RelayMessage);
+    }
+  }
+  return { ms, text };
+}
+
+describe('GET /api/relay/[venue]/[symbol]', () => {
+  it('rejects unknown venues, inherited keys included, and malformed symbols with 400', async () => {
+    for (const venue of ['kraken', 'constructor', '__proto__']) expect((await get(venue, 'BTCUSDT')).status).toBe(400);
+    expect((await get('binance', '%E0%A4%A')).status).toBe(400);
+  });
+
+  it('refuses symbols outside the venue\'s pattern before opening anything upstream', async () => {
+    const before = relayHub().markets.length;
+    for (const [venue, symbol] of [['binance', 'BTC-USD'], ['binance', 'x'.repeat(40)], ['coinbase', 'BTCUSD'], ['binance', '..%2F..']]) {
+      expect((await get(venue, symbol)).status).toBe(400);
+    }
+    expect(relayHub().markets).toHaveLength(before);
+  });
+
+  it('replays a refused symbol to clients that join after the refusal', async () => {
+    const first = new AbortController();
+    const { ms } = await readUntil(await get('binance', 'NOPEBTC', first.signal), m => m.some(x => x.type === 'unavailable'));
+    first.abort();
+    expect(ms.find(m => m.type === 'unavailable')).toMatchObject({ reason: 'unknown' });
+
+    // the session lingers: a rejoin is greeted from it rather than from the upstream
+    const again = new AbortController();
+    const { ms: greeting } = await readUntil(await get('binance', 'NOPEBTC', again.signal), m => m.some(x => x.type === 'unavailable'));
+    again.abort();
+    expect(greeting.map(m => m.type)).toEqual(['status', 'unavailable']);
+  }, 15_000);
+
+  it('streams a synced book, trades and status from the upstream as SSE', async () => {
+    const ctl = new AbortController();
+    const res = await get('binance', 'BTCUSDT', ctl.signal);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('text/event-stream; charset=utf-8');
+
+    const has = (ms: RelayMessage[], type: RelayMessage['type']) => ms.some(m => m.type === type);
+    const { ms, text } = await readUntil(res, m => has(m, 'book') && has(m, 'trades') && m.some(x => x.type === 'status' && x.status.state === 'live'));
+    ctl.abort();
+
+    expect(text.startsWith('retry: 2000\n\n')).toBe(true);
+    expect(ms.find(m => m.type === 'instrument')).toMatchObject({ info: { symbol: 'BTCUSDT', tickSize: '0.01', trading: true } });
+    const book = ms.find(m => m.type === 'book');
+    if (book?.type !== 'book') throw new Error('no book');
+    expect(book.bids.length).toBeGreaterThan(0);
+    // best-first and uncrossed
+    expect(book.bids[0][0]).toBeLessThan(book.asks[0][0]);
+    expect(book.bids.map(l => l[0])).toEqual([...book.bids.map(l => l[0])].sort((a, b) => b - a));
+    const trades = ms.find(m => m.type === 'trades');
+    if (trades?.type !== 'trades') throw new Error('no trades');
+    expect(trades.trades[0]).toMatchObject({ price: expect.any(Number), quantity: expect.any(Number), isBuyerMaker: expect.any(Boolean) });
+  }, 15_000);
+
+  it('carries the futures-only mark stream for the futures venue', async () => {
+    const ctl = new AbortController();
+    const res = await get('binance-futures', 'ETHUSDT', ctl.signal);
+    const { ms } = await readUntil(res, m => m.some(x => x.type === 'mark') && m.some(x => x.type === 'book'));
+    ctl.abort();
+    expect(ms.find(m => m.type === 'mark')).toMatchObject({ mark: { fundingRate: 0.0001, nextFundingTime: expect.any(Number) } });
+  }, 15_000);
+});
+
+describe('RelayHub capacity', () => {
+  it('takes new markets only while under its session cap, lingering sessions included', () => {
+    const hub = new RelayHub(undefined, 1);
+    try {
+      const leave = hub.join('binance', 'btcusdt', () => {});
+      expect(leave).not.toBeNull();
+      expect(hub.admits('binance', 'ethusdt')).toBe(false);
+      expect(hub.join('binance', 'ethusdt', () => {})).toBeNull();
+      // more clients on a running market are fine
+      expect(hub.join('binance', 'btcusdt', () => {})).not.toBeNull();
+      leave!();
+      expect(hub.admits('binance', 'ethusdt')).toBe(false);
+    } finally {
+      hub.close();
+    }
+    expect(hub.admits('binance', 'ethusdt')).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+import { ADAPTERS } from '@/lib/exchanges';
+import { decodeSegment, isVenue } from '@/lib/route';
+import { RELAY_RETRY_MS, sseEvent } from '@/lib/relay';
+import { relayHub } from '@/lib/relayhub';
+
+// long-lived upstream sockets: Node runtime, never cached
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const KEEPALIVE_MS = 15_000;
+
+interface RelayRouteContext { params: Promise<{ venue: string; symbol: string }>; }
+
+/** Server-Sent Events stream of one market's relayed book, trades and status. */
+export async function GET(req: Request, { params }: RelayRouteContext) {
+  const { venue, symbol } = await params;
+  if (!isVenue(venue)) return new Response(`unknown venue ${venue}`, { status: 400 });
+  const adapter = ADAPTERS[venue], decoded = decodeSegment(symbol);
+  const sym = decoded === null ? null : adapter.normalizeSymbol(decoded);
+  if (!sym || !adapter.symbolPattern.test(sym)) return new Response('malformed symbol', { status: 400 });
+  const hub = relayHub();
+  if (!hub.admits(venue, sym)) return new Response('relay is at capacity', { status: 503, headers: { 'Retry-After': '30' } });
+
+  const enc = new TextEncoder();
+  let done = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(ctl) {
+      const write = (s: string) => { try { ctl.enqueue(enc.encode(s)); } catch { done(); } };
+      // ahead of the greeting the hub sends on join
+      write(`retry: ${RELAY_RETRY_MS}\n\n`);
+      // admits() was checked above, in this same tick
+      const leave = hub.join(venue, sym, m => write(sseEvent(m)))!;
+      // comment lines keep proxies from timing out a quiet stream
+      const ping = setInterval(() => write(': ping\n\n'), KEEPALIVE_MS);
+      done = () => {
+        done = () => {};
+        clearInterval(ping); leave();
+        try { ctl.close(); } catch {}
+      };
+      req.signal.addEventListener('abort', () => done());
+    },
+    cancel() { done(); },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import OrderFlowPage from '@/components/OrderFlowPage';
+import { decodeSegment, resolveBookRoute } from '@/lib/route';
+
+interface BookPageProps {
+  params: Promise<{ symbol: string }>;
+  searchParams: Promise<{ venue?: string | string[] }>;
+}
+
+export async function generateMetadata({ params }: BookPageProps): Promise<Metadata> {
+  const { symbol } = await params;
+  const s = decodeSegment(symbol);
+  return { title: s === null ? 'OrderFlow Pro' : `${s.toUpperCase()} • OrderFlow Pro` };
+}
+
+export default async function BookPage({ params, searchParams }: BookPageProps) {
+  const [{ symbol }, { venue }] = await Promise.all([params, searchParams]);
+  const route = resolveBookRoute(symbol, Array.isArray(venue) ? venue[0] : venue);
+  if (!route) notFound();
+  return <OrderFlowPage initialVenue={route.venue} initialSymbol={route.symbol} />;
+}
@@ -0,0 +1,10 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+// layouts are read from localStorage, so there is nothing useful to prerender
+const Workspace = dynamic(() => import('@/components/Workspace'), { ssr: false });
+
+export default function WorkspacePage() {
+  return <Workspace />;
+}
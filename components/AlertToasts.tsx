@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BellRing, X } from 'lucide-react';
+import { alertEngine, type AlertFiring } from '@/lib/alerts';
+
+const TOAST_MS = 6000;
+const MAX_TOASTS = 4;
+
+// two short sine blips; no audio asset to ship
+function chime(ctx: AudioContext) {
+  const t = ctx.currentTime;
+  [880, 1320].forEach((f, i) => {
+    const o = ctx.createOscillator(), g = ctx.createGain();
+    o.frequency.value = f;
+    g.gain.setValueAtTime(0.0001, t + i * 0.15);
+    g.gain.exponentialRampToValueAtTime(0.2, t + i * 0.15 + 0.01);
+    g.gain.exponentialRampToValueAtTime(0.0001, t + i * 0.15 + 0.12);
+    o.connect(g).connect(ctx.destination);
+    o.start(t + i * 0.15); o.stop(t + i * 0.15 + 0.13);
+  });
+}
+
+/** Delivers alert firings: in-app toasts, plus sound and browser notifications where the rule asks. */
+export default function AlertToasts() {
+  const [toasts, setToasts] = useState<AlertFiring[]>([]);
+  const audioRef = useRef<AudioContext | null>(null);
+
+  useEffect(() => alertEngine().onFire((fired) => {
+    setToasts(cur => [...fired, ...cur].slice(0, MAX_TOASTS));
+    for (const f of fired) setTimeout(() => setToasts(cur => cur.filter(x => x.id !== f.id)), TOAST_MS);
+
+    if (fired.some(f => f.sound)) {
+      try { audioRef.current ??= new AudioContext(); chime(audioRef.current); } catch {}
+    }
+    if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      for (const f of fired) if (f.notify) new Notification('OrderFlow alert', { body: f.message, tag: f.ruleId });
+    }
+  }), []);
+
+  useEffect(() => () => { audioRef.current?.close(); }, []);
+
+  if (!toasts.length) return null;
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-[320px] max-w-[calc(100vw-2rem)]">
+      {toasts.map(t => (
+        <div key={t.id} className="flex items-start gap-2 px-3 py-2.5 rounded-lg bg-slate-900/95 border border-yellow-500/40 shadow-2xl text-xs">
+          <BellRing className="w-4 h-4 text-yellow-400 shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <div className="text-gray-100">{t.message}</div>
+            <div className="text-[10px] text-gray-500 mt-0.5">{new Date(t.t).toLocaleTimeString()}</div>
+          </div>
+          <button onClick={() => setToasts(cur => cur.filter(x => x.id !== t.id))} className="text-gray-500 hover:text-gray-300" aria-label="dismiss"><X className="w-3.5 h-3.5" /></button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState, useSyncExternalStore } from 'react';
+import { Bell, BellRing, Plus, Trash2, Volume2 } from 'lucide-react';
+import type { VenueId } from '@/lib/exchanges';
+import {
+  alertEngine, describeCondition, EMPTY_ALERT_STATE,
+  type AlertCondition, type AlertKind, type Comparison,
+} from '@/lib/alerts';
+
+const KINDS: { kind: AlertKind; label: string }[] = [
+  { kind: 'mid-cross', label: 'Mid crosses' },
+  { kind: 'spread-bps', label: 'Spread (bps)' },
+  { kind: 'level-size', label: 'Large level' },
+  { kind: 'imbalance-1m', label: '1m imbalance' },
+];
+
+interface Draft {
+  kind: AlertKind;
+  level: string; direction: 'up' | 'down' | 'any';
+  op: Comparison; value: string;
+  side: 'bid' | 'ask' | 'any'; size: string; withinPct: string;
+  holdSec: string; cooldownSec: string;
+  notify: boolean; sound: boolean;
+}
+
+function toCondition(d: Draft): AlertCondition | null {
+  const n = (s: string) => (s.trim() === '' ? NaN : Number(s));
+  const hold = Math.max(0, n(d.holdSec) || 0);
+  switch (d.kind) {
+    case 'mid-cross': return isFinite(n(d.level)) ? { kind: 'mid-cross', level: n(d.level), direction: d.direction } : null;
+    case 'spread-bps': return isFinite(n(d.value)) ? { kind: 'spread-bps', op: d.op, bps: n(d.value), holdSec: hold } : null;
+    case 'imbalance-1m': return isFinite(n(d.value)) ? { kind: 'imbalance-1m', op: d.op, pct: n(d.value), holdSec: hold } : null;
+    case 'level-size':
+      return n(d.size) > 0 && n(d.withinPct) > 0 ? { kind: 'level-size', side: d.side, size: n(d.size), withinPct: n(d.withinPct), holdSec: hold } : null;
+  }
+}
+
+/** Rule editor and firing history; rules are scoped to the market they were created on. */
+export default function AlertsPanel({ venue, symbol, mid, priceFmt }:{
+  venue: VenueId; symbol: string; mid: number; priceFmt: (n: number) => string;
+}) {
+  const engine = alertEngine();
+  const { rules, history } = useSyncExternalStore(engine.subscribe, engine.getState, () => EMPTY_ALERT_STATE);
+  const [draft, setDraft] = useState<Draft>({
+    kind: 'mid-cross', level: '', direction: 'any', op: 'above', value: '',
+    side: 'any', size: '', withinPct: '0.5', holdSec: '0', cooldownSec: '60', notify: false, sound: true,
+  });
+  const [tab, setTab] = useState<'rules' | 'history'>('rules');
+
+  const set = (patch: Partial<Draft>) => setDraft(d => ({ ...d, ...patch }));
+  const cond = toCondition(draft);
+  const mine = rules.filter(r => r.venue === venue && r.symbol === symbol);
+  const others = rules.length - mine.length;
+
+  const add = () => {
+    if (!cond) return;
+    if (draft.notify && typeof Notification !== 'undefined' && Notification.permission === 'default') Notification.requestPermission();
+    engine.addRule({ venue, symbol, condition: cond, cooldownSec: Math.max(0, Number(draft.cooldownSec) || 0), enabled: true, notify: draft.notify, sound: draft.sound });
+  };
+
+  const input = 'w-20 px-2 py-1 bg-slate-800 border border-slate-700 rounded-md font-mono text-xs';
+  const select = 'px-2 py-1 bg-slate-800 border border-slate-700 rounded-md text-xs';
+  const tabBtn = (on: boolean) => `px-2 py-1 rounded-md border text-[11px] font-semibold ${on ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`;
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="flex items-center justify-between px-3 sm:px-4 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-300">
+          <Bell className="w-4 h-4 text-emerald-400" /> Alerts
+        </span>
+        <div className="flex items-center gap-1.5">
+          <button onClick={() => setTab('rules')} className={tabBtn(tab === 'rules')}>Rules {mine.length}</button>
+          <button onClick={() => setTab('history')} className={tabBtn(tab === 'history')}>History {history.length}</button>
+        </div>
+      </div>
+
+      {tab === 'rules' ? (
+        <div className="p-3 flex flex-col gap-3">
+          {/* New rule */}
+          <div className="flex flex-wrap items-center gap-1.5 text-xs text-gray-300">
+            <select value={draft.kind} onChange={(e) => set({ kind: e.target.value as AlertKind })} className={select}>
+              {KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+            </select>
+
+            {draft.kind === 'mid-cross' && (<>
+              <select value={draft.direction} onChange={(e) => set({ direction: e.target.value as Draft['direction'] })} className={select}>
+                <option value="any">either way</option><option value="up">upward</option><option value="down">downward</option>
+              </select>
+              <input value={draft.level} onChange={(e) => set({ level: e.target.value })} placeholder={mid ? priceFmt(mid) : 'price'} className={`${input} w-28`} />
+              {mid > 0 && !draft.level && <button onClick={() => set({ level: String(mid) })} className="text-[11px] text-emerald-400">use mid</button>}
+            </>)}
+
+            {(draft.kind === 'spread-bps' || draft.kind === 'imbalance-1m') && (<>
+              <select value={draft.op} onChange={(e) => set({ op: e.target.value as Comparison })} className={select}>
+                <option value="above">above</option><option value="below">below</option>
+              </select>
+              <input value={draft.value} onChange={(e) => set({ value: e.target.value })} placeholder={draft.kind === 'spread-bps' ? 'bps' : '% (−100…100)'} className={input} />
+            </>)}
+
+            {draft.kind === 'level-size' && (<>
+              <select value={draft.side} onChange={(e) => set({ side: e.target.value as Draft['side'] })} className={select}>
+                <option value="any">bid or ask</option><option value="bid">bid</option><option value="ask">ask</option>
+              </select>
+              <span>≥</span>
+              <input value={draft.size} onChange={(e) => set({ size: e.target.value })} placeholder="size" className={input} />
+              <span>within</span>
+              <input value={draft.withinPct} onChange={(e) => set({ withinPct: e.target.value })} className={`${input} w-14`} />
+              <span>% of mid</span>
+            </>)}
+
+            {draft.kind !== 'mid-cross' && (<>
+              <span>for</span>
+              <input value={draft.holdSec} onChange={(e) => set({ holdSec: e.target.value })} className={`${input} w-12`} />
+              <span>s</span>
+            </>)}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-300">
+            <span>Cooldown</span>
+            <input value={draft.cooldownSec} onChange={(e) => set({ cooldownSec: e.target.value })} className={`${input} w-14`} />
+            <span>s</span>
+            <label className="flex items-center gap-1"><input type="checkbox" checked={draft.sound} onChange={(e) => set({ sound: e.target.checked })} className="accent-emerald-500" />Sound</label>
+            <label className="flex items-center gap-1"><input type="checkbox" checked={draft.notify} onChange={(e) => set({ notify: e.target.checked })} className="accent-emerald-500" />Notification</label>
+            <button onClick={add} disabled={!cond}
+              className="ml-auto px-3 py-1.5 rounded-md border text-xs font-semibold inline-flex items-center gap-1.5 bg-emerald-600/20 border-emerald-500 text-emerald-300 disabled:opacity-40">
+              <Plus className="w-3.5 h-3.5" /> Add rule
+            </button>
+          </div>
+
+          {/* Rules for this market */}
+          <div className="flex flex-col gap-1 max-h-[220px] overflow-y-auto scrollbar-thin">
+            {mine.length === 0 && <div className="text-xs text-gray-500 py-2">No rules for {symbol.toUpperCase()} yet.</div>}
+            {mine.map(r => (
+              <div key={r.id} className="flex items-center gap-2 px-2 py-1.5 rounded-md bg-slate-800/40 text-xs">
+                <input type="checkbox" checked={r.enabled} onChange={(e) => engine.updateRule(r.id, { enabled: e.target.checked })} className="accent-emerald-500" title="Enabled" />
+                <span className={`flex-1 font-mono ${r.enabled ? 'text-gray-200' : 'text-gray-500'}`}>{describeCondition(r.condition)}</span>
+                <span className="text-[10px] text-gray-500">{r.cooldownSec}s cd</span>
+                {r.sound && <Volume2 className="w-3.5 h-3.5 text-gray-500" />}
+                {r.notify && <BellRing className="w-3.5 h-3.5 text-gray-500" />}
+                <button onClick={() => engine.removeRule(r.id)} className="p-0.5 text-gray-500 hover:text-red-400" aria-label="delete rule"><Trash2 className="w-3.5 h-3.5" /></button>
+              </div>
+            ))}
+            {others > 0 && <div className="text-[11px] text-gray-500">+{others} rule{others === 1 ? '' : 's'} on other markets</div>}
+          </div>
+        </div>
+      ) : (
+        <div className="p-3 flex flex-col gap-2">
+          <div className="max-h-[300px] overflow-y-auto scrollbar-thin flex flex-col gap-1">
+            {history.length === 0 && <div className="text-xs text-gray-500 py-2">Nothing has fired yet.</div>}
+            {history.map(f => (
+              <div key={f.id} className="flex items-start gap-2 text-xs font-mono">
+                <span className="text-gray-500 shrink-0">{new Date(f.t).toLocaleTimeString()}</span>
+                <span className="text-gray-200">{f.message}</span>
+              </div>
+            ))}
+          </div>
+          {history.length > 0 && (
+            <button onClick={() => engine.clearHistory()} className="self-end px-2 py-1 rounded-md border text-[11px] bg-slate-800 border-slate-700 text-gray-300">Clear</button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
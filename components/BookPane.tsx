@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Ban, ChevronLeft, ChevronRight, Eye, GripVertical, Maximize2, Minus, Plus, TrendingDown, TrendingUp, X } from 'lucide-react';
+import { ADAPTERS, VENUES, type InstrumentInfo, type MarketTrade, type VenueId } from '@/lib/exchanges';
+import { MarketFeed, type ConnState } from '@/lib/feed';
+import { buildLadder, EMPTY_LADDER, type ProcessedOrderBook } from '@/lib/ladder';
+import { resolveStep } from '@/lib/grouping';
+import { decimalsFromStep, fmtFixed } from '@/lib/format';
+import { bookHref } from '@/lib/route';
+import type { PaneConfig } from '@/lib/workspace';
+import SymbolPicker from '@/components/SymbolPicker';
+import { EmptyLoad, EmptyPanel, OrderRow, SectionHeader, TradeRow, type Trade } from '@/components/BookRows';
+
+const GROUPS = [1, 5, 10, 50];
+const TRADES_KEPT = 30;
+const CONN_DOT: Record<ConnState, string> = {
+  connecting: 'bg-slate-400', syncing: 'bg-cyan-400', live: 'bg-emerald-400',
+  degraded: 'bg-amber-400', backoff: 'bg-red-400', paused: 'bg-slate-600',
+};
+
+/**
+ * One market in the workspace: a compact book and tape on the shared venue
+ * connection. The workspace keys panes by market, so a new symbol starts fresh.
+ */
+export default function BookPane({ pane, index, count, onChange, onRemove, onMove, onDragStart, onDrop }:{
+  pane: PaneConfig; index: number; count: number;
+  onChange: (patch: Partial<Omit<PaneConfig, 'id'>>) => void;
+  onRemove: () => void;
+  onMove: (to: number) => void;
+  onDragStart: () => void;
+  onDrop: () => void;
+}) {
+  const { venue, symbol, rows, groupMult, dense } = pane;
+  const adapter = ADAPTERS[venue];
+
+  const [processed, setProcessed] = useState<ProcessedOrderBook>(EMPTY_LADDER);
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [conn, setConn] = useState<ConnState>('connecting');
+  const [unavailable, setUnavailable] = useState<string | null>(null);
+  const [priceDp, setPriceDp] = useState(2);
+  const [qtyDp, setQtyDp] = useState(6);
+
+  const feedRef = useRef<MarketFeed | null>(null);
+  const tickRef = useRef('0.01');
+  const tickerRef = useRef({ bid: 0, ask: 0 });
+  const rafRef = useRef(0);
+  const viewRef = useRef({ rows, groupMult });
+
+  const priceFmt = useCallback((n: number) => fmtFixed(n, priceDp), [priceDp]);
+  const qtyFmt = useCallback((n: number) => fmtFixed(n, qtyDp), [qtyDp]);
+
+  const flush = useCallback(() => {
+    rafRef.current = 0;
+    const feed = feedRef.current;
+    if (!feed) return;
+    const step = resolveStep({ kind: 'ticks', mult: viewRef.current.groupMult }, tickRef.current, 0);
+    setProcessed(buildLadder(feed.book, step, viewRef.current.rows, tickerRef.current));
+  }, []);
+  const queueFlush = useCallback(() => { if (!rafRef.current) rafRef.current = requestAnimationFrame(flush); }, [flush]);
+
+  useEffect(() => { viewRef.current = { rows, groupMult }; queueFlush(); }, [rows, groupMult, queueFlush]);
+
+  useEffect(() => {
+    const applyInstrument = (info: InstrumentInfo | null) => {
+      tickRef.current = info?.tickSize ?? '0.01';
+      setPriceDp(info ? Math.min(8, decimalsFromStep(info.tickSize)) : 2);
+      setQtyDp(info ? Math.min(8, decimalsFromStep(info.stepSize)) : 6);
+    };
+    const addTrade = (t: MarketTrade) => setTrades(prev => [t, ...prev].slice(0, TRADES_KEPT));
+    const feed = new MarketFeed(adapter, symbol, {
+      onBook: queueFlush,
+      onTrade: addTrade,
+      onTicker: (top) => { tickerRef.current = { bid: top.bid, ask: top.ask }; },
+      onInstrument: applyInstrument,
+      onStatus: (s) => setConn(s.state),
+      onUnavailable: (e) => setUnavailable(e.message),
+    });
+    feedRef.current = feed;
+    feed.start();
+    return () => { feed.stop(); feedRef.current = null; cancelAnimationFrame(rafRef.current); rafRef.current = 0; };
+  }, [adapter, symbol, queueFlush]);
+
+  const btn = 'p-1 rounded-md bg-slate-800 border border-slate-700 text-gray-300 disabled:opacity-30';
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 shadow-2xl"
+      onDragOver={(e) => e.preventDefault()} onDrop={(e) => { e.preventDefault(); onDrop(); }}>
+      {/* Pane header */}
+      <div className="px-2 sm:px-3 py-2 border-b border-slate-800 flex flex-wrap items-center gap-1.5">
+        <span draggable onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; onDragStart(); }} className="cursor-grab text-gray-500" title="Drag to reorder">
+          <GripVertical className="w-4 h-4" />
+        </span>
+        <select
+          value={venue}
+          onChange={(e) => { const v = e.target.value as VenueId; onChange({ venue: v, symbol: ADAPTERS[v].symbols[0].value }); }}
+          className="px-2 py-1.5 bg-slate-800/80 border border-slate-700/50 rounded-lg text-xs font-semibold focus:outline-none"
+          title="Venue"
+        >
+          {VENUES.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+        </select>
+        <SymbolPicker key={venue} adapter={adapter} value={symbol} onChange={(s) => onChange({ symbol: s })} />
+        <span className={`w-2 h-2 rounded-full ${CONN_DOT[conn]}`} title={conn} />
+
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={() => onMove(index - 1)} disabled={index === 0} className={btn} aria-label="move left"><ChevronLeft className="w-3.5 h-3.5" /></button>
+          <button onClick={() => onMove(index + 1)} disabled={index === count - 1} className={btn} aria-label="move right"><ChevronRight className="w-3.5 h-3.5" /></button>
+          <Link href={bookHref(venue, symbol)} className={btn} title="Open full view"><Maximize2 className="w-3.5 h-3.5" /></Link>
+          <button onClick={onRemove} className={btn} aria-label="remove pane"><X className="w-3.5 h-3.5" /></button>
+        </div>
+
+        <div className="w-full flex flex-wrap items-center gap-1.5 text-[11px]">
+          <button onClick={() => onChange({ rows: Math.max(5, rows - 5) })} className={btn} aria-label="fewer rows"><Minus className="w-3 h-3" /></button>
+          <span className="font-mono text-gray-400 w-12 text-center">{rows} rows</span>
+          <button onClick={() => onChange({ rows: Math.min(100, rows + 5) })} className={btn} aria-label="more rows"><Plus className="w-3 h-3" /></button>
+          {GROUPS.map(m => (
+            <button key={m} onClick={() => onChange({ groupMult: m })}
+              className={`px-2 py-0.5 rounded-md border font-semibold ${groupMult === m ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`}>
+              ×{m}
+            </button>
+          ))}
+          <button onClick={() => onChange({ dense: !dense })} className={`${btn} inline-flex items-center gap-1 px-2`} title="Toggle density">
+            <Eye className="w-3 h-3" />{dense ? 'Comfort' : 'Compact'}
+          </button>
+          <span className="ml-auto font-mono text-gray-400">
+            ${priceFmt(processed.midPrice)} <span className="text-gray-500">({fmtFixed(processed.spreadPercent, 3)}%)</span>
+          </span>
+        </div>
+      </div>
+
+      {unavailable ? (
+        <div className="flex-1 flex items-center justify-center text-center text-gray-400 p-4">
+          <div>
+            <Ban className="w-8 h-8 mx-auto mb-2 text-red-400/70" />
+            <p className="text-xs">{unavailable}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 flex flex-col rounded-b-2xl overflow-hidden">
+          <div className="grid grid-cols-2 min-h-0 overflow-y-auto scrollbar-thin touch-scroll">
+            <div className="border-r border-slate-800">
+              <SectionHeader title="BIDS" icon={<TrendingUp className="w-4 h-4" />} color="emerald" />
+              {processed.bids.length > 0 ? processed.bids.map(row => (
+                <OrderRow key={`bid-${row.price}`} price={row.price} amount={row.amount} total={row.total}
+                  maxTotal={processed.maxBidTotal} isBid priceFmt={priceFmt} qtyFmt={qtyFmt} dense={dense} />
+              )) : <EmptyLoad color="emerald" text="Loading bids..." />}
+            </div>
+            <div>
+              <SectionHeader title="ASKS" icon={<TrendingDown className="w-4 h-4" />} color="red" />
+              {processed.asks.length > 0 ? processed.asks.map(row => (
+                <OrderRow key={`ask-${row.price}`} price={row.price} amount={row.amount} total={row.total}
+                  maxTotal={processed.maxAskTotal} isBid={false} priceFmt={priceFmt} qtyFmt={qtyFmt} dense={dense} />
+              )) : <EmptyLoad color="red" text="Loading asks..." />}
+            </div>
+          </div>
+          <div className="h-48 shrink-0 border-t border-slate-800 overflow-y-auto scrollbar-thin touch-scroll">
+            {trades.length === 0
+              ? <EmptyPanel />
+              : trades.map(t => <TradeRow key={`${t.id}-${t.time}`} trade={t} priceFmt={priceFmt} qtyFmt={qtyFmt} />)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
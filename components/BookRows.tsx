@@ -0,0 +1,179 @@
+'use client';
+
+import React, { memo } from 'react';
+import { Activity, Flame, TrendingDown, TrendingUp } from 'lucide-react';
+import type { MarketTrade } from '@/lib/exchanges';
+import type { WallMark } from '@/lib/walls';
+import type { LevelFlash } from '@/lib/ladder';
+import type { LiqMark } from '@/lib/perps';
+import type { ProfileMark } from '@/lib/profile';
+import type { PaperMark } from '@/lib/paper';
+import { fmtAge } from '@/lib/format';
+
+// Book and tape rows shared by the single-market view and workspace panes.
+
+export interface Trade extends MarketTrade { /** A liquidation rather than a trade. */ liq?: boolean; }
+
+export function wallTitle(m: WallMark, qtyFmt: (n:number)=>string): string {
+  const parts = [m.wall ? `Wall ${qtyFmt(m.amount)} (${m.ratio.toFixed(1)}× typical)` : `Size ${qtyFmt(m.amount)}`, `resting ${fmtAge(m.age)}`];
+  if (m.refills) parts.push(`${m.refills} refill${m.refills === 1 ? '' : 's'} after ${qtyFmt(m.executed)} traded`);
+  if (m.iceberg) parts.push('likely iceberg');
+  return parts.join(' · ');
+}
+
+export function tradedTitle(t: ProfileMark, qtyFmt: (n:number)=>string): string {
+  return `Traded ${qtyFmt(t.buy + t.sell)} (buy ${qtyFmt(t.buy)} / sell ${qtyFmt(t.sell)})${t.poc ? ' · point of control' : t.inValue ? ' · value area' : ''}`;
+}
+
+export function paperTitle(p: PaperMark, qtyFmt: (n:number)=>string): string {
+  return `${p.count} paper order${p.count === 1 ? '' : 's'} resting, ${qtyFmt(p.qty)} open`;
+}
+
+export function liqTitle(l: LiqMark, qtyFmt: (n:number)=>string): string {
+  return `${l.count} liquidation${l.count === 1 ? '' : 's'} here, ${qtyFmt(l.quantity)} in total`;
+}
+
+// ============================================================================
+// Rows (memoized)
+// ============================================================================
+const FLASH_BG: Record<LevelFlash, string> = {
+  grew: 'bg-sky-400/20',
+  shrank: 'bg-orange-400/20',
+  new: 'bg-violet-400/25',
+  gone: 'bg-rose-500/25',
+};
+
+export const OrderRow = memo(function OrderRow({
+  price, amount, total, maxTotal, isBid, isSpread = false, priceFmt, qtyFmt, dense, mark, flash, delta, gone = false, impact = false, liq, traded, paper, onPick,
+}: {
+  price: number; amount: number; total: number; maxTotal: number; isBid: boolean; isSpread?: boolean;
+  priceFmt: (n:number)=>string; qtyFmt:(n:number)=>string; dense:boolean;
+  /** Wall/iceberg flag from WallTracker; a new object only when the tracker re-scans. */
+  mark?: WallMark;
+  flash?: LevelFlash;
+  /** Net change over the Δ window; the column is hidden while undefined. */
+  delta?: number;
+  gone?: boolean;
+  /** Consumed by the market order in the impact calculator. */
+  impact?: boolean;
+  /** Recent liquidations that traded against this row (perpetuals). */
+  liq?: LiqMark;
+  /** Volume profile row at this price; drawn as a bar along the row's bottom edge. */
+  traded?: ProfileMark;
+  /** Paper orders resting in this row. */
+  paper?: PaperMark;
+  /** Makes the row clickable (paper trading); called with the row price, which the page snaps to a real level. */
+  onPick?: (price: number, isBid: boolean) => void;
+}) {
+  const pct = maxTotal > 0 ? (total / maxTotal) * 100 : 0;
+  const bgColor = isBid ? 'bg-emerald-500/10' : 'bg-red-500/10';
+  const textColor = isBid ? 'text-emerald-400' : 'text-red-400';
+  const py = dense ? 'py-1.5' : 'py-2.5';
+  const text = dense ? 'text-[11px] sm:text-xs' : 'text-[12px] sm:text-sm';
+
+  if (isSpread) {
+    return (
+      <div className="flex items-center justify-center py-3 px-4 bg-gradient-to-r from-emerald-500/5 via-yellow-500/10 to-red-500/5 border-y border-yellow-500/20">
+        <div className="flex items-center gap-2">
+          <Activity className="w-4 h-4 text-yellow-400" />
+          <span className="text-yellow-400 font-bold text-sm">SPREAD</span>
+          <span className="text-white font-mono font-bold">${priceFmt(price)}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`relative group hover:bg-white/5 transition-colors ${onPick ? 'cursor-pointer' : ''} ${mark?.wall ? 'bg-amber-400/10 ring-1 ring-inset ring-amber-400/40' : ''} ${impact ? 'shadow-[inset_3px_0_0_rgba(250,204,21,0.8)] bg-yellow-400/5' : ''}`}
+      title={[onPick && `Click to ${isBid ? 'buy' : 'sell'} at the best level in this row (paper)`, paper && paperTitle(paper, qtyFmt), mark && wallTitle(mark, qtyFmt), traded && tradedTitle(traded, qtyFmt), liq && liqTitle(liq, qtyFmt)].filter(Boolean).join(' · ') || undefined}
+      onClick={onPick && (() => onPick(price, isBid))}
+    >
+      <div className={`absolute inset-y-0 ${isBid ? 'right-0' : 'left-0'} ${bgColor}`} style={{ width: `${Math.min(100, Math.max(0, pct))}%` }} />
+      <div className={`absolute inset-0 transition-colors duration-300 ${flash ? FLASH_BG[flash] : 'bg-transparent'}`} />
+      {traded && (
+        <div className={`absolute bottom-0 h-[3px] ${isBid ? 'right-0' : 'left-0'} ${traded.poc ? 'bg-amber-300' : traded.inValue ? 'bg-amber-400/60' : 'bg-slate-400/40'}`}
+          style={{ width: `${Math.min(100, traded.share * 100)}%` }} />
+      )}
+      <div className={`relative flex justify-between items-center px-3 sm:px-4 ${py} font-mono ${text} ${gone ? 'opacity-50 line-through' : ''}`}>
+        <span className={`${textColor} font-bold min-w-[90px] sm:min-w-[120px] flex items-center gap-1.5`}>
+          ${priceFmt(price)}
+          {mark?.iceberg && <span className="px-1 rounded text-[9px] leading-4 bg-cyan-500/20 text-cyan-300 border border-cyan-500/40">ICE</span>}
+          {traded?.poc && <span className="px-1 rounded text-[9px] leading-4 bg-amber-400/20 text-amber-300 border border-amber-400/40">POC</span>}
+          {paper && <span className="px-1 rounded text-[9px] leading-4 bg-sky-500/20 text-sky-300 border border-sky-500/40">PAPER{paper.count > 1 ? `×${paper.count}` : ''}</span>}
+          {liq && <span className="px-1 rounded text-[9px] leading-4 bg-fuchsia-500/20 text-fuchsia-300 border border-fuchsia-500/40">LIQ{liq.count > 1 ? `×${liq.count}` : ''}</span>}
+        </span>
+        <span className={`${mark?.wall ? 'text-amber-300 font-bold' : 'text-gray-300'} min-w-[80px] sm:min-w-[100px] text-right`}>{gone ? '—' : qtyFmt(amount)}</span>
+        {delta !== undefined && (
+          <span className={`${delta > 0 ? 'text-emerald-400' : delta < 0 ? 'text-red-400' : 'text-gray-600'} text-[10px] sm:text-xs min-w-[70px] sm:min-w-[90px] text-right`}>
+            {delta === 0 ? '·' : `${delta > 0 ? '+' : '−'}${qtyFmt(Math.abs(delta))}`}
+          </span>
+        )}
+        <span className="text-gray-400 text-[10px] sm:text-xs min-w-[80px] sm:min-w-[100px] text-right">{qtyFmt(total)}</span>
+      </div>
+    </div>
+  );
+});
+
+export const TradeRow = memo(function TradeRow({ trade, priceFmt, qtyFmt, isNew = false, big = false }:{
+  trade: Trade; priceFmt:(n:number)=>string; qtyFmt:(n:number)=>string;
+  /** Just arrived: flash it. */
+  isNew?: boolean;
+  /** Notional above the tape's large-print threshold. */
+  big?: boolean;
+}) {
+  const isBuy = !trade.isBuyerMaker;
+  const bgColor = isBuy ? 'bg-emerald-500/20' : 'bg-red-500/20';
+  const textColor = isBuy ? 'text-emerald-400' : 'text-red-400';
+  const icon = trade.liq ? <Flame className="w-3 h-3 text-fuchsia-400" /> : isBuy ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />;
+  const title = trade.liq ? `Liquidation: forced ${isBuy ? 'buy (short closed)' : 'sell (long closed)'}` : trade.count && trade.count > 1 ? `${trade.count} fills` : undefined;
+
+  return (
+    <div className={`flex justify-between items-center px-3 py-2 font-mono text-[11px] sm:text-xs border-l-2 ${isBuy ? 'border-emerald-500' : 'border-red-500'} ${isNew ? `${bgColor} animate-flash` : trade.liq ? 'bg-fuchsia-500/10' : 'bg-slate-800/30'} ${big ? 'ring-1 ring-inset ring-amber-400/60 font-bold' : ''} ${trade.liq ? 'ring-1 ring-inset ring-fuchsia-500/50' : ''} transition-colors`}
+      title={title}>
+      <div className="flex items-center gap-2 min-w-[110px] sm:min-w-[120px]">
+        {icon}
+        <span className={`${textColor} font-bold`}>${priceFmt(trade.price)}</span>
+      </div>
+      <span className="text-gray-300 min-w-[80px] sm:min-w-[90px] text-right">{qtyFmt(trade.quantity)}</span>
+      <span className="text-gray-500 text-[9px] sm:text-[10px] min-w-[64px] sm:min-w-[70px] text-right">{new Date(trade.time).toLocaleTimeString()}</span>
+    </div>
+  );
+});
+
+export function SectionHeader({ title, icon, color, delta = false }:{title:string; icon:React.ReactNode; color:'emerald'|'red'; delta?: boolean}) {
+  const cls = color==='emerald' ? 'from-emerald-500/20 to-emerald-500/10' : 'from-red-500/20 to-red-500/10';
+  const text = color==='emerald' ? 'text-emerald-400' : 'text-red-400';
+  return (
+    <div className={`bg-gradient-to-r ${cls} px-3 sm:px-4 py-3 border-b border-slate-800 sticky top-0 z-10`}>
+      <div className="flex items-center justify-between font-mono text-[10px] sm:text-xs font-bold">
+        <span className={`${text} flex items-center gap-2`}>{icon}{title}</span>
+        <span className="text-gray-400">AMOUNT</span>
+        {delta && <span className="text-gray-400">Δ</span>}
+        <span className="text-gray-500">TOTAL</span>
+      </div>
+    </div>
+  );
+}
+export function EmptyLoad({ color, text }:{color:'emerald'|'red'; text:string}) {
+  const borderColor = color==='emerald' ? 'border-emerald-500' : 'border-red-500';
+  return (
+    <div className="flex items-center justify-center h-40 text-gray-500">
+      <div className="text-center">
+        <div className={`animate-spin w-8 h-8 border-2 ${borderColor} border-t-transparent rounded-full mx-auto mb-2`} />
+        <p className="text-sm">{text}</p>
+      </div>
+    </div>
+  );
+}
+export function EmptyPanel() {
+  return (
+    <div className="flex items-center justify-center h-full text-gray-500">
+      <div className="text-center">
+        <Activity className="w-10 h-10 mx-auto mb-2 opacity-20 animate-pulse" />
+        <p className="text-sm">Waiting for trades...</p>
+        <p className="text-xs text-gray-600 mt-1">Trades will appear here in real-time</p>
+      </div>
+    </div>
+  );
+}
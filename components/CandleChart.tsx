@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CandlestickChart, RotateCcw } from 'lucide-react';
+import type { BookReader } from '@/lib/orderbook';
+import type { Candle, CandleInterval, ExchangeAdapter } from '@/lib/exchanges';
+import { CANDLE_INTERVALS, MAX_CANDLES, type CandleSeries } from '@/lib/candles';
+
+const INTERVALS = Object.keys(CANDLE_INTERVALS) as CandleInterval[];
+const MIN_BAR_PX = 3, MAX_BAR_PX = 24;
+
+interface View { bar: number; offset: number; }    // px per candle, candles scrolled back from the newest
+interface Hover { x: number; y: number; }
+
+/**
+ * OHLCV candles with buy/sell volume and live best bid/ask lines. History is
+ * seeded from the adapter's klines; the page feeds live trades into `series`
+ * and the canvas polls its version (and the book's) on its own frame.
+ */
+export default function CandleChart({ series, book, adapter, symbol, seed, paused, priceFmt, qtyFmt }:{
+  series: CandleSeries; book: BookReader; adapter: ExchangeAdapter; symbol: string;
+  /** Fetch REST history; off while replaying a recording. */
+  seed: boolean;
+  paused: boolean; priceFmt:(n:number)=>string; qtyFmt:(n:number)=>string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [interval, setIntervalKey] = useState<CandleInterval>(series.interval);
+  const [seedError, setSeedError] = useState<string | null>(null);
+  const viewRef = useRef<View>({ bar: 8, offset: 0 });
+  const hoverRef = useRef<Hover | null>(null);
+  const dragRef = useRef<{ x: number; offset: number } | null>(null);
+  const dirtyRef = useRef(true);
+  const fmtRef = useRef({ priceFmt, qtyFmt });
+  const pausedRef = useRef(paused);
+
+  useEffect(() => { fmtRef.current = { priceFmt, qtyFmt }; dirtyRef.current = true; }, [priceFmt, qtyFmt]);
+  useEffect(() => { pausedRef.current = paused; }, [paused]);
+
+  // (re)seed on market or interval change; live trades keep accumulating meanwhile
+  useEffect(() => {
+    series.setInterval(interval);
+    viewRef.current.offset = 0;
+    if (!seed) return;
+    let live = true;
+    adapter.fetchCandles(symbol, interval, MAX_CANDLES)
+      .then(cs => { if (live && series.interval === interval) { series.seed(cs); setSeedError(null); } })
+      .catch(() => { if (live) setSeedError(`no ${interval} history — building from live trades`); });
+    return () => { live = false; };
+  }, [series, adapter, symbol, interval, seed]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    let raf = 0;
+    let seen = -1, seenBook = -1;
+    const ro = new ResizeObserver(() => { dirtyRef.current = true; });
+    ro.observe(canvas);
+
+    const frame = () => {
+      raf = requestAnimationFrame(frame);
+      const changed = seen !== series.version || seenBook !== book.version;
+      if ((pausedRef.current || !changed) && !dirtyRef.current) return;
+      seen = series.version; seenBook = book.version; dirtyRef.current = false;
+      draw(ctx, canvas, series.candles, book, viewRef.current, hoverRef.current, fmtRef.current);
+    };
+    raf = requestAnimationFrame(frame);
+    return () => { cancelAnimationFrame(raf); ro.disconnect(); };
+  }, [series, book]);
+
+  const onWheel = (e: React.WheelEvent) => {
+    const v = viewRef.current;
+    v.bar = Math.max(MIN_BAR_PX, Math.min(MAX_BAR_PX, v.bar * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+    dirtyRef.current = true;
+  };
+  const onPointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { x: e.clientX, offset: viewRef.current.offset };
+    (e.target as Element).setPointerCapture(e.pointerId);
+  };
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    hoverRef.current = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const d = dragRef.current;
+    if (d) {
+      const v = viewRef.current;
+      v.offset = Math.max(0, Math.min(series.candles.length - 1, d.offset + Math.round((e.clientX - d.x) / v.bar)));
+    }
+    dirtyRef.current = true;
+  };
+  const onPointerUp = () => { dragRef.current = null; };
+  const onLeave = () => { hoverRef.current = null; dragRef.current = null; dirtyRef.current = true; };
+  const resetView = () => { viewRef.current = { bar: 8, offset: 0 }; dirtyRef.current = true; };
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="flex items-center justify-between px-3 sm:px-4 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-300">
+          <CandlestickChart className="w-4 h-4 text-emerald-400" /> Candles
+          {seedError && <span className="text-[10px] font-normal text-yellow-400/80">{seedError}</span>}
+        </span>
+        <div className="flex items-center gap-1.5">
+          {INTERVALS.map(iv => (
+            <button key={iv} onClick={() => { setSeedError(null); setIntervalKey(iv); }}
+              className={`px-2 py-1 rounded-md border text-[11px] font-semibold ${interval===iv ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`}>
+              {iv}
+            </button>
+          ))}
+          <button onClick={resetView} className="p-1 rounded-md bg-slate-800 border border-slate-700 text-gray-300" title="Reset zoom and scroll">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="block w-full h-[260px] sm:h-[320px] cursor-crosshair touch-none"
+        onWheel={onWheel} onPointerDown={onPointerDown} onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp} onPointerLeave={onLeave} onDoubleClick={resetView}
+      />
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// drawing
+// ----------------------------------------------------------------------------
+const UP = 'rgb(52 211 153)', DOWN = 'rgb(248 113 113)';
+const BUY_VOL = 'rgba(16,185,129,0.55)', SELL_VOL = 'rgba(239,68,68,0.55)', VOL = 'rgba(148,163,184,0.45)';
+const AXIS_W = 72, AXIS_H = 18, VOL_FRAC = 0.22;
+
+function fmtTime(t: number, withSeconds: boolean): string {
+  const d = new Date(t);
+  const hh = String(d.getHours()).padStart(2, '0'), mm = String(d.getMinutes()).padStart(2, '0');
+  return withSeconds ? `${hh}:${mm}:${String(d.getSeconds()).padStart(2, '0')}` : `${hh}:${mm}`;
+}
+
+function draw(
+  ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, candles: readonly Candle[], book: BookReader,
+  view: View, hover: Hover | null,
+  fmt: { priceFmt:(n:number)=>string; qtyFmt:(n:number)=>string },
+) {
+  const dpr = window.devicePixelRatio || 1;
+  const w = canvas.clientWidth, h = canvas.clientHeight;
+  if (canvas.width !== Math.round(w * dpr) || canvas.height !== Math.round(h * dpr)) {
+    canvas.width = Math.round(w * dpr); canvas.height = Math.round(h * dpr);
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, w, h);
+  ctx.font = '11px ui-monospace, monospace';
+  ctx.textBaseline = 'middle';
+
+  if (!candles.length) {
+    ctx.fillStyle = 'rgb(107 114 128)';
+    ctx.fillText('Waiting for trades...', 12, h / 2);
+    return;
+  }
+
+  const plotW = w - AXIS_W, plotH = h - AXIS_H;
+  const volH = plotH * VOL_FRAC, priceH = plotH - volH - 6;
+  const count = Math.max(1, Math.floor(plotW / view.bar));
+  const end = candles.length - view.offset;
+  const start = Math.max(0, end - count);
+  const vis = candles.slice(start, end);
+
+  const bb = book.bestBid(), ba = book.bestAsk();
+  const live = view.offset === 0 && bb && ba && ba.price > bb.price;
+  let lo = Infinity, hi = -Infinity, maxV = 0;
+  for (const c of vis) { lo = Math.min(lo, c.l); hi = Math.max(hi, c.h); maxV = Math.max(maxV, c.v); }
+  if (live) { lo = Math.min(lo, bb.price); hi = Math.max(hi, ba.price); }
+  const pad = (hi - lo) * 0.06 || hi * 0.001 || 1;
+  lo -= pad; hi += pad;
+
+  // newest candle hugs the price axis
+  const x = (i: number) => plotW - (vis.length - i - 0.5) * view.bar;
+  const y = (p: number) => 4 + (1 - (p - lo) / (hi - lo)) * priceH;
+  const vy = (v: number) => plotH - (maxV > 0 ? (v / maxV) * volH : 0);
+  const body = Math.max(1, view.bar * 0.7);
+
+  // price grid + axis
+  ctx.strokeStyle = 'rgba(51,65,85,0.5)'; ctx.fillStyle = 'rgb(107 114 128)';
+  for (let i = 0; i <= 4; i++) {
+    const p = lo + ((hi - lo) * i) / 4, py = y(p);
+    ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(plotW, py); ctx.stroke();
+    ctx.fillText(fmt.priceFmt(p), plotW + 4, py);
+  }
+
+  for (let i = 0; i < vis.length; i++) {
+    const c = vis[i], cx = x(i);
+    const col = c.c >= c.o ? UP : DOWN;
+    ctx.strokeStyle = col; ctx.fillStyle = col;
+    ctx.beginPath(); ctx.moveTo(Math.round(cx) + 0.5, y(c.h)); ctx.lineTo(Math.round(cx) + 0.5, y(c.l)); ctx.stroke();
+    const top = y(Math.max(c.o, c.c)), bot = y(Math.min(c.o, c.c));
+    ctx.fillRect(cx - body / 2, top, body, Math.max(1, bot - top));
+
+    // volume: buy at the bottom, sell stacked on top; grey where the venue gives no split
+    if (c.buy === null) {
+      ctx.fillStyle = VOL; ctx.fillRect(cx - body / 2, vy(c.v), body, plotH - vy(c.v));
+    } else {
+      ctx.fillStyle = BUY_VOL; ctx.fillRect(cx - body / 2, vy(c.buy), body, plotH - vy(c.buy));
+      ctx.fillStyle = SELL_VOL; ctx.fillRect(cx - body / 2, vy(c.v), body, vy(c.buy) - vy(c.v));
+    }
+  }
+
+  // time axis
+  const secs = vis.length > 1 && vis[1].t - vis[0].t < 60_000;
+  ctx.fillStyle = 'rgb(107 114 128)';
+  const step = Math.max(1, Math.ceil(70 / view.bar));
+  for (let i = vis.length - 1; i >= 0; i -= step) {
+    const label = fmtTime(vis[i].t, secs);
+    const tx = x(i) - ctx.measureText(label).width / 2;
+    if (tx > 0) ctx.fillText(label, tx, h - AXIS_H / 2);
+  }
+
+  // live best bid / ask
+  if (live) {
+    ctx.setLineDash([4, 3]);
+    for (const [p, col] of [[bb.price, UP], [ba.price, DOWN]] as const) {
+      const py = y(p);
+      ctx.strokeStyle = col; ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(plotW, py); ctx.stroke();
+      ctx.fillStyle = col; ctx.fillRect(plotW, py - 7, AXIS_W, 14);
+      ctx.fillStyle = 'rgb(15 23 42)'; ctx.fillText(fmt.priceFmt(p), plotW + 4, py);
+    }
+    ctx.setLineDash([]);
+  }
+
+  if (!hover || hover.x > plotW || hover.y > plotH) return;
+
+  // crosshair + readout for the candle under the cursor
+  const i = Math.round(vis.length - 0.5 - (plotW - hover.x) / view.bar);
+  const c = vis[i];
+  ctx.strokeStyle = 'rgba(255,255,255,0.35)';
+  ctx.beginPath(); ctx.moveTo(hover.x, 0); ctx.lineTo(hover.x, plotH); ctx.stroke();
+  ctx.beginPath(); ctx.moveTo(0, hover.y); ctx.lineTo(plotW, hover.y); ctx.stroke();
+  if (!c) return;
+
+  const chg = c.o ? ((c.c - c.o) / c.o) * 100 : 0;
+  const lines = [
+    `${new Date(c.t).toLocaleDateString()} ${fmtTime(c.t, true)}`,
+    `O ${fmt.priceFmt(c.o)}  H ${fmt.priceFmt(c.h)}`,
+    `L ${fmt.priceFmt(c.l)}  C ${fmt.priceFmt(c.c)}  ${chg >= 0 ? '+' : ''}${chg.toFixed(2)}%`,
+    `Vol ${fmt.qtyFmt(c.v)}`,
+    c.buy === null ? 'Buy/Sell  n/a' : `Buy ${fmt.qtyFmt(c.buy)}  Sell ${fmt.qtyFmt(c.v - c.buy)}`,
+    `Trades ${c.trades ?? '—'}`,
+  ];
+  const bw = Math.max(...lines.map(l => ctx.measureText(l).width)) + 12;
+  const bh = lines.length * 14 + 8;
+  const bx = hover.x + bw + 12 > plotW ? hover.x - bw - 8 : hover.x + 8;
+  const by = Math.min(plotH - bh, Math.max(0, hover.y - bh / 2));
+  ctx.fillStyle = 'rgba(15,23,42,0.92)'; ctx.fillRect(bx, by, bw, bh);
+  ctx.strokeStyle = c.c >= c.o ? UP : DOWN; ctx.strokeRect(bx + 0.5, by + 0.5, bw - 1, bh - 1);
+  ctx.fillStyle = 'rgb(229 231 235)';
+  lines.forEach((l, k) => ctx.fillText(l, bx + 6, by + 11 + k * 14));
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { Command, Search } from 'lucide-react';
+import type { ExchangeAdapter, InstrumentInfo } from '@/lib/exchanges';
+import { loadInstruments } from '@/lib/instruments';
+import { COMMANDS, DEFAULT_KEYMAP, formatCombo, fuzzyScore, keymap, type CommandId } from '@/lib/keymap';
+
+const MAX_RESULTS = 50;
+
+type Item =
+  | { kind: 'command'; id: CommandId; label: string; keys: string[]; score: number }
+  | { kind: 'symbol'; symbol: string; label: string; score: number };
+
+export type PaletteScope = 'all' | 'symbols';
+
+/**
+ * Ctrl+K palette: one fuzzy search over page commands and the venue's
+ * markets. Mounted only while open, so every opening starts blank.
+ */
+export default function CommandPalette({ adapter, scope, symbolsDisabled, onCommand, onSymbol, onClose }:{
+  adapter: ExchangeAdapter; scope: PaletteScope;
+  /** Markets can't be switched (during replay); they are left out. */
+  symbolsDisabled?: boolean;
+  onCommand: (id: CommandId) => void; onSymbol: (symbol: string) => void; onClose: () => void;
+}) {
+  const map = useSyncExternalStore(keymap().subscribe, keymap().getState, () => DEFAULT_KEYMAP);
+  const [query, setQuery] = useState('');
+  const [cursor, setCursor] = useState(0);
+  const [markets, setMarkets] = useState<InstrumentInfo[]>([]);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (symbolsDisabled) return;
+    let live = true;
+    loadInstruments(adapter).then(l => { if (live) setMarkets(l.filter(i => i.trading)); }).catch(() => {});
+    return () => { live = false; };
+  }, [adapter, symbolsDisabled]);
+
+  const items = useMemo(() => {
+    const out: Item[] = [];
+    if (scope === 'all') {
+      for (const c of COMMANDS) {
+        if (c.id === 'palette' || (symbolsDisabled && c.group === 'Market')) continue;
+        const score = fuzzyScore(query, `${c.group} ${c.label}`);
+        if (score >= 0) out.push({ kind: 'command', id: c.id, label: c.label, keys: map[c.id], score: score + 1 });
+      }
+    }
+    if (!symbolsDisabled) {
+      // until the listing arrives, the adapter's shortlist keeps the palette useful
+      const list = markets.length ? markets.map(i => ({ symbol: i.symbol, label: `${i.base}/${i.quote}` }))
+        : adapter.symbols.map(o => ({ symbol: o.value, label: o.label }));
+      // a blank query lists commands first and leaves the full market list to typing
+      const cap = query || scope === 'symbols' ? MAX_RESULTS : 0;
+      const hits: Item[] = [];
+      for (const m of list) {
+        const score = Math.max(fuzzyScore(query, m.label), fuzzyScore(query, m.symbol));
+        if (score >= 0) hits.push({ kind: 'symbol', symbol: m.symbol, label: m.label, score });
+      }
+      hits.sort((a, b) => b.score - a.score || a.label.length - b.label.length);
+      out.push(...hits.slice(0, cap));
+    }
+    return query ? out.sort((a, b) => b.score - a.score) : out;
+  }, [query, scope, symbolsDisabled, markets, adapter, map]);
+
+  const active = Math.min(cursor, items.length - 1);
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const run = (it: Item | undefined) => {
+    if (!it) return;
+    onClose();
+    if (it.kind === 'command') onCommand(it.id);
+    else onSymbol(adapter.normalizeSymbol(it.symbol));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm flex items-start justify-center pt-[12vh] px-3" onMouseDown={onClose}>
+      <div className="w-full max-w-lg bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2 px-3 border-b border-slate-800">
+          <Search className="w-4 h-4 text-gray-500" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setCursor(0); }}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') { e.preventDefault(); onClose(); }
+              else if (e.key === 'ArrowDown') { e.preventDefault(); setCursor(Math.min(active + 1, items.length - 1)); }
+              else if (e.key === 'ArrowUp') { e.preventDefault(); setCursor(Math.max(active - 1, 0)); }
+              else if (e.key === 'Enter') { e.preventDefault(); run(items[active]); }
+            }}
+            placeholder={scope === 'symbols' ? `Switch ${adapter.label} market…` : 'Type a command or a symbol…'}
+            className="flex-1 bg-transparent py-3 text-sm focus:outline-none"
+          />
+        </div>
+
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto scrollbar-thin p-1.5">
+          {items.length === 0 && <div className="py-6 text-center text-xs text-gray-500">No matches</div>}
+          {items.map((it, i) => (
+            <button
+              key={it.kind === 'command' ? `c:${it.id}` : `s:${it.symbol}`}
+              onMouseMove={() => { if (i !== active) setCursor(i); }}
+              onClick={() => run(it)}
+              className={`w-full flex items-center justify-between gap-3 px-2.5 py-2 rounded-md text-left text-xs ${i === active ? 'bg-emerald-500/10 text-emerald-200' : 'text-gray-300'}`}
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                {it.kind === 'command' ? <Command className="w-3.5 h-3.5 text-gray-500 shrink-0" /> : <span className="text-[10px] text-gray-500 uppercase w-3.5 shrink-0">$</span>}
+                <span className={`truncate ${it.kind === 'symbol' ? 'font-mono' : ''}`}>{it.label}</span>
+              </span>
+              {it.kind === 'command' && it.keys[0] && <Kbd combo={it.keys[0]} />}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3 px-3 py-1.5 border-t border-slate-800 text-[10px] text-gray-500">
+          <span>↑↓ to move</span><span>Enter to run</span><span>Esc to close</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function Kbd({ combo }:{ combo: string }) {
+  return (
+    <kbd className="px-1.5 py-0.5 rounded border border-slate-700 bg-slate-800 text-[10px] font-mono text-gray-300 whitespace-nowrap">
+      {formatCombo(combo)}
+    </kbd>
+  );
+}
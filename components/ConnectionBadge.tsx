@@ -0,0 +1,40 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, PauseCircle, RefreshCw, Timer } from 'lucide-react';
+import type { ConnState, FeedStatus } from '@/lib/feed';
+
+const LOOK: Record<ConnState, { label: string; tone: string; icon: React.ReactNode }> = {
+  connecting: { label: 'CONNECTING', tone: 'bg-slate-500/10 border-slate-500/30 text-slate-300', icon: <Loader2 className="w-4 h-4 animate-spin" /> },
+  syncing: { label: 'SYNCING', tone: 'bg-cyan-500/10 border-cyan-500/20 text-cyan-400', icon: <RefreshCw className="w-4 h-4 animate-spin" /> },
+  live: { label: 'LIVE', tone: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400', icon: <CheckCircle2 className="w-4 h-4" /> },
+  degraded: { label: 'DEGRADED', tone: 'bg-amber-500/10 border-amber-500/20 text-amber-400', icon: <AlertTriangle className="w-4 h-4" /> },
+  backoff: { label: 'RETRY', tone: 'bg-red-500/10 border-red-500/20 text-red-400', icon: <Timer className="w-4 h-4" /> },
+  paused: { label: 'PAUSED', tone: 'bg-slate-800/80 border-slate-700/50 text-gray-400', icon: <PauseCircle className="w-4 h-4" /> },
+};
+
+/** Header badge for the feed's connection state, with the retry countdown while backing off. */
+export default function ConnectionBadge({ status }:{ status: FeedStatus }) {
+  const [now, setNow] = useState(0);
+  useEffect(() => {
+    if (status.state !== 'backoff') return;
+    const tick = () => setNow(Date.now());
+    const first = setTimeout(tick, 0), id = setInterval(tick, 250);
+    return () => { clearTimeout(first); clearInterval(id); };
+  }, [status.state, status.retryAt]);
+
+  const look = LOOK[status.state];
+  const streams = Object.entries(status.streams).map(([k, s]) => `${k}: ${s}`).join(', ');
+  const title = status.state === 'paused' ? 'Paused while the tab is hidden; resumes with a fresh snapshot'
+    : `${streams || 'no streams'} · ${status.reconnects} reconnects`;
+  const secs = now ? Math.max(0, Math.ceil((status.retryAt - now) / 1000)) : null;
+
+  return (
+    <div title={title} className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg border min-w-[110px] sm:min-w-[130px] justify-center ${look.tone}`}>
+      {look.icon}
+      <span className="text-[10px] sm:text-xs font-bold tabular-nums">
+        {look.label}{status.state === 'backoff' && secs !== null ? ` ${secs}s` : ''}
+      </span>
+    </div>
+  );
+}
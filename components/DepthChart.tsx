@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BarChart3, RotateCcw } from 'lucide-react';
+import type { BookReader } from '@/lib/orderbook';
+import { cumulativeDepth, depthAt, type DepthCurve } from '@/lib/depth';
+
+const RANGES = [0.5, 2, 10];              // ± % of mid
+const MAX_ZOOM = 50;
+
+interface View { zoom: number; pan: number; }   // pan: centre offset as a fraction of mid
+interface Hover { x: number; y: number; }
+
+/**
+ * Stepped cumulative bid/ask depth around the mid, drawn straight from the
+ * book. The canvas polls `book.version` on its own animation frame, so the
+ * depth stream never re-renders the surrounding page.
+ */
+export default function DepthChart({ book, paused, priceFmt, qtyFmt }:{
+  book: BookReader; paused: boolean; priceFmt:(n:number)=>string; qtyFmt:(n:number)=>string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [range, setRange] = useState<number>(2);
+  const viewRef = useRef<View>({ zoom: 1, pan: 0 });
+  const hoverRef = useRef<Hover | null>(null);
+  const dragRef = useRef<{ x: number; pan: number } | null>(null);
+  const dirtyRef = useRef(true);
+  const fmtRef = useRef({ priceFmt, qtyFmt });
+  const pausedRef = useRef(paused);
+
+  useEffect(() => { fmtRef.current = { priceFmt, qtyFmt }; dirtyRef.current = true; }, [priceFmt, qtyFmt]);
+  useEffect(() => { viewRef.current = { zoom: 1, pan: 0 }; dirtyRef.current = true; }, [range]);
+  useEffect(() => { pausedRef.current = paused; }, [paused]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    let raf = 0;
+    let seen = -1;
+    const ro = new ResizeObserver(() => { dirtyRef.current = true; });
+    ro.observe(canvas);
+
+    const frame = () => {
+      raf = requestAnimationFrame(frame);
+      // while paused only interaction (hover, zoom, pan) redraws
+      if ((pausedRef.current || seen === book.version) && !dirtyRef.current) return;
+      seen = book.version; dirtyRef.current = false;
+      draw(ctx, canvas, book, range, viewRef.current, hoverRef.current, fmtRef.current);
+    };
+    raf = requestAnimationFrame(frame);
+    return () => { cancelAnimationFrame(raf); ro.disconnect(); };
+  }, [book, range]);
+
+  const onWheel = (e: React.WheelEvent) => {
+    const v = viewRef.current;
+    v.zoom = Math.max(1, Math.min(MAX_ZOOM, v.zoom * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+    dirtyRef.current = true;
+  };
+  const onPointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { x: e.clientX, pan: viewRef.current.pan };
+    (e.target as Element).setPointerCapture(e.pointerId);
+  };
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    hoverRef.current = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const d = dragRef.current;
+    if (d) {
+      const half = range / 100 / viewRef.current.zoom;
+      viewRef.current.pan = d.pan - ((e.clientX - d.x) / rect.width) * 2 * half;
+    }
+    dirtyRef.current = true;
+  };
+  const onPointerUp = () => { dragRef.current = null; };
+  const onLeave = () => { hoverRef.current = null; dragRef.current = null; dirtyRef.current = true; };
+  const resetView = () => { viewRef.current = { zoom: 1, pan: 0 }; dirtyRef.current = true; };
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="flex items-center justify-between px-3 sm:px-4 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-300">
+          <BarChart3 className="w-4 h-4 text-emerald-400" /> Depth
+        </span>
+        <div className="flex items-center gap-1.5">
+          {RANGES.map(r => (
+            <button key={r} onClick={() => setRange(r)}
+              className={`px-2 py-1 rounded-md border text-[11px] font-semibold ${range===r ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`}>
+              ±{r}%
+            </button>
+          ))}
+          <button onClick={resetView} className="p-1 rounded-md bg-slate-800 border border-slate-700 text-gray-300" title="Reset zoom and pan">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="block w-full h-[220px] sm:h-[260px] cursor-crosshair touch-none"
+        onWheel={onWheel} onPointerDown={onPointerDown} onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp} onPointerLeave={onLeave} onDoubleClick={resetView}
+      />
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// drawing
+// ----------------------------------------------------------------------------
+const BID = { line: 'rgb(52 211 153)', fill: 'rgba(16,185,129,0.18)' };
+const ASK = { line: 'rgb(248 113 113)', fill: 'rgba(239,68,68,0.18)' };
+const AXIS_H = 18;
+
+function draw(
+  ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, book: BookReader,
+  rangePct: number, view: View, hover: Hover | null,
+  fmt: { priceFmt:(n:number)=>string; qtyFmt:(n:number)=>string },
+) {
+  const dpr = window.devicePixelRatio || 1;
+  const w = canvas.clientWidth, h = canvas.clientHeight;
+  if (canvas.width !== Math.round(w * dpr) || canvas.height !== Math.round(h * dpr)) {
+    canvas.width = Math.round(w * dpr); canvas.height = Math.round(h * dpr);
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, w, h);
+
+  const bb = book.bestBid(), ba = book.bestAsk();
+  ctx.font = '11px ui-monospace, monospace';
+  if (!bb || !ba || ba.price <= bb.price) {
+    ctx.fillStyle = 'rgb(107 114 128)';
+    ctx.fillText('Waiting for book...', 12, h / 2);
+    return;
+  }
+
+  const mid = (bb.price + ba.price) / 2;
+  const half = mid * rangePct / 100 / view.zoom;
+  const centre = mid * (1 + view.pan);
+  const lo = centre - half, hi = centre + half;
+  const plotH = h - AXIS_H;
+
+  const bids = cumulativeDepth(book.levels('bid'), 'bid', lo);
+  const asks = cumulativeDepth(book.levels('ask'), 'ask', hi);
+  const maxCum = Math.max(bids.cum[bids.cum.length - 1] ?? 0, asks.cum[asks.cum.length - 1] ?? 0) * 1.08 || 1;
+
+  const x = (p: number) => ((p - lo) / (hi - lo)) * w;
+  const y = (c: number) => plotH - (c / maxCum) * (plotH - 8);
+
+  drawSide(ctx, bids, x, y, plotH, lo, BID);
+  drawSide(ctx, asks, x, y, plotH, hi, ASK);
+
+  // mid line + axis
+  ctx.strokeStyle = 'rgba(250,204,21,0.5)'; ctx.setLineDash([3, 3]);
+  ctx.beginPath(); ctx.moveTo(x(mid), 0); ctx.lineTo(x(mid), plotH); ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.fillStyle = 'rgb(107 114 128)';
+  ctx.textBaseline = 'middle';
+  for (let i = 0; i <= 4; i++) {
+    const p = lo + ((hi - lo) * i) / 4;
+    const label = fmt.priceFmt(p);
+    const tx = Math.min(w - ctx.measureText(label).width - 4, Math.max(4, x(p) - ctx.measureText(label).width / 2));
+    ctx.fillText(label, tx, h - AXIS_H / 2);
+  }
+  ctx.fillText(fmt.qtyFmt(maxCum / 1.08), 4, 10);
+
+  if (!hover || hover.y > plotH) return;
+
+  // crosshair + readout
+  const price = lo + (hover.x / w) * (hi - lo);
+  const curve = price <= mid ? bids : asks;
+  const at = depthAt(curve, price);
+  ctx.strokeStyle = 'rgba(255,255,255,0.35)';
+  ctx.beginPath(); ctx.moveTo(hover.x, 0); ctx.lineTo(hover.x, plotH); ctx.stroke();
+  if (at) { ctx.beginPath(); ctx.moveTo(0, y(at.cum)); ctx.lineTo(w, y(at.cum)); ctx.stroke(); }
+
+  const bps = ((price - mid) / mid) * 1e4;
+  const lines = [
+    `Price  ${fmt.priceFmt(price)}`,
+    `Cum    ${fmt.qtyFmt(at?.cum ?? 0)}`,
+    `Notl   ${(at?.notional ?? 0).toLocaleString(undefined, { maximumFractionDigits: 0 })}`,
+    `Mid    ${bps >= 0 ? '+' : ''}${bps.toFixed(1)} bps`,
+  ];
+  const bw = Math.max(...lines.map(l => ctx.measureText(l).width)) + 12;
+  const bh = lines.length * 14 + 8;
+  const bx = hover.x + bw + 12 > w ? hover.x - bw - 8 : hover.x + 8;
+  const by = Math.min(plotH - bh, Math.max(0, hover.y - bh / 2));
+  ctx.fillStyle = 'rgba(15,23,42,0.92)'; ctx.fillRect(bx, by, bw, bh);
+  ctx.strokeStyle = curve.side === 'bid' ? BID.line : ASK.line; ctx.strokeRect(bx + 0.5, by + 0.5, bw - 1, bh - 1);
+  ctx.fillStyle = 'rgb(229 231 235)';
+  lines.forEach((l, i) => ctx.fillText(l, bx + 6, by + 11 + i * 14));
+}
+
+function drawSide(
+  ctx: CanvasRenderingContext2D, c: DepthCurve,
+  x: (p:number)=>number, y: (c:number)=>number, base: number, edge: number,
+  col: { line: string; fill: string },
+) {
+  if (!c.prices.length) return;
+  ctx.beginPath();
+  ctx.moveTo(x(c.prices[0]), base);
+  let prevY = base;
+  for (let i = 0; i < c.prices.length; i++) {
+    const px = x(c.prices[i]);
+    ctx.lineTo(px, prevY);
+    prevY = y(c.cum[i]);
+    ctx.lineTo(px, prevY);
+  }
+  ctx.lineTo(x(edge), prevY);
+  ctx.strokeStyle = col.line; ctx.lineWidth = 1.5; ctx.stroke(); ctx.lineWidth = 1;
+  ctx.lineTo(x(edge), base); ctx.closePath();
+  ctx.fillStyle = col.fill; ctx.fill();
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import { tickStep, type PriceStep } from '@/lib/decimal';
+import { MAX_TICK_MULT, niceSteps, PCT_STEPS, TICK_MULTS, type Grouping, type GroupingKind } from '@/lib/grouping';
+
+const MODES: { kind: GroupingKind; label: string; title: string }[] = [
+  { kind: 'ticks', label: 'Ticks', title: 'Whole multiples of the tick size' },
+  { kind: 'price', label: 'Price', title: 'Round price steps: 0.5, 1, 5, 10, 50…' },
+  { kind: 'pct', label: '% mid', title: 'A share of the mid price, kept on the tick grid' },
+];
+
+const nearest = (list: number[], v: number) => list.reduce((a, b) => Math.abs(Math.log(b / v)) < Math.abs(Math.log(a / v)) ? b : a);
+
+/** Grouping mode tabs plus that mode's steps; switching mode keeps roughly the current step. */
+export default function GroupingControl({ grouping, onChange, tick, mid, step, priceFmt, hint }:{
+  grouping: Grouping; onChange: (g: Grouping) => void;
+  tick: string; mid: number;
+  /** The step `grouping` currently resolves to. */
+  step: PriceStep;
+  priceFmt: (n: number) => string;
+  hint?: string;
+}) {
+  const nice = niceSteps(tick, mid), niceValues = nice.map(Number);
+
+  const switchTo = (kind: GroupingKind) => {
+    if (kind === grouping.kind) return;
+    if (kind === 'ticks') onChange({ kind, mult: Math.min(MAX_TICK_MULT, Math.max(1, Math.round(step.value / tickStep(tick).value))) });
+    else if (kind === 'price') onChange({ kind, step: nice.length ? nice[niceValues.indexOf(nearest(niceValues, step.value))] : tick });
+    else onChange({ kind, pct: mid > 0 ? nearest(PCT_STEPS, step.value / mid * 100) : 0.1 });
+  };
+
+  const commitMult = (s: string) => {
+    const n = Math.round(Number(s));
+    if (Number.isFinite(n) && n >= 1 && n <= MAX_TICK_MULT) onChange({ kind: 'ticks', mult: n });
+  };
+
+  const chip = (on: boolean) => `px-3 py-1.5 rounded-md border text-xs font-semibold ${on ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-gray-400" title={hint}>Group by</span>
+        <div className="inline-flex rounded-md border border-slate-700 overflow-hidden">
+          {MODES.map(m => (
+            <button key={m.kind} onClick={() => switchTo(m.kind)} title={m.title}
+              className={`px-2.5 py-1 text-[11px] font-semibold ${grouping.kind === m.kind ? 'bg-emerald-600/20 text-emerald-300' : 'bg-slate-800 text-gray-400'}`}>
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <span className="text-[11px] text-gray-500 font-mono ml-1">= {priceFmt(step.value)} per level</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {grouping.kind === 'ticks' && <>
+          {TICK_MULTS.map(m => <button key={m} onClick={() => onChange({ kind: 'ticks', mult: m })} className={chip(grouping.mult === m)}>×{m}</button>)}
+          <input
+            key={grouping.mult}
+            type="number" min={1} max={MAX_TICK_MULT} step={1} defaultValue={grouping.mult}
+            onBlur={(e) => commitMult(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitMult(e.currentTarget.value); }}
+            className="w-20 text-center font-mono text-xs bg-slate-800 border border-slate-700 rounded-md py-1.5"
+            title="Any whole number of ticks"
+          />
+        </>}
+        {grouping.kind === 'price' && (nice.length
+          ? nice.map(s => <button key={s} onClick={() => onChange({ kind: 'price', step: s })} className={chip(grouping.step === s)}>{s}</button>)
+          : <span className="text-[11px] text-gray-500">No round steps fit this tick size</span>)}
+        {grouping.kind === 'pct' && PCT_STEPS.map(p => (
+          <button key={p} onClick={() => onChange({ kind: 'pct', pct: p })} className={chip(grouping.pct === p)}>{p}%</button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import React, { memo } from 'react';
+import { HeartPulse, RefreshCw } from 'lucide-react';
+import { STALE_OPTIONS, type HealthLevel, type HealthMonitor } from '@/lib/health';
+import { fmtAge } from '@/lib/format';
+
+const DOT: Record<HealthLevel, string> = { ok: 'bg-emerald-400', warn: 'bg-amber-400', error: 'bg-red-500' };
+const TEXT: Record<HealthLevel, string> = { ok: 'text-emerald-300', warn: 'text-amber-300', error: 'text-red-300' };
+const LOG_ROWS = 50;
+
+/**
+ * Feed health: integrity checks, per-stream liveness and the event log.
+ * Memoized on the monitor's version, which moves once per check.
+ */
+const HealthPanel = memo(function HealthPanel({ monitor, staleMs, onStaleMs, auto, onAuto, onResync, note }:{
+  monitor: HealthMonitor; version: number;
+  staleMs: number; onStaleMs: (ms: number) => void;
+  auto: boolean; onAuto: (on: boolean) => void;
+  /** Undefined when this source can't be resynced from the page. */
+  onResync?: () => void;
+  /** Shown instead of the checks when they aren't running. */
+  note?: string;
+}) {
+  const level = monitor.level;
+  const btn = (on: boolean) => `px-2 py-1 rounded-md border text-[11px] font-semibold ${on ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`;
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="flex items-center justify-between px-3 sm:px-4 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-300">
+          <HeartPulse className={`w-4 h-4 ${TEXT[level]}`} /> Feed health
+          <span className={`w-2 h-2 rounded-full ${DOT[level]}`} />
+        </span>
+        <div className="flex items-center gap-1.5">
+          <button onClick={() => onAuto(!auto)} disabled={!onResync} className={`${btn(auto && !!onResync)} disabled:opacity-40`}
+            title="Resnapshot automatically when the book drifts from the ticker or stays crossed">
+            Auto
+          </button>
+          <button onClick={onResync} disabled={!onResync} className={`${btn(false)} inline-flex items-center gap-1 disabled:opacity-40`}
+            title={onResync ? 'Throw the book away and sync it from a fresh snapshot' : 'The relay keeps its own book in sync'}>
+            <RefreshCw className="w-3 h-3" /> Resync
+          </button>
+        </div>
+      </div>
+
+      {note ? <div className="px-3 py-3 text-xs text-gray-500">{note}</div> : (
+        <div className="p-3 flex flex-col gap-3">
+          <div className="grid grid-cols-2 gap-1.5">
+            {monitor.checks.map(c => (
+              <div key={c.id} className="px-2 py-1.5 rounded-md bg-slate-800/40">
+                <div className="flex items-center gap-1.5 text-[10px] uppercase text-gray-400">
+                  <span className={`w-1.5 h-1.5 rounded-full ${DOT[c.level]}`} /> {c.label}
+                </div>
+                <div className={`text-[11px] font-mono ${TEXT[c.level]}`}>{c.detail}</div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-[10px] uppercase text-gray-400 font-semibold">Streams</span>
+              <span className="flex items-center gap-1">
+                <span className="text-[11px] text-gray-500">stale after</span>
+                {STALE_OPTIONS.map(ms => <button key={ms} onClick={() => onStaleMs(ms)} className={btn(staleMs === ms)}>{ms / 1000}s</button>)}
+              </span>
+            </div>
+            {monitor.streams.map(s => (
+              <div key={s.kind} className="flex items-center justify-between px-2 py-1 font-mono text-[11px]">
+                <span className="flex items-center gap-1.5 text-gray-300">
+                  <span className={`w-1.5 h-1.5 rounded-full ${DOT[s.stale ? 'warn' : 'ok']}`} /> {s.kind}
+                </span>
+                <span className="text-gray-500">{s.frames.toLocaleString()} msgs</span>
+                <span className={s.stale ? 'text-amber-300' : 'text-gray-400'}>{fmtAge(s.idleMs)} ago</span>
+              </div>
+            ))}
+            {monitor.streams.length === 0 && <div className="text-[11px] text-gray-500 px-2">Waiting for the feed…</div>}
+          </div>
+
+          <div>
+            <div className="text-[10px] uppercase text-gray-400 font-semibold mb-1">Events</div>
+            <div className="max-h-40 overflow-y-auto flex flex-col gap-0.5">
+              {monitor.events.length === 0 && <div className="text-[11px] text-gray-500 px-2">Nothing yet.</div>}
+              {monitor.events.slice(0, LOG_ROWS).map((e, i) => (
+                <div key={monitor.events.length - i} className="flex gap-2 px-2 text-[11px]">
+                  <span className="text-gray-500 shrink-0 font-mono">{new Date(e.at).toLocaleTimeString()}</span>
+                  <span className={TEXT[e.level]}>{e.message}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}, (a, b) => a.version === b.version && a.monitor === b.monitor && a.staleMs === b.staleMs && a.auto === b.auto && a.onResync === b.onResync && a.note === b.note);
+
+export default HealthPanel;
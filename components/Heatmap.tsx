@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Flame } from 'lucide-react';
+import type { LiquidityHistory } from '@/lib/heatmap';
+
+const WINDOWS = [
+  { label: '5m', ms: 5 * 60_000 },
+  { label: '15m', ms: 15 * 60_000 },
+  { label: '30m', ms: 30 * 60_000 },
+  { label: '1h', ms: 60 * 60_000 },
+];
+const AXIS_W = 72;
+const AXIS_H = 16;
+
+/**
+ * Bookmap-style view: time across, price up, cell colour by resting size,
+ * with aggTrade prints as bubbles. Reads the shared LiquidityHistory and
+ * redraws on its own animation frame.
+ */
+export default function Heatmap({ history, paused, priceFmt }:{
+  history: LiquidityHistory; paused: boolean; priceFmt:(n:number)=>string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [windowMs, setWindowMs] = useState<number>(WINDOWS[0].ms);
+  const [contrast, setContrast] = useState<number>(1);
+  const [showTrades, setShowTrades] = useState<boolean>(true);
+  const optsRef = useRef({ windowMs, contrast, showTrades, paused, priceFmt });
+  const dirtyRef = useRef(true);
+
+  useEffect(() => {
+    optsRef.current = { windowMs, contrast, showTrades, paused, priceFmt };
+    dirtyRef.current = true;
+  }, [windowMs, contrast, showTrades, paused, priceFmt]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const layer = document.createElement('canvas');
+    let raf = 0, seen = -1;
+    const ro = new ResizeObserver(() => { dirtyRef.current = true; });
+    ro.observe(canvas);
+
+    const frame = () => {
+      raf = requestAnimationFrame(frame);
+      if ((optsRef.current.paused || seen === history.version) && !dirtyRef.current) return;
+      seen = history.version; dirtyRef.current = false;
+      draw(ctx, canvas, layer, history, optsRef.current);
+    };
+    raf = requestAnimationFrame(frame);
+    return () => { cancelAnimationFrame(raf); ro.disconnect(); };
+  }, [history]);
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-3 sm:px-4 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-300">
+          <Flame className="w-4 h-4 text-orange-400" /> Liquidity heatmap
+        </span>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {WINDOWS.map(w => (
+            <button key={w.ms} onClick={() => setWindowMs(w.ms)}
+              className={`px-2 py-1 rounded-md border text-[11px] font-semibold ${windowMs===w.ms ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`}>
+              {w.label}
+            </button>
+          ))}
+          <label className="flex items-center gap-1 text-[11px] text-gray-400 ml-1">
+            Scale
+            <input type="range" min={-2} max={2} step={0.1} value={Math.log2(contrast)}
+              onChange={(e) => setContrast(Math.pow(2, Number(e.target.value)))}
+              className="w-20 h-2 accent-orange-400" />
+          </label>
+          <button onClick={() => setShowTrades(s => !s)}
+            className={`px-2 py-1 rounded-md border text-[11px] font-semibold ${showTrades ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`}>
+            Trades
+          </button>
+        </div>
+      </div>
+      <canvas ref={canvasRef} className="block w-full h-[260px] sm:h-[320px]" />
+    </div>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// drawing
+// ----------------------------------------------------------------------------
+const STOPS: [number, number, number][] = [[11, 16, 32], [30, 58, 138], [6, 182, 212], [250, 204, 21], [255, 255, 255]];
+const PALETTE = (() => {
+  const out = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    const f = (i / 255) * (STOPS.length - 1);
+    const k = Math.min(STOPS.length - 2, Math.floor(f)), r = f - k;
+    const [a, b] = [STOPS[k], STOPS[k + 1]];
+    const c = a.map((v, j) => Math.round(v + (b[j] - v) * r));
+    out[i] = (255 << 24) | (c[2] << 16) | (c[1] << 8) | c[0];   // little-endian RGBA
+  }
+  return out;
+})();
+
+function percentile(xs: Float32Array, q: number): number {
+  if (!xs.length) return 1;
+  const s = Array.from(xs).sort((a, b) => a - b);
+  return s[Math.min(s.length - 1, Math.floor(q * s.length))] || 1;
+}
+
+function draw(
+  ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, layer: HTMLCanvasElement,
+  history: LiquidityHistory,
+  o: { windowMs: number; contrast: number; showTrades: boolean; priceFmt:(n:number)=>string },
+) {
+  const dpr = window.devicePixelRatio || 1;
+  const w = canvas.clientWidth, h = canvas.clientHeight;
+  if (canvas.width !== Math.round(w * dpr) || canvas.height !== Math.round(h * dpr)) {
+    canvas.width = Math.round(w * dpr); canvas.height = Math.round(h * dpr);
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, w, h);
+  ctx.font = '10px ui-monospace, monospace';
+
+  const samples = history.samples;
+  const pw = Math.max(1, Math.floor(w - AXIS_W)), ph = Math.max(1, Math.floor(h - AXIS_H));
+  if (!samples.length) {
+    ctx.fillStyle = 'rgb(107 114 128)';
+    ctx.fillText('Collecting book history...', 12, h / 2);
+    return;
+  }
+
+  const tEnd = Math.max(samples[samples.length - 1].t, Date.now());
+  const tStart = tEnd - o.windowMs;
+  let first = samples.findIndex(s => s.t >= tStart);
+  if (first === -1) first = samples.length - 1;
+  if (first > 0) first--;                       // the column that spans tStart
+
+  let lo = Infinity, hi = -Infinity;
+  for (let i = first; i < samples.length; i++) { lo = Math.min(lo, samples[i].mid); hi = Math.max(hi, samples[i].mid); }
+  const latest = samples[samples.length - 1];
+  const pad = Math.max(latest.mid * 0.002, latest.step * 30);
+  lo -= pad; hi += pad;
+
+  const x = (t: number) => ((t - tStart) / o.windowMs) * pw;
+  const y = (p: number) => ((hi - p) / (hi - lo)) * ph;
+  const ref = percentile(latest.sizes, 0.95) / o.contrast;
+
+  // heat layer at CSS-pixel resolution, scaled up in one drawImage
+  if (layer.width !== pw || layer.height !== ph) { layer.width = pw; layer.height = ph; }
+  const lctx = layer.getContext('2d');
+  if (!lctx) return;
+  const img = lctx.createImageData(pw, ph);
+  const px = new Uint32Array(img.data.buffer);
+  px.fill(PALETTE[0]);
+
+  let lastX = -1;
+  for (let i = samples.length - 1; i >= first; i--) {
+    const s = samples[i];
+    const x0 = Math.max(0, Math.floor(x(s.t)));
+    const x1 = i === samples.length - 1 ? pw : Math.min(pw, lastX < 0 ? pw : lastX);
+    lastX = x0;
+    if (x1 <= x0) continue;
+    for (let j = 0; j < s.prices.length; j++) {
+      const p = s.prices[j];
+      const top = j < s.bidCount ? p + s.step : p;
+      const y0 = Math.max(0, Math.floor(y(top)));
+      const y1 = Math.min(ph, Math.max(y0 + 1, Math.ceil(y(top - s.step))));
+      if (y0 >= ph || y1 <= 0) continue;
+      const c = PALETTE[Math.min(255, Math.round(Math.pow(Math.min(1, s.sizes[j] / ref), 0.6) * 255))];
+      for (let yy = y0; yy < y1; yy++) px.fill(c, yy * pw + x0, yy * pw + x1);
+    }
+  }
+  lctx.putImageData(img, 0, 0);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(layer, 0, 0, pw, ph);
+
+  // mid trace
+  ctx.strokeStyle = 'rgba(255,255,255,0.6)'; ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let i = first; i < samples.length; i++) {
+    const s = samples[i];
+    if (i === first) ctx.moveTo(Math.max(0, x(s.t)), y(s.mid)); else ctx.lineTo(x(s.t), y(s.mid));
+  }
+  ctx.stroke();
+
+  // trade bubbles, sized relative to the average print in view
+  if (o.showTrades) {
+    const tr = history.trades;
+    let k = tr.length - 1, sum = 0, n = 0;
+    while (k >= 0 && tr[k].t >= tStart) { sum += tr[k].quantity; n++; k--; }
+    const avg = n ? sum / n : 1;
+    for (let i = k + 1; i < tr.length; i++) {
+      const t = tr[i];
+      const r = Math.min(14, 1.5 + Math.sqrt(t.quantity / avg) * 2);
+      ctx.beginPath(); ctx.arc(x(t.t), y(t.price), r, 0, Math.PI * 2);
+      ctx.fillStyle = t.isBuyerMaker ? 'rgba(239,68,68,0.55)' : 'rgba(16,185,129,0.55)';
+      ctx.strokeStyle = t.isBuyerMaker ? 'rgb(248 113 113)' : 'rgb(52 211 153)';
+      ctx.fill(); ctx.stroke();
+    }
+  }
+
+  // axes
+  ctx.fillStyle = 'rgb(15 23 42)'; ctx.fillRect(pw, 0, AXIS_W, h); ctx.fillRect(0, ph, w, AXIS_H);
+  ctx.fillStyle = 'rgb(148 163 184)'; ctx.textBaseline = 'middle';
+  for (let i = 0; i <= 5; i++) {
+    const p = hi - ((hi - lo) * i) / 5;
+    ctx.fillText(o.priceFmt(p), pw + 4, Math.min(ph - 6, Math.max(6, y(p))));
+  }
+  for (let i = 0; i <= 4; i++) {
+    const t = tStart + (o.windowMs * i) / 4;
+    const label = new Date(t).toLocaleTimeString();
+    const tx = Math.min(pw - ctx.measureText(label).width, Math.max(0, x(t) - ctx.measureText(label).width / 2));
+    ctx.fillText(label, tx, ph + AXIS_H / 2);
+  }
+}
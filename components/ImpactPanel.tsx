@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AlertTriangle, Calculator, X } from 'lucide-react';
+import type { ImpactOrder, ImpactResult, ImpactSide, ImpactUnit } from '@/lib/impact';
+import { fmtCompact, fmtFixed } from '@/lib/format';
+
+/** Market-order cost calculator; the order lives in the page so the book can highlight what it consumes. */
+export default function ImpactPanel({ order, result, onChange, base, quote, snapshotDepth, priceFmt, qtyFmt }:{
+  order: ImpactOrder | null; result: ImpactResult | null; onChange: (o: ImpactOrder | null) => void;
+  base: string; quote: string; snapshotDepth?: number;
+  priceFmt: (n: number) => string; qtyFmt: (n: number) => string;
+}) {
+  const [side, setSide] = useState<ImpactSide>(order?.side ?? 'buy');
+  const [unit, setUnit] = useState<ImpactUnit>(order?.unit ?? 'base');
+  const [qty, setQty] = useState<string>(order ? String(order.qty) : '');
+
+  const submit = (patch: { side?: ImpactSide; unit?: ImpactUnit; qty?: string }) => {
+    const s = patch.side ?? side, u = patch.unit ?? unit, q = patch.qty ?? qty;
+    if (patch.side) setSide(s);
+    if (patch.unit) setUnit(u);
+    if (patch.qty !== undefined) setQty(q);
+    const n = Number(q);
+    onChange(q.trim() !== '' && n > 0 ? { side: s, unit: u, qty: n } : null);
+  };
+
+  const btn = (on: boolean) => `px-2.5 py-1 rounded-md border text-[11px] font-semibold ${on ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`;
+  const stat = (label: string, value: string, tone = 'text-gray-100') => (
+    <div className="bg-slate-800/40 rounded-md px-2 py-1.5">
+      <div className="text-[9px] sm:text-[10px] text-gray-400 uppercase">{label}</div>
+      <div className={`text-xs sm:text-sm font-mono ${tone}`}>{value}</div>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="flex items-center justify-between px-3 sm:px-4 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-300">
+          <Calculator className="w-4 h-4 text-emerald-400" /> Market Impact
+        </span>
+        {order && (
+          <button onClick={() => submit({ qty: '' })} className="p-1 text-gray-500 hover:text-gray-300" aria-label="clear order"><X className="w-3.5 h-3.5" /></button>
+        )}
+      </div>
+
+      <div className="p-3 flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-1.5">
+          <button onClick={() => submit({ side: 'buy' })} className={btn(side === 'buy')}>Buy</button>
+          <button onClick={() => submit({ side: 'sell' })} className={btn(side === 'sell')}>Sell</button>
+          <input
+            value={qty} onChange={(e) => submit({ qty: e.target.value })} placeholder="quantity" inputMode="decimal"
+            className="w-28 px-2 py-1 bg-slate-800 border border-slate-700 rounded-md font-mono text-xs"
+          />
+          <button onClick={() => submit({ unit: 'base' })} className={btn(unit === 'base')}>{base}</button>
+          <button onClick={() => submit({ unit: 'quote' })} className={btn(unit === 'quote')}>{quote}</button>
+        </div>
+
+        {order && !result && <div className="text-xs text-gray-500">Waiting for the book…</div>}
+        {result && (<>
+          <div className="grid grid-cols-2 sm:grid-cols-3 2xl:grid-cols-2 gap-1.5">
+            {stat('Avg fill', `$${priceFmt(result.avgPrice)}`)}
+            {stat('Worst price', `$${priceFmt(result.worstPrice)}`)}
+            {stat('Slip vs mid', `${fmtFixed(result.slipMidBps, 2)} bps`, result.slipMidBps > 10 ? 'text-orange-300' : 'text-gray-100')}
+            {stat('Slip vs best', `${fmtFixed(result.slipBestBps, 2)} bps`)}
+            {stat('Filled', `${qtyFmt(result.filled)} ${base}`)}
+            {stat('Notional', `${fmtCompact(result.notional)} ${quote}`)}
+            {stat('Levels', String(result.levels))}
+          </div>
+          {(!result.complete || result.beyondSnapshot) && (
+            <div className="flex items-start gap-2 px-2 py-1.5 rounded-md bg-yellow-500/10 border border-yellow-500/30 text-[11px] text-yellow-300">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+              <span>
+                {!result.complete
+                  ? 'The local book runs out before this order fills; the figures cover only what it holds.'
+                  : `Walks past the ${snapshotDepth}-level snapshot; deeper levels come from deltas alone and may be incomplete.`}
+              </span>
+            </div>
+          )}
+        </>)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import React, { memo } from 'react';
+import { Download, Microscope } from 'lucide-react';
+import { IMBALANCE_DEPTHS, LIQUIDITY_BPS, SAMPLE_MS, type MicroKey, type MicroSeries } from '@/lib/micro';
+import { downloadText } from '@/lib/download';
+import { fmtCompact, fmtFixed } from '@/lib/format';
+
+// samples drawn per sparkline: the last five minutes
+const SPARK_POINTS = Math.round(300_000 / SAMPLE_MS);
+
+/** `points` is the full width in samples; shorter series are drawn right-aligned. */
+export function Sparkline({ values, zero = false, tone, points = SPARK_POINTS }:{ values: number[]; zero?: boolean; tone: string; points?: number }) {
+  if (values.length < 2) return <div className="h-8" />;
+  let lo = Infinity, hi = -Infinity;
+  for (const v of values) { if (v < lo) lo = v; if (v > hi) hi = v; }
+  if (zero) { lo = Math.min(lo, 0); hi = Math.max(hi, 0); }
+  const span = hi - lo || 1;
+  const x = (i: number) => (i / (points - 1)) * 100;
+  const y = (v: number) => 30 - ((v - lo) / span) * 28 - 1;
+  const off = Math.max(0, points - values.length);
+  const pts = values.map((v, i) => `${x(i + off).toFixed(2)},${y(v).toFixed(2)}`).join(' ');
+  return (
+    <svg viewBox="0 0 100 30" preserveAspectRatio="none" className="w-full h-8">
+      {zero && lo < 0 && hi > 0 && <line x1="0" x2="100" y1={y(0)} y2={y(0)} stroke="rgb(71 85 105)" strokeWidth="0.5" vectorEffect="non-scaling-stroke" />}
+      <polyline points={pts} fill="none" stroke="currentColor" strokeWidth="1.25" vectorEffect="non-scaling-stroke" className={tone} />
+    </svg>
+  );
+}
+
+interface Tile { key: MicroKey; label: string; fmt: 'price' | 'pct' | 'bps' | 'notional'; zero?: boolean; }
+
+const TILES: Tile[] = [
+  { key: 'microprice', label: 'Microprice', fmt: 'price' },
+  { key: 'wmid5', label: 'Weighted mid (5)', fmt: 'price' },
+  { key: 'spreadBps', label: 'Spread bps', fmt: 'bps' },
+  ...IMBALANCE_DEPTHS.map(n => ({ key: `imb${n}` as MicroKey, label: `Imbalance L${n}`, fmt: 'pct' as const, zero: true })),
+  ...LIQUIDITY_BPS.map(b => ({ key: `liq${b}` as MicroKey, label: `Liquidity ±${b}bps`, fmt: 'notional' as const })),
+];
+
+/**
+ * Sparkline grid over a MicroSeries. Memoized on the series version, so it
+ * redraws once per sample however often the page itself renders.
+ */
+const MicroMetrics = memo(function MicroMetrics({ series, symbol, priceFmt }:{
+  series: MicroSeries; version: number; symbol: string; priceFmt: (n: number) => string;
+}) {
+  const last = series.latest;
+  const show = (t: Tile) => {
+    if (!last) return '—';
+    const v = last[t.key];
+    switch (t.fmt) {
+      case 'price': return `$${priceFmt(v)}`;
+      case 'pct': return `${v > 0 ? '+' : ''}${fmtFixed(v, 1)}%`;
+      case 'bps': return fmtFixed(v, 2);
+      case 'notional': return `$${fmtCompact(v)}`;
+    }
+  };
+  // price-like series read better as distance from mid
+  const microBps = last ? ((last.microprice - last.mid) / last.mid) * 1e4 : 0;
+
+  return (
+    <div className="bg-slate-900/70 border border-slate-800 rounded-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-[10px] sm:text-xs text-gray-400 uppercase font-semibold">
+          <Microscope className="w-3.5 h-3.5 text-emerald-400" /> Microstructure
+          {last && <span className="normal-case font-mono text-gray-500">microprice {microBps >= 0 ? '+' : ''}{fmtFixed(microBps, 2)} bps vs mid</span>}
+        </span>
+        <button
+          onClick={() => downloadText(`${symbol}-micro-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`, series.toCsv(), 'text/csv')}
+          disabled={!last}
+          className="px-2 py-1 rounded-md border text-[11px] font-semibold inline-flex items-center gap-1 bg-slate-800 border-slate-700 text-gray-300 disabled:opacity-40"
+          title="Download the full series as CSV"
+        >
+          <Download className="w-3 h-3" /> CSV
+        </button>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 2xl:grid-cols-11 gap-2 p-2">
+        {TILES.map(t => {
+          const vals = series.values(t.key, SPARK_POINTS);
+          const v = vals[vals.length - 1] ?? 0;
+          const tone = t.zero ? (v >= 0 ? 'text-emerald-400' : 'text-red-400') : 'text-cyan-400';
+          return (
+            <div key={t.key} className="bg-slate-900/60 border border-slate-800 rounded-md px-2 pt-1.5">
+              <div className="text-[9px] sm:text-[10px] text-gray-400 uppercase truncate">{t.label}</div>
+              <div className="text-xs sm:text-sm font-mono tabular-nums">{show(t)}</div>
+              <Sparkline values={vals} zero={t.zero} tone={tone} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}, (a, b) => a.version === b.version && a.series === b.series && a.symbol === b.symbol && a.priceFmt === b.priceFmt);
+
+export default MicroMetrics;
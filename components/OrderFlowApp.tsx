@@ -0,0 +1,1145 @@
+'use client';
+
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+  useSyncExternalStore,
+} from 'react';
+import {
+  TrendingUp,
+  TrendingDown,
+  Zap,
+  Minus,
+  Plus,
+  SlidersHorizontal,
+  Pause,
+  Play,
+  Eye,
+  History,
+  Cpu,
+  Ban,
+  LayoutGrid,
+  Server,
+  Keyboard,
+} from 'lucide-react';
+import Link from 'next/link';
+import {
+  ADAPTERS,
+  VENUES,
+  type InstrumentError,
+  type InstrumentInfo,
+  type Liquidation,
+  type MarketTrade,
+  type StreamKind,
+  type VenueId,
+} from '@/lib/exchanges';
+import { INITIAL_STATUS, MarketFeed, type FeedStatus } from '@/lib/feed';
+import { BookView } from '@/lib/bookview';
+import { createFeedWorker, WORKER_DEPTH, type FeedWorkerMessage, type FeedWorkerRequest } from '@/lib/feedworker';
+import { connectRelay, RELAY_DEPTH } from '@/lib/relay';
+import { DurationStat, FrameMonitor } from '@/lib/perf';
+import { FeedRecorder, parseRecording, RECORDING_VERSION, type FeedRecord, type Recording, type RecordingHeader } from '@/lib/recorder';
+import { ReplayPlayer, type ReplayState } from '@/lib/replay';
+import { downloadText } from '@/lib/download';
+import ReplayPanel from '@/components/ReplayPanel';
+import DepthChart from '@/components/DepthChart';
+import Heatmap from '@/components/Heatmap';
+import { LiquidityHistory } from '@/lib/heatmap';
+import { CandleSeries } from '@/lib/candles';
+import CandleChart from '@/components/CandleChart';
+import AlertsPanel from '@/components/AlertsPanel';
+import AlertToasts from '@/components/AlertToasts';
+import { alertEngine } from '@/lib/alerts';
+import { TradeFlow } from '@/lib/flow';
+import { PaperTrader, bestInBucket, type PaperOrderRequest } from '@/lib/paper';
+import { WallTracker } from '@/lib/walls';
+import { DELTA_WINDOWS, LevelDiff } from '@/lib/leveldiff';
+import { walkBook, type ImpactOrder, type ImpactResult } from '@/lib/impact';
+import { bucketize, type BookReader } from '@/lib/orderbook';
+import ImpactPanel from '@/components/ImpactPanel';
+import PaperPanel from '@/components/PaperPanel';
+import MicroMetrics from '@/components/MicroMetrics';
+import TradeFlowPanel from '@/components/TradeFlowPanel';
+import { MicroSeries, sampleBook } from '@/lib/micro';
+import WallsPanel, { NO_WALLS, type WallList } from '@/components/WallsPanel';
+import SymbolPicker from '@/components/SymbolPicker';
+import { EmptyLoad, OrderRow, SectionHeader } from '@/components/BookRows';
+import TradeTape from '@/components/TradeTape';
+import HealthPanel from '@/components/HealthPanel';
+import ConnectionBadge from '@/components/ConnectionBadge';
+import { HealthMonitor } from '@/lib/health';
+import { STAT_WINDOWS, TradeTape as Tape } from '@/lib/tape';
+import { bookMid, buildLadder, EMPTY_LADDER, type ProcessedOrderBook } from '@/lib/ladder';
+import { decimalsFromStep, fmtCompact, fmtFixed } from '@/lib/format';
+import { priceStep, type PriceStep } from '@/lib/decimal';
+import { DEFAULT_VENUE, isVenue, parseBookLocation } from '@/lib/route';
+import { cycleGrouping, groupingLabel, resolveStep, type Grouping } from '@/lib/grouping';
+import GroupingControl from '@/components/GroupingControl';
+import { clampRows, initialView, saveView, viewFromQuery, viewHref, type ViewSettings } from '@/lib/viewstate';
+import { comboFromEvent, DEFAULT_KEYMAP, formatCombo, keymap, type CommandId } from '@/lib/keymap';
+import CommandPalette, { type PaletteScope } from '@/components/CommandPalette';
+import ShortcutHelp from '@/components/ShortcutHelp';
+import ViewPresets from '@/components/ViewPresets';
+import PerpsPanel from '@/components/PerpsPanel';
+import { PerpsTracker } from '@/lib/perps';
+import VolumeProfile from '@/components/VolumeProfile';
+import { EMPTY_PROFILE, Footprint, profileMarks, VolumeProfile as Profile, type ProfileView } from '@/lib/profile';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// grouped levels per side kept in each heatmap sample and scanned for walls
+const DEEP_LEVELS = 100;
+const TOP_WALLS = 5;
+// the trade-flow window behind the 1m imbalance, and how often alert rules are checked
+const FLOW_WINDOW_MS = 60_000;
+const ALERT_EVAL_MS = 250;
+// quick tab switches keep streaming; longer absences disconnect
+const HIDDEN_GRACE_MS = 10_000;
+// settle time before the view is saved and written to the address bar
+const VIEW_SAVE_MS = 300;
+// commands worth repeating while the key is held
+const REPEATABLE = new Set<CommandId>(['rows-up', 'rows-down']);
+
+type Engine = 'main' | 'worker';
+interface Unavailable { reason: InstrumentError['reason']; message: string; }
+
+// ============================================================================
+// App
+// ============================================================================
+export default function OrderFlowApp({ initialVenue = DEFAULT_VENUE, initialSymbol }:{
+  initialVenue?: VenueId; initialSymbol?: string;
+}) {
+  // core controls; the page renders client-side only, so stored settings are read up front
+  const [initial] = useState(() => initialView(initialSymbol ? { venue: initialVenue, symbol: initialSymbol } : null, window.location.search));
+  const [venue, setVenue] = useState<VenueId>(initial.venue);
+  const adapter = ADAPTERS[venue];
+  const [symbol, setSymbol] = useState<string>(initial.symbol);
+  const [displayRows, _setDisplayRows] = useState<number>(initial.rows);
+  const setDisplayRows = useCallback((n:number) => _setDisplayRows(clampRows(n)), []);
+  const rowsRef = useRef<number>(initial.rows);
+
+  const [grouping, setGrouping] = useState<Grouping>(initial.grouping);
+  const groupingRef = useRef<Grouping>(initial.grouping);
+  // the exchange's tick string; steps are built from it exactly (lib/decimal)
+  const tickRef = useRef<string>('0.01');
+
+  const [paused, setPaused] = useState(initial.paused);
+  const pausedRef = useRef(initial.paused);
+
+  const [dense, setDense] = useState<boolean>(initial.dense);
+
+  // connection state
+  const [status, setStatus] = useState<FeedStatus>(INITIAL_STATUS);
+  const statusRef = useRef<FeedStatus>(INITIAL_STATUS);
+  // how the visibility handler pauses whichever source is running
+  const suspendRef = useRef<{ pause(): void; resume(): void } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [unavailable, setUnavailable] = useState<Unavailable | null>(null);
+  const [lastUpdate, setLastUpdate] = useState<number | null>(null);
+  const [updateCount, setUpdateCount] = useState<number>(0);
+
+  // precision
+  const [priceDp, setPriceDp] = useState<number>(2);
+  const [qtyDp, setQtyDp] = useState<number>(6);
+
+  // processed + trades
+  const [processed, setProcessed] = useState<ProcessedOrderBook>(EMPTY_LADDER);
+  const tapeRef = useRef<Tape>(new Tape());
+  const microRef = useRef<MicroSeries>(new MicroSeries());
+  const [microVersion, setMicroVersion] = useState<number>(0);
+  const flowRef = useRef<TradeFlow>(new TradeFlow());
+  const [flowVersion, setFlowVersion] = useState<number>(0);
+  const [statWindow, setStatWindow] = useState<number>(initial.statWindow);
+  const perpsRef = useRef<PerpsTracker>(new PerpsTracker());
+  const profileRef = useRef<Profile>(new Profile());
+  const footprintRef = useRef<Footprint>(new Footprint());
+  const [profile, setProfile] = useState<ProfileView>(EMPTY_PROFILE);
+  const [footprintVersion, setFootprintVersion] = useState<number>(0);
+  const [profileWindow, setProfileWindow] = useState<number>(0);
+  const profileWindowRef = useRef<number>(0);
+  const healthRef = useRef<HealthMonitor>(new HealthMonitor());
+  const [healthVersion, setHealthVersion] = useState<number>(0);
+  const [staleMs, setStaleMs] = useState<number>(healthRef.current.staleMs);
+  const [autoResync, setAutoResync] = useState<boolean>(true);
+
+  // metrics
+  const [mps, setMps] = useState<number>(0);
+
+  // engine: the feed runs here or in a worker that posts the sorted book back
+  const [engine, setEngine] = useState<Engine>('main');
+  // direct: this tab talks to the venue; relay: the server keeps the book and streams it here
+  const [viaRelay, setViaRelay] = useState(false);
+  const [perf, setPerf] = useState<{ flushAvg: number; flushMax: number; dropped: number }>({ flushAvg: 0, flushMax: 0, dropped: 0 });
+  const flushStatRef = useRef(new DurationStat());
+  const frameMonRef = useRef<FrameMonitor | null>(null);
+
+  // refs for book + feed
+  const feedRef = useRef<MarketFeed | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const viewRef = useRef<BookView>(new BookView());
+  const readerRef = useRef<BookReader>(viewRef.current);
+  const [reader, setReader] = useState<BookReader>(viewRef.current);
+  const heatRef = useRef<LiquidityHistory>(new LiquidityHistory());
+  const candlesRef = useRef<CandleSeries>(new CandleSeries());
+  const wallsRef = useRef<WallTracker>(new WallTracker());
+  const [walls, setWalls] = useState<WallList>(NO_WALLS);
+  const [wallThreshold, setWallThreshold] = useState<number>(wallsRef.current.threshold);
+  const diffRef = useRef<LevelDiff>(new LevelDiff());
+  const [deltaWindow, setDeltaWindow] = useState<number>(initial.deltaWindow);
+  const impactOrderRef = useRef<ImpactOrder | null>(null);
+  const [impactOrder, setImpactOrder] = useState<ImpactOrder | null>(null);
+  const [impact, setImpact] = useState<ImpactResult | null>(null);
+  const paperRef = useRef<PaperTrader>(new PaperTrader());
+  // the ladder's step as last rendered, for snapping row clicks
+  const groupStepRef = useRef<PriceStep | null>(null);
+  const [paperVersion, setPaperVersion] = useState<number>(0);
+  const [paperError, setPaperError] = useState<string | null>(null);
+  const [clickToTrade, setClickToTrade] = useState(false);
+  // the ticket quantity outlives the panel, which remounts per market
+  const [paperQty, setPaperQty] = useState('');
+  const paperQtyRef = useRef<number | null>(null);
+  const snapshotDepthRef = useRef<number | undefined>(adapter.snapshotDepth);
+  const sessionRef = useRef<number>(0);
+  const bestTickerRef = useRef<{ bid: number; ask: number }>({ bid: 0, ask: 0 });
+  const msgCounterRef = useRef<number>(0);
+  const rafIdRef = useRef<number>(0);
+  const instrumentRef = useRef<InstrumentInfo | null>(null);
+
+  // recording + replay
+  const recorderRef = useRef<FeedRecorder | null>(null);
+  const [recording, setRecording] = useState(false);
+  const recordingRef = useRef(false);
+  const [recStats, setRecStats] = useState<{ count: number; bytes: number } | null>(null);
+  const replayRecRef = useRef<Recording | null>(null);
+  const replayRef = useRef<ReplayPlayer | null>(null);
+  const [replaySource, setReplaySource] = useState<RecordingHeader | null>(null);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+
+  // keyboard
+  const keys = useSyncExternalStore(keymap().subscribe, keymap().getState, () => DEFAULT_KEYMAP);
+  const [palette, setPalette] = useState<PaletteScope | null>(null);
+  const [helpOpen, setHelpOpen] = useState(false);
+
+  // formatters
+  const priceFmt = useCallback((n: number) => fmtFixed(n, priceDp), [priceDp]);
+  const qtyFmt   = useCallback((n: number) => fmtFixed(n, qtyDp),   [qtyDp]);
+
+  // resnapshot whichever feed is running here; the relay resyncs on its own
+  const resyncBook = useCallback(() => {
+    if (workerRef.current) workerRef.current.postMessage({ type: 'resync' } satisfies FeedWorkerRequest);
+    else feedRef.current?.resnapshot();
+  }, []);
+
+  const manualResync = useCallback(() => {
+    healthRef.current.requestedResync(Date.now(), 'manual');
+    setHealthVersion(healthRef.current.version);
+    resyncBook();
+  }, [resyncBook]);
+
+  // msgs/sec + main-thread cost + health checks
+  useEffect(() => {
+    const mon = new FrameMonitor(); mon.start(); frameMonRef.current = mon;
+    const id = setInterval(() => {
+      setMps(msgCounterRef.current); msgCounterRef.current = 0;
+      const f = flushStatRef.current.take();
+      setPerf({ flushAvg: f.avg, flushMax: f.max, dropped: mon.take() });
+      const rec = recorderRef.current;
+      if (rec && recordingRef.current) setRecStats({ count: rec.count, bytes: rec.bytes });
+      // microstructure keeps sampling while paused; only the redraw waits
+      const s = sampleBook(readerRef.current, Date.now());
+      if (s) microRef.current.push(s);
+      // trade flow and tape stats run on trade time; a replay moves their clocks by itself
+      const flow = flowRef.current;
+      if (!replayRef.current) { flow.advance(Date.now()); tapeRef.current.advance(Date.now()); }
+      if (s) flow.sample(s.mid);
+      if (!pausedRef.current) { setMicroVersion(microRef.current.version); setFlowVersion(flow.version); }
+      // a replay's clock isn't the wall clock, so staleness and drift mean nothing there
+      if (!replayRef.current && statusRef.current.state !== 'paused') {
+        const h = healthRef.current, now = Date.now();
+        if (feedRef.current) h.feed(feedRef.current.health(now), now);
+        if (h.check(readerRef.current, now)) resyncBook();
+        setHealthVersion(h.version);
+      }
+    }, 1000);
+    return () => { clearInterval(id); mon.stop(); frameMonRef.current = null; };
+  }, [resyncBook]);
+
+  // keep refs in sync
+  useEffect(() => { rowsRef.current = displayRows; queueFlush(); }, [displayRows]);
+  useEffect(() => { groupingRef.current = grouping; queueFlush(); }, [grouping]);
+  useEffect(() => { pausedRef.current = paused; }, [paused]);
+  useEffect(() => { diffRef.current.windowMs = deltaWindow; }, [deltaWindow]);
+  useEffect(() => { recordingRef.current = recording; }, [recording]);
+
+  // ----- rAF batched view computation -----
+  const flushView = useCallback(() => {
+    rafIdRef.current = 0;
+    if (pausedRef.current) return;
+    const t0 = performance.now();
+
+    const book = readerRef.current;
+    const step = resolveStep(groupingRef.current, tickRef.current, bookMid(book));
+    const view = buildLadder(book, step, rowsRef.current, bestTickerRef.current);
+
+    const now = Date.now();
+    const heatDue = view.bids.length > 0 && heatRef.current.due(now);
+    const wallsDue = view.bids.length > 0 && wallsRef.current.due(now);
+    if (heatDue || wallsDue) {
+      const bids = book.grouped('bid', step, DEEP_LEVELS), asks = book.grouped('ask', step, DEEP_LEVELS);
+      if (heatDue) heatRef.current.push(now, view.midPrice, step.value, bids, asks);
+      if (wallsDue) {
+        const w = wallsRef.current;
+        w.update(now, step, bids, asks);
+        setWalls({ bid: w.top('bid', TOP_WALLS), ask: w.top('ask', TOP_WALLS) });
+      }
+    }
+    if (profileRef.current.due(now)) {
+      setProfile(profileRef.current.view(step, profileWindowRef.current, now));
+      setFootprintVersion(footprintRef.current.version);
+    }
+
+    setProcessed(diffRef.current.apply(view, step.value, now));
+    if (impactOrderRef.current) setImpact(walkBook(book, impactOrderRef.current, snapshotDepthRef.current));
+    setPaperVersion(paperRef.current.version);
+    flushStatRef.current.add(performance.now() - t0);
+  }, []);
+
+  const queueFlush = useCallback(() => { if (!rafIdRef.current) rafIdRef.current = requestAnimationFrame(flushView); }, [flushView]);
+
+  // volume profile window and manual reset take effect at once rather than on the next refresh
+  const changeProfileWindow = useCallback((ms: number) => {
+    profileWindowRef.current = ms; setProfileWindow(ms);
+    setProfile(profileRef.current.view(resolveStep(groupingRef.current, tickRef.current, bookMid(readerRef.current)), ms));
+  }, []);
+  const resetProfile = useCallback(() => { profileRef.current.clear(); setProfile(EMPTY_PROFILE); }, []);
+
+  // precision from REST
+  const applyInstrument = useCallback((info: InstrumentInfo | null) => {
+    instrumentRef.current = info;
+    if (!info) { tickRef.current = '0.01'; setPriceDp(2); setQtyDp(6); return; }
+    tickRef.current = info.tickSize;
+    setPriceDp(Math.min(8, Math.max(0, decimalsFromStep(info.tickSize))));
+    setQtyDp(Math.min(8, Math.max(0, decimalsFromStep(info.stepSize))));
+    if (recordingRef.current) recorderRef.current?.instrument(info);
+  }, []);
+
+  const addTrades = useCallback((ts: MarketTrade[]) => {
+    if (!ts.length) return;
+    for (const t of ts) { candlesRef.current.addTrade(t); wallsRef.current.addTrade(t); }
+    flowRef.current.add(ts);
+    paperRef.current.onTrades(ts);
+    for (const t of ts) heatRef.current.addTrade(t);
+    profileRef.current.add(ts); footprintRef.current.add(ts);
+    tapeRef.current.add(ts);
+  }, []);
+
+  const addLiquidation = useCallback((l: Liquidation) => {
+    perpsRef.current.addLiquidation(l);
+    tapeRef.current.addLiquidation(l);
+  }, []);
+
+  const onFrame = useCallback((kind: StreamKind, raw: string) => {
+    msgCounterRef.current++;
+    if (recordingRef.current) recorderRef.current?.push(kind, raw);
+    if (kind !== 'ticker') { setLastUpdate(Date.now()); setUpdateCount(c=>c+1); }
+  }, []);
+
+  const resetView = useCallback(() => {
+    tapeRef.current.clear();
+    setProcessed(EMPTY_LADDER);
+    feedRef.current?.book.reset(); viewRef.current.clear(); heatRef.current.clear(); candlesRef.current.clear(); microRef.current.clear(); wallsRef.current.clear(); setWalls(NO_WALLS); diffRef.current.clear(); healthRef.current.clear(); perpsRef.current.clear(); flowRef.current.clear(); paperRef.current.clear();
+    profileRef.current.clear(); footprintRef.current.clear(); setProfile(EMPTY_PROFILE);
+  }, []);
+
+  // main-thread feed; replays drive one of these without starting it
+  const makeFeed = useCallback((venueId: VenueId, sym: string) => new MarketFeed(ADAPTERS[venueId], sym, {
+    // every applied delta, so paper queues see each level change (and replays fill the same way)
+    onBook: () => { paperRef.current.onBook(readerRef.current); queueFlush(); },
+    onTrade: (t) => addTrades([t]),
+    onTicker: (top) => { bestTickerRef.current.bid = top.bid; bestTickerRef.current.ask = top.ask; healthRef.current.ticker(top, Date.now()); },
+    onMark: (mk) => perpsRef.current.setMark(mk),
+    onLiquidation: addLiquidation,
+    onInstrument: applyInstrument,
+    onStatus: (s) => { statusRef.current = s; setStatus(s); },
+    onFrame,
+    onSnapshot: (s) => { if (recordingRef.current) recorderRef.current?.snapshot(s); },
+    onError: setError,
+    onUnavailable: (e) => setUnavailable({ reason: e.reason, message: e.message }),
+  }), [queueFlush, addTrades, addLiquidation, applyInstrument, onFrame]);
+
+  // worker and relay both speak FeedWorkerMessage into viewRef
+  const onFeedMessage = useCallback((m: FeedWorkerMessage) => {
+    switch (m.type) {
+      case 'book': viewRef.current.set(m); paperRef.current.onBook(viewRef.current); queueFlush(); break;
+      case 'trades': addTrades(m.trades); break;
+      case 'ticker': bestTickerRef.current.bid = m.top.bid; bestTickerRef.current.ask = m.top.ask; healthRef.current.ticker(m.top, Date.now()); break;
+      case 'mark': perpsRef.current.setMark(m.mark); break;
+      case 'liquidation': addLiquidation(m.liq); break;
+      case 'instrument': applyInstrument(m.info); break;
+      case 'status':
+        statusRef.current = m.status; setStatus(m.status);
+        msgCounterRef.current += m.frames;
+        if (m.health) healthRef.current.feed(m.health, Date.now());
+        if (m.frames) { setLastUpdate(m.lastFrameAt); setUpdateCount(c=>c+m.frames); }
+        break;
+      case 'frame': if (recordingRef.current) recorderRef.current?.push(m.kind, m.raw); break;
+      case 'snapshot': if (recordingRef.current) recorderRef.current?.snapshot(m.snapshot); break;
+      case 'error': setError(m.message); break;
+      case 'unavailable': setUnavailable({ reason: m.reason, message: m.message }); break;
+    }
+  }, [queueFlush, addTrades, addLiquidation, applyInstrument]);
+
+  const startWorker = useCallback((venueId: VenueId, sym: string) => {
+    const w = createFeedWorker();
+    w.onmessage = (e: MessageEvent<FeedWorkerMessage>) => onFeedMessage(e.data);
+    w.postMessage({ type: 'start', venue: venueId, symbol: sym } satisfies FeedWorkerRequest);
+    return w;
+  }, [onFeedMessage]);
+
+  // replayed records take the same path as live frames
+  const applyRecord = useCallback((feed: MarketFeed, rec: FeedRecord) => {
+    try {
+      if (rec.kind === 'instrument') feed.ingestInstrument(JSON.parse(rec.raw) as InstrumentInfo);
+      else if (rec.kind === 'snapshot') feed.ingestSnapshot(JSON.parse(rec.raw));
+      else feed.ingest(rec.kind, rec.raw);
+    } catch {}
+  }, []);
+
+  const toggleRecording = useCallback(() => {
+    if (recordingRef.current) {
+      setRecording(false); recordingRef.current = false;
+      workerRef.current?.postMessage({ type: 'record', on: false } satisfies FeedWorkerRequest);
+      return;
+    }
+    const rec = new FeedRecorder({ v: RECORDING_VERSION, venue, symbol, start: Date.now() });
+    // seed with current state so the file replays even when started mid-session
+    if (instrumentRef.current) rec.instrument(instrumentRef.current);
+    const book = feedRef.current?.book;
+    if (book?.status === 'live') rec.snapshot(book.toSnapshot());
+    recorderRef.current = rec; recordingRef.current = true;
+    workerRef.current?.postMessage({ type: 'record', on: true } satisfies FeedWorkerRequest);
+    setRecording(true); setRecStats({ count: rec.count, bytes: rec.bytes });
+  }, [venue, symbol]);
+
+  const downloadRecording = useCallback(() => {
+    const rec = recorderRef.current;
+    if (rec) downloadText(rec.fileName(), rec.toNdjson(), 'application/x-ndjson');
+  }, []);
+
+  const loadReplay = useCallback(async (file: File) => {
+    const rec = parseRecording(await file.text());
+    if (!rec.records.length) throw new Error('recording is empty');
+    if (!isVenue(rec.header.venue)) throw new Error(`unknown venue ${rec.header.venue}`);
+    replayRecRef.current = rec;
+    setVenue(rec.header.venue); setSymbol(rec.header.symbol); setReplaySource({ ...rec.header });
+  }, []);
+
+  const changeImpact = useCallback((o: ImpactOrder | null) => {
+    impactOrderRef.current = o; setImpactOrder(o);
+    setImpact(o ? walkBook(readerRef.current, o, snapshotDepthRef.current) : null);
+  }, []);
+
+  // paper trading: orders are checked against the book the view reads and
+  // stamped on the market's clock, the replay's or trade time, like their fills
+  const paperClock = useCallback(() => replayRef.current?.clock ?? (flowRef.current.clock || Date.now()), []);
+  const placePaper = useCallback((req: PaperOrderRequest) => {
+    try { paperRef.current.place(req, readerRef.current, paperClock()); setPaperError(null); }
+    catch (e) { setPaperError(e instanceof Error ? e.message : String(e)); }
+    setPaperVersion(paperRef.current.version);
+  }, [paperClock]);
+  // a grouped row trades at its best real level rather than its rounded edge
+  const pickPaperRow = useCallback((row: number, isBid: boolean) => {
+    const qty = paperQtyRef.current;
+    if (!qty) { setPaperError('enter a quantity first'); return; }
+    const step = groupStepRef.current;
+    const price = step ? bestInBucket(readerRef.current, isBid ? 'bid' : 'ask', row, step) : row;
+    if (price === null) { setPaperError('no book level in that row'); return; }
+    placePaper({ side: isBid ? 'buy' : 'sell', type: 'limit', price, qty });
+  }, [placePaper]);
+  const changePaperQty = useCallback((s: string) => {
+    const q = Number(s);
+    paperQtyRef.current = s.trim() !== '' && q > 0 ? q : null;
+    setPaperQty(s);
+  }, []);
+  const cancelPaper = useCallback((id: number | null) => {
+    const t = paperClock();
+    if (id === null) paperRef.current.cancelAll(t); else paperRef.current.cancel(id, t);
+    setPaperVersion(paperRef.current.version);
+  }, [paperClock]);
+  const resetPaper = useCallback(() => { paperRef.current.clear(); setPaperError(null); setPaperVersion(paperRef.current.version); }, []);
+
+  const exitReplay = useCallback(() => { replayRecRef.current = null; setReplaySource(null); setReplay(null); }, []);
+
+  // switch to a whole view at once (presets, history navigation); a replay keeps its recording's market
+  const applyView = useCallback((v: Partial<ViewSettings>) => {
+    if (v.venue && v.symbol && !replayRecRef.current) { setVenue(v.venue); setSymbol(v.symbol); }
+    if (v.rows !== undefined) setDisplayRows(v.rows);
+    if (v.grouping !== undefined) setGrouping(v.grouping);
+    if (v.dense !== undefined) setDense(v.dense);
+    if (v.paused !== undefined) setPaused(v.paused);
+    if (v.deltaWindow !== undefined) setDeltaWindow(v.deltaWindow);
+    if (v.statWindow !== undefined) setStatWindow(v.statWindow);
+  }, [setDisplayRows]);
+
+  const runCommand = useCallback((id: CommandId) => {
+    const cycle = (by: number) => {
+      const a = ADAPTERS[venue], list = a.symbols, at = list.findIndex(o => a.normalizeSymbol(o.value) === a.normalizeSymbol(symbol));
+      setSymbol(list[(at + by + list.length) % list.length].value);
+    };
+    const step = (by: number) => setGrouping(g => cycleGrouping(g, by, tickRef.current, bookMid(readerRef.current)));
+    switch (id) {
+      case 'palette': setHelpOpen(false); setPalette('all'); break;
+      case 'help': setPalette(null); setHelpOpen(true); break;
+      case 'pause': setPaused(p => !p); break;
+      case 'symbol': if (!replaySource) setPalette('symbols'); break;
+      case 'symbol-prev': if (!replaySource) cycle(-1); break;
+      case 'symbol-next': if (!replaySource) cycle(1); break;
+      case 'group-next': step(1); break;
+      case 'group-prev': step(-1); break;
+      case 'rows-up': setDisplayRows(displayRows + 1); break;
+      case 'rows-down': setDisplayRows(displayRows - 1); break;
+      case 'density': setDense(d => !d); break;
+      case 'clear-tape': tapeRef.current.clear(); break;
+    }
+  }, [venue, symbol, replaySource, displayRows, setDisplayRows]);
+
+  // shortcuts; while typing in a field only the palette combo gets through, and open overlays handle their own keys
+  useEffect(() => {
+    if (palette || helpOpen) return;
+    const onKey = (e: KeyboardEvent) => {
+      const combo = comboFromEvent(e);
+      const id = combo && keymap().lookup(combo);
+      if (!id || (e.repeat && !REPEATABLE.has(id))) return;
+      const el = e.target as HTMLElement | null;
+      const typing = !!el && (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName));
+      if (typing && id !== 'palette') return;
+      e.preventDefault();
+      runCommand(id);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [palette, helpOpen, runCommand]);
+  const closePalette = useCallback(() => setPalette(null), []);
+  const closeHelp = useCallback(() => setHelpOpen(false), []);
+
+  // binding shown in button titles
+  const hint = (id: CommandId) => keys[id][0] ? ` (${formatCombo(keys[id][0])})` : '';
+
+  // venue / symbol / engine / replay source lifecycle
+  useEffect(() => {
+    sessionRef.current += 1; const s = sessionRef.current;
+    statusRef.current = INITIAL_STATUS; setStatus(INITIAL_STATUS);
+    setError(null); setUnavailable(null); setUpdateCount(0); setLastUpdate(null);
+    resetView(); setRecording(false); recordingRef.current = false;
+    snapshotDepthRef.current = ADAPTERS[venue].snapshotDepth;
+    healthRef.current.tickerCheck = !ADAPTERS[replaySource?.venue ?? venue].tickerOnTrades;
+    impactOrderRef.current = null; setImpactOrder(null); setImpact(null); setPaperError(null);
+
+    const use = (r: BookReader) => { readerRef.current = r; setReader(r); };
+    const rec = replaySource ? replayRecRef.current : null;
+    if (rec) {
+      const feed = makeFeed(rec.header.venue, rec.header.symbol);
+      feedRef.current = feed; use(feed.book);
+      const player = new ReplayPlayer(rec, {
+        onRecord: (r) => { if (s === sessionRef.current) applyRecord(feed, r); },
+        onReset: resetView,
+        onState: setReplay,
+      });
+      replayRef.current = player;
+      player.play();
+      return () => { player.dispose(); replayRef.current = null; feedRef.current = null; };
+    }
+
+    healthRef.current.resyncable = !viaRelay;
+    if (viaRelay) {
+      snapshotDepthRef.current = RELAY_DEPTH;
+      use(viewRef.current);
+      const onMessage = (m: FeedWorkerMessage) => { if (s === sessionRef.current) onFeedMessage(m); };
+      let close: (() => void) | null = connectRelay(venue, symbol, onMessage);
+      suspendRef.current = {
+        pause: () => {
+          if (!close) return;
+          close(); close = null;
+          onMessage({ type: 'status', status: { ...statusRef.current, connected: false, state: 'paused', retryAt: 0 }, frames: 0, lastFrameAt: 0 });
+        },
+        // the relay greets every new subscriber with its current book
+        resume: () => { if (!close) { viewRef.current.clear(); close = connectRelay(venue, symbol, onMessage); } },
+      };
+      return () => { close?.(); suspendRef.current = null; };
+    }
+
+    if (engine === 'worker') {
+      const w = startWorker(venue, symbol);
+      workerRef.current = w; use(viewRef.current);
+      // the view holds only the top of the book: walks past it are as unreliable as past a snapshot
+      snapshotDepthRef.current = Math.min(snapshotDepthRef.current ?? WORKER_DEPTH, WORKER_DEPTH);
+      suspendRef.current = {
+        pause: () => w.postMessage({ type: 'pause' } satisfies FeedWorkerRequest),
+        resume: () => w.postMessage({ type: 'resume' } satisfies FeedWorkerRequest),
+      };
+      return () => { w.postMessage({ type: 'stop' } satisfies FeedWorkerRequest); w.terminate(); workerRef.current = null; suspendRef.current = null; };
+    }
+
+    const feed = makeFeed(venue, symbol);
+    feedRef.current = feed; use(feed.book);
+    suspendRef.current = feed;
+    feed.start();
+    return () => { feed.stop(); feedRef.current = null; suspendRef.current = null; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [venue, symbol, engine, viaRelay, replaySource]);
+
+  // a hidden tab stops streaming after a grace period; coming back resyncs from a fresh snapshot
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const onVisibility = () => {
+      if (document.hidden) { timer ??= setTimeout(() => { timer = null; suspendRef.current?.pause(); }, HIDDEN_GRACE_MS); return; }
+      if (timer) { clearTimeout(timer); timer = null; }
+      suspendRef.current?.resume();
+    };
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => { document.removeEventListener('visibilitychange', onVisibility); if (timer) clearTimeout(timer); };
+  }, []);
+
+  // save the view and mirror it in the address bar (/book/SYMBOL?rows=…): a new market is a history
+  // entry, option changes replace the current one; debounced so dragging the rows slider stays cheap
+  const view = useMemo<ViewSettings>(() => ({ venue, symbol, rows: displayRows, grouping, dense, paused, deltaWindow, statWindow }),
+    [venue, symbol, displayRows, grouping, dense, paused, deltaWindow, statWindow]);
+  const routedRef = useRef<string | null>(null);   // market the address bar shows
+  useEffect(() => {
+    if (replaySource) return;
+    const id = setTimeout(() => {
+      saveView(view);
+      const market = `${view.venue}:${view.symbol}`, href = viewHref(view);
+      const { pathname, search } = window.location;
+      if (pathname + search !== href) {
+        if (routedRef.current && routedRef.current !== market) window.history.pushState(null, '', href);
+        else window.history.replaceState(null, '', href);
+      }
+      routedRef.current = market;
+    }, VIEW_SAVE_MS);
+    return () => clearTimeout(id);
+  }, [view, replaySource]);
+
+  useEffect(() => {
+    const onPop = () => {
+      const { pathname, search } = window.location;
+      const r = parseBookLocation(pathname, search);
+      const v = r?.venue ?? DEFAULT_VENUE, sym = r?.symbol ?? ADAPTERS[v].symbols[0].value;
+      // the entry is already in history; re-recording it would cut off forward navigation
+      routedRef.current = `${v}:${sym}`;
+      applyView({ ...viewFromQuery(search), venue: v, symbol: sym });
+    };
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
+  }, [applyView]);
+
+  // alert rules see the full book and the trade window, whether or not the view is paused;
+  // they watch the live market only, so a replay suspends them
+  useEffect(() => {
+    if (replaySource) return;
+    const engine = alertEngine();
+    engine.reset();
+    const id = setInterval(() => {
+      const book = readerRef.current;
+      const bb = book.bestBid(), ba = book.bestAsk();
+      if (!bb || !ba || ba.price <= bb.price) return;
+      const now = Date.now(), mid = (bb.price + ba.price) / 2;
+      engine.evaluate(venue, symbol, { t: now, mid, spreadBps: ((ba.price - bb.price) / mid) * 1e4, imbalance1m: flowRef.current.window(FLOW_WINDOW_MS).imbalance, book });
+    }, ALERT_EVAL_MS);
+    return () => clearInterval(id);
+  }, [venue, symbol, replaySource]);
+
+  // derived for headers
+  // whole-book totals come from the last microstructure sample, not a pass per render
+  const micro = microRef.current.latest;
+  const totalBidVol = micro?.bidTotal ?? 0;
+  const totalAskVol = micro?.askTotal ?? 0;
+  const totalVol = totalBidVol + totalAskVol;
+  const dominance = totalVol > 0 ? (totalBidVol / totalVol) : 0;
+
+  // grouped rows the impact order reaches into
+  // rebuilt only when the step changes, so the row marks below can key on it
+  const { units: stepUnits, dp: stepDp } = resolveStep(grouping, tickRef.current, processed.midPrice);
+  const groupStep = useMemo(() => priceStep(stepUnits, stepDp), [stepUnits, stepDp]);
+  useEffect(() => { groupStepRef.current = groupStep; });
+  const impactEdge = impact ? bucketize(impact.worstPrice, groupStep, impact.bookSide) : null;
+  const inImpact = (side: 'bid' | 'ask', price: number) =>
+    impactEdge !== null && impact?.bookSide === side && (side === 'bid' ? price >= impactEdge : price <= impactEdge);
+
+  const now = Date.now();
+  // perpetuals: the replayed market's venue, which may not be the selected one
+  const market = ADAPTERS[replaySource?.venue ?? venue];
+  // row marks rebuild when their tracker's version moves, not on every book
+  // flush; liquidations also age out of their window, so the second counts too
+  const perpsVersion = perpsRef.current.version, nowSec = Math.floor(now / 1000);
+  const liqMarks = useMemo(() => market.spotVenue ? perpsRef.current.rowMarks(groupStep, nowSec * 1000) : null,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [market, groupStep, perpsVersion, nowSec]);
+  const traded = useMemo(() => profileMarks(profile), [profile]);
+  const paperMarks = useMemo(() => paperRef.current.rowMarks(groupStep),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [groupStep, paperVersion]);
+  const pick = clickToTrade ? pickPaperRow : undefined;
+  // 1-minute trade imbalance for quick judgment
+  const im1m = flowRef.current.window(FLOW_WINDOW_MS).imbalance;
+  const flow = tapeRef.current.stats(tapeRef.current.clock, statWindow);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white pb-[env(safe-area-inset-bottom)]">
+      <style jsx global>{`
+        @keyframes flash { 0%,100%{opacity:1} 50%{opacity:.6} }
+        .animate-flash { animation: flash .3s ease-in-out; }
+        .tabular-nums { font-variant-numeric: tabular-nums; font-feature-settings: "tnum"; }
+        .scrollbar-thin::-webkit-scrollbar { width: 6px; height: 6px; }
+        .scrollbar-thin::-webkit-scrollbar-track { background: rgb(30 41 59); border-radius: 3px; }
+        .scrollbar-thin::-webkit-scrollbar-thumb { background: rgb(71 85 105); border-radius: 3px; }
+        .scrollbar-thin::-webkit-scrollbar-thumb:hover { background: rgb(100 116 139); }
+        .touch-scroll { -webkit-overflow-scrolling: touch; overscroll-behavior: contain; }
+      `}</style>
+
+      {/* Header */}
+      <div className="border-b border-slate-800 bg-slate-900/60 backdrop-blur-xl sticky top-0 z-50">
+        <div className="max-w-[1800px] mx-auto px-3 sm:px-4 py-3 sm:py-4">
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 sm:gap-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 sm:w-12 sm:h-12 bg-emerald-500/10 border border-emerald-500/30 rounded-xl flex items-center justify-center">
+                <svg className="w-5 h-5 sm:w-6 sm:h-6 text-emerald-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                  <polyline points="22 12 18 12 15 21 9 3 6 12 2 12"></polyline>
+                </svg>
+              </div>
+              <div>
+                <h1 className="text-xl sm:text-2xl font-bold">OrderFlow <span className="text-emerald-400">Pro</span></h1>
+                <p className="text-[10px] sm:text-xs text-gray-500">Live Market Depth</p>
+              </div>
+            </div>
+
+            {/* Controls */}
+            <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+              <select
+                value={venue}
+                disabled={!!replaySource}
+                onChange={(e) => { const v = e.target.value as VenueId; setVenue(v); setSymbol(ADAPTERS[v].symbols[0].value); }}
+                className="px-3 sm:px-4 py-2 bg-slate-800/80 border border-slate-700/50 rounded-lg text-xs sm:text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                title="Venue"
+              >
+                {VENUES.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+              </select>
+
+              <SymbolPicker key={venue} adapter={adapter} value={symbol} onChange={setSymbol} disabled={!!replaySource} />
+
+              <button
+                onClick={() => setPaused(p => !p)}
+                className={`px-3 py-2 rounded-lg text-xs sm:text-sm border ${paused ? 'border-yellow-500/40 bg-yellow-500/10 text-yellow-300' : 'border-slate-700/50 bg-slate-800/80 text-gray-200'}`}
+                title={`${paused ? 'Resume' : 'Pause live updates'}${hint('pause')}`}
+              >
+                <span className="inline-flex items-center gap-2">
+                  {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                  {paused ? 'Resume' : 'Pause'}
+                </span>
+              </button>
+
+              <button
+                onClick={() => setDense(d => !d)}
+                className="px-3 py-2 rounded-lg text-xs sm:text-sm border border-slate-700/50 bg-slate-800/80 text-gray-200"
+                title={`Toggle density${hint('density')}`}
+              >
+                <span className="inline-flex items-center gap-2">
+                  <Eye className="w-4 h-4" />
+                  {dense ? 'Comfort' : 'Compact'}
+                </span>
+              </button>
+
+              <button
+                onClick={() => setViaRelay(r => !r)}
+                disabled={!!replaySource}
+                className={`px-3 py-2 rounded-lg text-xs sm:text-sm border ${viaRelay ? 'border-violet-500/40 bg-violet-500/10 text-violet-300' : 'border-slate-700/50 bg-slate-800/80 text-gray-200'}`}
+                title="Connect to the venue directly, or through this server's relay (one upstream per market, shared by every tab)"
+              >
+                <span className="inline-flex items-center gap-2">
+                  <Server className="w-4 h-4" />
+                  {viaRelay ? 'Relay' : 'Direct'}
+                </span>
+              </button>
+
+              <button
+                onClick={() => setEngine(e => e === 'main' ? 'worker' : 'main')}
+                disabled={!!replaySource || viaRelay}
+                className={`px-3 py-2 rounded-lg text-xs sm:text-sm border ${engine === 'worker' ? 'border-cyan-500/40 bg-cyan-500/10 text-cyan-300' : 'border-slate-700/50 bg-slate-800/80 text-gray-200'}`}
+                title="Run socket handling and book maintenance on the main thread or in a worker"
+              >
+                <span className="inline-flex items-center gap-2">
+                  <Cpu className="w-4 h-4" />
+                  {engine === 'worker' ? 'Worker' : 'Main thread'}
+                </span>
+              </button>
+
+              <button
+                onClick={() => runCommand('palette')}
+                className="px-3 py-2 rounded-lg text-xs sm:text-sm border border-slate-700/50 bg-slate-800/80 text-gray-200"
+                title={`Command palette${hint('palette')} · shortcuts${hint('help')}`}
+              >
+                <span className="inline-flex items-center gap-2">
+                  <Keyboard className="w-4 h-4" />
+                  {keys.palette[0] ? formatCombo(keys.palette[0]) : 'Commands'}
+                </span>
+              </button>
+
+              <Link href="/workspace" className="px-3 py-2 rounded-lg text-xs sm:text-sm border border-slate-700/50 bg-slate-800/80 text-gray-200" title="Several books side by side">
+                <span className="inline-flex items-center gap-2">
+                  <LayoutGrid className="w-4 h-4" />
+                  Workspace
+                </span>
+              </Link>
+
+              {unavailable && !replaySource ? (
+                <div className="flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg min-w-[110px] sm:min-w-[130px] justify-center bg-slate-800/80 border border-slate-700/50 text-gray-400">
+                  <Ban className="w-4 h-4" />
+                  <span className="text-[10px] sm:text-xs font-bold">{unavailable.reason === 'halted' ? 'HALTED' : 'UNKNOWN'}</span>
+                </div>
+              ) : replaySource ? (
+                <div className="flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg min-w-[110px] sm:min-w-[130px] justify-center bg-cyan-500/10 border border-cyan-500/20 text-cyan-400">
+                  <History className="w-4 h-4" />
+                  <span className="text-[10px] sm:text-xs font-bold">REPLAY</span>
+                </div>
+              ) : (
+                <ConnectionBadge status={status} />
+              )}
+
+              <div className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-slate-800/80 border border-slate-700/50 rounded-lg min-w-[96px] sm:min-w-[110px]">
+                <Zap className="w-4 h-4 text-yellow-400" />
+                <span className="text-[10px] sm:text-xs text-gray-300 font-mono tabular-nums">
+                  {lastUpdate ? `${Math.min(Date.now() - lastUpdate, 999)}ms` : '---ms'}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {/* Top-of-book strip for instant judgment */}
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3">
+            <BestCard
+              title="Best Bid"
+              price={processed.bestBid?.price ?? bestTickerRef.current.bid}
+              size={processed.bestBid?.amount ?? 0}
+              color="emerald"
+              priceFmt={priceFmt}
+              qtyFmt={qtyFmt}
+            />
+            <BestCard
+              title="Best Ask"
+              price={processed.bestAsk?.price ?? bestTickerRef.current.ask}
+              size={processed.bestAsk?.amount ?? 0}
+              color="red"
+              priceFmt={priceFmt}
+              qtyFmt={qtyFmt}
+            />
+            <div className="bg-gradient-to-br from-yellow-500/10 to-yellow-500/5 border border-yellow-500/20 rounded-lg p-3">
+              <div className="text-[10px] sm:text-xs text-yellow-300/90 font-semibold uppercase mb-1">Spread / Mid</div>
+              <div className="text-xl sm:text-2xl font-bold font-mono tabular-nums">
+                ${priceFmt(processed.spread)} <span className="text-sm sm:text-lg text-gray-400">({fmtFixed(processed.spreadPercent,3)}%)</span>
+              </div>
+              <div className="text-[11px] sm:text-xs text-gray-400 mt-1">Mid ${priceFmt(processed.midPrice)}</div>
+            </div>
+          </div>
+
+          {/* Quick metrics */}
+          <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-8 gap-2 sm:gap-3 mt-3">
+            <InfoBox label="Msgs/sec" value={mps} />
+            <InfoBox label="Reconnects" value={status.reconnects} />
+            <InfoBox label="Buffered" value={status.buffered} />
+            <InfoBox label="Group" value={`${groupingLabel(grouping)} • ${priceFmt(groupStep.value)}`} />
+            <InfoBox label="1m Imbalance" value={`${fmtFixed(im1m,1)}%`} />
+            <InfoBox label="Rows" value={rowsRef.current} />
+            <InfoBox label="Flush ms (avg/max)" value={`${fmtFixed(perf.flushAvg,2)} / ${fmtFixed(perf.flushMax,1)}`} />
+            <InfoBox label="Dropped frames/s" value={perf.dropped} />
+          </div>
+
+          {/* Microstructure */}
+          <div className="mt-3">
+            <MicroMetrics series={microRef.current} version={microVersion} symbol={symbol} priceFmt={priceFmt} />
+          </div>
+
+          {/* Trade flow */}
+          <div className="mt-3">
+            <TradeFlowPanel flow={flowRef.current} version={flowVersion} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+          </div>
+
+          {/* Perpetuals */}
+          {market.spotVenue && (
+            <div className="mt-3">
+              <PerpsPanel key={`${market.id}:${symbol}`} tracker={perpsRef.current} adapter={market} symbol={replaySource?.symbol ?? symbol}
+                live={!replaySource} now={now} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+            </div>
+          )}
+
+          {/* Record / replay */}
+          <div className="mt-3">
+            <ReplayPanel
+              recording={recording} recStats={recStats} canRecord={!viaRelay}
+              onToggleRecord={toggleRecording} onDownload={downloadRecording}
+              source={replaySource} replay={replay} onLoad={loadReplay}
+              onPlay={() => replayRef.current?.play()} onPause={() => replayRef.current?.pause()}
+              onSeek={(ms) => replayRef.current?.seek(ms)} onSpeed={(x) => replayRef.current?.setSpeed(x)}
+              onExit={exitReplay}
+            />
+          </div>
+
+          {/* Dominance bar */}
+          <div className="mt-3 bg-slate-900/70 border border-slate-800 rounded-lg p-3">
+            <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono mb-2">
+              <span className="text-emerald-400">Bid: {fmtCompact(totalBidVol)}</span>
+              <span className="text-gray-400">Total: {fmtCompact(totalVol)}</span>
+              <span className="text-red-400">Ask: {fmtCompact(totalAskVol)}</span>
+            </div>
+            <div className="h-2 rounded bg-slate-800 overflow-hidden">
+              <div className="h-full bg-emerald-600" style={{ width: `${dominance*100}%` }} />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main */}
+      <div className="max-w-[1800px] mx-auto px-3 sm:px-4 py-4 sm:py-6">
+        <div className="grid grid-cols-1 2xl:grid-cols-3 gap-4 sm:gap-6">
+          {/* Order Book */}
+          <div className="2xl:col-span-2">
+            <div className="mb-3 sm:mb-4">
+              <CandleChart series={candlesRef.current} book={reader} adapter={adapter} symbol={symbol} seed={!replaySource}
+                paused={paused} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+            </div>
+            <div className="mb-3 sm:mb-4">
+              <DepthChart book={reader} paused={paused} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+            </div>
+            <div className="mb-3 sm:mb-4">
+              <Heatmap history={heatRef.current} paused={paused} priceFmt={priceFmt} />
+            </div>
+
+            <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+              {unavailable ? (
+                <MarketUnavailable info={unavailable} onReset={() => { setVenue(DEFAULT_VENUE); setSymbol(ADAPTERS[DEFAULT_VENUE].symbols[0].value); }} />
+              ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2">
+                {/* Bids */}
+                <div className="border-r border-slate-800">
+                  <SectionHeader title="BIDS (BUY)" icon={<TrendingUp className="w-4 h-4" />} color="emerald" delta={deltaWindow > 0} />
+                  <div className="max-h-[52vh] md:max-h-[600px] overflow-y-auto scrollbar-thin touch-scroll">
+                    {processed.bids.length > 0 ? processed.bids.map(row => (
+                      <OrderRow key={`bid-${row.price}`} price={row.price} amount={row.amount} total={row.total}
+                        maxTotal={processed.maxBidTotal} isBid priceFmt={priceFmt} qtyFmt={qtyFmt} dense={dense} mark={wallsRef.current.mark('bid', row.price)}
+                        flash={row.flash} delta={row.delta} gone={row.gone} impact={inImpact('bid', row.price)} liq={liqMarks?.bid.get(row.price)} traded={traded.get(row.price)}
+                        paper={paperMarks.bid.get(row.price)} onPick={pick} />
+                    )) : <EmptyLoad color="emerald" text="Loading bids..." />}
+                  </div>
+                </div>
+
+                {/* Asks */}
+                <div>
+                  <SectionHeader title="ASKS (SELL)" icon={<TrendingDown className="w-4 h-4" />} color="red" delta={deltaWindow > 0} />
+                  <div className="max-h-[52vh] md:max-h-[600px] overflow-y-auto scrollbar-thin touch-scroll">
+                    {processed.asks.length > 0 ? processed.asks.map(row => (
+                      <OrderRow key={`ask-${row.price}`} price={row.price} amount={row.amount} total={row.total}
+                        maxTotal={processed.maxAskTotal} isBid={false} priceFmt={priceFmt} qtyFmt={qtyFmt} dense={dense} mark={wallsRef.current.mark('ask', row.price)}
+                        flash={row.flash} delta={row.delta} gone={row.gone} impact={inImpact('ask', row.price)} liq={liqMarks?.ask.get(row.price)} traded={traded.get(row.price)}
+                        paper={paperMarks.ask.get(row.price)} onPick={pick} />
+                    )) : <EmptyLoad color="red" text="Loading asks..." />}
+                  </div>
+                </div>
+              </div>
+              )}
+
+              {/* Spread bar */}
+              <OrderRow price={processed.spread} amount={0} total={0} maxTotal={1} isBid={false} isSpread priceFmt={priceFmt} qtyFmt={qtyFmt} dense={dense} />
+            </div>
+
+            {/* Display + Group controls */}
+            <div className="mt-3 sm:mt-4 bg-slate-900/50 rounded-lg border border-slate-800 p-3 sm:p-4">
+              <div className="flex items-center gap-2 sm:gap-3">
+                <SlidersHorizontal className="w-4 h-4 text-emerald-400" />
+                <span className="text-xs sm:text-sm text-gray-300 font-semibold">Display rows</span>
+              </div>
+
+              <div className="mt-2 sm:mt-3 flex flex-col gap-3">
+                <ViewPresets view={view} onApply={applyView} />
+
+                <div className="flex items-center gap-2">
+                  <button onClick={() => setDisplayRows(displayRows - 1)} className="p-2 rounded-md bg-slate-800 border border-slate-700 active:scale-95" aria-label="decrease rows" title={`Fewer rows${hint('rows-down')}`}>
+                    <Minus className="w-4 h-4" />
+                  </button>
+
+                  <input
+                    type="number" min={5} max={100} step={1} value={displayRows}
+                    onChange={(e) => setDisplayRows(Number(e.target.value))}
+                    className="w-20 text-center font-mono text-sm bg-slate-800 border border-slate-700 rounded-md py-2"
+                  />
+
+                  <button onClick={() => setDisplayRows(displayRows + 1)} className="p-2 rounded-md bg-slate-800 border border-slate-700 active:scale-95" aria-label="increase rows" title={`More rows${hint('rows-up')}`}>
+                    <Plus className="w-4 h-4" />
+                  </button>
+
+                  <input
+                    type="range" min={5} max={100} step={1} value={displayRows}
+                    onChange={(e) => setDisplayRows(Number(e.target.value))}
+                    className="hidden sm:block flex-1 h-2 bg-slate-800 rounded-lg accent-emerald-500"
+                  />
+                </div>
+
+                {/* Grouping */}
+                <GroupingControl grouping={grouping} onChange={setGrouping} tick={tickRef.current} mid={processed.midPrice}
+                  step={groupStep} priceFmt={priceFmt} hint={`Cycle with${hint('group-next')} and${hint('group-prev')}`} />
+
+                {/* Size change column */}
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-gray-400">Δ window</span>
+                  {DELTA_WINDOWS.map(ms => (
+                    <button
+                      key={ms}
+                      onClick={() => setDeltaWindow(ms)}
+                      className={`px-3 py-1.5 rounded-md border text-xs font-semibold ${deltaWindow===ms ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`}
+                    >
+                      {ms ? `${ms / 1000}s` : 'Off'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-3 sm:mt-4">
+              <VolumeProfile profile={profile} footprint={footprintRef.current} version={footprintVersion} step={groupStep} mid={processed.midPrice}
+                windowMs={profileWindow} onWindow={changeProfileWindow} since={profileRef.current.since} onReset={resetProfile}
+                priceFmt={priceFmt} qtyFmt={qtyFmt} />
+            </div>
+          </div>
+
+          {/* Trades */}
+          <div>
+            <TradeTape tape={tapeRef.current} paused={paused} symbol={symbol} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+
+            {/* Trade sums */}
+            <div className="mt-3 flex items-center gap-1.5">
+              <span className="text-[11px] text-gray-400">Volume over</span>
+              {STAT_WINDOWS.map(w => (
+                <button
+                  key={w}
+                  onClick={() => setStatWindow(w)}
+                  className={`px-2 py-1 rounded-md border text-[11px] font-semibold ${statWindow===w ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`}
+                >
+                  {w / 60_000}m
+                </button>
+              ))}
+              <span className="ml-auto text-[11px] text-gray-500 font-mono">{flow.trades.toLocaleString()} trades</span>
+            </div>
+            <div className="mt-2 grid grid-cols-2 gap-2 sm:gap-3">
+              <MiniStat title="Buy Volume" tone="emerald" value={`${fmtCompact(flow.buy)} · $${fmtCompact(flow.buyNotional)}`} />
+              <MiniStat title="Sell Volume" tone="red"     value={`${fmtCompact(flow.sell)} · $${fmtCompact(flow.sellNotional)}`} />
+            </div>
+
+            <div className="mt-3">
+              <ImpactPanel key={`${venue}:${symbol}`} order={impactOrder} result={impact} onChange={changeImpact}
+                base={instrumentRef.current?.base ?? 'Base'} quote={instrumentRef.current?.quote ?? 'Quote'}
+                snapshotDepth={adapter.snapshotDepth} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+            </div>
+
+            <div className="mt-3">
+              <PaperPanel key={`${venue}:${symbol}`} trader={paperRef.current} mid={processed.midPrice}
+                clickToTrade={clickToTrade} onClickToTrade={setClickToTrade} qty={paperQty} onQty={changePaperQty}
+                onPlace={placePaper} onCancel={cancelPaper} onReset={resetPaper} error={paperError}
+                base={instrumentRef.current?.base ?? 'Base'} quote={instrumentRef.current?.quote ?? 'Quote'} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+            </div>
+
+            <div className="mt-3">
+              <WallsPanel walls={walls} mid={processed.midPrice} threshold={wallThreshold}
+                onThreshold={(x) => { wallsRef.current.threshold = x; setWallThreshold(x); }} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+            </div>
+
+            <div className="mt-3">
+              <AlertsPanel venue={venue} symbol={symbol} mid={processed.midPrice} priceFmt={priceFmt} />
+            </div>
+
+            <div className="mt-3">
+              <HealthPanel monitor={healthRef.current} version={healthVersion}
+                staleMs={staleMs} onStaleMs={(ms) => { healthRef.current.staleMs = ms; setStaleMs(ms); }}
+                auto={autoResync} onAuto={(on) => { healthRef.current.autoResync = on; setAutoResync(on); }}
+                onResync={replaySource || viaRelay ? undefined : manualResync}
+                note={replaySource ? 'Health checks run on live feeds only.' : undefined} />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <AlertToasts />
+
+      {palette && (
+        <CommandPalette adapter={adapter} scope={palette} symbolsDisabled={!!replaySource}
+          onCommand={runCommand} onSymbol={setSymbol} onClose={closePalette} />
+      )}
+      {helpOpen && <ShortcutHelp onClose={closeHelp} />}
+
+      {/* Footer */}
+      <div className="max-w-[1800px] mx-auto px-3 sm:px-4 py-5 text-center">
+        <div className="bg-slate-900/30 rounded-lg border border-slate-800/50 p-3 sm:p-4">
+          <p className="text-[10px] sm:text-xs text-gray-500">
+            Snapshot+delta sync • rAF-batched renders • Price grouping • Pause to inspect • Compact/Comfort modes
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// UI helpers
+// ============================================================================
+function InfoBox({ label, value }:{label:string; value:number|string}) {
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-lg p-2 sm:p-3">
+      <div className="text-[9px] sm:text-[10px] text-gray-400 uppercase">{label}</div>
+      <div className="text-sm sm:text-lg font-mono">{value}</div>
+    </div>
+  );
+}
+
+function BestCard({
+  title, price, size, color, priceFmt, qtyFmt,
+}:{
+  title:string; price:number; size:number; color:'emerald'|'red'; priceFmt:(n:number)=>string; qtyFmt:(n:number)=>string;
+}) {
+  const cls = color==='emerald' ? 'from-emerald-500/10 to-emerald-500/5 border-emerald-500/20' : 'from-red-500/10 to-red-500/5 border-red-500/20';
+  const text = color==='emerald' ? 'text-emerald-300' : 'text-red-300';
+  const icon = color==='emerald' ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />;
+
+  return (
+    <div className={`bg-gradient-to-br ${cls} rounded-lg p-3 border`}>
+      <div className="text-[10px] sm:text-xs text-white/70 font-semibold uppercase mb-1 flex items-center gap-2">{icon}{title}</div>
+      <div className="text-xl sm:text-2xl font-bold font-mono tabular-nums">${priceFmt(price || 0)}</div>
+      <div className={`text-[11px] sm:text-xs ${text} mt-1`}>Size {qtyFmt(size || 0)}</div>
+    </div>
+  );
+}
+
+function MarketUnavailable({ info, onReset }:{info: Unavailable; onReset: () => void}) {
+  return (
+    <div className="flex items-center justify-center h-60 text-gray-400">
+      <div className="text-center px-4">
+        <Ban className="w-10 h-10 mx-auto mb-3 text-red-400/70" />
+        <p className="text-sm font-semibold text-gray-200">{info.reason === 'halted' ? 'Market not trading' : 'Unknown symbol'}</p>
+        <p className="text-xs text-gray-500 mt-1">{info.message}</p>
+        <button onClick={onReset} className="mt-4 px-3 py-1.5 rounded-md border text-xs font-semibold bg-slate-800 border-slate-700 text-gray-300">
+          Back to {ADAPTERS[DEFAULT_VENUE].symbols[0].label}
+        </button>
+      </div>
+    </div>
+  );
+}
+function MiniStat({ title, value, tone }:{title:string; value:string; tone:'emerald'|'red'}) {
+  const c = tone==='emerald' ? 'text-emerald-400' : 'text-red-400';
+  return (
+    <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-2 sm:p-3">
+      <div className={`text-[10px] sm:text-xs ${c} font-semibold mb-1`}>{title}</div>
+      <div className="text-sm sm:text-base font-bold text-white font-mono">{value}</div>
+    </div>
+  );
+}
\ No newline at end of file
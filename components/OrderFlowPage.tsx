@@ -0,0 +1,11 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+// the view starts from localStorage and the query string, so there is nothing useful to prerender
+const OrderFlowPage = dynamic(() => import('@/components/OrderFlowApp'), {
+  ssr: false,
+  loading: () => <div className="min-h-screen bg-slate-950" />,
+});
+
+export default OrderFlowPage;
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FlaskConical, MousePointerClick, RotateCcw, X } from 'lucide-react';
+import type { PaperOrderRequest, PaperSide, PaperTrader } from '@/lib/paper';
+import { fmtFixed } from '@/lib/format';
+
+const FILLS_SHOWN = 12;
+
+const signed = (n: number) => `${n > 0 ? '+' : n < 0 ? '−' : ''}${fmtFixed(Math.abs(n), 2)}`;
+
+/**
+ * Simulated orders against the live book. The trader lives in the page, which
+ * feeds it trades and book changes; this panel places and cancels, and shows
+ * the position marked to the page's mid. With click-to-trade on, clicking a
+ * bid row buys there and an ask row sells, at the ticket quantity.
+ */
+export default function PaperPanel({ trader, mid, clickToTrade, onClickToTrade, qty, onQty, onPlace, onCancel, onReset, error, base, quote, priceFmt, qtyFmt }:{
+  trader: PaperTrader;
+  /** The page's mid; P&L is marked to it. */
+  mid: number;
+  clickToTrade: boolean; onClickToTrade: (on: boolean) => void;
+  /** Ticket quantity, as typed; clicks on the book use it too. */
+  qty: string; onQty: (qty: string) => void;
+  onPlace: (req: PaperOrderRequest) => void;
+  /** Cancel one order, or all of them with null. */
+  onCancel: (id: number | null) => void;
+  onReset: () => void;
+  error: string | null;
+  base: string; quote: string;
+  priceFmt: (n: number) => string; qtyFmt: (n: number) => string;
+}) {
+  const [price, setPrice] = useState('');
+
+  const n = Number(qty), limit = Number(price);
+  const qtyOk = qty.trim() !== '' && n > 0, priceOk = price.trim() !== '' && limit > 0;
+  const place = (side: PaperSide, type: 'limit' | 'market') => onPlace({ side, type, qty: n, ...(type === 'limit' && { price: limit }) });
+
+  const pos = trader.position, pnl = trader.pnl(mid), open = trader.open, fills = trader.fills;
+  const btn = 'px-2.5 py-1 rounded-md border text-[11px] font-semibold disabled:opacity-40';
+  const stat = (label: string, value: string, tone = 'text-gray-100') => (
+    <div className="bg-slate-800/40 rounded-md px-2 py-1.5">
+      <div className="text-[9px] sm:text-[10px] text-gray-400 uppercase">{label}</div>
+      <div className={`text-xs sm:text-sm font-mono ${tone}`}>{value}</div>
+    </div>
+  );
+  const tone = (v: number) => v > 0 ? 'text-emerald-400' : v < 0 ? 'text-red-400' : 'text-gray-100';
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="flex items-center justify-between px-3 sm:px-4 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-300">
+          <FlaskConical className="w-4 h-4 text-sky-400" /> Paper Trading
+        </span>
+        <div className="flex items-center gap-1.5">
+          <button onClick={() => onClickToTrade(!clickToTrade)} title="Click a book row to place a limit order there"
+            className={`${btn} inline-flex items-center gap-1 ${clickToTrade ? 'bg-sky-600/20 border-sky-500 text-sky-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`}>
+            <MousePointerClick className="w-3 h-3" /> Click book
+          </button>
+          <button onClick={onReset} className="p-1 text-gray-500 hover:text-gray-300" title="Clear orders, fills and position" aria-label="reset paper trading">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-3 flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-1.5">
+          <input value={qty} onChange={(e) => onQty(e.target.value)} placeholder={`qty (${base})`} inputMode="decimal"
+            className="w-28 px-2 py-1 bg-slate-800 border border-slate-700 rounded-md font-mono text-xs" />
+          <input value={price} onChange={(e) => setPrice(e.target.value)} placeholder={`limit (${quote})`} inputMode="decimal"
+            className="w-28 px-2 py-1 bg-slate-800 border border-slate-700 rounded-md font-mono text-xs" />
+        </div>
+        <div className="grid grid-cols-2 gap-1.5">
+          <button disabled={!qtyOk || !priceOk} onClick={() => place('buy', 'limit')} className={`${btn} bg-emerald-600/20 border-emerald-500/60 text-emerald-300`}>Buy limit</button>
+          <button disabled={!qtyOk || !priceOk} onClick={() => place('sell', 'limit')} className={`${btn} bg-red-600/20 border-red-500/60 text-red-300`}>Sell limit</button>
+          <button disabled={!qtyOk} onClick={() => place('buy', 'market')} className={`${btn} bg-slate-800 border-emerald-500/40 text-emerald-300`}>Buy market</button>
+          <button disabled={!qtyOk} onClick={() => place('sell', 'market')} className={`${btn} bg-slate-800 border-red-500/40 text-red-300`}>Sell market</button>
+        </div>
+        {error && <div className="text-[11px] text-red-300">{error}</div>}
+        {clickToTrade && !qtyOk && <div className="text-[11px] text-gray-500">Enter a quantity to trade from the book.</div>}
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 2xl:grid-cols-2 gap-1.5">
+          {stat('Position', `${pos.qty > 0 ? '+' : ''}${qtyFmt(pos.qty)}`, tone(pos.qty))}
+          {stat('Avg entry', pos.qty ? `$${priceFmt(pos.avgPrice)}` : '—')}
+          {stat('Unrealized', signed(pnl.unrealized), tone(pnl.unrealized))}
+          {stat('Realized', signed(pnl.realized), tone(pnl.realized))}
+        </div>
+        <div className="flex justify-between text-[11px] text-gray-500 font-mono">
+          <span>P&amp;L <span className={tone(pnl.total)}>{signed(pnl.total)} {quote}</span></span>
+          <span>marked to mid ${priceFmt(mid)}</span>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between text-[10px] text-gray-400 uppercase font-semibold mb-1">
+            <span>Open orders ({open.length})</span>
+            {open.length > 0 && <button onClick={() => onCancel(null)} className="normal-case text-gray-500 hover:text-gray-300">Cancel all</button>}
+          </div>
+          {!open.length && <div className="text-[11px] text-gray-600">None resting.</div>}
+          <div className="space-y-1">
+            {open.map(o => {
+              const progress = !o.queued ? 0 : o.aheadAtEntry > 0 ? 1 - o.ahead / o.aheadAtEntry : 1;
+              return (
+                <div key={o.id} className="bg-slate-800/40 rounded-md px-2 py-1 font-mono text-[10px] sm:text-[11px]">
+                  <div className="flex items-center gap-2">
+                    <span className={o.side === 'buy' ? 'text-emerald-400' : 'text-red-400'}>{o.side === 'buy' ? 'BUY' : 'SELL'}</span>
+                    <span className="text-gray-200">${priceFmt(o.price)}</span>
+                    <span className="text-gray-400">{qtyFmt(o.filled)} / {qtyFmt(o.qty)}</span>
+                    <button onClick={() => onCancel(o.id)} className="ml-auto p-0.5 text-gray-500 hover:text-gray-300" aria-label={`cancel order ${o.id}`}><X className="w-3 h-3" /></button>
+                  </div>
+                  <div className="flex items-center gap-2 text-gray-500" title={o.queued ? 'Estimated size in front of the order at its price' : 'Deeper than the book this view receives; only trades through the price fill it'}>
+                    <span>ahead {o.queued ? qtyFmt(o.ahead) : '—'}</span>
+                    <div className="flex-1 h-1 bg-slate-700 rounded-full overflow-hidden">
+                      <div className="h-full bg-sky-400/70" style={{ width: `${Math.min(100, Math.max(0, progress * 100))}%` }} />
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-[10px] text-gray-400 uppercase font-semibold mb-1">Fills</div>
+          {!fills.length && <div className="text-[11px] text-gray-600">No fills yet.</div>}
+          <div className="space-y-0.5">
+            {fills.slice(0, FILLS_SHOWN).map((f, i) => (
+              <div key={`${f.orderId}-${i}-${f.time}`} className="flex justify-between font-mono text-[10px] sm:text-[11px]">
+                <span className={f.side === 'buy' ? 'text-emerald-300' : 'text-red-300'}>{f.side === 'buy' ? 'B' : 'S'} {qtyFmt(f.qty)} @ ${priceFmt(f.price)}</span>
+                <span className="text-gray-500">{f.liquidity} · {new Date(f.time).toLocaleTimeString()}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Flame, Gauge } from 'lucide-react';
+import { ADAPTERS, type ExchangeAdapter } from '@/lib/exchanges';
+import { OI_POINTS, OI_POLL_MS, watchTicker, type PerpsTracker } from '@/lib/perps';
+import { fmtCompact, fmtCountdown, fmtFixed } from '@/lib/format';
+import { Sparkline } from '@/components/MicroMetrics';
+
+const RECENT_LIQS = 6;
+const LIQ_SUM_MS = 300_000;
+
+const signed = (n: number, dp: number) => `${n > 0 ? '+' : n < 0 ? '−' : ''}${fmtFixed(Math.abs(n), dp)}`;
+
+/**
+ * Perpetuals strip: mark/index, basis against the spot venue's mid, funding
+ * countdown, open interest history and the latest liquidations. While `live`
+ * it polls open interest and follows the spot ticker itself, writing both
+ * into the tracker; the page passes a fresh `now` on its 1s tick.
+ */
+export default function PerpsPanel({ tracker, adapter, symbol, live, now, priceFmt, qtyFmt }:{
+  tracker: PerpsTracker;
+  adapter: ExchangeAdapter; symbol: string;
+  /** False in a replay: no polling, no spot quote. */
+  live: boolean;
+  now: number;
+  priceFmt: (n: number) => string; qtyFmt: (n: number) => string;
+}) {
+  const [oiError, setOiError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!live || !adapter.fetchOpenInterest) return;
+    let cancelled = false;
+    const load = () => adapter.fetchOpenInterest!(symbol, OI_POINTS)
+      .then(points => { if (!cancelled) { tracker.setOpenInterest(points); setOiError(null); } })
+      .catch((e: unknown) => { if (!cancelled) setOiError(e instanceof Error ? e.message : 'unavailable'); });
+    load();
+    const id = setInterval(load, OI_POLL_MS);
+    return () => { cancelled = true; clearInterval(id); };
+  }, [tracker, adapter, symbol, live]);
+
+  useEffect(() => {
+    if (!live || !adapter.spotVenue) return;
+    const leave = watchTicker(ADAPTERS[adapter.spotVenue], symbol, (top) => tracker.setSpot(top));
+    return () => { leave(); tracker.setSpot(null); };
+  }, [tracker, adapter, symbol, live]);
+
+  const m = tracker.mark, basis = tracker.basis(), oi = tracker.openInterest, oiChange = tracker.oiChange();
+  const lastOi = oi[oi.length - 1];
+  const liqs = tracker.liquidations;
+  let longs = 0, shorts = 0;
+  for (let i = liqs.length - 1; i >= 0 && liqs[i].at >= now - LIQ_SUM_MS; i--) {
+    const n = liqs[i].price * liqs[i].quantity;
+    if (liqs[i].side === 'sell') longs += n; else shorts += n;
+  }
+  const premiumBps = m && m.index > 0 ? ((m.mark - m.index) / m.index) * 1e4 : null;
+
+  const tile = 'bg-slate-900/60 border border-slate-800 rounded-md px-2 py-1.5';
+  const label = 'text-[9px] sm:text-[10px] text-gray-400 uppercase truncate';
+  const value = 'text-xs sm:text-sm font-mono tabular-nums';
+  const sub = 'text-[10px] text-gray-500 font-mono truncate';
+
+  return (
+    <div className="bg-slate-900/70 border border-slate-800 rounded-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-[10px] sm:text-xs text-gray-400 uppercase font-semibold">
+          <Gauge className="w-3.5 h-3.5 text-fuchsia-400" /> Perpetual
+          {!m && <span className="normal-case text-gray-500">waiting for mark price…</span>}
+        </span>
+        {adapter.spotVenue && <span className="text-[10px] text-gray-500">basis vs {ADAPTERS[adapter.spotVenue].label} mid</span>}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2 p-2">
+        <div className={tile}>
+          <div className={label}>Mark</div>
+          <div className={value}>{m ? `$${priceFmt(m.mark)}` : '—'}</div>
+          <div className={sub}>index {m ? `$${priceFmt(m.index)}` : '—'}</div>
+        </div>
+        <div className={tile}>
+          <div className={label}>Premium</div>
+          <div className={`${value} ${premiumBps === null ? '' : premiumBps >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+            {premiumBps === null ? '—' : `${signed(premiumBps, 2)} bps`}
+          </div>
+          <div className={sub}>mark vs index</div>
+        </div>
+        <div className={tile}>
+          <div className={label}>Basis</div>
+          <div className={`${value} ${!basis ? '' : basis.abs >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+            {basis ? `${signed(basis.abs, 2)} · ${signed(basis.bps, 1)} bps` : '—'}
+          </div>
+          <div className={sub}>{tracker.spotMid ? `spot $${priceFmt(tracker.spotMid)}` : live ? 'no spot quote' : 'live only'}</div>
+        </div>
+        <div className={tile}>
+          <div className={label}>Funding (predicted)</div>
+          <div className={`${value} ${!m ? '' : m.fundingRate >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+            {m ? `${signed(m.fundingRate * 100, 4)}%` : '—'}
+          </div>
+          <div className={sub}>{m ? `in ${fmtCountdown(m.nextFundingTime - now)}` : '—'}</div>
+        </div>
+        <div className={tile}>
+          <div className={label}>Open interest</div>
+          <div className={value}>
+            {lastOi ? fmtCompact(lastOi.oi) : '—'}
+            {oiChange !== null && <span className={`ml-1 text-[10px] ${oiChange >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{signed(oiChange, 2)}%</span>}
+          </div>
+          <div className={sub} title={oiError ?? undefined}>
+            {oiError ? 'history unavailable' : lastOi && m ? `$${fmtCompact(lastOi.oi * m.mark)}` : '—'}
+          </div>
+          <Sparkline values={oi.map(p => p.oi)} tone="text-fuchsia-400" points={OI_POINTS + 1} />
+        </div>
+        <div className={tile}>
+          <div className={`${label} flex items-center gap-1`}><Flame className="w-3 h-3 text-fuchsia-400" /> Liquidations 5m</div>
+          <div className={`${value} text-[11px] sm:text-xs`}>
+            <span className="text-red-400" title="Longs closed (forced sells)">L ${fmtCompact(longs)}</span>
+            <span className="text-gray-600"> / </span>
+            <span className="text-emerald-400" title="Shorts closed (forced buys)">S ${fmtCompact(shorts)}</span>
+          </div>
+          <div className="mt-1 space-y-0.5">
+            {liqs.slice(-RECENT_LIQS).reverse().map((l, i) => (
+              <div key={`${l.at}-${i}`} className={`flex justify-between font-mono text-[10px] ${l.side === 'sell' ? 'text-red-300' : 'text-emerald-300'}`}>
+                <span>{l.side === 'sell' ? 'L' : 'S'} ${priceFmt(l.price)}</span>
+                <span>{qtyFmt(l.quantity)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
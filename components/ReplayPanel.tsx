@@ -0,0 +1,89 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Circle, Download, FolderOpen, Pause, Play, Square, X } from 'lucide-react';
+import { REPLAY_SPEEDS, type ReplayState } from '@/lib/replay';
+import type { RecordingHeader } from '@/lib/recorder';
+
+function fmtClock(ms: number): string {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+function fmtBytes(n: number): string {
+  if (n >= 1e6) return (n / 1e6).toFixed(1) + ' MB';
+  if (n >= 1e3) return (n / 1e3).toFixed(1) + ' KB';
+  return n + ' B';
+}
+
+export default function ReplayPanel({
+  recording, recStats, onToggleRecord, onDownload, canRecord = true,
+  source, replay, onLoad, onPlay, onPause, onSeek, onSpeed, onExit,
+}:{
+  recording: boolean; recStats: { count: number; bytes: number } | null;
+  onToggleRecord: () => void; onDownload: () => void;
+  /** False when no raw frames reach this tab (relay mode). */
+  canRecord?: boolean;
+  source: RecordingHeader | null; replay: ReplayState | null;
+  onLoad: (file: File) => Promise<void>;
+  onPlay: () => void; onPause: () => void; onSeek: (ms: number) => void; onSpeed: (x: number) => void; onExit: () => void;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const btn = 'px-3 py-1.5 rounded-md border text-xs font-semibold inline-flex items-center gap-1.5';
+
+  const pick = async (f: File | undefined) => {
+    if (!f) return;
+    setLoadError(null);
+    try { await onLoad(f); } catch (e) { setLoadError(e instanceof Error ? e.message : 'could not read file'); }
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-3 sm:p-4 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs sm:text-sm text-gray-300 font-semibold mr-1">Feed</span>
+        {!source && canRecord && (
+          <button onClick={onToggleRecord}
+            className={`${btn} ${recording ? 'bg-red-600/20 border-red-500 text-red-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`}>
+            {recording ? <Square className="w-3.5 h-3.5" /> : <Circle className="w-3.5 h-3.5 text-red-400" />}
+            {recording ? 'Stop' : 'Record'}
+          </button>
+        )}
+        {recStats && !source && (
+          <>
+            <span className="text-[11px] text-gray-500 font-mono">{recStats.count} msgs • {fmtBytes(recStats.bytes)}</span>
+            <button onClick={onDownload} className={`${btn} bg-slate-800 border-slate-700 text-gray-300`}>
+              <Download className="w-3.5 h-3.5" /> NDJSON
+            </button>
+          </>
+        )}
+        <button onClick={() => fileRef.current?.click()} className={`${btn} bg-slate-800 border-slate-700 text-gray-300`}>
+          <FolderOpen className="w-3.5 h-3.5" /> Replay file
+        </button>
+        <input ref={fileRef} type="file" accept=".ndjson,.jsonl,application/x-ndjson" className="hidden" onChange={(e) => pick(e.target.files?.[0])} />
+        {loadError && <span className="text-[11px] text-red-400">{loadError}</span>}
+      </div>
+
+      {source && replay && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={replay.playing ? onPause : onPlay} className={`${btn} bg-emerald-600/20 border-emerald-500 text-emerald-300`}>
+            {replay.playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+            {replay.playing ? 'Pause' : 'Play'}
+          </button>
+          <select value={replay.speed} onChange={(e) => onSpeed(Number(e.target.value))}
+            className="px-2 py-1.5 bg-slate-800 border border-slate-700 rounded-md text-xs font-mono">
+            {REPLAY_SPEEDS.map(x => <option key={x} value={x}>{x}×</option>)}
+          </select>
+          <span className="text-[11px] text-gray-400 font-mono tabular-nums">{fmtClock(replay.position)} / {fmtClock(replay.duration)}</span>
+          <input type="range" min={0} max={Math.max(1, replay.duration)} step={100} value={replay.position}
+            onChange={(e) => onSeek(Number(e.target.value))}
+            className="flex-1 min-w-[120px] h-2 bg-slate-800 rounded-lg accent-emerald-500" />
+          <span className="text-[11px] text-gray-500">{source.venue} • {source.symbol.toUpperCase()} • {new Date(source.start).toLocaleString()}</span>
+          <button onClick={onExit} className={`${btn} bg-slate-800 border-slate-700 text-gray-300`}>
+            <X className="w-3.5 h-3.5" /> Live
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
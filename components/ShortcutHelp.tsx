@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Keyboard, RotateCcw, X } from 'lucide-react';
+import { COMMANDS, DEFAULT_KEYMAP, comboFromEvent, keymap, type CommandId } from '@/lib/keymap';
+import { Kbd } from '@/components/CommandPalette';
+
+const GROUPS = ['General', 'Market', 'View'] as const;
+
+/**
+ * Shortcut list and editor. "Edit" captures the next key combo for that
+ * command; a combo already in use moves to it. Esc cancels a capture, or
+ * closes the overlay.
+ */
+export default function ShortcutHelp({ onClose }:{ onClose: () => void }) {
+  const store = keymap();
+  const map = useSyncExternalStore(store.subscribe, store.getState, () => DEFAULT_KEYMAP);
+  const [editing, setEditing] = useState<CommandId | null>(null);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') { e.preventDefault(); if (editing) setEditing(null); else onClose(); return; }
+      if (!editing) return;
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      e.preventDefault(); e.stopPropagation();
+      store.bind(editing, combo);
+      setEditing(null);
+    };
+    window.addEventListener('keydown', onKey, true);
+    return () => window.removeEventListener('keydown', onKey, true);
+  }, [editing, onClose, store]);
+
+  const btn = 'px-2 py-1 rounded-md border text-[11px] font-semibold bg-slate-800 border-slate-700 text-gray-300';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm flex items-start justify-center pt-[8vh] px-3" onMouseDown={onClose}>
+      <div className="w-full max-w-xl bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-3 sm:px-4 py-2 border-b border-slate-800">
+          <span className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-300">
+            <Keyboard className="w-4 h-4 text-emerald-400" /> Keyboard shortcuts
+          </span>
+          <div className="flex items-center gap-1.5">
+            <button onClick={() => { store.reset(); setEditing(null); }} className={`${btn} inline-flex items-center gap-1`} title="Restore the default bindings">
+              <RotateCcw className="w-3 h-3" /> Defaults
+            </button>
+            <button onClick={onClose} className="p-1 rounded-md text-gray-400 hover:text-gray-200" aria-label="close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="max-h-[70vh] overflow-y-auto scrollbar-thin p-3 flex flex-col gap-3">
+          {GROUPS.map(g => (
+            <div key={g}>
+              <div className="text-[10px] uppercase text-gray-400 font-semibold mb-1">{g}</div>
+              {COMMANDS.filter(c => c.group === g).map(c => (
+                <div key={c.id} className="flex items-center justify-between gap-3 px-2 py-1.5 rounded-md hover:bg-white/5">
+                  <span className="text-xs text-gray-300">{c.label}</span>
+                  <span className="flex items-center gap-1.5">
+                    {editing === c.id ? (
+                      <span className="text-[11px] text-emerald-300 animate-pulse">Press a key… (Esc to cancel)</span>
+                    ) : map[c.id].length ? map[c.id].map(k => <Kbd key={k} combo={k} />) : (
+                      <span className="text-[11px] text-gray-600">unbound</span>
+                    )}
+                    <button onClick={() => setEditing(editing === c.id ? null : c.id)} className={btn}>Edit</button>
+                    <button onClick={() => store.unbind(c.id)} disabled={!map[c.id].length} className="p-1 rounded-md text-gray-500 hover:text-gray-300 disabled:opacity-30" aria-label={`unbind ${c.label}`}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-3 py-1.5 border-t border-slate-800 text-[10px] text-gray-500">
+          Shortcuts are ignored while typing in a field. Bindings are saved in this browser.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, Search, Star } from 'lucide-react';
+import type { ExchangeAdapter, InstrumentInfo } from '@/lib/exchanges';
+import { loadInstruments, quoteAssets, searchInstruments, type InstrumentQuery } from '@/lib/instruments';
+
+const favKey = (venue: string) => `orderflow:favourites:${venue}`;
+
+function readFavs(venue: string): Set<string> {
+  if (typeof window === 'undefined') return new Set();
+  try { return new Set(JSON.parse(localStorage.getItem(favKey(venue)) ?? '[]') as string[]); } catch { return new Set(); }
+}
+
+// shortlist shown when the venue listing cannot be fetched
+function fallbackList(adapter: ExchangeAdapter): InstrumentInfo[] {
+  return adapter.symbols.map(o => {
+    const [base, quote = ''] = o.label.split('/');
+    return { symbol: o.value.toUpperCase(), base, quote, tickSize: '0.01', stepSize: '0.000001', status: 'TRADING', trading: true };
+  });
+}
+
+export default function SymbolPicker({ adapter, value, onChange, disabled }:{
+  adapter: ExchangeAdapter; value: string; onChange: (symbol: string) => void; disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [list, setList] = useState<InstrumentInfo[] | null>(null);
+  const [listError, setListError] = useState(false);
+  const [query, setQuery] = useState<InstrumentQuery>({ text: '', quote: '', tradingOnly: true, favouritesOnly: false });
+  // the parent keys this component by venue, so per-venue state starts fresh
+  const [favs, setFavs] = useState<Set<string>>(() => readFavs(adapter.id));
+  const rootRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open || list) return;
+    let live = true;
+    loadInstruments(adapter)
+      .then(l => { if (live) setList(l); })
+      .catch(() => { if (live) { setList(fallbackList(adapter)); setListError(true); } });
+    return () => { live = false; };
+  }, [open, list, adapter]);
+
+  // close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => { if (!rootRef.current?.contains(e.target as Node)) setOpen(false); };
+    document.addEventListener('mousedown', onDown);
+    inputRef.current?.focus();
+    return () => document.removeEventListener('mousedown', onDown);
+  }, [open]);
+
+  const quotes = useMemo(() => list ? quoteAssets(list) : [], [list]);
+  const results = useMemo(() => list ? searchInstruments(list, query, favs) : [], [list, query, favs]);
+
+  const toggleFav = (sym: string) => {
+    const next = new Set(favs);
+    if (next.has(sym)) next.delete(sym); else next.add(sym);
+    setFavs(next);
+    try { localStorage.setItem(favKey(adapter.id), JSON.stringify([...next])); } catch {}
+  };
+
+  const pick = (sym: string) => { onChange(adapter.normalizeSymbol(sym)); setOpen(false); setQuery(q => ({ ...q, text: '' })); };
+
+  const current = adapter.normalizeSymbol(value);
+  const label = list?.find(i => adapter.normalizeSymbol(i.symbol) === current);
+  const chip = (on: boolean) => `px-2 py-1 rounded-md border text-[11px] font-semibold ${on ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`;
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={disabled}
+        className="px-3 sm:px-4 py-2 bg-slate-800/80 border border-slate-700/50 rounded-lg text-xs sm:text-sm font-semibold inline-flex items-center gap-2 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+        title="Symbol"
+      >
+        {label ? `${label.base}/${label.quote}` : value.toUpperCase()}
+        <ChevronDown className="w-4 h-4 text-gray-400" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 lg:left-0 lg:right-auto mt-2 w-[320px] bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-50 p-3 flex flex-col gap-2">
+          <div className="flex items-center gap-2 bg-slate-800 border border-slate-700 rounded-md px-2">
+            <Search className="w-4 h-4 text-gray-500" />
+            <input
+              ref={inputRef}
+              value={query.text}
+              onChange={(e) => setQuery(q => ({ ...q, text: e.target.value }))}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setOpen(false);
+                // Enter opens the top hit, or the typed symbol as-is so unlisted markets can still be tried
+                if (e.key === 'Enter' && query.text.trim()) pick(results[0]?.symbol ?? query.text.trim());
+              }}
+              placeholder="Search symbol or base asset"
+              className="flex-1 bg-transparent py-2 text-sm focus:outline-none"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            <button onClick={() => setQuery(q => ({ ...q, favouritesOnly: !q.favouritesOnly }))} className={chip(query.favouritesOnly)}>★</button>
+            <button onClick={() => setQuery(q => ({ ...q, quote: '' }))} className={chip(!query.quote)}>All</button>
+            {quotes.map(qa => (
+              <button key={qa} onClick={() => setQuery(q => ({ ...q, quote: q.quote === qa ? '' : qa }))} className={chip(query.quote === qa)}>{qa}</button>
+            ))}
+            <label className="ml-auto flex items-center gap-1 text-[11px] text-gray-400">
+              <input type="checkbox" checked={query.tradingOnly} onChange={(e) => setQuery(q => ({ ...q, tradingOnly: e.target.checked }))} className="accent-emerald-500" />
+              Trading
+            </label>
+          </div>
+
+          {listError && <div className="text-[11px] text-yellow-400">Market list unavailable — showing defaults</div>}
+
+          <div className="max-h-[320px] overflow-y-auto scrollbar-thin">
+            {!list ? (
+              <div className="py-6 text-center text-xs text-gray-500">Loading markets…</div>
+            ) : results.length === 0 ? (
+              <div className="py-6 text-center text-xs text-gray-500">No matches — Enter to open “{query.text.trim().toUpperCase() || '…'}”</div>
+            ) : results.map(i => {
+              const active = adapter.normalizeSymbol(i.symbol) === current;
+              return (
+                <div key={i.symbol} className={`flex items-center gap-2 px-2 py-1.5 rounded-md ${active ? 'bg-emerald-500/10' : 'hover:bg-white/5'}`}>
+                  <button onClick={() => toggleFav(i.symbol)} aria-label="favourite" className="p-0.5">
+                    <Star className={`w-3.5 h-3.5 ${favs.has(i.symbol) ? 'text-yellow-400 fill-yellow-400' : 'text-gray-600'}`} />
+                  </button>
+                  <button onClick={() => pick(i.symbol)} className="flex-1 flex items-center justify-between text-left font-mono text-xs">
+                    <span className={active ? 'text-emerald-300 font-bold' : 'text-gray-200'}>{i.base}/{i.quote}</span>
+                    {!i.trading && <span className="text-[10px] text-red-400 uppercase">{i.status}</span>}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import React, { memo } from 'react';
+import { Waves } from 'lucide-react';
+import { DIVERGENCE_SPAN, FLOW_WINDOWS, type TradeFlow } from '@/lib/flow';
+import { fmtFixed } from '@/lib/format';
+
+const W = 100, H = 40;
+
+const windowLabel = (ms: number) => ms < 60_000 ? `${ms / 1000}s` : `${ms / 60_000}m`;
+const signed = (n: number, f: (n: number) => string) => `${n > 0 ? '+' : n < 0 ? '−' : ''}${f(Math.abs(n))}`;
+
+/**
+ * Session CVD and rolling taker flow from a TradeFlow. Memoized on the flow
+ * version the page refreshes on its 1s tick, like the microstructure strip.
+ */
+const TradeFlowPanel = memo(function TradeFlowPanel({ flow, priceFmt, qtyFmt }:{
+  flow: TradeFlow; version: number; priceFmt: (n: number) => string; qtyFmt: (n: number) => string;
+}) {
+  const cvd = flow.cvd;
+
+  return (
+    <div className="bg-slate-900/70 border border-slate-800 rounded-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-[10px] sm:text-xs text-gray-400 uppercase font-semibold">
+          <Waves className="w-3.5 h-3.5 text-cyan-400" /> Trade flow
+          <span className={`normal-case font-mono ${cvd >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>CVD {signed(cvd, qtyFmt)}</span>
+        </span>
+        {flow.since > 0 && <span className="text-[10px] text-gray-500 font-mono">since {new Date(flow.since).toLocaleTimeString()}</span>}
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-2 p-2">
+        <div className="grid grid-cols-2 gap-2 lg:col-span-1">
+          {FLOW_WINDOWS.map(ms => {
+            const w = flow.window(ms), vol = w.buy + w.sell;
+            return (
+              <div key={ms} className="bg-slate-900/60 border border-slate-800 rounded-md px-2 py-1.5 font-mono text-[10px] sm:text-[11px] tabular-nums">
+                <div className="flex justify-between text-[9px] sm:text-[10px] text-gray-400 uppercase">
+                  <span>{windowLabel(ms)}</span>
+                  <span className={w.delta >= 0 ? 'text-emerald-400' : 'text-red-400'}>Δ {signed(w.delta, qtyFmt)}</span>
+                </div>
+                <div className="h-1.5 my-1 flex rounded-sm overflow-hidden bg-slate-800" title={`imbalance ${fmtFixed(w.imbalance, 1)}%`}>
+                  {vol > 0 && <>
+                    <div className="h-full bg-emerald-500/70" style={{ width: `${(w.buy / vol) * 100}%` }} />
+                    <div className="h-full bg-red-500/70" style={{ width: `${(w.sell / vol) * 100}%` }} />
+                  </>}
+                </div>
+                <div className="flex justify-between"><span className="text-emerald-300">{qtyFmt(w.buy)}</span><span className="text-red-300">{qtyFmt(w.sell)}</span></div>
+                <div className="flex justify-between text-gray-500">
+                  <span title="Fills (buy / sell)">{w.buyCount + w.sellCount} fills</span>
+                  <span title="Fills per second">{fmtFixed(w.rate, 1)}/s</span>
+                </div>
+                <div className="text-gray-500 truncate" title="Mean fill size">avg {qtyFmt(w.avgSize)}</div>
+              </div>
+            );
+          })}
+        </div>
+        <CvdChart flow={flow} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+      </div>
+    </div>
+  );
+}, (a, b) => a.version === b.version && a.flow === b.flow && a.priceFmt === b.priceFmt && a.qtyFmt === b.qtyFmt);
+
+export default TradeFlowPanel;
+
+/** CVD (cyan) over mid (dashed yellow), each on its own scale, with divergence markers. */
+function CvdChart({ flow, priceFmt, qtyFmt }:{ flow: TradeFlow; priceFmt: (n: number) => string; qtyFmt: (n: number) => string }) {
+  const ps = flow.history;
+  if (ps.length < 2) {
+    return <div className="lg:col-span-2 h-40 flex items-center justify-center text-sm text-gray-500 bg-slate-900/60 border border-slate-800 rounded-md">Waiting for trades...</div>;
+  }
+  const t0 = ps[0].t, span = ps[ps.length - 1].t - t0 || 1;
+  let cLo = Infinity, cHi = -Infinity, mLo = Infinity, mHi = -Infinity;
+  for (const p of ps) {
+    if (p.cvd < cLo) cLo = p.cvd; if (p.cvd > cHi) cHi = p.cvd;
+    if (p.mid < mLo) mLo = p.mid; if (p.mid > mHi) mHi = p.mid;
+  }
+  const x = (t: number) => ((t - t0) / span) * W;
+  const yc = (v: number) => H - 2 - ((v - cLo) / (cHi - cLo || 1)) * (H - 4);
+  const ym = (v: number) => H - 2 - ((v - mLo) / (mHi - mLo || 1)) * (H - 4);
+  const line = (f: (i: number) => number) => ps.map((p, i) => `${x(p.t).toFixed(2)},${f(i).toFixed(2)}`).join(' ');
+  const divs = flow.divergences.filter(d => d.t >= t0);
+
+  return (
+    <div className="lg:col-span-2 bg-slate-900/60 border border-slate-800 rounded-md p-2">
+      <div className="flex flex-wrap justify-between gap-2 text-[10px] text-gray-500 font-mono mb-1">
+        <span><span className="text-cyan-400">— CVD</span> {qtyFmt(cLo)} … {qtyFmt(cHi)}</span>
+        <span><span className="text-yellow-400">┈ Mid</span> ${priceFmt(mLo)} … ${priceFmt(mHi)}</span>
+        <span title={`Mid makes a new high/low over the last ${DIVERGENCE_SPAN}s that CVD does not confirm`}>
+          <span className="text-red-400">▼</span> bearish · <span className="text-emerald-400">▲</span> bullish divergence
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" className="w-full h-36">
+        {cLo < 0 && cHi > 0 && <line x1="0" x2={W} y1={yc(0)} y2={yc(0)} stroke="rgb(71 85 105)" strokeWidth="0.5" vectorEffect="non-scaling-stroke" />}
+        <polyline points={line(i => ym(ps[i].mid))} fill="none" stroke="rgb(250 204 21 / 0.6)" strokeWidth="1" strokeDasharray="3 2" vectorEffect="non-scaling-stroke" />
+        <polyline points={line(i => yc(ps[i].cvd))} fill="none" stroke="rgb(34 211 238)" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+        {divs.map(d => (
+          <line key={`${d.t}-${d.kind}`} x1={x(d.t)} x2={x(d.t)} y1={0} y2={H} stroke={d.kind === 'bearish' ? 'rgb(248 113 113)' : 'rgb(52 211 153)'}
+            strokeWidth="1" strokeDasharray="1 2" vectorEffect="non-scaling-stroke">
+            <title>{`${d.kind} divergence at ${new Date(d.t).toLocaleTimeString()}: mid $${priceFmt(d.mid)}, CVD ${qtyFmt(d.cvd)}`}</title>
+          </line>
+        ))}
+      </svg>
+      {divs.length > 0 && (
+        <div className="relative h-3 text-[10px] leading-3">
+          {divs.map(d => (
+            <span key={`${d.t}-${d.kind}`} className={`absolute -translate-x-1/2 ${d.kind === 'bearish' ? 'text-red-400' : 'text-emerald-400'}`} style={{ left: `${x(d.t)}%` }}>
+              {d.kind === 'bearish' ? '▼' : '▲'}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Activity, Download, Layers } from 'lucide-react';
+import { TAPE_CAPACITY, tapeToCsv, tapeToJson, type TradeTape as Tape } from '@/lib/tape';
+import { downloadText } from '@/lib/download';
+import { EmptyPanel, TradeRow } from '@/components/BookRows';
+
+const ROW_H = 32;
+const OVERSCAN = 8;
+const FLASH_MS = 300;
+
+/**
+ * Virtualized trade tape. Only the rows in view are read from the tape and
+ * rendered; the list re-renders on its own rAF when the tape's version
+ * moves. Scrolled away from the top, new prints are absorbed above the
+ * viewport so the rows being read stay put. Export writes exactly the rows
+ * in the viewport, as filtered and merged on screen.
+ */
+export default function TradeTape({ tape, paused, symbol, priceFmt, qtyFmt }:{
+  tape: Tape; paused: boolean; symbol: string;
+  priceFmt: (n: number) => string; qtyFmt: (n: number) => string;
+}) {
+  // time of the last poll that changed something; drives the new-print flash
+  const [now, setNow] = useState(0);
+  const [minSize, setMinSize] = useState('');
+  const [merge, setMerge] = useState(false);
+  const [bigNotional, setBigNotional] = useState('100000');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewH, setViewH] = useState(600);
+
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const pausedRef = useRef(paused);
+  const topSeqRef = useRef(0);
+  useEffect(() => { pausedRef.current = paused; }, [paused]);
+
+  // poll the tape; one extra render once it goes quiet so the last flashes clear
+  useEffect(() => {
+    let raf = 0, seen = -1, settled = true;
+    const loop = () => {
+      const t = Date.now(), quiet = t - tape.lastAt >= FLASH_MS;
+      if (!pausedRef.current && (tape.version !== seen || (quiet && !settled))) {
+        seen = tape.version; settled = quiet;
+        setNow(t);
+      }
+      raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [tape]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => setViewH(el.clientHeight));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  const filter = { minSize: Number(minSize) || 0, merge };
+  const count = tape.rowCount(filter);
+  const big = Number(bigNotional) || Infinity;
+
+  // keep the viewport anchored when reading history
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    const prevTop = topSeqRef.current;
+    topSeqRef.current = tape.rows(filter, 0, 1)[0]?.seq ?? 0;
+    if (!el || el.scrollTop <= 0 || !prevTop) return;
+    const k = tape.rowIndex(filter, prevTop);
+    if (k > 0) el.scrollTop += k * ROW_H;
+  });
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_H) - OVERSCAN);
+  const last = Math.min(count, Math.ceil((scrollTop + viewH) / ROW_H) + OVERSCAN);
+  const shown = tape.rows(filter, first, last);
+  // the rows actually in view, without the overscan
+  const visFirst = Math.min(count, Math.floor(scrollTop / ROW_H));
+  const visLast = Math.min(count, Math.ceil((scrollTop + viewH) / ROW_H));
+
+  const exportRows = (fmt: 'csv' | 'json') => {
+    const rows = tape.rows(filter, visFirst, visLast);
+    const name = `${symbol}-trades-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    if (fmt === 'csv') downloadText(`${name}.csv`, tapeToCsv(rows), 'text/csv');
+    else downloadText(`${name}.json`, tapeToJson(rows), 'application/json');
+  };
+
+  const input = 'w-20 px-2 py-1 bg-slate-800 border border-slate-700 rounded-md font-mono text-[11px]';
+  const btn = (on: boolean) => `px-2 py-1 rounded-md border text-[11px] font-semibold inline-flex items-center gap-1 ${on ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`;
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl h-[52vh] md:h-[700px] flex flex-col">
+      <div className="bg-gradient-to-r from-cyan-500/20 via-blue-500/20 to-purple-500/20 px-3 sm:px-4 py-3 border-b border-slate-800">
+        <div className="flex items-center justify-between">
+          <h3 className="text-base sm:text-lg font-bold flex items-center gap-2">
+            <Activity className="w-4 h-4 sm:w-5 sm:h-5 text-cyan-400" />
+            <span className="bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">Trade Tape</span>
+          </h3>
+          <span className="text-[10px] sm:text-xs text-gray-400 bg-slate-800 px-2 py-1 rounded font-mono" title={`keeps the last ${TAPE_CAPACITY.toLocaleString()} trades`}>
+            {count.toLocaleString()}{count !== tape.size ? ` / ${tape.size.toLocaleString()}` : ''}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1.5 mt-2 text-[11px] text-gray-400">
+          <span>Min</span>
+          <input value={minSize} onChange={(e) => setMinSize(e.target.value)} placeholder="size" inputMode="decimal" className={input} />
+          <span>Big ≥ $</span>
+          <input value={bigNotional} onChange={(e) => setBigNotional(e.target.value)} inputMode="decimal" className={input} />
+          <button onClick={() => setMerge(m => !m)} className={btn(merge)} title="Merge same-side prints with the same timestamp">
+            <Layers className="w-3 h-3" /> Merge
+          </button>
+          <span className="ml-auto flex items-center gap-1">
+            <button onClick={() => exportRows('csv')} disabled={!count} title="Export the trades in view" className={`${btn(false)} disabled:opacity-40`}><Download className="w-3 h-3" />CSV</button>
+            <button onClick={() => exportRows('json')} disabled={!count} title="Export the trades in view" className={`${btn(false)} disabled:opacity-40`}><Download className="w-3 h-3" />JSON</button>
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between font-mono text-[10px] sm:text-xs font-bold mt-2 text-gray-500">
+          <span>PRICE</span><span>AMOUNT</span><span>TIME</span>
+        </div>
+      </div>
+
+      <div ref={scrollRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className="flex-1 overflow-y-auto scrollbar-thin touch-scroll">
+        {count === 0 ? <EmptyPanel /> : (
+          <div style={{ height: count * ROW_H, position: 'relative' }}>
+            {shown.map((t, i) => (
+              <div key={t.seq} style={{ position: 'absolute', top: (first + i) * ROW_H, left: 0, right: 0, height: ROW_H }} className="overflow-hidden">
+                <TradeRow trade={t} isNew={now - t.at < FLASH_MS} big={t.price * t.quantity >= big} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
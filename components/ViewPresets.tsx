@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Check, Download, Link2, Save, Trash2, Upload } from 'lucide-react';
+import { downloadText } from '@/lib/download';
+import { groupingLabel } from '@/lib/grouping';
+import { exportPresets, importPresets, loadPresets, storePreset, viewHref, type ViewSettings } from '@/lib/viewstate';
+
+/** Named views: save, switch, delete, share as a link, and move between browsers as JSON. */
+export default function ViewPresets({ view, onApply }:{
+  view: ViewSettings; onApply: (v: ViewSettings) => void;
+}) {
+  const [presets, setPresets] = useState<Record<string, ViewSettings>>(loadPresets);
+  const [selected, setSelected] = useState('');
+  const [note, setNote] = useState<{ text: string; error?: boolean } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const noteTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const flash = (text: string, error = false) => {
+    setNote({ text, error });
+    clearTimeout(noteTimer.current);
+    noteTimer.current = setTimeout(() => setNote(null), 4000);
+  };
+
+  const saveAs = () => {
+    const name = window.prompt('Save view as', selected || `${view.symbol.toUpperCase()} ${groupingLabel(view.grouping)}`)?.trim();
+    if (!name) return;
+    storePreset(name, view);
+    setPresets(loadPresets()); setSelected(name);
+  };
+
+  const pick = (name: string) => {
+    setSelected(name);
+    if (presets[name]) onApply(presets[name]);
+  };
+
+  const remove = () => {
+    if (!selected) return;
+    storePreset(selected, null);
+    setPresets(loadPresets()); setSelected('');
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.origin + viewHref(view));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch { flash('Clipboard unavailable — copy the address bar instead', true); }
+  };
+
+  const importFile = async (f: File | undefined) => {
+    if (!f) return;
+    try {
+      const names = importPresets(await f.text());
+      setPresets(loadPresets());
+      flash(`Imported ${names.length} preset${names.length === 1 ? '' : 's'}`);
+    } catch (e) { flash(e instanceof Error ? e.message : 'could not read file', true); }
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const btn = 'px-2 py-1.5 rounded-md border text-xs font-semibold bg-slate-800 border-slate-700 text-gray-300 inline-flex items-center gap-1 disabled:opacity-40';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-gray-400">View</span>
+      <select
+        value={selected}
+        onChange={(e) => pick(e.target.value)}
+        className="px-2 py-1.5 bg-slate-800 border border-slate-700 rounded-md text-xs font-semibold focus:outline-none"
+        title="Saved views"
+      >
+        <option value="">Presets…</option>
+        {Object.keys(presets).map(n => <option key={n} value={n}>{n}</option>)}
+      </select>
+      <button onClick={saveAs} className={btn} title="Save the current view as a preset"><Save className="w-3.5 h-3.5" /> Save</button>
+      <button onClick={remove} disabled={!selected} className={btn} title="Delete preset"><Trash2 className="w-3.5 h-3.5" /></button>
+      <button onClick={copyLink} className={btn} title="Copy a link that opens exactly this view">
+        {copied ? <Check className="w-3.5 h-3.5 text-emerald-400" /> : <Link2 className="w-3.5 h-3.5" />} {copied ? 'Copied' : 'Copy link'}
+      </button>
+      <button onClick={() => downloadText('orderflow-presets.json', exportPresets(), 'application/json')} disabled={!Object.keys(presets).length}
+        className={btn} title="Download all presets as JSON">
+        <Download className="w-3.5 h-3.5" />
+      </button>
+      <button onClick={() => fileRef.current?.click()} className={btn} title="Import presets from JSON">
+        <Upload className="w-3.5 h-3.5" />
+      </button>
+      <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={(e) => importFile(e.target.files?.[0])} />
+      {note && <span className={`text-[11px] ${note.error ? 'text-red-400' : 'text-emerald-300'}`}>{note.text}</span>}
+    </div>
+  );
+}
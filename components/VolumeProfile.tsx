@@ -0,0 +1,182 @@
+'use client';
+
+import React, { memo, useState } from 'react';
+import { BarChart3, RotateCcw } from 'lucide-react';
+import type { PriceStep } from '@/lib/decimal';
+import { FOOTPRINT_INTERVALS, PROFILE_WINDOWS, VALUE_AREA, type Footprint, type ProfileView } from '@/lib/profile';
+import { fmtCompact } from '@/lib/format';
+
+const FOOTPRINT_COLS = 6;
+const FOOTPRINT_ROWS = 40;
+
+type Mode = 'profile' | 'footprint';
+
+const windowLabel = (ms: number) => ms ? `${ms / 60_000 >= 60 ? `${ms / 3_600_000}h` : `${ms / 60_000}m`}` : 'Session';
+
+/**
+ * Executed volume by price at the book's step: a buy/sell split profile with
+ * POC and value area, or a footprint of the last few candles. Memoized on
+ * the profile snapshot and footprint version the page refreshes on its own
+ * cadence, not on every book flush.
+ */
+const VolumeProfile = memo(function VolumeProfile({ profile, footprint, step, mid, windowMs, onWindow, since, onReset, priceFmt, qtyFmt }:{
+  profile: ProfileView;
+  footprint: Footprint;
+  /** Footprint version at the page's last refresh. */
+  version: number;
+  step: PriceStep; mid: number;
+  windowMs: number; onWindow: (ms: number) => void;
+  /** First trade in the profile (session mode). */
+  since: number;
+  onReset: () => void;
+  priceFmt: (n: number) => string; qtyFmt: (n: number) => string;
+}) {
+  const [mode, setMode] = useState<Mode>('profile');
+  const [interval, setFpInterval] = useState(footprint.intervalMs);
+
+  const chip = (on: boolean) => `px-2 py-1 rounded-md border text-[11px] font-semibold ${on ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`;
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="bg-gradient-to-r from-amber-500/20 via-orange-500/10 to-rose-500/20 px-3 sm:px-4 py-3 border-b border-slate-800">
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="text-base sm:text-lg font-bold flex items-center gap-2 mr-auto">
+            <BarChart3 className="w-4 h-4 sm:w-5 sm:h-5 text-amber-400" />
+            <span className="bg-gradient-to-r from-amber-300 to-rose-300 bg-clip-text text-transparent">Volume {mode === 'profile' ? 'Profile' : 'Footprint'}</span>
+          </h3>
+          <div className="inline-flex rounded-md border border-slate-700 overflow-hidden">
+            {(['profile', 'footprint'] as const).map(m => (
+              <button key={m} onClick={() => setMode(m)}
+                className={`px-2.5 py-1 text-[11px] font-semibold ${mode === m ? 'bg-emerald-600/20 text-emerald-300' : 'bg-slate-800 text-gray-400'}`}>
+                {m === 'profile' ? 'Profile' : 'Footprint'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1.5 mt-2 text-[11px] text-gray-400">
+          {mode === 'profile' ? <>
+            {PROFILE_WINDOWS.map(ms => <button key={ms} onClick={() => onWindow(ms)} className={chip(windowMs === ms)}>{windowLabel(ms)}</button>)}
+            <button onClick={onReset} className={`${chip(false)} inline-flex items-center gap-1`} title="Start the profile over from the next trade">
+              <RotateCcw className="w-3 h-3" /> Reset
+            </button>
+            {!windowMs && since > 0 && <span className="ml-auto font-mono text-gray-500">since {new Date(since).toLocaleTimeString()}</span>}
+          </> : <>
+            <span>Candle</span>
+            {FOOTPRINT_INTERVALS.map(ms => (
+              <button key={ms} onClick={() => { footprint.setInterval(ms); setFpInterval(ms); }} className={chip(interval === ms)}>{windowLabel(ms)}</button>
+            ))}
+            <span className="ml-auto text-gray-500">bid × ask · Δ</span>
+          </>}
+        </div>
+      </div>
+
+      {mode === 'profile'
+        ? <ProfileBars profile={profile} mid={mid} priceFmt={priceFmt} qtyFmt={qtyFmt} />
+        : <FootprintGrid footprint={footprint} step={step} priceFmt={priceFmt} qtyFmt={qtyFmt} />}
+    </div>
+  );
+}, (a, b) => a.profile === b.profile && a.version === b.version && a.footprint === b.footprint && a.windowMs === b.windowMs && a.since === b.since
+  && a.step.units === b.step.units && a.step.dp === b.step.dp && a.priceFmt === b.priceFmt && a.qtyFmt === b.qtyFmt && a.onWindow === b.onWindow && a.onReset === b.onReset);
+
+export default VolumeProfile;
+
+function ProfileBars({ profile, mid, priceFmt, qtyFmt }:{
+  profile: ProfileView; mid: number; priceFmt: (n: number) => string; qtyFmt: (n: number) => string;
+}) {
+  const { levels, max, total, poc, vah, val } = profile;
+  if (!levels.length) return <div className="h-40 flex items-center justify-center text-sm text-gray-500">Waiting for trades...</div>;
+  // the mid line goes above the first row at or below it
+  const midAt = levels.findIndex(l => l.price <= mid);
+
+  return (
+    <>
+      <div className="flex justify-between px-3 sm:px-4 py-1.5 text-[10px] sm:text-[11px] font-mono text-gray-500 border-b border-slate-800">
+        <span>POC <span className="text-amber-300">{poc !== null ? priceFmt(poc) : '—'}</span></span>
+        <span>VA {Math.round(VALUE_AREA * 100)}% <span className="text-gray-300">{val !== null ? priceFmt(val) : '—'} – {vah !== null ? priceFmt(vah) : '—'}</span></span>
+        <span>Σ {qtyFmt(total)}</span>
+      </div>
+      <div className="max-h-[420px] overflow-y-auto scrollbar-thin touch-scroll py-1">
+        {levels.map((l, i) => {
+          const v = l.buy + l.sell, inValue = vah !== null && val !== null && l.price <= vah && l.price >= val;
+          return (
+            <React.Fragment key={l.price}>
+              {i === midAt && <div className="border-t border-dashed border-yellow-400/60 mx-3" title={`mid ${priceFmt(mid)}`} />}
+              <div className={`flex items-center gap-2 px-3 sm:px-4 py-0.5 font-mono text-[10px] sm:text-[11px] ${l.price === poc ? 'bg-amber-400/10' : ''}`}
+                title={`buy ${qtyFmt(l.buy)} · sell ${qtyFmt(l.sell)} · Δ ${qtyFmt(l.buy - l.sell)}`}>
+                <span className={`w-20 sm:w-24 shrink-0 ${l.price === poc ? 'text-amber-300 font-bold' : inValue ? 'text-gray-200' : 'text-gray-500'}`}>{priceFmt(l.price)}</span>
+                <div className={`flex-1 h-3 flex ${inValue ? '' : 'opacity-50'}`}>
+                  <div className="h-full bg-red-500/60" style={{ width: `${(l.sell / max) * 100}%` }} />
+                  <div className="h-full bg-emerald-500/60" style={{ width: `${(l.buy / max) * 100}%` }} />
+                </div>
+                <span className="w-14 sm:w-16 shrink-0 text-right text-gray-400">{fmtCompact(v)}</span>
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </>
+  );
+}
+
+function FootprintGrid({ footprint, step, priceFmt, qtyFmt }:{
+  footprint: Footprint; step: PriceStep; priceFmt: (n: number) => string; qtyFmt: (n: number) => string;
+}) {
+  const { step: used, candles } = footprint.candles(step, FOOTPRINT_COLS, FOOTPRINT_ROWS);
+  if (!candles.length) return <div className="h-40 flex items-center justify-center text-sm text-gray-500">Waiting for trades...</div>;
+
+  const prices = [...new Set(candles.flatMap(c => c.levels.map(l => l.price)))].sort((a, b) => b - a);
+  const cells = candles.map(c => new Map(c.levels.map(l => [l.price, l])));
+  let maxCell = 0;
+  for (const c of candles) for (const l of c.levels) maxCell = Math.max(maxCell, l.buy + l.sell);
+
+  return (
+    <div className="overflow-x-auto scrollbar-thin">
+      {used.units !== step.units && (
+        <div className="px-3 sm:px-4 pt-2 text-[10px] text-gray-500">Rows merged to {priceFmt(used.value)} to fit the range</div>
+      )}
+      <table className="w-full font-mono text-[10px] sm:text-[11px] tabular-nums">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal px-2 py-1">Price</th>
+            {candles.map(c => <th key={c.t} className="font-normal px-1 py-1">{new Date(c.t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {prices.map(p => (
+            <tr key={p}>
+              <td className="px-2 text-gray-400">{priceFmt(p)}</td>
+              {cells.map((m, i) => {
+                const l = m.get(p);
+                if (!l) return <td key={candles[i].t} />;
+                const d = l.buy - l.sell, strength = maxCell > 0 ? (l.buy + l.sell) / maxCell : 0;
+                const bg = d >= 0 ? `rgba(16,185,129,${(0.08 + 0.5 * strength).toFixed(2)})` : `rgba(239,68,68,${(0.08 + 0.5 * strength).toFixed(2)})`;
+                return (
+                  <td key={candles[i].t} className={`px-1 text-center whitespace-nowrap ${candles[i].poc === p ? 'ring-1 ring-inset ring-amber-400/70' : ''}`}
+                    style={{ background: bg }} title={`bid ${qtyFmt(l.sell)} × ask ${qtyFmt(l.buy)} · Δ ${qtyFmt(d)}`}>
+                    <span className="text-red-200">{fmtCompact(l.sell)}</span>
+                    <span className="text-gray-500"> × </span>
+                    <span className="text-emerald-200">{fmtCompact(l.buy)}</span>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t border-slate-800">
+            <td className="px-2 py-1 text-gray-500">Δ</td>
+            {candles.map(c => {
+              const d = c.buy - c.sell;
+              return <td key={c.t} className={`px-1 py-1 text-center font-bold ${d >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{d >= 0 ? '+' : '−'}{fmtCompact(Math.abs(d))}</td>;
+            })}
+          </tr>
+          <tr>
+            <td className="px-2 pb-1 text-gray-500">Vol</td>
+            {candles.map(c => <td key={c.t} className="px-1 pb-1 text-center text-gray-400">{fmtCompact(c.buy + c.sell)}</td>)}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
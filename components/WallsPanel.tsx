@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { BrickWall } from 'lucide-react';
+import type { Side } from '@/lib/orderbook';
+import { WALL_THRESHOLDS, type WallMark } from '@/lib/walls';
+import { fmtAge } from '@/lib/format';
+import { wallTitle } from '@/components/BookRows';
+
+export type WallList = Record<Side, WallMark[]>;
+export const NO_WALLS: WallList = { bid: [], ask: [] };
+
+/** Largest walls on each side with their distance from mid, age and refills. */
+export default function WallsPanel({ walls, mid, threshold, onThreshold, priceFmt, qtyFmt }:{
+  walls: WallList; mid: number; threshold: number; onThreshold: (x: number) => void;
+  priceFmt: (n: number) => string; qtyFmt: (n: number) => string;
+}) {
+  const column = (side: Side) => (
+    <div className="flex flex-col gap-1 min-w-0">
+      <div className={`text-[10px] font-bold uppercase ${side === 'bid' ? 'text-emerald-400' : 'text-red-400'}`}>{side === 'bid' ? 'Bid walls' : 'Ask walls'}</div>
+      {walls[side].length === 0 && <div className="text-[11px] text-gray-500 py-1">None above {threshold}×</div>}
+      {walls[side].map(w => (
+        <div key={w.price} title={wallTitle(w, qtyFmt)} className="flex items-center justify-between gap-2 px-2 py-1 rounded-md bg-slate-800/40 font-mono text-[11px]">
+          <span className={side === 'bid' ? 'text-emerald-300' : 'text-red-300'}>${priceFmt(w.price)}</span>
+          <span className="text-amber-300 font-bold">{qtyFmt(w.amount)}</span>
+          <span className="text-gray-500">{mid > 0 ? `${(((w.price - mid) / mid) * 100).toFixed(2)}%` : ''}</span>
+          <span className="text-gray-400">{fmtAge(w.age)}</span>
+          {w.iceberg && <span className="px-1 rounded text-[9px] leading-4 bg-cyan-500/20 text-cyan-300 border border-cyan-500/40">ICE ×{w.refills}</span>}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="flex items-center justify-between px-3 sm:px-4 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-300">
+          <BrickWall className="w-4 h-4 text-amber-400" /> Walls
+        </span>
+        <div className="flex items-center gap-1.5">
+          <span className="text-[11px] text-gray-500">size ≥</span>
+          {WALL_THRESHOLDS.map(x => (
+            <button key={x} onClick={() => onThreshold(x)}
+              className={`px-2 py-1 rounded-md border text-[11px] font-semibold ${threshold === x ? 'bg-emerald-600/20 border-emerald-500 text-emerald-300' : 'bg-slate-800 border-slate-700 text-gray-300'}`}>
+              {x}×
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="p-3 grid grid-cols-1 sm:grid-cols-2 2xl:grid-cols-1 gap-3">
+        {column('bid')}
+        {column('ask')}
+      </div>
+    </div>
+  );
+}
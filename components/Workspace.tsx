@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { LayoutGrid, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { ADAPTERS } from '@/lib/exchanges';
+import { DEFAULT_VENUE } from '@/lib/route';
+import {
+  addPane, defaultLayout, loadLayout, makePane, MAX_PANES, movePane, removePane, resizePair,
+  savedLayouts, saveLayout, storeLayout, updatePane, type Layout,
+} from '@/lib/workspace';
+import BookPane from '@/components/BookPane';
+
+// ============================================================================
+// Workspace — several books side by side
+//
+// Renders client-only (layouts live in localStorage). Every pane runs its own
+// MarketFeed, but feeds on the same venue share one StreamPool connection.
+// ============================================================================
+export default function Workspace() {
+  const [layout, setLayout] = useState<Layout>(loadLayout);
+  const [saved, setSaved] = useState<Record<string, Layout>>(savedLayouts);
+  const [selected, setSelected] = useState('');
+  const rowRef = useRef<HTMLDivElement>(null);
+  const dragFromRef = useRef(-1);
+
+  useEffect(() => { saveLayout(layout); }, [layout]);
+
+  const add = () => {
+    const used = new Set(layout.panes.filter(p => p.venue === DEFAULT_VENUE).map(p => p.symbol));
+    const opts = ADAPTERS[DEFAULT_VENUE].symbols;
+    const next = opts.find(o => !used.has(o.value)) ?? opts[0];
+    setLayout(l => addPane(l, makePane(DEFAULT_VENUE, next.value)));
+  };
+
+  const saveAs = () => {
+    const name = window.prompt('Save layout as', selected || 'My layout')?.trim();
+    if (!name) return;
+    storeLayout(name, layout);
+    setSaved(savedLayouts()); setSelected(name);
+  };
+
+  const restore = (name: string) => {
+    setSelected(name);
+    if (saved[name]) setLayout(saved[name]);
+  };
+
+  const remove = () => {
+    if (!selected) return;
+    storeLayout(selected, null);
+    setSaved(savedLayouts()); setSelected('');
+  };
+
+  // drag a divider: move flex weight between the two neighbours
+  const startResize = (i: number, e: React.PointerEvent<HTMLDivElement>) => {
+    const row = rowRef.current;
+    if (!row) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const total = layout.panes.reduce((s, p) => s + p.size, 0);
+    const perPx = total / row.clientWidth;
+    let lastX = e.clientX;
+    const el = e.currentTarget;
+    const move = (ev: PointerEvent) => {
+      const dx = ev.clientX - lastX; lastX = ev.clientX;
+      setLayout(l => resizePair(l, i, dx * perPx));
+    };
+    const up = () => { el.removeEventListener('pointermove', move); el.removeEventListener('pointerup', up); };
+    el.addEventListener('pointermove', move);
+    el.addEventListener('pointerup', up);
+  };
+
+  const btn = 'px-3 py-2 rounded-lg text-xs sm:text-sm border border-slate-700/50 bg-slate-800/80 text-gray-200 inline-flex items-center gap-2 disabled:opacity-40';
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <style jsx global>{`
+        .tabular-nums { font-variant-numeric: tabular-nums; font-feature-settings: "tnum"; }
+        .scrollbar-thin::-webkit-scrollbar { width: 6px; height: 6px; }
+        .scrollbar-thin::-webkit-scrollbar-track { background: rgb(30 41 59); border-radius: 3px; }
+        .scrollbar-thin::-webkit-scrollbar-thumb { background: rgb(71 85 105); border-radius: 3px; }
+        .touch-scroll { -webkit-overflow-scrolling: touch; overscroll-behavior: contain; }
+      `}</style>
+
+      {/* Header */}
+      <div className="border-b border-slate-800 bg-slate-900/60 backdrop-blur-xl sticky top-0 z-50">
+        <div className="px-3 sm:px-4 py-3 flex flex-wrap items-center gap-2 sm:gap-3">
+          <div className="flex items-center gap-2 mr-auto">
+            <LayoutGrid className="w-5 h-5 text-emerald-400" />
+            <h1 className="text-lg sm:text-xl font-bold">OrderFlow <span className="text-emerald-400">Workspace</span></h1>
+          </div>
+
+          <button onClick={add} disabled={layout.panes.length >= MAX_PANES} className={btn}>
+            <Plus className="w-4 h-4" /> Add pane
+            <span className="text-[10px] text-gray-500 font-mono">{layout.panes.length}/{MAX_PANES}</span>
+          </button>
+
+          <select
+            value={selected}
+            onChange={(e) => restore(e.target.value)}
+            className="px-3 py-2 bg-slate-800/80 border border-slate-700/50 rounded-lg text-xs sm:text-sm font-semibold focus:outline-none"
+            title="Saved layouts"
+          >
+            <option value="">Saved layouts…</option>
+            {Object.keys(saved).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          <button onClick={saveAs} className={btn} title="Save layout"><Save className="w-4 h-4" /> Save</button>
+          <button onClick={remove} disabled={!selected} className={btn} title="Delete saved layout"><Trash2 className="w-4 h-4" /></button>
+          <button onClick={() => { setLayout(defaultLayout()); setSelected(''); }} className={btn} title="Reset to default layout"><RotateCcw className="w-4 h-4" /></button>
+          <Link href="/" className={btn}>Single book</Link>
+        </div>
+      </div>
+
+      {/* Panes */}
+      {layout.panes.length === 0 ? (
+        <div className="flex items-center justify-center h-[60vh] text-gray-500 text-sm">No panes — add one to start watching a market.</div>
+      ) : (
+        <div ref={rowRef} className="flex flex-col lg:flex-row gap-3 lg:gap-0 p-3 sm:p-4 lg:h-[calc(100vh-72px)]">
+          {layout.panes.map((p, i) => (
+            <React.Fragment key={p.id}>
+              {i > 0 && (
+                <div onPointerDown={(e) => startResize(i - 1, e)}
+                  className="hidden lg:block w-3 shrink-0 cursor-col-resize group touch-none" title="Drag to resize">
+                  <div className="mx-auto h-full w-px bg-slate-800 group-hover:bg-emerald-500/60" />
+                </div>
+              )}
+              <div className="h-[80vh] lg:h-full min-w-0 lg:[flex:var(--pane-size)_1_0%]" style={{ '--pane-size': p.size } as React.CSSProperties}>
+                <BookPane
+                  key={`${p.venue}:${p.symbol}`}
+                  pane={p} index={i} count={layout.panes.length}
+                  onChange={(patch) => setLayout(l => updatePane(l, p.id, patch))}
+                  onRemove={() => setLayout(l => removePane(l, p.id))}
+                  onMove={(to) => setLayout(l => movePane(l, i, to))}
+                  onDragStart={() => { dragFromRef.current = i; }}
+                  onDrop={() => { const from = dragFromRef.current; dragFromRef.current = -1; if (from >= 0) setLayout(l => movePane(l, from, i)); }}
+                />
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { AlertEngine, type AlertCondition } from '@/lib/alerts';
+import { OrderBook } from '@/lib/orderbook';
+import { BookView, packBook } from '@/lib/bookview';
+
+const T0 = 1_760_875_200_000;
+
+// bids 100, 99.5, 99, 98.5 and asks 101, 101.5, 102, 102.5; the 99 and 102 levels are large
+function book() {
+  const b = new OrderBook();
+  b.applySnapshot({
+    lastUpdateId: 1,
+    bids: [['100.00', '1'], ['99.50', '2'], ['99.00', '8'], ['98.50', '20']],
+    asks: [['101.00', '1'], ['101.50', '3'], ['102.00', '9'], ['102.50', '30']],
+  });
+  return b;
+}
+
+function engineWith(condition: AlertCondition) {
+  const e = new AlertEngine();
+  e.addRule({ venue: 'binance', symbol: 'btcusdt', condition, cooldownSec: 0, enabled: true, notify: false, sound: false });
+  return e;
+}
+
+describe('largestWithin', () => {
+  it('finds the largest level inside the band on the full book and its mirror', () => {
+    const view = new BookView();
+    view.set(packBook(book()));
+    for (const b of [book(), view]) {
+      expect(b.largestWithin('bid', 99)).toEqual({ price: 99, amount: 8 });
+      expect(b.largestWithin('ask', 101.5)).toEqual({ price: 101.5, amount: 3 });
+      expect(b.largestWithin('bid', 100.5)).toBeUndefined();
+    }
+  });
+
+  it('prefers the better price on equal sizes', () => {
+    const b = new OrderBook();
+    b.applySnapshot({ lastUpdateId: 1, bids: [['99.00', '5'], ['100.00', '5']], asks: [['101.00', '5'], ['102.00', '5']] });
+    expect(b.largestWithin('bid', 90)).toEqual({ price: 100, amount: 5 });
+    expect(b.largestWithin('ask', 110)).toEqual({ price: 101, amount: 5 });
+  });
+});
+
+describe('AlertEngine', () => {
+  const sample = (t: number, mid = 100.5) => ({ t, mid, spreadBps: 10, imbalance1m: 0, book: book() });
+
+  it('fires level-size only for walls inside the band', () => {
+    const near = engineWith({ kind: 'level-size', side: 'any', size: 5, withinPct: 1.5, holdSec: 0 });
+    expect(near.evaluate('binance', 'btcusdt', sample(T0)).map(f => f.message)).toEqual(['BTCUSDT: any level ≥ 5 within 1.5% of mid — bid 8 @ 99']);
+    const far = engineWith({ kind: 'level-size', side: 'any', size: 10, withinPct: 1.5, holdSec: 0 });
+    expect(far.evaluate('binance', 'btcusdt', sample(T0))).toEqual([]);
+  });
+
+  it('forgets the last mid on reset, so a gap in samples is not read as a cross', () => {
+    const e = engineWith({ kind: 'mid-cross', level: 101, direction: 'up' });
+    e.evaluate('binance', 'btcusdt', sample(T0, 100));
+    e.reset();
+    expect(e.evaluate('binance', 'btcusdt', sample(T0 + 60_000, 102))).toEqual([]);
+    expect(e.evaluate('binance', 'btcusdt', sample(T0 + 60_250, 100))).toEqual([]);
+    expect(e.evaluate('binance', 'btcusdt', sample(T0 + 60_500, 101.5))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,206 @@
+// ============================================================================
+// Alerts — user rules evaluated against the live market
+//
+// Rules belong to one venue/symbol. Each evaluation takes a MarketSample;
+// a condition must hold for `holdSec` before it fires, fires once on the way
+// in (edge-triggered) and re-arms only after it has cleared. `cooldownSec`
+// additionally spaces consecutive firings of a flapping rule. The engine is
+// an external store (subscribe/getState) so React reads it with
+// useSyncExternalStore; rules and history persist to localStorage.
+// ============================================================================
+import type { BookReader, Side } from '@/lib/orderbook';
+import type { VenueId } from '@/lib/exchanges';
+import { readJson, writeJson } from '@/lib/storage';
+
+export type Comparison = 'above' | 'below';
+
+export type AlertCondition =
+  | { kind: 'mid-cross'; level: number; direction: 'up' | 'down' | 'any' }
+  | { kind: 'spread-bps'; op: Comparison; bps: number; holdSec: number }
+  | { kind: 'level-size'; side: Side | 'any'; size: number; withinPct: number; holdSec: number }
+  | { kind: 'imbalance-1m'; op: Comparison; pct: number; holdSec: number };
+
+export type AlertKind = AlertCondition['kind'];
+
+export interface AlertRule {
+  id: string;
+  venue: VenueId;
+  symbol: string;
+  condition: AlertCondition;
+  cooldownSec: number;
+  enabled: boolean;
+  /** Browser notification in addition to the in-app toast. */
+  notify: boolean;
+  sound: boolean;
+}
+
+export interface AlertFiring {
+  id: string;
+  ruleId: string;
+  t: number;
+  venue: VenueId;
+  symbol: string;
+  message: string;
+  notify: boolean;
+  sound: boolean;
+}
+
+/** What a rule can look at; built by the page a few times a second. */
+export interface MarketSample {
+  t: number;
+  mid: number;
+  spreadBps: number;
+  imbalance1m: number;
+  book: BookReader;
+}
+
+export interface AlertState { rules: AlertRule[]; history: AlertFiring[]; }
+
+export const HISTORY_LIMIT = 200;
+const RULES_KEY = 'orderflow:alerts:rules';
+const HISTORY_KEY = 'orderflow:alerts:history';
+
+const fmtNum = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 8 });
+
+export function describeCondition(c: AlertCondition): string {
+  const hold = 'holdSec' in c && c.holdSec > 0 ? ` for ${c.holdSec}s` : '';
+  switch (c.kind) {
+    case 'mid-cross': return `mid crosses ${c.direction === 'any' ? '' : c.direction === 'up' ? 'above ' : 'below '}${fmtNum(c.level)}`;
+    case 'spread-bps': return `spread ${c.op} ${fmtNum(c.bps)} bps${hold}`;
+    case 'level-size': return `${c.side === 'any' ? 'any' : c.side} level ≥ ${fmtNum(c.size)} within ${fmtNum(c.withinPct)}% of mid${hold}`;
+    case 'imbalance-1m': return `1m imbalance ${c.op} ${fmtNum(c.pct)}%${hold}`;
+  }
+}
+
+// largest level on `side` within pct of mid, or undefined
+function largestNear(book: BookReader, side: Side, mid: number, pct: number) {
+  const lim = mid * pct / 100;
+  return book.largestWithin(side, side === 'bid' ? mid - lim : mid + lim);
+}
+
+/** Whether the condition holds now; `detail` describes the value that matched. */
+function test(c: AlertCondition, s: MarketSample, prevMid: number | undefined): { hit: boolean; detail: string } {
+  switch (c.kind) {
+    case 'mid-cross': {
+      if (prevMid === undefined) return { hit: false, detail: '' };
+      const up = prevMid < c.level && s.mid >= c.level, down = prevMid > c.level && s.mid <= c.level;
+      const hit = c.direction === 'up' ? up : c.direction === 'down' ? down : up || down;
+      return { hit, detail: `mid ${fmtNum(s.mid)}` };
+    }
+    case 'spread-bps':
+      return { hit: c.op === 'above' ? s.spreadBps > c.bps : s.spreadBps < c.bps, detail: `spread ${s.spreadBps.toFixed(2)} bps` };
+    case 'imbalance-1m':
+      return { hit: c.op === 'above' ? s.imbalance1m > c.pct : s.imbalance1m < c.pct, detail: `imbalance ${s.imbalance1m.toFixed(1)}%` };
+    case 'level-size': {
+      for (const side of c.side === 'any' ? (['bid', 'ask'] as const) : [c.side]) {
+        const l = largestNear(s.book, side, s.mid, c.withinPct);
+        if (l && l.amount >= c.size) return { hit: true, detail: `${side} ${fmtNum(l.amount)} @ ${fmtNum(l.price)}` };
+      }
+      return { hit: false, detail: '' };
+    }
+  }
+}
+
+interface Runtime { since: number | null; armed: boolean; lastFired: number; }
+
+let seq = 0;
+const newId = (p: string) => `${p}${Date.now().toString(36)}${(seq++).toString(36)}`;
+
+export class AlertEngine {
+  private state: AlertState;
+  private runtime = new Map<string, Runtime>();
+  private prevMid: number | undefined;
+  private market = '';
+  private listeners = new Set<() => void>();
+  private fireListeners = new Set<(f: AlertFiring[]) => void>();
+
+  constructor(initial: AlertState = { rules: [], history: [] }, private readonly persist?: (s: AlertState) => void) {
+    this.state = initial;
+  }
+
+  // ----- store -----
+  subscribe = (fn: () => void): (() => void) => { this.listeners.add(fn); return () => { this.listeners.delete(fn); }; };
+  getState = (): AlertState => this.state;
+
+  /** Called with each batch of firings, after they are in the history. */
+  onFire(fn: (f: AlertFiring[]) => void): () => void {
+    this.fireListeners.add(fn);
+    return () => { this.fireListeners.delete(fn); };
+  }
+
+  private set(next: AlertState) {
+    this.state = next;
+    this.persist?.(next);
+    this.listeners.forEach(fn => fn());
+  }
+
+  addRule(r: Omit<AlertRule, 'id'>): AlertRule {
+    const rule = { ...r, id: newId('r') };
+    this.set({ ...this.state, rules: [...this.state.rules, rule] });
+    return rule;
+  }
+  updateRule(id: string, patch: Partial<Omit<AlertRule, 'id'>>) {
+    this.runtime.delete(id);
+    this.set({ ...this.state, rules: this.state.rules.map(r => r.id === id ? { ...r, ...patch } : r) });
+  }
+  removeRule(id: string) {
+    this.runtime.delete(id);
+    this.set({ ...this.state, rules: this.state.rules.filter(r => r.id !== id) });
+  }
+  clearHistory() { this.set({ ...this.state, history: [] }); }
+
+  // ----- evaluation -----
+  /** Forget the last mid and every hold timer, for when the samples stopped for a while. */
+  reset() { this.prevMid = undefined; this.runtime.clear(); }
+
+  evaluate(venue: VenueId, symbol: string, s: MarketSample): AlertFiring[] {
+    const market = `${venue}:${symbol}`;
+    if (market !== this.market) { this.market = market; this.reset(); }
+
+    const fired: AlertFiring[] = [];
+    for (const r of this.state.rules) {
+      if (!r.enabled || r.venue !== venue || r.symbol !== symbol) continue;
+      let rt = this.runtime.get(r.id);
+      if (!rt) { rt = { since: null, armed: true, lastFired: -Infinity }; this.runtime.set(r.id, rt); }
+
+      const { hit, detail } = test(r.condition, s, this.prevMid);
+      if (!hit) { rt.since = null; rt.armed = true; continue; }
+      rt.since ??= s.t;
+      const hold = 'holdSec' in r.condition ? r.condition.holdSec * 1000 : 0;
+      if (!rt.armed || s.t - rt.since < hold || s.t - rt.lastFired < r.cooldownSec * 1000) continue;
+
+      rt.armed = false; rt.lastFired = s.t;
+      fired.push({
+        id: newId('f'), ruleId: r.id, t: s.t, venue, symbol,
+        message: `${symbol.toUpperCase()}: ${describeCondition(r.condition)} — ${detail}`,
+        notify: r.notify, sound: r.sound,
+      });
+    }
+    this.prevMid = s.mid;
+
+    if (fired.length) {
+      this.set({ ...this.state, history: [...fired.reverse(), ...this.state.history].slice(0, HISTORY_LIMIT) });
+      this.fireListeners.forEach(fn => fn(fired));
+    }
+    return fired;
+  }
+}
+
+// ----- persistence -----
+function loadState(): AlertState {
+  const rules = readJson(RULES_KEY), history = readJson(HISTORY_KEY);
+  return {
+    rules: Array.isArray(rules) ? rules as AlertRule[] : [],
+    history: Array.isArray(history) ? (history as AlertFiring[]).slice(0, HISTORY_LIMIT) : [],
+  };
+}
+
+let shared: AlertEngine | null = null;
+
+/** The page's engine, loaded from and saved to localStorage. */
+export function alertEngine(): AlertEngine {
+  shared ??= new AlertEngine(loadState(), (s) => { writeJson(RULES_KEY, s.rules); writeJson(HISTORY_KEY, s.history); });
+  return shared;
+}
+
+export const EMPTY_ALERT_STATE: AlertState = { rules: [], history: [] };
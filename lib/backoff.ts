@@ -0,0 +1,23 @@
+// ============================================================================
+// Backoff — capped exponential reconnect delays with jitter
+//
+// Delay n is drawn from [d/2, d] with d = min(cap, base·2ⁿ) ("equal jitter"):
+// reconnects from many tabs spread out, yet no attempt comes sooner than half
+// the nominal delay. reset() once a connection has proven itself by
+// delivering data, not merely opening.
+// ============================================================================
+export class Backoff {
+  private n = 0;
+
+  constructor(private readonly baseMs: number, private readonly capMs: number) {}
+
+  get attempts(): number { return this.n; }
+
+  next(): number {
+    const d = Math.min(this.capMs, this.baseMs * 2 ** this.n);
+    this.n++;
+    return Math.round(d / 2 + Math.random() * d / 2);
+  }
+
+  reset() { this.n = 0; }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { OrderBook } from '@/lib/orderbook';
+import { BookView, packBook } from '@/lib/bookview';
+
+function deepBook(n: number) {
+  const book = new OrderBook();
+  const side = (from: number, dir: number) => Array.from({ length: n }, (_, i): [string, string] => [(from + dir * i).toFixed(2), '1.000']);
+  book.applySnapshot({ lastUpdateId: 1, bids: side(100, -1), asks: side(101, 1) });
+  return book;
+}
+
+describe('packBook', () => {
+  it('packs only the best levels of each side but keeps whole-side totals', () => {
+    const b = packBook(deepBook(50), 10);
+    expect(Array.from(b.bp)).toEqual(Array.from({ length: 10 }, (_, i) => 100 - i));
+    expect(Array.from(b.ap)).toEqual(Array.from({ length: 10 }, (_, i) => 101 + i));
+    expect(b.bq).toHaveLength(10);
+    expect([b.bt, b.at]).toEqual([50, 50]);
+  });
+
+  it('packs a book shallower than the depth whole', () => {
+    const b = packBook(deepBook(3), 10);
+    expect(b.bp).toHaveLength(3);
+    expect(b.at).toBe(3);
+  });
+});
+
+describe('BookView', () => {
+  it('reads the packed top and reports the posted totals', () => {
+    const view = new BookView();
+    view.set(packBook(deepBook(50), 10));
+    expect(view.levels('ask')).toHaveLength(10);
+    expect(view.totalSize('bid')).toBe(50);
+    expect(view.size('bid', 95)).toBe(1);
+    expect(view.size('bid', 80)).toBe(0);
+    view.clear();
+    expect(view.totalSize('ask')).toBe(0);
+    expect(view.bestBid()).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+// ============================================================================
+// BookView — read-only book mirror over sorted typed arrays
+//
+// The feed worker posts the top of each side best-first as transferable
+// Float64Arrays, with each whole side's size alongside; everything here is a
+// linear pass with no parsing or sorting.
+// ============================================================================
+import type { BookLevel, BookReader, GroupedLevel, OrderBook, Side } from '@/lib/orderbook';
+import { bucketScaled, fromScaled, scaleFloat, type PriceStep } from '@/lib/decimal';
+
+export interface PackedBook {
+  bp: Float64Array; bq: Float64Array; ap: Float64Array; aq: Float64Array;
+  /** Size of each whole side, including levels past the packed depth. */
+  bt: number; at: number;
+}
+
+/** The best `depth` levels of each side of `book` as typed arrays ready to transfer. */
+export function packBook(book: OrderBook, depth = Infinity): PackedBook {
+  const pack = (side: Side) => {
+    const lv = book.levels(side, depth);
+    const p = new Float64Array(lv.length), q = new Float64Array(lv.length);
+    for (let i = 0; i < lv.length; i++) { p[i] = lv[i].price; q[i] = lv[i].amount; }
+    return [p, q] as const;
+  };
+  const [bp, bq] = pack('bid');
+  const [ap, aq] = pack('ask');
+  return { bp, bq, ap, aq, bt: book.totalSize('bid'), at: book.totalSize('ask') };
+}
+
+const EMPTY = new Float64Array(0);
+const NONE: PackedBook = { bp: EMPTY, bq: EMPTY, ap: EMPTY, aq: EMPTY, bt: 0, at: 0 };
+
+export class BookView implements BookReader {
+  private b: PackedBook = NONE;
+  private _version = 0;
+
+  get version(): number { return this._version; }
+
+  set(b: PackedBook) { this.b = b; this._version++; }
+  clear() { this.set(NONE); }
+
+  private arrays(side: Side) { return side === 'bid' ? [this.b.bp, this.b.bq] : [this.b.ap, this.b.aq]; }
+
+  best(side: Side): BookLevel | undefined {
+    const [p, q] = this.arrays(side);
+    return p.length ? { price: p[0], amount: q[0] } : undefined;
+  }
+  bestBid() { return this.best('bid'); }
+  bestAsk() { return this.best('ask'); }
+
+  totalSize(side: Side): number { return side === 'bid' ? this.b.bt : this.b.at; }
+
+  size(side: Side, price: number): number {
+    const [p, q] = this.arrays(side);
+    for (let i = 0; i < p.length; i++) {
+      if (p[i] === price) return q[i];
+      // best-first: past the price there is nothing left to find
+      if (side === 'bid' ? p[i] < price : p[i] > price) break;
+    }
+    return 0;
+  }
+
+  covers(side: Side, price: number): boolean {
+    const p = this.arrays(side)[0], last = p[p.length - 1];
+    return last !== undefined && (side === 'bid' ? price >= last : price <= last);
+  }
+
+  largestWithin(side: Side, price: number): BookLevel | undefined {
+    const [p, q] = this.arrays(side);
+    let k = -1;
+    for (let i = 0; i < p.length && (side === 'bid' ? p[i] >= price : p[i] <= price); i++) if (k < 0 || q[i] > q[k]) k = i;
+    return k < 0 ? undefined : { price: p[k], amount: q[k] };
+  }
+
+  levels(side: Side, n = Infinity): BookLevel[] {
+    const [p, q] = this.arrays(side);
+    const len = Math.min(n, p.length);
+    const out: BookLevel[] = new Array(len);
+    for (let i = 0; i < len; i++) out[i] = { price: p[i], amount: q[i] };
+    return out;
+  }
+
+  grouped(side: Side, step: PriceStep, n = Infinity): GroupedLevel[] {
+    const [p, q] = this.arrays(side);
+    const out: GroupedLevel[] = [];
+    let t = 0, lastKey = NaN;
+    for (let i = 0; i < p.length; i++) {
+      // the worker parsed these from tick-aligned strings, so they scale back exactly
+      const b = bucketScaled(scaleFloat(p[i], step.dp), step, side);
+      // sorted input: equal buckets are always adjacent
+      if (b === lastKey) { const last = out[out.length - 1]; last.amount += q[i]; last.total += q[i]; t += q[i]; continue; }
+      if (out.length >= n) break;
+      t += q[i]; lastKey = b;
+      out.push({ price: fromScaled(b, step.dp), amount: q[i], total: t });
+    }
+    return out;
+  }
+}
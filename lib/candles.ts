@@ -0,0 +1,68 @@
+// ============================================================================
+// CandleSeries — OHLCV bars seeded from REST and extended by live trades
+//
+// REST history and the live trade stream overlap in the newest REST bar: it
+// ends at the fetch while live bars start at subscription. That bar keeps the
+// REST open, widens high/low to both, closes at the live price and takes the
+// larger volume/count (each is a lower bound), so no trade is counted twice.
+// Later bars are live-only.
+// ============================================================================
+import type { Candle, CandleInterval, MarketTrade } from '@/lib/exchanges';
+
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1s': 1_000, '1m': 60_000, '5m': 300_000, '15m': 900_000, '1h': 3_600_000,
+};
+
+export const MAX_CANDLES = 500;
+
+export class CandleSeries {
+  private _candles: Candle[] = [];
+  private _version = 0;
+
+  constructor(private _interval: CandleInterval = '1m') {}
+
+  get interval(): CandleInterval { return this._interval; }
+  get candles(): readonly Candle[] { return this._candles; }
+  get version(): number { return this._version; }
+
+  /** Switch interval; bars are dropped and must be re-seeded. */
+  setInterval(iv: CandleInterval) { this._interval = iv; this.clear(); }
+
+  clear() { this._candles = []; this._version++; }
+
+  seed(history: Candle[]) {
+    if (!history.length) return;
+    const rest = history[history.length - 1];
+    const live = this._candles.filter(c => c.t >= rest.t);
+    const head = history.slice(0, -1);
+    if (live[0]?.t === rest.t) {
+      const l = live[0];
+      live[0] = {
+        t: rest.t, o: rest.o, h: Math.max(rest.h, l.h), l: Math.min(rest.l, l.l), c: l.c,
+        v: Math.max(rest.v, l.v),
+        buy: rest.buy === null || l.buy === null ? null : Math.max(rest.buy, l.buy),
+        trades: rest.trades === null || l.trades === null ? null : Math.max(rest.trades, l.trades),
+      };
+    } else head.push(rest);
+    this._candles = [...head, ...live].slice(-MAX_CANDLES);
+    this._version++;
+  }
+
+  addTrade(tr: MarketTrade) {
+    const ms = CANDLE_INTERVALS[this._interval];
+    const t = Math.floor(tr.time / ms) * ms;
+    const cs = this._candles;
+    let last = cs[cs.length - 1];
+    if (last && t < last.t) return;           // late trade for a closed bar
+    if (!last || t > last.t) {
+      last = { t, o: tr.price, h: tr.price, l: tr.price, c: tr.price, v: 0, buy: 0, trades: 0 };
+      cs.push(last);
+      if (cs.length > MAX_CANDLES) cs.shift();
+    }
+    last.h = Math.max(last.h, tr.price); last.l = Math.min(last.l, tr.price); last.c = tr.price;
+    last.v += tr.quantity;
+    if (last.buy !== null && !tr.isBuyerMaker) last.buy += tr.quantity;
+    if (last.trades !== null) last.trades += tr.count ?? 1;
+    this._version++;
+  }
+}
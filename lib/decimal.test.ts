@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { bucketScaled, fromScaled, pow10, priceStep, scaleFloat, tickStep, toScaled } from '@/lib/decimal';
+
+// scaled prices up to ~10^9 ticks keep every product below 2^53
+const dp = fc.integer({ min: 0, max: 8 });
+const scaled = fc.integer({ min: 1, max: 1e9 });
+
+/** `k` units of 10^-dp as an exchange would print it, with `pad` trailing zeros. */
+const print = (k: number, d: number, pad = 0) => {
+  const s = String(k).padStart(d + 1, '0');
+  const int = s.slice(0, s.length - d), frac = s.slice(s.length - d) + '0'.repeat(pad);
+  return frac ? `${int}.${frac}` : int;
+};
+
+describe('toScaled / fromScaled', () => {
+  it('reads a printed price back to the same integer, whatever the padding', () => {
+    fc.assert(fc.property(scaled, dp, fc.integer({ min: 0, max: 8 }), (k, d, pad) => {
+      expect(toScaled(print(k, d, pad), d)).toBe(k);
+    }));
+  });
+
+  it('scales the parsed float back exactly, matching the string path', () => {
+    fc.assert(fc.property(scaled, dp, (k, d) => {
+      const s = print(k, d);
+      expect(fromScaled(k, d)).toBe(parseFloat(s));
+      expect(scaleFloat(parseFloat(s), d)).toBe(k);
+    }));
+  });
+
+  it('reads a coarser-grid price at a finer dp', () => {
+    expect(toScaled('0.5', 3)).toBe(500);
+    expect(toScaled('67012.40000000', 2)).toBe(6701240);
+    expect(toScaled('-1.25', 2)).toBe(-125);
+  });
+});
+
+describe('bucketScaled', () => {
+  it('floors bids and ceils asks onto a multiple of the step, within one step of the price', () => {
+    fc.assert(fc.property(scaled, fc.integer({ min: 1, max: 1e5 }), dp, (k, units, d) => {
+      const step = priceStep(units, d);
+      const bid = bucketScaled(k, step, 'bid'), ask = bucketScaled(k, step, 'ask');
+      expect(bid % units).toBe(0);
+      expect(ask % units).toBe(0);
+      expect(bid <= k && k - bid < units).toBe(true);
+      expect(ask >= k && ask - k < units).toBe(true);
+      // on the grid both sides agree; off it they are one step apart
+      expect(ask - bid).toBe(k % units ? units : 0);
+    }));
+  });
+
+  it('matches the step value a tick string describes', () => {
+    fc.assert(fc.property(fc.constantFrom('0.01000000', '0.10', '0.5', '1', '0.00001000', '0.25'), tick => {
+      const t = tickStep(tick);
+      expect(t.value).toBe(parseFloat(tick));
+      expect(Number.isInteger(t.units) && t.units >= 1).toBe(true);
+      expect(t.units / pow10(t.dp)).toBe(t.value);
+    }));
+  });
+});
@@ -0,0 +1,61 @@
+// ============================================================================
+// Decimal prices — tick-exact bucketing on scaled integers
+//
+// A price step is an integer number of units of 10^-dp, where dp is the tick
+// size's decimal count, so bucket edges are integer multiples rather than
+// float products: `Math.floor(price / 0.1)` can land a hair off, the integer
+// division below cannot. Exchange strings ('0.00012340') are scaled digit by
+// digit. A float that was parsed from such a string scales back exactly with
+// Math.round as long as it carries no more than dp decimals, which holds for
+// every tick-aligned price.
+// ============================================================================
+import { decimalsFromStep } from '@/lib/format';
+import type { Side } from '@/lib/orderbook';
+
+export interface PriceStep {
+  /** Step size in units of 10^-dp; always at least 1. */
+  units: number;
+  dp: number;
+  /** units × 10^-dp, for drawing and comparisons. */
+  value: number;
+}
+
+const POW10 = Array.from({ length: 19 }, (_, i) => 10 ** i);
+export const pow10 = (dp: number) => POW10[dp] ?? 10 ** dp;
+
+export function priceStep(units: number, dp: number): PriceStep {
+  const u = Math.max(1, Math.round(units));
+  return { units: u, dp, value: u / pow10(dp) };
+}
+
+/** A decimal string as an integer count of 10^-dp, e.g. ('0.01230', 4) → 123. */
+export function toScaled(s: string, dp: number): number {
+  const m = /^(-?)(\d*)(?:\.(\d*))?$/.exec(s.trim());
+  if (!m) return Math.round(parseFloat(s) * pow10(dp));   // exponent form and the like
+  const [, sign, int = '', frac = ''] = m;
+  // digits past dp would be off the tick grid; round them the way the float path does
+  if (/[1-9]/.test(frac.slice(dp))) return Math.round(parseFloat(s) * pow10(dp));
+  const n = Number((int || '0') + frac.slice(0, dp).padEnd(dp, '0'));
+  return sign ? -n : n;
+}
+
+/** A tick-aligned float price as an integer count of 10^-dp. */
+export const scaleFloat = (price: number, dp: number) => Math.round(price * pow10(dp));
+
+/** Back to a float: the nearest double to the decimal, same as parseFloat of its string. */
+export const fromScaled = (n: number, dp: number) => n / pow10(dp);
+
+/** The tick size as a one-tick step. */
+export function tickStep(tick: string): PriceStep {
+  const dp = decimalsFromStep(tick);
+  return priceStep(toScaled(tick, dp) || 1, dp);
+}
+
+/**
+ * Bucket of a scaled price: bids floor and asks ceil, so a bucket never
+ * advertises a better price than the levels it contains.
+ */
+export function bucketScaled(k: number, step: PriceStep, side: Side): number {
+  const r = ((k % step.units) + step.units) % step.units;   // % on integers is exact; division is not
+  return !r ? k : side === 'bid' ? k - r : k - r + step.units;
+}
@@ -0,0 +1,34 @@
+// ============================================================================
+// Cumulative depth curves
+// ============================================================================
+import type { BookLevel, Side } from '@/lib/orderbook';
+
+/** Best-first levels with running size and notional (price × size) totals. */
+export interface DepthCurve { side: Side; prices: number[]; cum: number[]; notional: number[]; }
+
+/** Accumulate best-first `levels` until a price falls beyond `limit`. */
+export function cumulativeDepth(levels: BookLevel[], side: Side, limit: number): DepthCurve {
+  const prices: number[] = [], cum: number[] = [], notional: number[] = [];
+  let c = 0, n = 0;
+  for (const l of levels) {
+    if (side === 'bid' ? l.price < limit : l.price > limit) break;
+    c += l.amount; n += l.amount * l.price;
+    prices.push(l.price); cum.push(c); notional.push(n);
+  }
+  return { side, prices, cum, notional };
+}
+
+/**
+ * Depth resting at `price` or better: the running totals of the last level a
+ * market order would have to reach to trade at that price. Undefined when the
+ * price is inside the spread.
+ */
+export function depthAt(curve: DepthCurve, price: number): { cum: number; notional: number; levels: number } | undefined {
+  const { prices, side } = curve;
+  let lo = 0, hi = prices.length - 1, found = -1;
+  while (lo <= hi) {
+    const m = (lo + hi) >> 1;
+    if (side === 'bid' ? prices[m] >= price : prices[m] <= price) { found = m; lo = m + 1; } else hi = m - 1;
+  }
+  return found < 0 ? undefined : { cum: curve.cum[found], notional: curve.notional[found], levels: found + 1 };
+}
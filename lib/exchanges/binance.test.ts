@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OrderBook, type DepthSnapshot } from '@/lib/orderbook';
+import { InstrumentError } from './types';
+import { binanceFutures, binanceSpot, parseBinance, routeCombined } from './binance';
+import frames from '@/lib/__fixtures__/binance-messages.json';
+
+const raw = (k: keyof typeof frames) => JSON.stringify(frames[k]);
+
+describe('parseBinance', () => {
+  it('maps a spot depth update to a delta without pu', () => {
+    expect(parseBinance('depth', raw('depth'))).toEqual([{
+      type: 'depth',
+      delta: {
+        U: 57218841210, u: 57218841236, pu: undefined,
+        b: [['67012.40000000', '0.41532000'], ['67012.10000000', '0.00000000']],
+        a: [['67012.41000000', '3.20871000'], ['67013.00000000', '0.00170000']],
+      },
+    }]);
+  });
+
+  it('carries pu through for futures depth', () => {
+    const [ev] = parseBinance('depth', raw('futuresDepth'));
+    expect(ev).toEqual({
+      type: 'depth',
+      delta: { U: 8845104412033, u: 8845104412087, pu: 8845104411990, b: [['67001.80', '12.417']], a: [['67001.90', '0.000'], ['67002.00', '4.102']] },
+    });
+  });
+
+  it('maps aggTrade to a trade with its fill count and maker side', () => {
+    expect(parseBinance('trades', raw('aggTrade'))).toEqual([{
+      type: 'trade', trade: { id: 3215506102, price: 67012.41, quantity: 0.0521, time: 1760870400209, isBuyerMaker: false, count: 4 },
+    }]);
+    const [sell] = parseBinance('trades', raw('sellTrade'));
+    expect(sell).toEqual({ type: 'trade', trade: { id: 3215506103, price: 67012.4, quantity: 0.0012, time: 1760870400387, isBuyerMaker: true, count: 1 } });
+  });
+
+  it('maps bookTicker to the top of book', () => {
+    expect(parseBinance('ticker', raw('bookTicker'))).toEqual([{
+      type: 'ticker', top: { bid: 67012.4, bidSize: 0.41532, ask: 67012.41, askSize: 3.15661 },
+    }]);
+  });
+
+  it('syncs a REST snapshot with the recorded update that straddles it', () => {
+    const book = new OrderBook();
+    const [ev] = parseBinance('depth', raw('depth'));
+    if (ev.type !== 'depth') throw new Error('expected a depth event');
+    expect(book.applyDelta(ev.delta)).toBe('buffered');
+    expect(book.applySnapshot(frames.snapshot as DepthSnapshot)).toBe(true);
+    expect(book.lastUpdateId).toBe(57218841236);
+    // the zero-size update removed 67012.10
+    expect(book.levels('bid')).toEqual([{ price: 67012.4, amount: 0.41532 }]);
+    expect(book.best('ask')).toEqual({ price: 67012.41, amount: 3.20871 });
+  });
+});
+
+describe('routeCombined', () => {
+  it('slices the single-stream payload out of a combined frame verbatim', () => {
+    const [r] = routeCombined(frames.combined);
+    expect(r.channel).toBe('btcusdt@aggTrade');
+    expect(r.raw).toBe(raw('aggTrade'));
+    expect(parseBinance('trades', r.raw)).toEqual(parseBinance('trades', raw('aggTrade')));
+  });
+
+  it('ignores request replies', () => {
+    expect(routeCombined(frames.subscribeReply)).toEqual([]);
+  });
+});
+
+describe('fetchInstrument', () => {
+  const reply = (status: number, body: unknown) => vi.stubGlobal('fetch', () => Promise.resolve(new Response(JSON.stringify(body), { status })));
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('calls a spot 400 with code -1121 unknown', async () => {
+    reply(400, { code: -1121, msg: 'Invalid symbol.' });
+    await expect(binanceSpot.fetchInstrument('NOPEUSDT')).rejects.toEqual(new InstrumentError('unknown', 'NOPEUSDT'));
+  });
+
+  it('calls a futures list without the symbol unknown', async () => {
+    reply(200, { symbols: [] });
+    await expect(binanceFutures.fetchInstrument('NOPEUSDT')).rejects.toBeInstanceOf(InstrumentError);
+  });
+
+  it('treats a rate limit or outage as a plain failure, not an unknown symbol', async () => {
+    reply(429, { code: -1003, msg: 'Too many requests.' });
+    const err = await binanceSpot.fetchInstrument('BTCUSDT').catch((e: unknown) => e);
+    expect(err).not.toBeInstanceOf(InstrumentError);
+    expect(err).toEqual(new Error('exchangeInfo HTTP 429'));
+
+    reply(400, { code: -1100, msg: 'Illegal characters found in parameter.' });
+    await expect(binanceSpot.fetchInstrument('BTCUSDT')).rejects.toEqual(new Error('exchangeInfo HTTP 400'));
+  });
+});
@@ -0,0 +1,201 @@
+// ============================================================================
+// Binance spot + USDⓈ-M futures
+//
+// Both venues share message shapes; futures depth events additionally carry
+// `pu` (previous final update id), which OrderBook uses for continuity.
+// Futures also stream mark price / funding (@markPrice@1s) and liquidations
+// (@forceOrder, at most one per symbol per second: the latest in that window),
+// and serve open interest over REST.
+// Shared connections use combined streams (/stream?streams=a/b), whose
+// frames wrap the single-stream payload as {"stream":…,"data":…}.
+// ============================================================================
+import type { BinanceDepthUpdate, DepthSnapshot } from '@/lib/orderbook';
+import { InstrumentError, type Candle, type ExchangeAdapter, type InstrumentInfo, type MarketEvent, type OpenInterestPoint, type StreamKind, type StreamMux, type SymbolOption, type VenueId } from './types';
+
+export interface BinanceTradeUpdate { e:string; E:number; s:string; a:number; p:string; q:string; f:number; l:number; T:number; m:boolean; }
+export interface BookTickerUpdate { u:number; s:string; b:string; B:string; a:string; A:string; }
+/** p mark, i index, P estimated settle price, r funding rate for the next settlement at T. */
+export interface BinanceMarkPriceUpdate { e:string; E:number; s:string; p:string; i:string; P:string; r:string; T:number; }
+/** o.ap is the average fill price and o.z the filled quantity; o.p and o.q are the order's own. */
+export interface BinanceForceOrderUpdate {
+  e:string; E:number;
+  o: { s:string; S:'BUY'|'SELL'; o:string; f:string; q:string; p:string; ap:string; X:string; l:string; z:string; T:number; };
+}
+interface BinanceOpenInterest { symbol:string; openInterest:string; time:number; }
+interface BinanceOpenInterestHist { symbol:string; sumOpenInterest:string; sumOpenInterestValue:string; timestamp:number; }
+
+// [openTime, o, h, l, c, volume, closeTime, quoteVolume, trades, takerBuyBase, takerBuyQuote, ignore]
+type BinanceKline = [number, string, string, string, string, string, number, string, number, string, string, string];
+
+interface BinanceFilter { filterType: string; tickSize?: string; stepSize?: string; }
+interface BinanceSymbolInfo { symbol: string; status: string; baseAsset: string; quoteAsset: string; filters: BinanceFilter[]; }
+
+const SYMBOLS: SymbolOption[] = [
+  { value: 'btcusdt', label: 'BTC/USDT' },
+  { value: 'ethusdt', label: 'ETH/USDT' },
+  { value: 'bnbusdt', label: 'BNB/USDT' },
+  { value: 'solusdt', label: 'SOL/USDT' },
+  { value: 'adausdt', label: 'ADA/USDT' },
+  { value: 'dogeusdt', label: 'DOGE/USDT' },
+];
+
+export function parseBinance(kind: StreamKind, raw: string): MarketEvent[] {
+  const j = JSON.parse(raw);
+  switch (kind) {
+    case 'depth': {
+      const d = j as BinanceDepthUpdate;
+      return [{ type: 'depth', delta: { U: d.U, u: d.u, pu: d.pu, b: d.b, a: d.a } }];
+    }
+    case 'trades': {
+      const t = j as BinanceTradeUpdate;
+      return [{ type: 'trade', trade: { id: t.a, price: +t.p, quantity: +t.q, time: t.T, isBuyerMaker: t.m, count: t.l - t.f + 1 } }];
+    }
+    case 'ticker': {
+      const t = j as BookTickerUpdate;
+      return [{ type: 'ticker', top: { bid: +t.b, bidSize: +t.B, ask: +t.a, askSize: +t.A } }];
+    }
+    case 'mark': {
+      const m = j as BinanceMarkPriceUpdate;
+      return [{ type: 'mark', mark: { time: m.E, mark: +m.p, index: +m.i, fundingRate: +m.r, nextFundingTime: m.T } }];
+    }
+    case 'liquidations': {
+      const o = (j as BinanceForceOrderUpdate).o;
+      return [{ type: 'liquidation', liq: { time: o.T, price: +o.ap || +o.p, quantity: +o.z || +o.q, side: o.S === 'BUY' ? 'buy' : 'sell' } }];
+    }
+  }
+}
+
+const STREAM_SUFFIX: Record<StreamKind, string> = {
+  depth: '@depth@100ms', trades: '@aggTrade', ticker: '@bookTicker', mark: '@markPrice@1s', liquidations: '@forceOrder',
+};
+const SPOT_KINDS: StreamKind[] = ['depth', 'trades', 'ticker'];
+const PERP_KINDS: StreamKind[] = [...SPOT_KINDS, 'mark', 'liquidations'];
+const streamName = (kind: StreamKind, sym: string) => sym.toLowerCase() + STREAM_SUFFIX[kind];
+// deepest REST snapshot both spot and futures serve
+const SNAPSHOT_DEPTH = 1000;
+/** Error code for a symbol the venue does not list. */
+const INVALID_SYMBOL = -1121;
+/** Binance cuts every socket at 24 hours. */
+const MAX_AGE_MS = 24 * 3600_000;
+
+/** Unwrap a combined-stream frame; `data` is sliced out verbatim so recordings match single-stream frames. */
+export function routeCombined(raw: string): { channel: string; raw: string }[] {
+  const s = raw.indexOf('"stream":"');
+  if (s < 0) return [];              // request replies: {"result":null,"id":1}
+  const e = raw.indexOf('"', s + 10);
+  const d = raw.indexOf('"data":', e);
+  if (e < 0 || d < 0) return [];
+  return [{ channel: raw.slice(s + 10, e), raw: raw.slice(d + 7, raw.lastIndexOf('}')) }];
+}
+
+function combinedMux(ws: string, kinds: StreamKind[]): StreamMux {
+  let id = 0;
+  const msg = (method: string, params: string[]) => params.length ? [{ method, params, id: ++id }] : [];
+  return {
+    kinds,
+    channel: streamName,
+    url: (channels) => `${ws}/stream?streams=${channels.join('/')}`,
+    urlSubscribes: true,
+    subscribe: (channels) => msg('SUBSCRIBE', channels),
+    unsubscribe: (channels) => msg('UNSUBSCRIBE', channels),
+    route: routeCombined,
+    heartbeat: () => ({ method: 'LIST_SUBSCRIPTIONS', id: ++id }),
+    maxAgeMs: MAX_AGE_MS,
+  };
+}
+
+export function candleFromKline(k: BinanceKline): Candle {
+  return { t: k[0], o: +k[1], h: +k[2], l: +k[3], c: +k[4], v: +k[5], buy: +k[9], trades: k[8] };
+}
+
+export function instrumentFromBinance(s: BinanceSymbolInfo): InstrumentInfo {
+  const filt = s.filters || [];
+  const priceFilter = filt.find(f => f.filterType === 'PRICE_FILTER');
+  const lotFilter = filt.find(f => f.filterType === 'LOT_SIZE');
+  return {
+    symbol: s.symbol,
+    base: s.baseAsset, quote: s.quoteAsset,
+    tickSize: priceFilter?.tickSize ?? '0.01',
+    stepSize: lotFilter?.stepSize ?? '0.000001',
+    status: s.status,
+    trading: s.status === 'TRADING',
+  };
+}
+
+export function openInterestFromBinance(hist: BinanceOpenInterestHist[], now: BinanceOpenInterest | null): OpenInterestPoint[] {
+  const out = hist.map(h => ({ t: h.timestamp, oi: +h.sumOpenInterest })).sort((a, b) => a.t - b.t);
+  if (now && (!out.length || now.time > out[out.length - 1].t)) out.push({ t: now.time, oi: +now.openInterest });
+  return out;
+}
+
+/** `perps` adds the mark/liquidation streams and open interest (USDⓈ-M futures). */
+export function makeBinance(id: VenueId, label: string, rest: string, ws: string, api: string, perps = false): ExchangeAdapter {
+  const kinds = perps ? PERP_KINDS : SPOT_KINDS;
+  return {
+    id, label, symbols: SYMBOLS, snapshotSource: 'rest', snapshotDepth: SNAPSHOT_DEPTH,
+    streams: (sym) => kinds.map(kind => ({ kind, url: `${ws}/ws/${streamName(kind, sym)}`, maxAgeMs: MAX_AGE_MS })),
+    mux: combinedMux(ws, kinds),
+    parse: parseBinance,
+    async fetchSnapshot(sym) {
+      const r = await fetch(`${rest}${api}/depth?symbol=${sym.toUpperCase()}&limit=${SNAPSHOT_DEPTH}`);
+      if (!r.ok) throw new Error(`snapshot HTTP ${r.status}`);
+      return await r.json() as DepthSnapshot;
+    },
+    async fetchInstrument(sym) {
+      // futures exchangeInfo ignores ?symbol= and always returns the full list;
+      // spot answers an unknown symbol with HTTP 400 and code -1121. Anything
+      // else that is not OK (rate limits, outages) is no verdict on the symbol.
+      const r = await fetch(`${rest}${api}/exchangeInfo?symbol=${sym.toUpperCase()}`);
+      if (r.status === 400) {
+        const e = await r.json().catch(() => null) as { code?: number } | null;
+        if (e?.code === INVALID_SYMBOL) throw new InstrumentError('unknown', sym.toUpperCase());
+      }
+      if (!r.ok) throw new Error(`exchangeInfo HTTP ${r.status}`);
+      const j = await r.json() as { symbols?: BinanceSymbolInfo[] };
+      const s = j.symbols?.find(x => x.symbol === sym.toUpperCase());
+      if (!s) throw new InstrumentError('unknown', sym.toUpperCase());
+      return instrumentFromBinance(s);
+    },
+    async listInstruments() {
+      const r = await fetch(`${rest}${api}/exchangeInfo`);
+      if (!r.ok) throw new Error(`exchangeInfo HTTP ${r.status}`);
+      const j = await r.json() as { symbols?: BinanceSymbolInfo[] };
+      return (j.symbols ?? []).map(instrumentFromBinance);
+    },
+    async fetchCandles(sym, interval, limit) {
+      // futures has no 1s klines and answers 400
+      const r = await fetch(`${rest}${api}/klines?symbol=${sym.toUpperCase()}&interval=${interval}&limit=${limit}`);
+      if (!r.ok) throw new Error(`klines HTTP ${r.status}`);
+      return (await r.json() as BinanceKline[]).map(candleFromKline);
+    },
+    ...(perps && {
+      spotVenue: 'binance' as const,
+      async fetchOpenInterest(sym: string, limit: number) {
+        const s = sym.toUpperCase();
+        // history lives outside the versioned API and lags by up to one period
+        const [h, n] = await Promise.all([
+          fetch(`${rest}/futures/data/openInterestHist?symbol=${s}&period=5m&limit=${limit}`),
+          fetch(`${rest}${api}/openInterest?symbol=${s}`),
+        ]);
+        if (!h.ok) throw new Error(`openInterestHist HTTP ${h.status}`);
+        return openInterestFromBinance(await h.json() as BinanceOpenInterestHist[], n.ok ? await n.json() as BinanceOpenInterest : null);
+      },
+    }),
+    normalizeSymbol: (sym) => sym.toLowerCase(),
+    symbolPattern: /^[a-z0-9]{2,20}$/,
+  };
+}
+
+/** Where each Binance venue lives; `api` is the versioned REST prefix. */
+export const BINANCE_ENDPOINTS = {
+  binance: { label: 'Binance', rest: 'https://api.binance.com', ws: 'wss://stream.binance.com:9443', api: '/api/v3', perps: false },
+  'binance-futures': { label: 'Binance USDⓈ-M', rest: 'https://fapi.binance.com', ws: 'wss://fstream.binance.com', api: '/fapi/v1', perps: true },
+} as const satisfies Partial<Record<VenueId, { label: string; rest: string; ws: string; api: string; perps: boolean }>>;
+
+const fromEndpoints = (id: keyof typeof BINANCE_ENDPOINTS) => {
+  const e = BINANCE_ENDPOINTS[id];
+  return makeBinance(id, e.label, e.rest, e.ws, e.api, e.perps);
+};
+
+export const binanceSpot = fromEndpoints('binance');
+export const binanceFutures = fromEndpoints('binance-futures');
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { OrderBook, type OrderBookEvent } from '@/lib/orderbook';
+import { parseCoinbase, routeCoinbase } from './coinbase';
+import type { MarketEvent } from './types';
+import frames from '@/lib/__fixtures__/coinbase-messages.json';
+
+const raw = (m: unknown) => JSON.stringify(m);
+
+/** Drive an OrderBook the way MarketFeed does for an in-band snapshot venue. */
+function feed(book: OrderBook, evs: MarketEvent[]) {
+  return evs.map(ev => {
+    if (ev.type === 'snapshot') return book.applySnapshot(ev.snapshot) ? 'synced' : 'refused';
+    if (ev.type === 'depth') return book.applyDelta(ev.delta);
+    throw new Error(`unexpected ${ev.type}`);
+  });
+}
+
+describe('parseCoinbase level2', () => {
+  it('turns the in-band snapshot into a book snapshot at its sequence number', () => {
+    expect(parseCoinbase('depth', raw(frames.snapshot))).toEqual([{
+      type: 'snapshot',
+      snapshot: { lastUpdateId: 0, bids: [['67010.12', '0.5'], ['67010.01', '1.25']], asks: [['67010.13', '0.04'], ['67011.00', '2']] },
+    }]);
+  });
+
+  it('maps an update to a one-id delta with offers on the ask side', () => {
+    expect(parseCoinbase('depth', raw(frames.updates[0]))).toEqual([{
+      type: 'depth', delta: { U: 2, u: 2, b: [['67010.12', '0.75']], a: [['67010.13', '0']] },
+    }]);
+  });
+
+  it('keeps the numbering intact across non-l2 messages on the depth socket', () => {
+    expect(parseCoinbase('depth', raw(frames.subscriptions))).toEqual([{ type: 'depth', delta: { U: 1, u: 1, b: [], a: [] } }]);
+  });
+
+  it('applies the recorded sequence to a book', () => {
+    const book = new OrderBook();
+    const evs = [frames.snapshot, frames.subscriptions, ...frames.updates].flatMap(m => parseCoinbase('depth', raw(m)));
+    expect(feed(book, evs)).toEqual(['synced', 'applied', 'applied', 'applied']);
+    expect(book.lastUpdateId).toBe(3);
+    expect(book.levels('bid')).toEqual([{ price: 67010.12, amount: 0.75 }, { price: 67010.01, amount: 1.25 }]);
+    expect(book.levels('ask')).toEqual([{ price: 67010.5, amount: 0.3 }, { price: 67011, amount: 2 }]);
+  });
+
+  it('reports a skipped sequence number as a gap and asks for a resync', () => {
+    const book = new OrderBook();
+    const events: OrderBookEvent[] = [];
+    book.on(ev => events.push(ev));
+    feed(book, [frames.snapshot, frames.subscriptions, ...frames.updates].flatMap(m => parseCoinbase('depth', raw(m))));
+    // sequence_num 4 never arrived
+    expect(feed(book, parseCoinbase('depth', raw(frames.afterGap)))).toEqual(['gap']);
+    expect(book.status).toBe('buffering');
+    expect(events.slice(-2)).toEqual([
+      { type: 'gap', expected: 4, received: 5, dropped: 1 },
+      { type: 'resync', reason: 'gap' },
+    ]);
+  });
+});
+
+describe('parseCoinbase market_trades', () => {
+  it('emits trades oldest first with SELL as buyer-maker', () => {
+    expect(parseCoinbase('trades', raw(frames.marketTrades))).toEqual([
+      { type: 'trade', trade: { id: 881204516, price: 67010.12, quantity: 0.5, time: Date.parse('2026-10-19T10:40:00.990Z'), isBuyerMaker: true } },
+      { type: 'trade', trade: { id: 881204517, price: 67010.13, quantity: 0.0021, time: Date.parse('2026-10-19T10:40:00.998Z'), isBuyerMaker: false } },
+    ]);
+  });
+
+  it('ignores frames from other channels', () => {
+    expect(parseCoinbase('trades', raw(frames.ticker))).toEqual([]);
+  });
+});
+
+describe('parseCoinbase ticker', () => {
+  it('maps the best bid and ask', () => {
+    expect(parseCoinbase('ticker', raw(frames.ticker))).toEqual([{ type: 'ticker', top: { bid: 67010.12, bidSize: 0.75, ask: 67010.5, askSize: 0.3 } }]);
+  });
+});
+
+describe('routeCoinbase', () => {
+  it('splits a shared trades frame by product', () => {
+    const routed = routeCoinbase(raw(frames.sharedTrades));
+    expect(routed.map(r => r.channel)).toEqual(['market_trades:BTC-USD', 'market_trades:ETH-USD']);
+    expect(parseCoinbase('trades', routed[1].raw)).toEqual([
+      { type: 'trade', trade: { id: 502311870, price: 2480.55, quantity: 1.2, time: Date.parse('2026-10-19T10:40:01.091Z'), isBuyerMaker: false } },
+    ]);
+  });
+
+  it('passes a single-product frame through verbatim', () => {
+    const s = raw(frames.marketTrades);
+    expect(routeCoinbase(s)).toEqual([{ channel: 'market_trades:BTC-USD', raw: s }]);
+  });
+});
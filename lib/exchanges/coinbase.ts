@@ -0,0 +1,157 @@
+// ============================================================================
+// Coinbase Advanced Trade
+//
+// level2 sends its snapshot in-band and numbers every message on a connection
+// with `sequence_num`. The depth stream gets a socket of its own so that
+// numbering is contiguous, and each message is mapped to a one-id delta
+// (U = u = sequence_num) for OrderBook's continuity check. Because that
+// numbering spans every product on a connection, only trades and ticker are
+// multiplexed; each level2 product keeps a socket of its own.
+// ============================================================================
+import type { StrNumTuple } from '@/lib/orderbook';
+import { InstrumentError, type CandleInterval, type ExchangeAdapter, type InstrumentInfo, type MarketEvent, type StreamKind, type StreamMux, type SymbolOption } from './types';
+
+const WS = 'wss://advanced-trade-ws.coinbase.com';
+const REST = 'https://api.exchange.coinbase.com';
+
+interface CoinbaseL2Update { side: 'bid' | 'offer'; event_time: string; price_level: string; new_quantity: string; }
+interface CoinbaseTrade { trade_id: string; product_id: string; price: string; size: string; side: 'BUY' | 'SELL'; time: string; }
+interface CoinbaseTicker { product_id: string; price: string; best_bid: string; best_bid_quantity: string; best_ask: string; best_ask_quantity: string; }
+interface CoinbaseProduct { id: string; base_currency: string; quote_currency: string; quote_increment: string; base_increment: string; status: string; trading_disabled?: boolean; }
+interface CoinbaseMessage {
+  channel: string;
+  sequence_num: number;
+  events?: { type: 'snapshot' | 'update'; updates?: CoinbaseL2Update[]; trades?: CoinbaseTrade[]; tickers?: CoinbaseTicker[]; }[];
+}
+
+const SYMBOLS: SymbolOption[] = [
+  { value: 'BTC-USD', label: 'BTC/USD' },
+  { value: 'ETH-USD', label: 'ETH/USD' },
+  { value: 'SOL-USD', label: 'SOL/USD' },
+  { value: 'ADA-USD', label: 'ADA/USD' },
+  { value: 'DOGE-USD', label: 'DOGE/USD' },
+];
+
+function splitSides(updates: CoinbaseL2Update[]) {
+  const b: StrNumTuple[] = [], a: StrNumTuple[] = [];
+  for (const u of updates) (u.side === 'bid' ? b : a).push([u.price_level, u.new_quantity]);
+  return { b, a };
+}
+
+export function parseCoinbase(kind: StreamKind, raw: string): MarketEvent[] {
+  const m = JSON.parse(raw) as CoinbaseMessage;
+  const out: MarketEvent[] = [];
+  if (kind === 'depth' && m.channel === 'l2_data') {
+    for (const ev of m.events ?? []) {
+      const { b, a } = splitSides(ev.updates ?? []);
+      if (ev.type === 'snapshot') out.push({ type: 'snapshot', snapshot: { lastUpdateId: m.sequence_num, bids: b, asks: a } });
+      else out.push({ type: 'depth', delta: { U: m.sequence_num, u: m.sequence_num, b, a } });
+    }
+  } else if (kind === 'depth' && typeof m.sequence_num === 'number') {
+    // subscription acks and heartbeats share the numbering: keep the chain intact
+    out.push({ type: 'depth', delta: { U: m.sequence_num, u: m.sequence_num, b: [], a: [] } });
+  } else if (kind === 'trades' && m.channel === 'market_trades') {
+    for (const ev of m.events ?? []) {
+      // oldest first, matching the order other venues stream them in
+      for (const t of [...(ev.trades ?? [])].reverse()) {
+        out.push({ type: 'trade', trade: { id: +t.trade_id, price: +t.price, quantity: +t.size, time: Date.parse(t.time), isBuyerMaker: t.side === 'SELL' } });
+      }
+    }
+  } else if (kind === 'ticker' && m.channel === 'ticker') {
+    for (const ev of m.events ?? []) {
+      for (const t of ev.tickers ?? []) {
+        out.push({ type: 'ticker', top: { bid: +t.best_bid, bidSize: +t.best_bid_quantity, ask: +t.best_ask, askSize: +t.best_ask_quantity } });
+      }
+    }
+  }
+  return out;
+}
+
+function instrumentFromCoinbase(p: CoinbaseProduct): InstrumentInfo {
+  const trading = p.status === 'online' && !p.trading_disabled;
+  return {
+    symbol: p.id, base: p.base_currency, quote: p.quote_currency,
+    tickSize: p.quote_increment, stepSize: p.base_increment,
+    status: p.trading_disabled ? 'trading_disabled' : p.status, trading,
+  };
+}
+
+// candle granularity in seconds; there is no sub-minute history
+const GRANULARITY: Partial<Record<CandleInterval, number>> = { '1m': 60, '5m': 300, '15m': 900, '1h': 3600 };
+
+const subscribe = (channel: string, sym: string) => ({ type: 'subscribe', product_ids: [sym], channel });
+// answered on the same numbering, and keeps a quiet book's socket ticking from then on
+const heartbeats = () => ({ type: 'subscribe', channel: 'heartbeats' });
+
+// spot only: no mark or liquidation streams
+type CoinbaseKind = Extract<StreamKind, 'depth' | 'trades' | 'ticker'>;
+const CHANNEL: Record<CoinbaseKind, string> = { depth: 'level2', trades: 'market_trades', ticker: 'ticker' };
+
+// channel keys are `${channel}:${product}`; one message per channel name
+function channelMessages(type: 'subscribe' | 'unsubscribe', keys: string[]): unknown[] {
+  const by = new Map<string, string[]>();
+  for (const k of keys) {
+    const i = k.indexOf(':');
+    const ch = k.slice(0, i);
+    by.set(ch, [...(by.get(ch) ?? []), k.slice(i + 1)]);
+  }
+  return Array.from(by, ([channel, product_ids]) => ({ type, product_ids, channel }));
+}
+
+/** Split a shared-connection frame by product, keeping single-product frames verbatim. */
+export function routeCoinbase(raw: string): { channel: string; raw: string }[] {
+  const m = JSON.parse(raw) as CoinbaseMessage;
+  const field = m.channel === 'market_trades' ? 'trades' : m.channel === 'ticker' ? 'tickers' : null;
+  if (!field) return [];
+  const products = new Set<string>();
+  for (const ev of m.events ?? []) for (const x of ev[field] ?? []) products.add(x.product_id);
+  if (products.size === 1) return [{ channel: `${m.channel}:${[...products][0]}`, raw }];
+  return Array.from(products, pid => ({
+    channel: `${m.channel}:${pid}`,
+    raw: JSON.stringify({ ...m, events: (m.events ?? []).map(ev => ({ ...ev, [field]: (ev[field] as { product_id: string }[] | undefined)?.filter(x => x.product_id === pid) })) }),
+  }));
+}
+
+const mux: StreamMux = {
+  kinds: ['trades', 'ticker'],
+  channel: (kind, sym) => `${CHANNEL[kind as CoinbaseKind]}:${sym}`,
+  url: () => WS,
+  urlSubscribes: false,
+  subscribe: (keys) => channelMessages('subscribe', keys),
+  unsubscribe: (keys) => channelMessages('unsubscribe', keys),
+  route: routeCoinbase,
+};
+
+export const coinbase: ExchangeAdapter = {
+  id: 'coinbase', label: 'Coinbase', symbols: SYMBOLS, snapshotSource: 'stream', tickerOnTrades: true,
+  streams: (sym) => [
+    { kind: 'depth',  url: WS, subscribe: subscribe(CHANNEL.depth, sym), heartbeat: heartbeats },
+    { kind: 'trades', url: WS, subscribe: subscribe(CHANNEL.trades, sym) },
+    { kind: 'ticker', url: WS, subscribe: subscribe(CHANNEL.ticker, sym) },
+  ],
+  mux,
+  parse: parseCoinbase,
+  fetchSnapshot() { return Promise.reject(new Error('coinbase snapshots arrive on the level2 stream')); },
+  async fetchInstrument(sym) {
+    const r = await fetch(`${REST}/products/${sym}`);
+    if (r.status === 404) throw new InstrumentError('unknown', sym);
+    if (!r.ok) throw new Error(`product HTTP ${r.status}`);
+    return instrumentFromCoinbase(await r.json() as CoinbaseProduct);
+  },
+  async listInstruments() {
+    const r = await fetch(`${REST}/products`);
+    if (!r.ok) throw new Error(`products HTTP ${r.status}`);
+    return (await r.json() as CoinbaseProduct[]).map(instrumentFromCoinbase);
+  },
+  async fetchCandles(sym, interval, limit) {
+    const g = GRANULARITY[interval];
+    if (!g) throw new Error(`no ${interval} candles on coinbase`);
+    const r = await fetch(`${REST}/products/${sym}/candles?granularity=${g}`);
+    if (!r.ok) throw new Error(`candles HTTP ${r.status}`);
+    // [time (s), low, high, open, close, volume], newest first; no taker split or trade count
+    const rows = await r.json() as [number, number, number, number, number, number][];
+    return rows.slice(0, limit).reverse().map(([t, l, h, o, c, v]) => ({ t: t * 1000, o, h, l, c, v, buy: null, trades: null }));
+  },
+  normalizeSymbol: (sym) => sym.toUpperCase(),
+  symbolPattern: /^[A-Z0-9]{1,12}-[A-Z0-9]{1,12}$/,
+};
@@ -0,0 +1,13 @@
+import { binanceFutures, binanceSpot } from './binance';
+import { coinbase } from './coinbase';
+import type { ExchangeAdapter, VenueId } from './types';
+
+export * from './types';
+
+export const ADAPTERS: Record<VenueId, ExchangeAdapter> = {
+  'binance': binanceSpot,
+  'binance-futures': binanceFutures,
+  'coinbase': coinbase,
+};
+
+export const VENUES = Object.values(ADAPTERS);
@@ -0,0 +1,121 @@
+// ============================================================================
+// Exchange adapter contract
+//
+// An adapter turns one venue's URLs and wire shapes into the normalized
+// events below. The page (and anything else driving an OrderBook) only ever
+// sees MarketEvent, so a new venue is one file plus a registry entry.
+// ============================================================================
+import type { DepthDelta, DepthSnapshot } from '@/lib/orderbook';
+
+export type VenueId = 'binance' | 'binance-futures' | 'coinbase';
+/** `mark` and `liquidations` exist on perpetual futures venues only. */
+export type StreamKind = 'depth' | 'trades' | 'ticker' | 'mark' | 'liquidations';
+
+export interface MarketTrade {
+  id: number; price: number; quantity: number; time: number; isBuyerMaker: boolean;
+  /** Fills aggregated into this print (Binance aggTrade); 1 when absent. */
+  count?: number;
+}
+export type CandleInterval = '1s' | '1m' | '5m' | '15m' | '1h';
+/** OHLCV bar; `buy` (taker-buy volume) and `trades` are null where the venue does not report them. */
+export interface Candle { t: number; o: number; h: number; l: number; c: number; v: number; buy: number | null; trades: number | null; }
+export interface TopOfBook { bid: number; bidSize: number; ask: number; askSize: number; }
+/** Perpetuals: the venue's mark and index price and the funding rate due at the next settlement. */
+export interface MarkPrice { time: number; mark: number; index: number; fundingRate: number; nextFundingTime: number; }
+/** A forced (liquidation) order; `side` is the order's, so 'sell' closes a long. */
+export interface Liquidation { time: number; price: number; quantity: number; side: 'buy' | 'sell'; }
+/** Open interest in base units at time `t`. */
+export interface OpenInterestPoint { t: number; oi: number; }
+export interface InstrumentInfo {
+  /** Venue-native symbol, e.g. ETHUSDT or BTC-USD. */
+  symbol: string;
+  base: string; quote: string;
+  tickSize: string; stepSize: string;
+  status: string;
+  /** False for halted, delisted or pre-trading markets. */
+  trading: boolean;
+}
+
+/** The venue does not list the symbol, or lists it but it is not trading. */
+export class InstrumentError extends Error {
+  constructor(readonly reason: 'unknown' | 'halted', readonly symbol: string, detail?: string) {
+    super(reason === 'unknown' ? `${symbol} is not listed on this venue` : `${symbol} is not trading${detail ? ` (${detail})` : ''}`);
+    this.name = 'InstrumentError';
+  }
+}
+
+export type MarketEvent =
+  | { type: 'snapshot'; snapshot: DepthSnapshot }
+  | { type: 'depth'; delta: DepthDelta }
+  | { type: 'trade'; trade: MarketTrade }
+  | { type: 'ticker'; top: TopOfBook }
+  | { type: 'mark'; mark: MarkPrice }
+  | { type: 'liquidation'; liq: Liquidation };
+
+export interface StreamSpec {
+  kind: StreamKind;
+  url: string;
+  /** Sent as JSON once the socket opens, for venues that subscribe in-band. */
+  subscribe?: unknown;
+  /** As StreamMux.heartbeat, for a socket of its own. */
+  heartbeat?(): unknown;
+  /** As StreamMux.maxAgeMs. */
+  maxAgeMs?: number;
+}
+
+/**
+ * How a venue carries many channels on one connection (see StreamPool).
+ * Channels are opaque keys naming one stream kind for one symbol.
+ */
+export interface StreamMux {
+  /** Kinds carried on the shared connection; the rest keep sockets of their own. */
+  kinds: StreamKind[];
+  channel(kind: StreamKind, symbol: string): string;
+  url(channels: string[]): string;
+  /** True when url() already subscribes the channels it was given. */
+  urlSubscribes: boolean;
+  subscribe(channels: string[]): unknown[];
+  unsubscribe(channels: string[]): unknown[];
+  /** Split a frame into per-channel payloads shaped like the single-stream frames parse() takes. */
+  route(raw: string): { channel: string; raw: string }[];
+  /** A cheap request the server always answers; sent when the connection goes quiet. */
+  heartbeat?(): unknown;
+  /** The server drops connections older than this; the pool reconnects a little earlier. */
+  maxAgeMs?: number;
+}
+
+export interface SymbolOption { value: string; label: string; }
+
+export interface ExchangeAdapter {
+  id: VenueId;
+  label: string;
+  /** Default shortlist; the full list comes from listInstruments(). */
+  symbols: SymbolOption[];
+  /**
+   * 'rest': deltas are buffered until `fetchSnapshot` resolves (Binance).
+   * 'stream': the depth stream opens with its own snapshot; resync means
+   * reopening that stream (Coinbase level2).
+   */
+  snapshotSource: 'rest' | 'stream';
+  /** The ticker stream publishes only on trades, so it lags the book between them. */
+  tickerOnTrades?: boolean;
+  /** Levels per side in a snapshot; undefined when it carries the full book. */
+  snapshotDepth?: number;
+  streams(symbol: string): StreamSpec[];
+  mux?: StreamMux;
+  parse(kind: StreamKind, raw: string): MarketEvent[];
+  fetchSnapshot(symbol: string): Promise<DepthSnapshot>;
+  /** Throws InstrumentError when the symbol is unknown to the venue. */
+  fetchInstrument(symbol: string): Promise<InstrumentInfo>;
+  listInstruments(): Promise<InstrumentInfo[]>;
+  /** Recent bars oldest-first; rejects for intervals the venue has no history for. */
+  fetchCandles(symbol: string, interval: CandleInterval, limit: number): Promise<Candle[]>;
+  /** Perpetuals: open interest every 5 minutes, oldest-first, ending with the live figure. */
+  fetchOpenInterest?(symbol: string, limit: number): Promise<OpenInterestPoint[]>;
+  /** Perpetuals: the spot venue listing the same symbols, whose mid the basis is taken against. */
+  spotVenue?: VenueId;
+  /** Map a venue-native or URL symbol to the form streams() expects. */
+  normalizeSymbol(symbol: string): string;
+  /** The shape of a normalized symbol the venue could list; the relay refuses anything else. */
+  symbolPattern: RegExp;
+}
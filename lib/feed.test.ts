@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MarketFeed } from '@/lib/feed';
+import { CONNECT_TIMEOUT_MS, HEARTBEAT_MS, IDLE_TIMEOUT_MS, ROTATE_EARLY_MS, WATCHDOG_MS } from '@/lib/streampool';
+import { coinbase } from '@/lib/exchanges/coinbase';
+import type { ExchangeAdapter, StreamSpec } from '@/lib/exchanges';
+
+/** Just enough of a browser WebSocket to drive MarketFeed's own sockets. */
+class FakeSocket {
+  static readonly CONNECTING = 0; static readonly OPEN = 1; static readonly CLOSING = 2; static readonly CLOSED = 3;
+  static all: FakeSocket[] = [];
+  readyState = FakeSocket.CONNECTING;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((e: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  constructor(readonly url: string) { FakeSocket.all.push(this); }
+  send(m: string) { this.sent.push(JSON.parse(m)); }
+  close() { this.readyState = FakeSocket.CLOSED; }
+  open() { this.readyState = FakeSocket.OPEN; this.onopen?.(); }
+  frame(data: string) { this.onmessage?.({ data }); }
+}
+
+const live = () => FakeSocket.all.filter(s => s.readyState !== FakeSocket.CLOSED);
+
+/** Coinbase's level2 socket on its own: no shared connection in the way. */
+function depthOnly(patch: Partial<StreamSpec> = {}): ExchangeAdapter {
+  return { ...coinbase, mux: undefined, streams: sym => [{ ...coinbase.streams(sym)[0], ...patch }] };
+}
+
+function start(adapter: ExchangeAdapter) {
+  const errors: string[] = [];
+  const feed = new MarketFeed(adapter, 'BTC-USD', { onError: m => errors.push(m) });
+  feed.start();
+  return { feed, errors };
+}
+
+beforeEach(() => {
+  FakeSocket.all = [];
+  vi.useFakeTimers();
+  vi.stubGlobal('WebSocket', FakeSocket);
+  vi.stubGlobal('fetch', () => Promise.reject(new Error('offline')));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('MarketFeed socket watchdog', () => {
+  it('sends the stream heartbeat when quiet, then drops and retries a socket that stays silent', () => {
+    const { feed, errors } = start(depthOnly());
+    const [ws] = FakeSocket.all;
+    ws.open();
+    expect(ws.sent).toEqual([{ type: 'subscribe', product_ids: ['BTC-USD'], channel: 'level2' }]);
+
+    vi.advanceTimersByTime(HEARTBEAT_MS + WATCHDOG_MS);
+    expect(ws.sent.at(-1)).toEqual({ type: 'subscribe', channel: 'heartbeats' });
+    // one heartbeat per quiet spell
+    vi.advanceTimersByTime(WATCHDOG_MS);
+    expect(ws.sent).toHaveLength(2);
+
+    vi.advanceTimersByTime(IDLE_TIMEOUT_MS - HEARTBEAT_MS);
+    expect(ws.readyState).toBe(FakeSocket.CLOSED);
+    expect(errors).toEqual([expect.stringMatching(/^depth connection silent for \d+s$/)]);
+    expect(feed.status.reconnects).toBe(1);
+
+    // the first retry is at most RECONNECT_BASE_MS out
+    vi.advanceTimersByTime(500);
+    expect(live()).toHaveLength(1);
+    expect(live()[0]).not.toBe(ws);
+    feed.stop();
+  });
+
+  it('keeps a socket that answers', () => {
+    const { feed, errors } = start(depthOnly());
+    const [ws] = FakeSocket.all;
+    ws.open();
+    for (let t = 0; t < IDLE_TIMEOUT_MS * 3; t += HEARTBEAT_MS / 2) {
+      vi.advanceTimersByTime(HEARTBEAT_MS / 2);
+      ws.frame(JSON.stringify({ channel: 'heartbeats', sequence_num: 2 + t }));
+    }
+    expect(ws.readyState).toBe(FakeSocket.OPEN);
+    expect(ws.sent).toHaveLength(1);
+    expect(errors).toEqual([]);
+    feed.stop();
+  });
+
+  it('gives up on a handshake that never completes', () => {
+    const { feed } = start(depthOnly());
+    const [ws] = FakeSocket.all;
+    vi.advanceTimersByTime(CONNECT_TIMEOUT_MS + WATCHDOG_MS);
+    expect(ws.readyState).toBe(FakeSocket.CLOSED);
+    expect(feed.status.reconnects).toBe(1);
+    vi.advanceTimersByTime(500);
+    expect(live()).toHaveLength(1);
+    feed.stop();
+  });
+
+  it('replaces a socket nearing its maximum age straight away', () => {
+    const maxAgeMs = ROTATE_EARLY_MS + 60_000;
+    const { feed } = start(depthOnly({ heartbeat: undefined, maxAgeMs }));
+    const [ws] = FakeSocket.all;
+    ws.open();
+    vi.advanceTimersByTime(maxAgeMs - ROTATE_EARLY_MS + WATCHDOG_MS);
+    expect(ws.readyState).toBe(FakeSocket.CLOSED);
+    expect(live()).toHaveLength(1);
+    expect(feed.status.streams.depth).toBe('connecting');
+    feed.stop();
+  });
+
+  it('stops watching once the feed stops', () => {
+    const { feed } = start(depthOnly());
+    FakeSocket.all[0].open();
+    feed.stop();
+    vi.advanceTimersByTime(IDLE_TIMEOUT_MS * 2);
+    expect(FakeSocket.all).toHaveLength(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
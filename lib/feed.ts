@@ -0,0 +1,362 @@
+// ============================================================================
+// MarketFeed — one venue/symbol: sockets, snapshot sync and resync
+//
+// Owns an OrderBook and drives it from an ExchangeAdapter. Framework-free so
+// the same loop runs on the main thread or inside the feed worker. A replay
+// constructs a feed without calling start() and pushes recorded frames
+// through ingest(), taking exactly the path live frames take. Streams the
+// adapter can multiplex are joined on the venue's StreamPool instead of
+// getting sockets of their own. The feed's own sockets get the pool's checks:
+// a connect timeout, a heartbeat and idle timeout where the stream has a
+// heartbeat, and rotation ahead of the venue's maximum connection age.
+//
+// Each stream reports connecting / open / backoff; the feed folds those and
+// the book's sync state into one ConnState for the header badge. pause()
+// drops every connection (a hidden tab); resume() reconnects and syncs the
+// book from scratch, since whatever happened meanwhile was missed.
+// ============================================================================
+import { OrderBook, type DepthSnapshot } from '@/lib/orderbook';
+import { CONNECT_TIMEOUT_MS, HEARTBEAT_MS, IDLE_TIMEOUT_MS, ROTATE_EARLY_MS, WATCHDOG_MS, streamPool } from '@/lib/streampool';
+import { Backoff } from '@/lib/backoff';
+import { InstrumentError, type ExchangeAdapter, type InstrumentInfo, type Liquidation, type MarkPrice, type MarketEvent, type MarketTrade, type StreamKind, type StreamSpec, type TopOfBook } from '@/lib/exchanges';
+
+export type ConnState = 'connecting' | 'syncing' | 'live' | 'degraded' | 'backoff' | 'paused';
+export type StreamState = 'connecting' | 'open' | 'backoff';
+
+export interface FeedStatus {
+  connected: boolean; buffered: number; reconnects: number;
+  state: ConnState;
+  streams: Partial<Record<StreamKind, StreamState>>;
+  /** In backoff: when the depth stream's next attempt fires (epoch ms); otherwise 0. */
+  retryAt: number;
+}
+
+export const INITIAL_STATUS: FeedStatus = { connected: false, buffered: 0, reconnects: 0, state: 'connecting', streams: {}, retryAt: 0 };
+
+/** Counters for the health panel; idle times are relative to when health() was called. */
+export interface FeedHealth {
+  /** Frames received and ms since the last one, per stream the adapter opens. */
+  streams: { kind: StreamKind; frames: number; idleMs: number }[];
+  /** Frames the adapter could not parse. */
+  unparseable: number;
+  /** Deltas thrown away because the sequence broke. */
+  dropped: number;
+  resyncs: number;
+}
+
+export interface FeedHandlers {
+  /** Levels changed: a delta was applied or a snapshot synced. */
+  onBook?(): void;
+  onTrade?(t: MarketTrade): void;
+  onTicker?(top: TopOfBook): void;
+  /** Perpetuals only. */
+  onMark?(m: MarkPrice): void;
+  onLiquidation?(l: Liquidation): void;
+  /** Instrument metadata, or null when it could not be loaded. */
+  onInstrument?(info: InstrumentInfo | null): void;
+  onStatus?(s: FeedStatus): void;
+  /** Every frame as received, before parsing. */
+  onFrame?(kind: StreamKind, raw: string): void;
+  onSnapshot?(s: DepthSnapshot): void;
+  onError?(message: string): void;
+  /** The symbol is unknown or not trading; the feed has stopped itself. */
+  onUnavailable?(err: InstrumentError): void;
+}
+
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_CAP_MS = 30_000;
+const SNAPSHOT_RETRY_MS = 800;
+
+function sameStatus(a: FeedStatus, b: FeedStatus): boolean {
+  if (a.connected !== b.connected || a.buffered !== b.buffered || a.reconnects !== b.reconnects || a.state !== b.state || a.retryAt !== b.retryAt) return false;
+  const ka = Object.keys(a.streams) as StreamKind[];
+  return ka.length === Object.keys(b.streams).length && ka.every(k => a.streams[k] === b.streams[k]);
+}
+
+export class MarketFeed {
+  readonly book = new OrderBook();
+  private sockets: Partial<Record<StreamKind, WebSocket>> = {};
+  private channels: Partial<Record<StreamKind, () => void>> = {};
+  private timers: Partial<Record<StreamKind, ReturnType<typeof setTimeout>>> = {};
+  /** Liveness of each socket of our own, for watch(). */
+  private alive: Partial<Record<StreamKind, { spec: StreamSpec; connectedAt: number; openedAt: number; lastFrameAt: number; pinged: boolean }>> = {};
+  private watchdog: ReturnType<typeof setInterval> | null = null;
+  private snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+  private live = false;
+  private paused = false;
+  /** Bumped on every (dis)connect so late snapshot responses can tell they're stale. */
+  private epoch = 0;
+  private conn: Partial<Record<StreamKind, { state: StreamState; retryAt: number }>> = {};
+  private backoffs: Partial<Record<StreamKind, Backoff>> = {};
+  private _status: FeedStatus = INITIAL_STATUS;
+  private startedAt = 0;
+  private frames: Partial<Record<StreamKind, { n: number; at: number }>> = {};
+  private counts = { unparseable: 0, dropped: 0, resyncs: 0 };
+
+  constructor(readonly adapter: ExchangeAdapter, readonly symbol: string, private readonly h: FeedHandlers = {}) {
+    this.book.on(ev => {
+      if (ev.type === 'gap') this.counts.dropped += ev.dropped;
+      if (ev.type === 'resync') { this.counts.resyncs++; this.resync(); }
+    });
+  }
+
+  get status(): FeedStatus { return this._status; }
+
+  private get running(): boolean { return this.live && !this.paused; }
+
+  health(now = Date.now()): FeedHealth {
+    const streams = this.adapter.streams(this.symbol).map(({ kind }) => {
+      const f = this.frames[kind];
+      return { kind, frames: f?.n ?? 0, idleMs: now - (f?.at ?? (this.startedAt || now)) };
+    });
+    return { streams, ...this.counts };
+  }
+
+  /** Throw away the local book and sync it again from a fresh snapshot. */
+  resnapshot() { if (this.book.status === 'live') this.book.invalidate(); }
+
+  private setStatus(patch: Partial<FeedStatus>) {
+    const next = { ...this._status, ...patch };
+    if (sameStatus(next, this._status)) return;
+    this._status = next;
+    this.h.onStatus?.(next);
+  }
+
+  /** Fold per-stream states and the book's sync state into the status. */
+  private refresh() {
+    const depth = this.conn.depth;
+    const connected = depth?.state === 'open';
+    const streams: FeedStatus['streams'] = {};
+    for (const [k, c] of Object.entries(this.conn)) streams[k as StreamKind] = c.state;
+    let state: ConnState;
+    if (this.paused) state = 'paused';
+    else if (depth?.state === 'backoff') state = 'backoff';
+    else if (!connected) state = 'connecting';
+    else if (this.book.status !== 'live') state = 'syncing';
+    else if (Object.values(this.conn).some(c => c.state !== 'open')) state = 'degraded';
+    else state = 'live';
+    this.setStatus({ connected, state, streams, buffered: this.book.buffered, retryAt: state === 'backoff' ? depth!.retryAt : 0 });
+  }
+
+  private streamState(kind: StreamKind, state: StreamState, retryAt = 0) {
+    this.conn[kind] = { state, retryAt };
+    this.refresh();
+  }
+
+  start() {
+    this.live = true;
+    this.startedAt = Date.now();
+    this.loadInstrument();
+    this.connect();
+  }
+
+  stop() {
+    this.live = false;
+    this.disconnect();
+  }
+
+  /** Drop every connection but keep the feed; resume() picks it back up. */
+  pause() {
+    if (!this.running) return;
+    this.paused = true;
+    this.disconnect();
+    this.refresh();
+  }
+
+  resume() {
+    if (!this.live || !this.paused) return;
+    this.paused = false;
+    // everything since the pause was missed: start over from a fresh snapshot
+    this.book.reset();
+    this.h.onBook?.();
+    this.startedAt = Date.now();
+    Object.values(this.frames).forEach(f => { f.at = this.startedAt; });
+    this.connect();
+  }
+
+  private connect() {
+    this.epoch++;
+    const pool = streamPool(this.adapter);
+    for (const spec of this.adapter.streams(this.symbol)) {
+      if (pool && this.adapter.mux?.kinds.includes(spec.kind)) this.join(spec.kind);
+      else this.open(spec);
+    }
+    if (this.adapter.snapshotSource === 'rest') this.loadSnapshot();
+  }
+
+  private disconnect() {
+    this.epoch++;
+    (Object.keys(this.sockets) as StreamKind[]).forEach(k => this.close(k));
+    Object.values(this.channels).forEach(leave => leave());
+    this.channels = {};
+    (Object.values(this.timers)).forEach(t => t && clearTimeout(t));
+    this.timers = {};
+    if (this.watchdog) clearInterval(this.watchdog);
+    this.watchdog = null;
+    if (this.snapshotTimer) clearTimeout(this.snapshotTimer);
+    this.snapshotTimer = null;
+    this.conn = {};
+  }
+
+  // ----- ingestion (live frames and replays share this path) -----
+  ingest(kind: StreamKind, raw: string) {
+    this.h.onFrame?.(kind, raw);
+    const f = this.frames[kind] ??= { n: 0, at: 0 };
+    f.n++; f.at = Date.now();
+    let evs: MarketEvent[];
+    try { evs = this.adapter.parse(kind, raw); } catch { this.counts.unparseable++; return; }
+    for (const ev of evs) this.dispatch(ev);
+  }
+
+  ingestSnapshot(s: DepthSnapshot) {
+    this.h.onSnapshot?.(s);
+    // a hole in the buffer emits `resync`, which fetches the next snapshot
+    if (this.book.applySnapshot(s)) this.h.onBook?.();
+    this.refresh();
+  }
+
+  ingestInstrument(info: InstrumentInfo | null) { this.h.onInstrument?.(info); }
+
+  private dispatch(ev: MarketEvent) {
+    switch (ev.type) {
+      case 'snapshot': this.ingestSnapshot(ev.snapshot); break;
+      case 'depth': {
+        const res = this.book.applyDelta(ev.delta);
+        if (res === 'buffered') this.setStatus({ buffered: this.book.buffered });
+        else if (res === 'applied') this.h.onBook?.();
+        break;
+      }
+      case 'trade': this.h.onTrade?.(ev.trade); break;
+      case 'ticker': this.h.onTicker?.(ev.top); break;
+      case 'mark': this.h.onMark?.(ev.mark); break;
+      case 'liquidation': this.h.onLiquidation?.(ev.liq); break;
+    }
+  }
+
+  // ----- network -----
+  private async loadInstrument() {
+    try {
+      const info = await this.adapter.fetchInstrument(this.symbol);
+      if (!this.live) return;
+      this.ingestInstrument(info);
+      if (!info.trading) throw new InstrumentError('halted', info.symbol, info.status);
+    } catch (e) {
+      if (!this.live) return;
+      if (e instanceof InstrumentError) { this.stop(); this.h.onUnavailable?.(e); return; }
+      // metadata is best-effort: keep streaming with default precision
+      this.ingestInstrument(null);
+    }
+  }
+
+  private async loadSnapshot() {
+    const epoch = this.epoch;
+    const current = () => this.running && epoch === this.epoch;
+    try {
+      const s = await this.adapter.fetchSnapshot(this.symbol);
+      if (current()) this.ingestSnapshot(s);
+    } catch {
+      if (current()) this.snapshotTimer = setTimeout(() => { if (current()) this.loadSnapshot(); }, SNAPSHOT_RETRY_MS);
+    }
+  }
+
+  // resync on sequence gaps: REST venues refetch, streaming venues resubscribe
+  private resync() {
+    this.refresh();
+    if (!this.running) return;     // a replayed feed carries its own follow-up snapshot
+    if (this.adapter.snapshotSource === 'rest') { this.loadSnapshot(); return; }
+    const spec = this.adapter.streams(this.symbol).find(x => x.kind === 'depth');
+    this.close('depth');
+    if (spec) this.open(spec);
+  }
+
+  private backoff(kind: StreamKind): Backoff {
+    return this.backoffs[kind] ??= new Backoff(RECONNECT_BASE_MS, RECONNECT_CAP_MS);
+  }
+
+  private retry(spec: StreamSpec) {
+    const d = this.backoff(spec.kind).next();
+    this.streamState(spec.kind, 'backoff', Date.now() + d);
+    this.timers[spec.kind] = setTimeout(() => { if (this.running) this.open(spec); }, d);
+  }
+
+  private open(spec: StreamSpec) {
+    this.streamState(spec.kind, 'connecting');
+    try {
+      const ws = new WebSocket(spec.url);
+      const a = this.alive[spec.kind] = { spec, connectedAt: Date.now(), openedAt: 0, lastFrameAt: 0, pinged: false };
+      this.sockets[spec.kind] = ws;
+      ws.onopen = () => {
+        a.openedAt = a.lastFrameAt = Date.now();
+        if (spec.subscribe) ws.send(JSON.stringify(spec.subscribe));
+        this.streamState(spec.kind, 'open');
+      };
+      ws.onmessage = (e) => {
+        if (!this.running || this.sockets[spec.kind] !== ws) return;
+        a.lastFrameAt = Date.now(); a.pinged = false;
+        this.backoff(spec.kind).reset();
+        this.ingest(spec.kind, e.data);
+      };
+      ws.onerror = () => this.h.onError?.(`${spec.kind} connection error`);
+      ws.onclose = () => { if (this.running && this.sockets[spec.kind] === ws) this.lost(spec); };
+      if (!this.watchdog) this.watchdog = setInterval(() => this.watch(), WATCHDOG_MS);
+    } catch {
+      this.h.onError?.(`failed to open ${spec.kind} socket`);
+      this.retry(spec);
+    }
+  }
+
+  // StreamPool.watch() for the sockets the feed opens itself
+  private watch() {
+    if (!this.running) return;
+    const now = Date.now();
+    for (const [kind, ws] of Object.entries(this.sockets) as [StreamKind, WebSocket][]) {
+      const a = this.alive[kind];
+      if (!a) continue;
+      // a handshake that never completes (blackholed, or no close event after a refusal)
+      if (ws.readyState === WebSocket.CONNECTING) { if (now - a.connectedAt >= CONNECT_TIMEOUT_MS) this.lost(a.spec); continue; }
+      if (ws.readyState !== WebSocket.OPEN) continue;
+      if (a.spec.maxAgeMs && now - a.openedAt >= a.spec.maxAgeMs - ROTATE_EARLY_MS) { this.lost(a.spec, true); continue; }
+      if (!a.spec.heartbeat) continue;
+      const quiet = now - a.lastFrameAt;
+      if (quiet >= IDLE_TIMEOUT_MS) { this.h.onError?.(`${kind} connection silent for ${Math.round(quiet / 1000)}s`); this.lost(a.spec); continue; }
+      if (quiet >= HEARTBEAT_MS && !a.pinged) { a.pinged = true; ws.send(JSON.stringify(a.spec.heartbeat())); }
+    }
+  }
+
+  /** Forget a dead socket and schedule the next one; a rotation opens it straight away. */
+  private lost(spec: StreamSpec, rotate = false) {
+    if (spec.kind === 'depth') this.setStatus({ reconnects: this._status.reconnects + 1 });
+    this.close(spec.kind);
+    if (rotate) this.open(spec); else this.retry(spec);
+  }
+
+  private join(kind: StreamKind) {
+    const pool = streamPool(this.adapter), mux = this.adapter.mux;
+    if (!pool || !mux) return;
+    this.streamState(kind, 'connecting');
+    this.channels[kind] = pool.subscribe(mux.channel(kind, this.symbol), {
+      onFrame: (raw) => { if (this.running) this.ingest(kind, raw); },
+      onConnecting: () => { if (this.running) this.streamState(kind, 'connecting'); },
+      onOpen: () => { if (this.running) this.streamState(kind, 'open'); },
+      onClose: (retryAt) => {
+        if (!this.running) return;
+        if (kind === 'depth') this.setStatus({ reconnects: this._status.reconnects + 1 });
+        this.streamState(kind, retryAt > Date.now() ? 'backoff' : 'connecting', retryAt);
+      },
+      onError: (message) => this.h.onError?.(message),
+    });
+  }
+
+  private close(kind: StreamKind) {
+    const ws = this.sockets[kind];
+    if (ws) {
+      ws.onclose = null; ws.onmessage = null; ws.onerror = null;
+      try { if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) ws.close(); } catch {}
+    }
+    delete this.sockets[kind];
+    delete this.alive[kind];
+    const t = this.timers[kind];
+    if (t) clearTimeout(t);
+    delete this.timers[kind];
+  }
+}
@@ -0,0 +1,74 @@
+// Feed worker entry: see lib/feedworker.ts for the protocol.
+import { MarketFeed } from '@/lib/feed';
+import { packBook } from '@/lib/bookview';
+import { ADAPTERS, type MarketTrade } from '@/lib/exchanges';
+import { FLUSH_MS, WORKER_DEPTH, type FeedWorkerMessage, type FeedWorkerRequest } from '@/lib/feedworker';
+
+const scope = self as unknown as Worker;
+const post = (msg: FeedWorkerMessage, transfer: Transferable[] = []) => scope.postMessage(msg, transfer);
+
+let feed: MarketFeed | null = null;
+let recording = false;
+let bookDirty = false;
+let statusDirty = false;
+let trades: MarketTrade[] = [];
+let frames = 0;
+let lastFrameAt = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function schedule() { if (!timer) timer = setTimeout(flush, FLUSH_MS); }
+
+function flush() {
+  timer = null;
+  if (!feed) return;
+  if (bookDirty) {
+    bookDirty = false;
+    const b = packBook(feed.book, WORKER_DEPTH);
+    post({ type: 'book', ...b }, [b.bp.buffer, b.bq.buffer, b.ap.buffer, b.aq.buffer]);
+  }
+  if (trades.length) { post({ type: 'trades', trades }); trades = []; }
+  if (statusDirty || frames) {
+    statusDirty = false;
+    post({ type: 'status', status: feed.status, frames, lastFrameAt, health: feed.health() });
+    frames = 0;
+  }
+}
+
+function start(venue: keyof typeof ADAPTERS, symbol: string) {
+  feed?.stop();
+  const f: MarketFeed = new MarketFeed(ADAPTERS[venue], symbol, {
+    onBook: () => { bookDirty = true; schedule(); },
+    onTrade: (t) => { trades.push(t); schedule(); },
+    onTicker: (top) => post({ type: 'ticker', top }),
+    onMark: (mark) => post({ type: 'mark', mark }),
+    onLiquidation: (liq) => post({ type: 'liquidation', liq }),
+    onInstrument: (info) => post({ type: 'instrument', info }),
+    onStatus: () => { statusDirty = true; schedule(); },
+    onFrame: (kind, raw) => {
+      if (kind !== 'ticker') { frames++; lastFrameAt = Date.now(); }
+      if (recording) post({ type: 'frame', kind, raw });
+      schedule();
+    },
+    onSnapshot: (snapshot) => { if (recording) post({ type: 'snapshot', snapshot }); },
+    onError: (message) => post({ type: 'error', message }),
+    onUnavailable: (err) => post({ type: 'unavailable', reason: err.reason, message: err.message }),
+  });
+  feed = f;
+  f.start();
+}
+
+scope.onmessage = (e: MessageEvent<FeedWorkerRequest>) => {
+  const m = e.data;
+  switch (m.type) {
+    case 'start': start(m.venue, m.symbol); break;
+    case 'record':
+      recording = m.on;
+      // seed a new recording with the live book so it replays on its own
+      if (m.on && feed?.book.status === 'live') post({ type: 'snapshot', snapshot: feed.book.toSnapshot() });
+      break;
+    case 'resync': feed?.resnapshot(); break;
+    case 'pause': feed?.pause(); break;
+    case 'resume': feed?.resume(); break;
+    case 'stop': feed?.stop(); feed = null; break;
+  }
+};
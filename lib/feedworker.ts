@@ -0,0 +1,41 @@
+// ============================================================================
+// Feed worker protocol
+//
+// The worker runs a MarketFeed off the main thread and posts back the top
+// WORKER_DEPTH levels of the sorted book (transferable typed arrays), batched
+// trades and status at most once per FLUSH_MS.
+// ============================================================================
+import type { DepthSnapshot } from '@/lib/orderbook';
+import type { PackedBook } from '@/lib/bookview';
+import type { FeedHealth, FeedStatus } from '@/lib/feed';
+import type { InstrumentInfo, Liquidation, MarkPrice, MarketTrade, StreamKind, TopOfBook, VenueId } from '@/lib/exchanges';
+
+export const FLUSH_MS = 16;
+/** Levels per side in each posted book; the page reads no deeper than this, as with RELAY_DEPTH. */
+export const WORKER_DEPTH = 500;
+
+export type FeedWorkerRequest =
+  | { type: 'start'; venue: VenueId; symbol: string }
+  | { type: 'record'; on: boolean }
+  | { type: 'resync' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'stop' };
+
+export type FeedWorkerMessage =
+  | ({ type: 'book' } & PackedBook)
+  | { type: 'trades'; trades: MarketTrade[] }
+  | { type: 'ticker'; top: TopOfBook }
+  | { type: 'mark'; mark: MarkPrice }
+  | { type: 'liquidation'; liq: Liquidation }
+  | { type: 'instrument'; info: InstrumentInfo | null }
+  /** `health` is missing only from statuses synthesized on the page (a dropped relay). */
+  | { type: 'status'; status: FeedStatus; frames: number; lastFrameAt: number; health?: FeedHealth }
+  | { type: 'frame'; kind: StreamKind; raw: string }
+  | { type: 'snapshot'; snapshot: DepthSnapshot }
+  | { type: 'error'; message: string }
+  | { type: 'unavailable'; reason: 'unknown' | 'halted'; message: string };
+
+export function createFeedWorker(): Worker {
+  return new Worker(new URL('./feed.worker.ts', import.meta.url), { type: 'module' });
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { DIVERGENCE_SPAN, FLOW_WINDOWS, TradeFlow } from '@/lib/flow';
+import type { MarketTrade } from '@/lib/exchanges';
+
+// a whole second, so slot edges fall on round offsets from it
+const T0 = 1_760_875_200_000;
+let nextId = 1;
+const trade = (time: number, quantity: number, isBuyerMaker: boolean, count?: number): MarketTrade =>
+  ({ id: nextId++, price: 100, quantity, time, isBuyerMaker, ...(count && { count }) });
+
+describe('TradeFlow CVD', () => {
+  it('adds taker buys and subtracts taker sells (isBuyerMaker)', () => {
+    const f = new TradeFlow();
+    f.add([trade(T0, 2, false), trade(T0 + 10, 0.5, true), trade(T0 + 20, 1, false, 3)]);
+    expect(f.cvd).toBe(2.5);
+    expect(f.since).toBe(T0);
+    const w = f.window(10_000);
+    expect(w).toMatchObject({ buy: 3, sell: 0.5, buyCount: 4, sellCount: 1, delta: 2.5 });
+    expect(w.imbalance).toBeCloseTo(2.5 / 3.5 * 100, 10);
+    expect(w.avgSize).toBeCloseTo(3.5 / 5, 10);
+  });
+
+  it('starts over on clear', () => {
+    const f = new TradeFlow();
+    f.add([trade(T0, 1, true)]);
+    f.clear();
+    expect(f.cvd).toBe(0);
+    expect(f.since).toBe(0);
+    expect(f.window(60_000).sell).toBe(0);
+  });
+
+  it('rejects a window it does not keep', () => {
+    expect(() => new TradeFlow().window(30_000)).toThrow('no 30000ms flow window');
+  });
+});
+
+describe('TradeFlow windows', () => {
+  it.each(FLOW_WINDOWS)('ages a trade out of the %dms window once its whole slot has left', ms => {
+    const f = new TradeFlow();
+    f.add([trade(T0 + 400, 1, false)]);
+    // the trade's slot is [T0, T0 + 1s): it stays until the window start passes the slot's end
+    f.advance(T0 + 1000 + ms - 1);
+    expect(f.window(ms).buy).toBe(1);
+    const v = f.version;
+    f.advance(T0 + 1000 + ms);
+    expect(f.window(ms)).toMatchObject({ buy: 0, buyCount: 0, delta: 0, imbalance: 0, avgSize: 0 });
+    expect(f.version).toBe(v + 1);
+    // the session CVD is not windowed
+    expect(f.cvd).toBe(1);
+    // longer windows still hold it
+    for (const longer of FLOW_WINDOWS.filter(x => x > ms)) expect(f.window(longer).buy).toBe(1);
+  });
+
+  it('resets an emptied window to exactly zero rather than leftover float drift', () => {
+    const f = new TradeFlow();
+    f.add([trade(T0, 0.1, false), trade(T0, 0.7, true)]);
+    f.add([trade(T0 + 1000, 0.2, false), trade(T0 + 1000, 0.1, true)]);
+    f.advance(T0 + 11_000);
+    // one slot out: running sums are now 0.1 + 0.2 − 0.1, a hair off 0.2
+    expect(f.window(10_000).buy).toBeCloseTo(0.2, 12);
+    f.advance(T0 + 12_000);
+    const w = f.window(10_000);
+    expect(w.buy).toBe(0);
+    expect(w.sell).toBe(0);
+    expect(w.delta).toBe(0);
+  });
+
+  it('never moves the clock back', () => {
+    const f = new TradeFlow();
+    f.add([trade(T0 + 5000, 1, false)]);
+    const v = f.version;
+    f.advance(T0);
+    expect(f.clock).toBe(T0 + 5000);
+    expect(f.version).toBe(v);
+  });
+
+  it('measures the rate over the time since the first trade until a full window has passed', () => {
+    const f = new TradeFlow();
+    f.add(Array.from({ length: 11 }, (_, i) => trade(T0 + i * 400, 0.1, i % 2 === 0)));
+    // first trade at T0, clock at T0 + 4s: 11 fills over the 5 slots seen so far
+    expect(f.clock).toBe(T0 + 4000);
+    expect(f.window(10_000).rate).toBeCloseTo(11 / 5, 10);
+    expect(f.window(900_000).rate).toBeCloseTo(11 / 5, 10);
+    f.advance(T0 + 9000);
+    expect(f.window(10_000).rate).toBeCloseTo(11 / 10, 10);
+    // past a full window its divisor stops growing; the longer ones keep going
+    f.advance(T0 + 10_500);
+    expect(f.window(10_000).rate).toBeCloseTo(11 / 10, 10);
+    expect(f.window(60_000).rate).toBeCloseTo(11 / 11.5, 10);
+  });
+
+  it('counts the whole slot for a lone first trade', () => {
+    const f = new TradeFlow();
+    f.add([trade(T0, 1, false)]);
+    expect(f.window(60_000).rate).toBe(1);
+  });
+});
+
+describe('TradeFlow divergences', () => {
+  /** One sample a second: a taker trade of `flow` (sign is the side) and then the mid. */
+  function run(f: TradeFlow, from: number, steps: { mid: number; flow: number }[]) {
+    steps.forEach(({ mid, flow }, i) => {
+      const t = T0 + (from + i) * 1000;
+      if (flow) f.add([trade(t, Math.abs(flow), flow < 0)]); else f.advance(t);
+      f.sample(mid);
+    });
+    return from + steps.length;
+  }
+  const ramp = (n: number, mid0: number, dMid: number, flow: number) =>
+    Array.from({ length: n }, (_, i) => ({ mid: mid0 + i * dMid, flow }));
+
+  it('stays quiet while CVD confirms the move', () => {
+    const f = new TradeFlow();
+    run(f, 0, ramp(3 * DIVERGENCE_SPAN, 100, 1, 1));
+    expect(f.history).toHaveLength(3 * DIVERGENCE_SPAN);
+    expect(f.divergences).toEqual([]);
+  });
+
+  it('marks a new mid high without a new CVD high as bearish, once per swing', () => {
+    const f = new TradeFlow();
+    let i = run(f, 0, ramp(DIVERGENCE_SPAN, 100, 1, 1));
+    // price keeps climbing while takers sell into it
+    i = run(f, i, ramp(DIVERGENCE_SPAN - 1, 100 + DIVERGENCE_SPAN, 1, -1));
+    expect(f.divergences).toEqual([]);
+    i = run(f, i, ramp(11, 100 + 2 * DIVERGENCE_SPAN - 1, 1, -1));
+    // every new high repeats the divergence; the one marker follows it to the latest
+    expect(f.divergences).toHaveLength(1);
+    const last = f.history[f.history.length - 1];
+    expect(f.divergences[0]).toEqual({ t: last.t, kind: 'bearish', mid: last.mid, cvd: last.cvd });
+    expect(last.t).toBe(T0 + (i - 1) * 1000);
+  });
+
+  it('marks a new mid low without a new CVD low as bullish', () => {
+    const f = new TradeFlow();
+    let i = run(f, 0, ramp(DIVERGENCE_SPAN, 500, -1, -1));
+    i = run(f, i, ramp(DIVERGENCE_SPAN + 5, 500 - DIVERGENCE_SPAN, -1, 1));
+    expect(f.divergences.map(d => d.kind)).toEqual(['bullish']);
+    const d = f.divergences[0];
+    expect(d.mid).toBe(Math.min(...f.history.map(p => p.mid)));
+    expect(d.t).toBe(T0 + (i - 1) * 1000);
+  });
+
+  it('keeps separate markers for a swing of the other kind', () => {
+    const f = new TradeFlow();
+    let i = run(f, 0, ramp(DIVERGENCE_SPAN, 100, 1, 1));
+    i = run(f, i, ramp(DIVERGENCE_SPAN + 5, 100 + DIVERGENCE_SPAN, 1, -1));
+    const top = 100 + 2 * DIVERGENCE_SPAN + 4;
+    // a sharp drop on net buying: new lows the CVD does not follow
+    run(f, i, ramp(2 * DIVERGENCE_SPAN, top - 1, -3, 1));
+    expect(f.divergences.map(d => d.kind)).toEqual(['bearish', 'bullish']);
+  });
+});
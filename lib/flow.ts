@@ -0,0 +1,178 @@
+// ============================================================================
+// TradeFlow — cumulative volume delta and rolling taker-flow windows
+//
+// Every trade is added once: to the session CVD (taker buy minus sell volume
+// since the last reset) and to per-second slots. Each window keeps running
+// buy/sell volume and fill counts over the slots it covers; as the clock moves
+// the slots that fall out are subtracted, so reading a window is O(1) however
+// busy the market is.
+//
+// The clock is trade time, moved forward by the page's 1s tick while live so
+// quiet markets still age out; a replay runs on its own trade times.
+//
+// CVD is sampled with the mid once a second for the chart. A divergence is
+// flagged when the last DIVERGENCE_SPAN samples make a new mid high without a
+// new CVD high (bearish: buyers aren't behind the move) or a new mid low
+// without a new CVD low (bullish), compared with the span before.
+// ============================================================================
+import type { MarketTrade } from '@/lib/exchanges';
+
+export const FLOW_WINDOWS = [10_000, 60_000, 300_000, 900_000];
+/** Samples per half of the divergence comparison. */
+export const DIVERGENCE_SPAN = 60;
+
+const SLOT_MS = 1000;
+const HISTORY = 1800;            // 30 minutes of 1s samples
+const MAX_DIVERGENCES = 50;
+
+export interface FlowWindow {
+  windowMs: number;
+  buy: number; sell: number;
+  buyCount: number; sellCount: number;
+  /** Taker buy minus sell volume. */
+  delta: number;
+  /** delta as % of the window's volume (−100…100). */
+  imbalance: number;
+  /** Mean fill size, base units. */
+  avgSize: number;
+  /** Fills per second over the part of the window since the reset. */
+  rate: number;
+}
+
+export interface CvdPoint { t: number; cvd: number; mid: number; }
+
+export interface Divergence { t: number; kind: 'bullish' | 'bearish'; mid: number; cvd: number; }
+
+interface Slot { t: number; buy: number; sell: number; buyCount: number; sellCount: number; }
+
+/** Running sums over the slots from `start` to the newest. */
+interface Running extends Omit<Slot, 't'> { windowMs: number; start: number; }
+
+export class TradeFlow {
+  private slots: Slot[] = [];
+  private running: Running[] = FLOW_WINDOWS.map(windowMs => ({ windowMs, start: 0, buy: 0, sell: 0, buyCount: 0, sellCount: 0 }));
+  private _cvd = 0;
+  private _since = 0;
+  private _clock = 0;
+  private points: CvdPoint[] = [];
+  private divs: Divergence[] = [];
+  private _version = 0;
+
+  get version(): number { return this._version; }
+  /** Session CVD, base units. */
+  get cvd(): number { return this._cvd; }
+  /** Time of the first trade since the last reset; 0 before any. */
+  get since(): number { return this._since; }
+  get clock(): number { return this._clock; }
+  /** Oldest first. */
+  get history(): readonly CvdPoint[] { return this.points; }
+  /** Oldest first. */
+  get divergences(): readonly Divergence[] { return this.divs; }
+
+  clear() {
+    this.slots = [];
+    for (const r of this.running) { r.start = 0; r.buy = r.sell = r.buyCount = r.sellCount = 0; }
+    this._cvd = 0; this._since = 0; this._clock = 0; this.points = []; this.divs = [];
+    this._version++;
+  }
+
+  add(ts: MarketTrade[]) {
+    if (!ts.length) return;
+    for (const t of ts) {
+      if (!this._since) this._since = t.time;
+      const st = t.time - (t.time % SLOT_MS);
+      let s = this.slots[this.slots.length - 1];
+      if (!s || st > s.t) { s = { t: st, buy: 0, sell: 0, buyCount: 0, sellCount: 0 }; this.slots.push(s); }
+      // a late print lands in the newest slot; off by at most a second
+      const n = t.count ?? 1;
+      if (t.isBuyerMaker) { s.sell += t.quantity; s.sellCount += n; this._cvd -= t.quantity; }
+      else { s.buy += t.quantity; s.buyCount += n; this._cvd += t.quantity; }
+      for (const r of this.running) {
+        if (t.isBuyerMaker) { r.sell += t.quantity; r.sellCount += n; } else { r.buy += t.quantity; r.buyCount += n; }
+      }
+      if (t.time > this._clock) this._clock = t.time;
+    }
+    this.expire();
+    this._version++;
+  }
+
+  /** Move the clock to `now` (never back) and age the windows. */
+  advance(now: number) {
+    if (now <= this._clock) return;
+    this._clock = now;
+    if (this.expire()) this._version++;
+  }
+
+  /** Subtract slots that left each window; drop those no window covers. */
+  private expire(): boolean {
+    let changed = false;
+    for (const r of this.running) {
+      while (r.start < this.slots.length && this.slots[r.start].t + SLOT_MS <= this._clock - r.windowMs) {
+        const s = this.slots[r.start++];
+        r.buy -= s.buy; r.sell -= s.sell; r.buyCount -= s.buyCount; r.sellCount -= s.sellCount;
+        changed = true;
+      }
+      // running float sums drift; an empty window is exactly zero
+      if (r.start === this.slots.length) r.buy = r.sell = r.buyCount = r.sellCount = 0;
+    }
+    const drop = Math.min(...this.running.map(r => r.start));
+    if (drop > 0) {
+      this.slots.splice(0, drop);
+      for (const r of this.running) r.start -= drop;
+    }
+    return changed;
+  }
+
+  /** One of FLOW_WINDOWS as of the clock. */
+  window(windowMs: number): FlowWindow {
+    const r = this.running.find(x => x.windowMs === windowMs);
+    if (!r) throw new Error(`no ${windowMs}ms flow window`);
+    const vol = r.buy + r.sell, count = r.buyCount + r.sellCount;
+    const span = this._since ? Math.min(windowMs, Math.max(SLOT_MS, this._clock - this._since + SLOT_MS)) : windowMs;
+    return {
+      windowMs, buy: r.buy, sell: r.sell, buyCount: r.buyCount, sellCount: r.sellCount,
+      delta: r.buy - r.sell,
+      imbalance: vol > 0 ? ((r.buy - r.sell) / vol) * 100 : 0,
+      avgSize: count > 0 ? vol / count : 0,
+      rate: count / (span / 1000),
+    };
+  }
+
+  /** Record the CVD against `mid` at the clock; a second sample at the same time replaces the first. */
+  sample(mid: number) {
+    if (!this._since || !(mid > 0)) return;
+    const p: CvdPoint = { t: this._clock, cvd: this._cvd, mid };
+    const ps = this.points;
+    if (ps.length && ps[ps.length - 1].t >= p.t) ps[ps.length - 1] = p; else ps.push(p);
+    if (ps.length > HISTORY * 1.1) this.points = ps.slice(-HISTORY);
+    this.detect();
+    this._version++;
+  }
+
+  private detect() {
+    const ps = this.points, n = DIVERGENCE_SPAN;
+    if (ps.length < 2 * n) return;
+    const hiLo = (from: number, to: number) => {
+      let midHi = -Infinity, midLo = Infinity, cvdHi = -Infinity, cvdLo = Infinity;
+      for (let i = from; i < to; i++) {
+        const p = ps[i];
+        if (p.mid > midHi) midHi = p.mid; if (p.mid < midLo) midLo = p.mid;
+        if (p.cvd > cvdHi) cvdHi = p.cvd; if (p.cvd < cvdLo) cvdLo = p.cvd;
+      }
+      return { midHi, midLo, cvdHi, cvdLo };
+    };
+    const prev = hiLo(ps.length - 2 * n, ps.length - n), cur = hiLo(ps.length - n, ps.length);
+    const last = ps[ps.length - 1];
+    // only the sample that sets the new extreme is marked
+    let kind: Divergence['kind'] | null = null;
+    if (last.mid === cur.midHi && cur.midHi > prev.midHi && cur.cvdHi < prev.cvdHi) kind = 'bearish';
+    else if (last.mid === cur.midLo && cur.midLo < prev.midLo && cur.cvdLo > prev.cvdLo) kind = 'bullish';
+    if (!kind) return;
+    // one marker per swing: a repeat of the same kind within the span moves the marker
+    const d = this.divs[this.divs.length - 1];
+    const mark = { t: last.t, kind, mid: last.mid, cvd: last.cvd };
+    if (d && d.kind === kind && last.t - d.t < n * SLOT_MS) this.divs[this.divs.length - 1] = mark;
+    else this.divs.push(mark);
+    if (this.divs.length > MAX_DIVERGENCES) this.divs.shift();
+  }
+}
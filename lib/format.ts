@@ -0,0 +1,46 @@
+// ============================================================================
+// Number formatting shared by the book views
+// ============================================================================
+const nfCache = new Map<number, Intl.NumberFormat>();
+
+export function fmtFixed(n: number, dp: number): string {
+  if (!isFinite(n)) return '0';
+  let nf = nfCache.get(dp);
+  if (!nf) {
+    nf = new Intl.NumberFormat(undefined, { minimumFractionDigits: dp, maximumFractionDigits: dp });
+    nfCache.set(dp, nf);
+  }
+  return nf.format(n);
+}
+
+export function fmtCompact(n: number): string {
+  if (!isFinite(n)) return '0';
+  const abs = Math.abs(n);
+  if (abs >= 1e9) return (n / 1e9).toFixed(2) + 'B';
+  if (abs >= 1e6) return (n / 1e6).toFixed(2) + 'M';
+  if (abs >= 1e3) return (n / 1e3).toFixed(2) + 'K';
+  return n.toFixed(2);
+}
+
+/** Decimal places implied by a tick/lot size string such as "0.0100". */
+export function decimalsFromStep(step: string): number {
+  if (!step.includes('.')) return 0;
+  const trimmed = step.replace(/0+$/, '');
+  const i = trimmed.indexOf('.');
+  return i >= 0 ? (trimmed.length - i - 1) : 0;
+}
+
+/** Elapsed time as "45s", "3m 12s" or "2h 05m". */
+export function fmtAge(ms: number): string {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, '0')}s`;
+  return `${Math.floor(s / 3600)}h ${String(Math.floor(s / 60) % 60).padStart(2, '0')}m`;
+}
+
+/** Time remaining as a clock: "7:59:12" or "3:05". */
+export function fmtCountdown(ms: number): string {
+  const s = Math.max(0, Math.ceil(ms / 1000));
+  const mm = String(Math.floor(s / 60) % 60), ss = String(s % 60).padStart(2, '0');
+  return s >= 3600 ? `${Math.floor(s / 3600)}:${mm.padStart(2, '0')}:${ss}` : `${mm}:${ss}`;
+}
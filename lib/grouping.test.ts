@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { OrderBook, bucketize, type Side } from '@/lib/orderbook';
+import { BookView, packBook } from '@/lib/bookview';
+import { scaleFloat, tickStep, toScaled, type PriceStep } from '@/lib/decimal';
+import { PCT_STEPS, niceSteps, resolveStep, type Grouping } from '@/lib/grouping';
+
+// exchange-style tick strings, padded the way the venues send them
+const TICKS = ['0.01000000', '0.10', '0.5', '1', '0.00001000', '0.25', '0.01'];
+
+interface Case { tick: string; grouping: Grouping; mid: number; bids: [string, string][]; asks: [string, string][] }
+
+/** A grouping in `kind` mode that makes sense at this tick and mid. */
+function groupingIn(kind: Grouping['kind'], tick: string, mid: number): fc.Arbitrary<Grouping> {
+  switch (kind) {
+    case 'ticks': return fc.integer({ min: 1, max: 1000 }).map(mult => ({ kind, mult }));
+    case 'price': return fc.constantFrom(...niceSteps(tick, mid)).map(step => ({ kind, step }));
+    case 'pct': return fc.oneof(fc.constantFrom(...PCT_STEPS), fc.double({ min: 0.001, max: 10, noNaN: true })).map(pct => ({ kind, pct }));
+  }
+}
+
+/** A tick-aligned book around a random mid, with a grouping in the given mode. */
+const bookCase = (kind: Grouping['kind']): fc.Arbitrary<Case> => fc.record({
+  tick: fc.constantFrom(...TICKS),
+  mid: fc.integer({ min: 1000, max: 500_000 }),
+}).chain(({ tick, mid }) => {
+  const t = tickStep(tick);
+  const price = (k: number) => (k * t.units / 10 ** t.dp).toFixed(t.dp + 2);
+  // sizes in whole thousandths so sums stay exact
+  const level = fc.tuple(fc.integer({ min: 1, max: 500_000 }), fc.integer({ min: 1, max: 1e6 }));
+  const side = fc.uniqueArray(level, { minLength: 1, maxLength: 60, selector: l => l[0] });
+  const toLevels = (ls: [number, number][], off: number) => ls.map(([k, q]): [string, string] => [price(k + off), (q / 1000).toFixed(3)]);
+  return fc.record({ bids: side, asks: side, grouping: groupingIn(kind, tick, mid * t.value) }).map(({ bids, asks, grouping }) => ({
+    tick, grouping, mid: mid * t.value,
+    // bids below the mid, asks above it
+    bids: toLevels(bids.filter(([k]) => k < mid), 0), asks: toLevels(asks, mid),
+  }));
+});
+
+function books(c: Case) {
+  const book = new OrderBook();
+  book.applySnapshot({ lastUpdateId: 1, bids: c.bids, asks: c.asks });
+  const view = new BookView();
+  view.set(packBook(book));
+  return [book, view] as const;
+}
+
+const SIDES: Side[] = ['bid', 'ask'];
+const KINDS: Grouping['kind'][] = ['ticks', 'price', 'pct'];
+
+/** The scaled bucket a level belongs to, checked against the raw rule. */
+function expectedBucket(ps: string, step: PriceStep, side: Side) {
+  const k = toScaled(ps, step.dp), r = k % step.units;
+  return !r ? k : side === 'bid' ? k - r : k - r + step.units;
+}
+
+describe.each(KINDS)('grouped() with %s grouping', kind => {
+  it('sums every level into the buckets: grouped amounts add up to totalSize', () => {
+    fc.assert(fc.property(bookCase(kind), c => {
+      const step = resolveStep(c.grouping, c.tick, c.mid);
+      for (const b of books(c)) for (const side of SIDES) {
+        const g = b.grouped(side, step);
+        const total = b.totalSize(side);
+        expect(g.reduce((s, l) => s + l.amount, 0)).toBeCloseTo(total, 6);
+        expect(g.length ? g[g.length - 1].total : 0).toBeCloseTo(total, 6);
+      }
+    }));
+  });
+
+  it('puts each level in exactly one bucket, the one on its side of the price', () => {
+    fc.assert(fc.property(bookCase(kind), c => {
+      const step = resolveStep(c.grouping, c.tick, c.mid);
+      // resolved steps stay whole multiples of the tick
+      expect(step.units % tickStep(c.tick).units).toBe(0);
+      for (const b of books(c)) for (const side of SIDES) {
+        const rows = b.grouped(side, step);
+        const keys = rows.map(r => scaleFloat(r.price, step.dp));
+        expect(new Set(keys).size).toBe(keys.length);
+        const sum = new Map<number, number>();
+        for (const [ps, qs] of side === 'bid' ? c.bids : c.asks) {
+          const k = toScaled(ps, step.dp), bucket = expectedBucket(ps, step, side);
+          // bids round down, asks up, by less than one step
+          if (side === 'bid') expect(bucket <= k && k - bucket < step.units).toBe(true);
+          else expect(bucket >= k && bucket - k < step.units).toBe(true);
+          expect(scaleFloat(bucketize(parseFloat(ps), step, side), step.dp)).toBe(bucket);
+          expect(keys.filter(x => x === bucket)).toHaveLength(1);
+          sum.set(bucket, (sum.get(bucket) ?? 0) + parseFloat(qs));
+        }
+        // no bucket without a level in it, and each holds exactly its levels
+        expect(rows).toHaveLength(sum.size);
+        for (const r of rows) expect(r.amount).toBeCloseTo(sum.get(scaleFloat(r.price, step.dp))!, 6);
+      }
+    }));
+  });
+
+  it('orders buckets best-first and never lets them cross', () => {
+    fc.assert(fc.property(bookCase(kind), c => {
+      const step = resolveStep(c.grouping, c.tick, c.mid);
+      for (const b of books(c)) {
+        const bids = b.grouped('bid', step).map(r => r.price), asks = b.grouped('ask', step).map(r => r.price);
+        expect(bids).toEqual([...bids].sort((x, y) => y - x));
+        expect(asks).toEqual([...asks].sort((x, y) => x - y));
+        if (bids.length && asks.length) expect(bids[0]).toBeLessThan(asks[0]);
+      }
+    }));
+  });
+});
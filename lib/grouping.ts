@@ -0,0 +1,112 @@
+// ============================================================================
+// Grouping modes — how the ladder's price step is chosen
+//
+// Three ways to ask for a step: a whole number of ticks, a "nice" price
+// (0.5, 1, 5, 10, 50… in quote currency) or a share of the mid. Every mode
+// resolves to a whole number of ticks (see lib/decimal), so buckets stay
+// aligned to the tick grid. A %-of-mid step is rounded to two significant
+// figures of ticks so the buckets don't shift with every move of the mid.
+// ============================================================================
+import { pow10, priceStep, tickStep, type PriceStep } from '@/lib/decimal';
+
+export type Grouping =
+  | { kind: 'ticks'; mult: number }
+  | { kind: 'price'; step: string }
+  | { kind: 'pct'; pct: number };
+
+export type GroupingKind = Grouping['kind'];
+
+export const TICK_MULTS = [1, 2, 5, 10, 25, 50, 100];
+export const MAX_TICK_MULT = 100_000;
+export const PCT_STEPS = [0.01, 0.02, 0.05, 0.1, 0.25, 0.5, 1];
+export const DEFAULT_GROUPING: Grouping = { kind: 'ticks', mult: 1 };
+
+// nice steps offered up to this share of the mid
+const NICE_MAX_OF_MID = 0.02;
+const NICE_MAX_COUNT = 12;
+
+const roundSig = (x: number, digits: number) => {
+  if (x <= 0) return x;
+  const p = 10 ** (Math.floor(Math.log10(x)) + 1 - digits);
+  return Math.round(x / p) * p;
+};
+
+/** The step a grouping asks for at this tick size and mid. */
+export function resolveStep(g: Grouping, tick: string, mid: number): PriceStep {
+  const t = tickStep(tick);
+  switch (g.kind) {
+    case 'ticks': return priceStep(t.units * Math.max(1, Math.round(g.mult)), t.dp);
+    case 'price': return priceStep(t.units * Math.max(1, Math.round(parseFloat(g.step) / t.value)), t.dp);
+    case 'pct': {
+      if (!(mid > 0)) return t;
+      return priceStep(t.units * Math.max(1, Math.round(roundSig(g.pct / 100 * mid / t.value, 2))), t.dp);
+    }
+  }
+}
+
+/**
+ * The 1-5-10 series of prices at or above one tick that are whole multiples
+ * of it, up to a couple of percent of the mid (or 10⁴ ticks before there is one).
+ */
+export function niceSteps(tick: string, mid: number): string[] {
+  const t = tickStep(tick);
+  const max = mid > 0 ? Math.max(t.value, mid * NICE_MAX_OF_MID) : t.value * 1e4;
+  const out: string[] = [];
+  for (let e = -t.dp; out.length < NICE_MAX_COUNT; e++) {
+    for (const m of [1, 5]) {
+      // in tick-dp units the candidate is m·10^(e+dp), an exact integer
+      const units = m * pow10(e + t.dp);
+      if (units % t.units || units < t.units) continue;
+      const value = units / pow10(t.dp);
+      if (value > max) return out;
+      out.push(value.toFixed(Math.max(0, -e)));
+    }
+  }
+  return out;
+}
+
+/** One notch coarser (by > 0) or finer within the grouping's own mode; stops at either end. */
+export function cycleGrouping(g: Grouping, by: number, tick: string, mid: number): Grouping {
+  // the first preset strictly past the current value, so a custom value lands on its neighbour; ends hold
+  const next = (list: number[], v: number) => {
+    const i = by > 0 ? list.findIndex(x => x > v) : list.findLastIndex(x => x < v);
+    return i < 0 ? (by > 0 ? list.length - 1 : 0) : i;
+  };
+  switch (g.kind) {
+    case 'ticks': return { kind: 'ticks', mult: TICK_MULTS[next(TICK_MULTS, g.mult)] };
+    case 'pct': return { kind: 'pct', pct: PCT_STEPS[next(PCT_STEPS, g.pct)] };
+    case 'price': {
+      const list = niceSteps(tick, mid);
+      return list.length ? { kind: 'price', step: list[next(list.map(Number), parseFloat(g.step))] } : g;
+    }
+  }
+}
+
+/** Short label for buttons and presets: '×10 ticks', '0.5', '0.1%'. */
+export function groupingLabel(g: Grouping): string {
+  return g.kind === 'ticks' ? `×${g.mult} tick${g.mult === 1 ? '' : 's'}` : g.kind === 'price' ? g.step : `${g.pct}%`;
+}
+
+// ----- validation and URL form -----
+const isDecimal = (s: unknown): s is string => typeof s === 'string' && /^\d+(\.\d+)?$/.test(s) && parseFloat(s) > 0;
+
+/** A grouping from untrusted data, or null. */
+export function sanitizeGrouping(raw: unknown): Grouping | null {
+  const o = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const n = Number(o.mult ?? o.pct);
+  if (o.kind === 'ticks' && Number.isInteger(n) && n >= 1 && n <= MAX_TICK_MULT) return { kind: 'ticks', mult: n };
+  if (o.kind === 'price' && isDecimal(o.step)) return { kind: 'price', step: o.step };
+  if (o.kind === 'pct' && n > 0 && n <= 10) return { kind: 'pct', pct: n };
+  return null;
+}
+
+/** URL form: '10' (ticks), 'p0.5' (price step), 'pct0.1' (% of mid). */
+export function formatGrouping(g: Grouping): string {
+  return g.kind === 'ticks' ? String(g.mult) : g.kind === 'price' ? `p${g.step}` : `pct${g.pct}`;
+}
+
+export function parseGrouping(s: string): Grouping | null {
+  if (s.startsWith('pct')) return sanitizeGrouping({ kind: 'pct', pct: s.slice(3) });
+  if (s.startsWith('p')) return sanitizeGrouping({ kind: 'price', step: s.slice(1) });
+  return sanitizeGrouping({ kind: 'ticks', mult: s });
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { HealthMonitor } from '@/lib/health';
+import { OrderBook } from '@/lib/orderbook';
+import { ADAPTERS, type VenueId } from '@/lib/exchanges';
+
+const T0 = 1_760_875_200_000;
+
+function bookAt(bid: string, ask: string) {
+  const b = new OrderBook();
+  b.applySnapshot({ lastUpdateId: 1, bids: [[bid, '1']], asks: [[ask, '1']] });
+  return b;
+}
+
+/** A monitor for `venue` that saw one ticker quote at T0, with every stream flowing. */
+function monitor(venue: VenueId) {
+  const m = new HealthMonitor();
+  m.tickerCheck = !ADAPTERS[venue].tickerOnTrades;
+  m.ticker({ bid: 100, bidSize: 1, ask: 101, askSize: 1 }, T0);
+  return m;
+}
+
+/** Run the 1s checks for `ms` over a book whose bid moved to 100.5 with no new quote. */
+function runMoved(m: HealthMonitor, ms: number) {
+  const book = bookAt('100.5', '101');
+  let resync = false;
+  for (let t = T0; t <= T0 + ms; t += 1000) {
+    m.feed({ streams: [{ kind: 'depth', frames: 1, idleMs: 0 }, { kind: 'ticker', frames: 1, idleMs: 0 }], unparseable: 0, dropped: 0, resyncs: 0 }, t);
+    resync = m.check(book, t) || resync;
+  }
+  return resync;
+}
+
+describe('HealthMonitor book vs ticker', () => {
+  it('flags a book that keeps disagreeing with a quoting ticker and asks for a resync', () => {
+    const m = monitor('binance');
+    expect(runMoved(m, 5000)).toBe(true);
+    expect(m.events.some(e => e.level === 'error' && e.message.startsWith('Book drifted from ticker'))).toBe(true);
+  });
+
+  it('skips the check on a venue whose ticker only publishes on trades', () => {
+    const m = monitor('coinbase');
+    expect(runMoved(m, 10_000)).toBe(false);
+    expect(m.checks.find(c => c.id === 'ticker')).toMatchObject({ level: 'ok', detail: 'off: ticker moves only on trades' });
+    expect(m.events.filter(e => e.level === 'error')).toEqual([]);
+  });
+});
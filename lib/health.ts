@@ -0,0 +1,214 @@
+// ============================================================================
+// HealthMonitor — integrity checks over a live book and the feed behind it
+//
+// book vs ticker  the book's best bid/ask must match a bookTicker quote seen
+//                 within TICKER_LAG_MS (depth arrives in ~100ms batches, the
+//                 ticker in real time); DRIFT_MS of continuous mismatch is drift.
+//                 Off where the ticker only publishes on trades (Coinbase): its
+//                 quote lags every book move between prints
+// crossed/locked  best bid above / equal to best ask
+// wide            spread past the ladder's plausibility limit (view blanked)
+// stale           no frame on a stream for staleMs (trades get longer: quiet
+//                 markets legitimately go minutes without a print; liquidations
+//                 can stay silent for hours, so they are never stale)
+// storm           STORM_RESYNCS resyncs inside STORM_WINDOW_MS
+//
+// Counters (unparseable frames, dropped deltas, resyncs) come from the feed's
+// FeedHealth; increases are logged. check() runs on the page's 1s tick and
+// returns true when the caller should resnapshot: drift or a crossed book
+// that persisted, auto-resync on, not storming and off cooldown.
+// ============================================================================
+import type { BookReader } from '@/lib/orderbook';
+import type { FeedHealth } from '@/lib/feed';
+import type { StreamKind, TopOfBook } from '@/lib/exchanges';
+import { MAX_SPREAD_PCT } from '@/lib/ladder';
+
+export const STALE_OPTIONS = [5_000, 10_000, 30_000, 60_000] as const;
+
+const TICKER_LAG_MS = 1500;
+const DRIFT_MS = 3000;
+const CROSSED_MS = 2000;
+const TRADES_STALE_MULT = 6;
+const STORM_RESYNCS = 3;
+const STORM_WINDOW_MS = 60_000;
+const AUTO_COOLDOWN_MS = 15_000;
+const LOG_SIZE = 200;
+
+export type HealthLevel = 'ok' | 'warn' | 'error';
+
+export interface HealthEvent { at: number; level: HealthLevel; message: string; }
+
+export interface HealthCheck { id: 'book' | 'ticker' | 'resyncs' | 'parse'; label: string; level: HealthLevel; detail: string; }
+
+export interface StreamHealth { kind: StreamKind; frames: number; idleMs: number; stale: boolean; }
+
+interface Quote { at: number; bid: number; ask: number; }
+type BookState = 'ok' | 'empty' | 'crossed' | 'locked' | 'wide';
+
+const worst = (a: HealthLevel, b: HealthLevel): HealthLevel => a === 'error' || b === 'error' ? 'error' : a === 'warn' || b === 'warn' ? 'warn' : 'ok';
+
+export class HealthMonitor {
+  staleMs: number = 10_000;
+  autoResync = true;
+  /** False when nothing here can resync the book (relay, replay). */
+  resyncable = true;
+  /** False for venues whose ticker lags the book between trades (ExchangeAdapter.tickerOnTrades). */
+  tickerCheck = true;
+
+  private feedHealth: FeedHealth | null = null;
+  private feedAt = 0;
+  private quotes: Quote[] = [];
+  private mismatchSince = 0;
+  private crossedSince = 0;
+  private bookState: BookState = 'empty';
+  private drifting = false;
+  private storming = false;
+  private stale = new Set<StreamKind>();
+  private resyncTimes: number[] = [];
+  /** Resyncs the page asked for that the feed's counter hasn't shown yet. */
+  private requested = 0;
+  private lastAuto = -Infinity;
+  private prev = { unparseable: 0, dropped: 0, resyncs: 0 };
+  private log: HealthEvent[] = [];
+  private _checks: HealthCheck[] = [];
+  private _streams: StreamHealth[] = [];
+  private _version = 0;
+
+  get version(): number { return this._version; }
+  get checks(): readonly HealthCheck[] { return this._checks; }
+  get streams(): readonly StreamHealth[] { return this._streams; }
+  /** Newest first. */
+  get events(): readonly HealthEvent[] { return this.log; }
+  get counters() { return this.prev; }
+  get level(): HealthLevel {
+    return [...this._checks.map(c => c.level), ...this._streams.map(s => s.stale ? 'warn' as const : 'ok' as const)].reduce(worst, 'ok');
+  }
+
+  clear() {
+    this.feedHealth = null; this.quotes = [];
+    this.mismatchSince = this.crossedSince = 0; this.lastAuto = -Infinity;
+    this.bookState = 'empty'; this.drifting = this.storming = false;
+    this.stale.clear(); this.resyncTimes = []; this.requested = 0;
+    this.prev = { unparseable: 0, dropped: 0, resyncs: 0 };
+    this.log = []; this._checks = []; this._streams = [];
+    this._version++;
+  }
+
+  private note(at: number, level: HealthLevel, message: string) {
+    this.log.unshift({ at, level, message });
+    if (this.log.length > LOG_SIZE) this.log.length = LOG_SIZE;
+  }
+
+  ticker(top: TopOfBook, now: number) {
+    this.quotes.push({ at: now, bid: top.bid, ask: top.ask });
+    let i = 0;
+    while (i < this.quotes.length - 1 && this.quotes[i].at < now - TICKER_LAG_MS) i++;
+    if (i) this.quotes.splice(0, i);
+  }
+
+  /** Latest feed counters; `at` is when they were taken, so idle times keep ageing between updates. */
+  feed(h: FeedHealth, at: number) { this.feedHealth = h; this.feedAt = at; }
+
+  /** A resync the page is sending; logged here so the counter bump isn't logged twice. */
+  requestedResync(now: number, why: string) {
+    this.requested++;
+    this.note(now, 'warn', `Resync requested: ${why}`);
+    this._version++;
+  }
+
+  check(book: BookReader, now: number): boolean {
+    this.checkCounters(now);
+    this.checkStreams(now);
+    const tickerLive = this.tickerCheck && this._streams.some(s => s.kind === 'ticker' && !s.stale) && this.quotes.length > 0;
+
+    // ----- book shape -----
+    const bb = book.bestBid(), ba = book.bestAsk();
+    let state: BookState = 'ok';
+    if (!bb || !ba) state = 'empty';
+    else if (bb.price > ba.price) state = 'crossed';
+    else if (bb.price === ba.price) state = 'locked';
+    else if ((ba.price - bb.price) / ((ba.price + bb.price) / 2) * 100 > MAX_SPREAD_PCT) state = 'wide';
+    if (state !== this.bookState) {
+      if (state === 'crossed') this.note(now, 'error', `Book crossed: bid ${bb!.price} > ask ${ba!.price}`);
+      else if (state === 'locked') this.note(now, 'warn', `Book locked at ${bb!.price}`);
+      else if (state === 'wide') this.note(now, 'warn', `Spread over ${MAX_SPREAD_PCT}% of mid; ladder hidden`);
+      else if (state === 'ok' && this.bookState !== 'empty') this.note(now, 'ok', 'Book consistent again');
+      this.bookState = state;
+    }
+    const badShape = state === 'crossed' || state === 'locked';
+    this.crossedSince = badShape ? this.crossedSince || now : 0;
+
+    // ----- book vs ticker -----
+    let mismatch = false;
+    if (tickerLive && bb && ba && !badShape) {
+      const bidOk = this.quotes.some(q => q.bid === bb.price), askOk = this.quotes.some(q => q.ask === ba.price);
+      mismatch = !bidOk || !askOk;
+    }
+    this.mismatchSince = mismatch ? this.mismatchSince || now : 0;
+    const drifting = mismatch && now - this.mismatchSince >= DRIFT_MS;
+    if (drifting !== this.drifting) {
+      const q = this.quotes[this.quotes.length - 1];
+      this.note(now, drifting ? 'error' : 'ok', drifting
+        ? `Book drifted from ticker: book ${bb?.price}/${ba?.price}, ticker ${q?.bid}/${q?.ask}`
+        : tickerLive ? 'Book matches ticker again' : 'Ticker check paused: no live ticker');
+      this.drifting = drifting;
+    }
+
+    // ----- resync storms -----
+    this.resyncTimes = this.resyncTimes.filter(t => t > now - STORM_WINDOW_MS);
+    const storming = this.resyncTimes.length >= STORM_RESYNCS;
+    if (storming !== this.storming) {
+      this.note(now, storming ? 'error' : 'ok', storming
+        ? `Resync storm: ${this.resyncTimes.length} resyncs in ${STORM_WINDOW_MS / 1000}s; auto-resync paused`
+        : 'Resync storm over');
+      this.storming = storming;
+    }
+
+    const c = this.prev;
+    const shapeDetail = { ok: 'bid below ask', empty: 'no levels yet', crossed: 'bid above ask', locked: 'bid equals ask', wide: `spread over ${MAX_SPREAD_PCT}%` }[state];
+    this._checks = [
+      { id: 'book', label: 'Book', level: state === 'crossed' ? 'error' : state === 'ok' || state === 'empty' ? 'ok' : 'warn', detail: shapeDetail },
+      { id: 'ticker', label: 'vs ticker', level: drifting ? 'error' : mismatch ? 'warn' : 'ok',
+        detail: !this.tickerCheck ? 'off: ticker moves only on trades' : !tickerLive ? 'no live ticker' : drifting ? `drifting ${Math.round((now - this.mismatchSince) / 1000)}s` : mismatch ? 'catching up' : 'matches' },
+      { id: 'resyncs', label: 'Resyncs', level: storming ? 'error' : this.resyncTimes.length ? 'warn' : 'ok', detail: `${c.resyncs} total, ${this.resyncTimes.length} in ${STORM_WINDOW_MS / 1000}s` },
+      { id: 'parse', label: 'Messages', level: c.unparseable || c.dropped ? 'warn' : 'ok', detail: `${c.unparseable} unparseable, ${c.dropped} dropped` },
+    ];
+    this._version++;
+
+    // ----- automatic resync -----
+    const persistent = drifting || (this.crossedSince > 0 && now - this.crossedSince >= CROSSED_MS);
+    if (!persistent || !this.autoResync || !this.resyncable || storming || now - this.lastAuto < AUTO_COOLDOWN_MS) return false;
+    this.lastAuto = now;
+    this.requestedResync(now, drifting ? 'book drifted from ticker' : `book ${state}`);
+    return true;
+  }
+
+  private checkCounters(now: number) {
+    const h = this.feedHealth;
+    if (!h) return;
+    const p = this.prev;
+    if (h.unparseable > p.unparseable) this.note(now, 'warn', `${h.unparseable - p.unparseable} unparseable message(s)`);
+    if (h.dropped > p.dropped) this.note(now, 'warn', `${h.dropped - p.dropped} delta(s) dropped on a sequence gap`);
+    for (let i = p.resyncs; i < h.resyncs; i++) {
+      this.resyncTimes.push(now);
+      if (this.requested) this.requested--;
+      else this.note(now, 'warn', 'Resync: sequence gap');
+    }
+    this.prev = { unparseable: h.unparseable, dropped: h.dropped, resyncs: h.resyncs };
+  }
+
+  private checkStreams(now: number) {
+    const h = this.feedHealth;
+    if (!h) { this._streams = []; return; }
+    const aged = now - this.feedAt;
+    this._streams = h.streams.map(s => {
+      const idleMs = s.idleMs + aged;
+      const stale = s.kind !== 'liquidations' && idleMs >= this.staleMs * (s.kind === 'trades' ? TRADES_STALE_MULT : 1);
+      if (stale !== this.stale.has(s.kind)) {
+        if (stale) { this.stale.add(s.kind); this.note(now, 'warn', `${s.kind} stream stale: nothing for ${Math.round(idleMs / 1000)}s`); }
+        else { this.stale.delete(s.kind); this.note(now, 'ok', `${s.kind} stream flowing again`); }
+      }
+      return { kind: s.kind, frames: s.frames, idleMs, stale };
+    });
+  }
+}
@@ -0,0 +1,66 @@
+// ============================================================================
+// LiquidityHistory — rolling book samples + trade prints for the heatmap
+//
+// Each sample keeps the grouped levels at the step in force when it was
+// taken, so changing the grouping mid-session leaves older columns intact.
+// ============================================================================
+import type { BookLevel } from '@/lib/orderbook';
+import type { MarketTrade } from '@/lib/exchanges';
+
+export interface HeatSample {
+  t: number; mid: number; step: number;
+  /** Bucket prices, bids then asks. */
+  prices: Float64Array;
+  sizes: Float32Array;
+  bidCount: number;
+}
+export interface HeatTrade { t: number; price: number; quantity: number; isBuyerMaker: boolean; }
+
+export const HEATMAP_MAX_AGE_MS = 60 * 60_000;
+const MIN_SAMPLE_MS = 500;
+const MAX_TRADES = 50_000;
+
+export class LiquidityHistory {
+  samples: HeatSample[] = [];
+  trades: HeatTrade[] = [];
+  private _version = 0;
+
+  constructor(readonly maxAgeMs = HEATMAP_MAX_AGE_MS, readonly minIntervalMs = MIN_SAMPLE_MS) {}
+
+  get version(): number { return this._version; }
+
+  /** True when enough time has passed since the last sample. */
+  due(t: number): boolean {
+    const last = this.samples[this.samples.length - 1];
+    return !last || t - last.t >= this.minIntervalMs;
+  }
+
+  push(t: number, mid: number, step: number, bids: BookLevel[], asks: BookLevel[]) {
+    const n = bids.length + asks.length;
+    const prices = new Float64Array(n), sizes = new Float32Array(n);
+    let i = 0;
+    for (const l of bids) { prices[i] = l.price; sizes[i++] = l.amount; }
+    for (const l of asks) { prices[i] = l.price; sizes[i++] = l.amount; }
+    this.samples.push({ t, mid, step, prices, sizes, bidCount: bids.length });
+    this.prune(t);
+    this._version++;
+  }
+
+  addTrade(t: MarketTrade, at = Date.now()) {
+    this.trades.push({ t: at, price: t.price, quantity: t.quantity, isBuyerMaker: t.isBuyerMaker });
+    if (this.trades.length > MAX_TRADES) this.trades.splice(0, this.trades.length - MAX_TRADES);
+    this._version++;
+  }
+
+  private prune(now: number) {
+    const cutoff = now - this.maxAgeMs;
+    let k = 0;
+    while (k < this.samples.length && this.samples[k].t < cutoff) k++;
+    if (k) this.samples.splice(0, k);
+    k = 0;
+    while (k < this.trades.length && this.trades[k].t < cutoff) k++;
+    if (k) this.trades.splice(0, k);
+  }
+
+  clear() { this.samples = []; this.trades = []; this._version++; }
+}
@@ -0,0 +1,63 @@
+// ============================================================================
+// Market impact — what a market order would pay walking the book right now
+//
+// Walks the full local book from the touch outwards (asks for a buy, bids
+// for a sell) until the quantity is filled. Slippage is the extra cost per
+// unit against mid and against the touch, in bps, so it is positive for both
+// sides. A REST snapshot only covers so many levels; anything deeper the
+// book knows about came from deltas alone and may be missing levels, so a
+// walk past that depth is flagged rather than trusted.
+// ============================================================================
+import type { BookReader, Side } from '@/lib/orderbook';
+
+export type ImpactSide = 'buy' | 'sell';
+export type ImpactUnit = 'base' | 'quote';
+
+export interface ImpactOrder { side: ImpactSide; qty: number; unit: ImpactUnit; }
+
+export interface ImpactResult {
+  /** Book side the order consumes. */
+  bookSide: Side;
+  filled: number;
+  notional: number;
+  avgPrice: number;
+  bestPrice: number;
+  worstPrice: number;
+  mid: number;
+  slipMidBps: number;
+  slipBestBps: number;
+  levels: number;
+  /** False when the book ran out before the order was filled. */
+  complete: boolean;
+  /** Consumed more levels than a snapshot carries. */
+  beyondSnapshot: boolean;
+}
+
+export function walkBook(book: BookReader, o: ImpactOrder, snapshotDepth?: number): ImpactResult | null {
+  const bb = book.bestBid(), ba = book.bestAsk();
+  if (!bb || !ba || !(o.qty > 0)) return null;
+  const mid = (bb.price + ba.price) / 2;
+  const bookSide: Side = o.side === 'buy' ? 'ask' : 'bid';
+
+  let filled = 0, notional = 0, levels = 0, worst = 0;
+  for (const l of book.levels(bookSide)) {
+    const remaining = o.unit === 'base' ? o.qty - filled : o.qty - notional;
+    if (remaining <= o.qty * 1e-12) break;
+    const take = Math.min(o.unit === 'base' ? remaining : remaining / l.price, l.amount);
+    filled += take; notional += take * l.price; levels++; worst = l.price;
+    if (take < l.amount) break;
+  }
+  if (!levels) return null;
+
+  const got = o.unit === 'base' ? filled : notional;
+  const avgPrice = notional / filled;
+  const best = bookSide === 'ask' ? ba.price : bb.price;
+  const cost = (ref: number) => (o.side === 'buy' ? avgPrice - ref : ref - avgPrice) / ref * 1e4;
+  return {
+    bookSide, filled, notional, avgPrice, bestPrice: best, worstPrice: worst, mid,
+    slipMidBps: cost(mid), slipBestBps: cost(best), levels,
+    // float dust from the quote division shouldn't read as a short fill
+    complete: got >= o.qty * (1 - 1e-9),
+    beyondSnapshot: snapshotDepth !== undefined && levels > snapshotDepth,
+  };
+}
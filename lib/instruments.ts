@@ -0,0 +1,58 @@
+// ============================================================================
+// Instrument directory — cached venue listings + search
+//
+// exchangeInfo is a few MB on Binance, so each venue is fetched once per page
+// load and shared by every picker. Search ranks exact symbol matches, then
+// prefix matches on symbol/base, then substring matches.
+// ============================================================================
+import type { ExchangeAdapter, InstrumentInfo, VenueId } from '@/lib/exchanges';
+
+const cache = new Map<VenueId, Promise<InstrumentInfo[]>>();
+
+export function loadInstruments(adapter: ExchangeAdapter): Promise<InstrumentInfo[]> {
+  let p = cache.get(adapter.id);
+  if (!p) {
+    p = adapter.listInstruments();
+    // let a failed listing be retried next time the picker opens
+    p.catch(() => cache.delete(adapter.id));
+    cache.set(adapter.id, p);
+  }
+  return p;
+}
+
+export interface InstrumentQuery {
+  text: string;
+  /** Quote asset filter; empty for all. */
+  quote: string;
+  tradingOnly: boolean;
+  favouritesOnly: boolean;
+}
+
+/** Quote assets ordered by how many markets use them. */
+export function quoteAssets(list: InstrumentInfo[], limit = 8): string[] {
+  const n = new Map<string, number>();
+  for (const i of list) n.set(i.quote, (n.get(i.quote) ?? 0) + 1);
+  return Array.from(n.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit).map(e => e[0]);
+}
+
+export function searchInstruments(list: InstrumentInfo[], q: InstrumentQuery, favs: Set<string>, limit = 200): InstrumentInfo[] {
+  const t = q.text.trim().toUpperCase().replace(/[\s/]/g, '');
+  const scored: { i: InstrumentInfo; s: number }[] = [];
+  for (const i of list) {
+    if (q.quote && i.quote !== q.quote) continue;
+    if (q.tradingOnly && !i.trading) continue;
+    const fav = favs.has(i.symbol);
+    if (q.favouritesOnly && !fav) continue;
+    let s = 0;
+    if (t) {
+      const sym = i.symbol.toUpperCase().replace('-', '');
+      if (sym === t) s = 3;
+      else if (sym.startsWith(t) || i.base.toUpperCase().startsWith(t)) s = 2;
+      else if (sym.includes(t)) s = 1;
+      else continue;
+    }
+    scored.push({ i, s: s * 2 + (fav ? 1 : 0) });
+  }
+  scored.sort((a, b) => b.s - a.s || a.i.symbol.localeCompare(b.i.symbol));
+  return scored.slice(0, limit).map(x => x.i);
+}
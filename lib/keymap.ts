@@ -0,0 +1,150 @@
+// ============================================================================
+// Keymap — page commands, their key bindings and the palette's fuzzy match
+//
+// A binding is a normalized combo string such as 'mod+k', 'shift+g' or '?':
+// modifiers in a fixed order, then the key. Ctrl and ⌘ both read as 'mod' so
+// one map serves every platform, and shift is dropped for keys whose shifted
+// form is already a distinct character ('?' rather than 'shift+/'); '+' is
+// spelled 'plus' so it can't be mistaken for the separator. The map
+// is an external store (subscribe/getState) persisted to localStorage; only
+// the commands a user has rebound are stored, so new defaults still reach
+// everyone else.
+// ============================================================================
+import { readJson, writeJson } from '@/lib/storage';
+
+export type CommandId =
+  | 'palette' | 'help' | 'pause' | 'symbol' | 'symbol-prev' | 'symbol-next'
+  | 'group-next' | 'group-prev' | 'rows-up' | 'rows-down' | 'density' | 'clear-tape';
+
+export interface CommandInfo { id: CommandId; label: string; group: 'General' | 'Market' | 'View'; }
+
+export const COMMANDS: CommandInfo[] = [
+  { id: 'palette', label: 'Open command palette', group: 'General' },
+  { id: 'help', label: 'Show keyboard shortcuts', group: 'General' },
+  { id: 'pause', label: 'Pause / resume live updates', group: 'General' },
+  { id: 'symbol', label: 'Switch symbol…', group: 'Market' },
+  { id: 'symbol-prev', label: 'Previous symbol in the shortlist', group: 'Market' },
+  { id: 'symbol-next', label: 'Next symbol in the shortlist', group: 'Market' },
+  { id: 'group-next', label: 'Coarser price grouping', group: 'View' },
+  { id: 'group-prev', label: 'Finer price grouping', group: 'View' },
+  { id: 'rows-up', label: 'Show one more row', group: 'View' },
+  { id: 'rows-down', label: 'Show one row fewer', group: 'View' },
+  { id: 'density', label: 'Toggle compact / comfort density', group: 'View' },
+  { id: 'clear-tape', label: 'Clear the trade tape', group: 'View' },
+];
+
+export type Keymap = Record<CommandId, string[]>;
+
+export const DEFAULT_KEYMAP: Keymap = {
+  'palette': ['mod+k'],
+  'help': ['?'],
+  'pause': ['p', 'space'],
+  'symbol': ['/'],
+  'symbol-prev': ['['],
+  'symbol-next': [']'],
+  'group-next': ['g'],
+  'group-prev': ['shift+g'],
+  'rows-up': ['=', 'plus'],
+  'rows-down': ['-'],
+  'density': ['d'],
+  'clear-tape': ['c'],
+};
+
+const NAMED: Record<string, string> = { ' ': 'space', '+': 'plus', ArrowUp: 'up', ArrowDown: 'down', ArrowLeft: 'left', ArrowRight: 'right', Escape: 'esc', Enter: 'enter' };
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Shift', 'Alt', 'AltGraph', 'CapsLock']);
+
+/** The combo a key event spells, or null for a bare modifier press. */
+export function comboFromEvent(e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const key = NAMED[e.key] ?? e.key.toLowerCase();
+  const shifted = e.shiftKey && (e.key.length > 1 || /[a-z0-9]/i.test(e.key));
+  return [e.ctrlKey || e.metaKey ? 'mod' : '', e.altKey ? 'alt' : '', shifted ? 'shift' : '', key].filter(Boolean).join('+');
+}
+
+/** Combo as shown in the UI: 'mod+k' → 'Ctrl K' (⌘ K works the same on Apple keyboards). */
+export function formatCombo(combo: string): string {
+  return combo.split('+').map(p =>
+    p === 'mod' ? 'Ctrl' : p === 'shift' ? 'Shift' : p === 'alt' ? 'Alt'
+      : p === 'plus' ? '+' : p === 'space' ? 'Space' : p.length === 1 ? p.toUpperCase() : p[0].toUpperCase() + p.slice(1)
+  ).join(' ');
+}
+
+/**
+ * Subsequence match score of `query` in `text`, or -1 when some query
+ * character is missing. Consecutive runs and word starts score higher;
+ * so does an earlier first hit.
+ */
+export function fuzzyScore(query: string, text: string): number {
+  const q = query.toLowerCase().replace(/\s+/g, ''), t = text.toLowerCase();
+  if (!q) return 0;
+  let score = 0, ti = 0, run = 0, first = -1;
+  for (const ch of q) {
+    const at = t.indexOf(ch, ti);
+    if (at < 0) return -1;
+    if (first < 0) first = at;
+    run = at === ti ? run + 1 : 1;
+    score += run * 2 + (at === 0 || /[\s/_-]/.test(t[at - 1]) ? 3 : 0);
+    ti = at + 1;
+  }
+  return score - first * 0.1;
+}
+
+export class KeymapStore {
+  private map: Keymap;
+  private listeners = new Set<() => void>();
+
+  constructor(overrides: Partial<Keymap> = {}, private readonly persist?: (o: Partial<Keymap>) => void) {
+    this.map = { ...DEFAULT_KEYMAP, ...overrides };
+  }
+
+  subscribe = (fn: () => void): (() => void) => { this.listeners.add(fn); return () => { this.listeners.delete(fn); }; };
+  getState = (): Keymap => this.map;
+
+  /** The command a combo runs, if any. */
+  lookup(combo: string): CommandId | null {
+    for (const c of COMMANDS) if (this.map[c.id].includes(combo)) return c.id;
+    return null;
+  }
+
+  /** Make `combo` the only binding of `id`, taking it off any other command. */
+  bind(id: CommandId, combo: string) {
+    const next = { ...this.map };
+    for (const c of COMMANDS) if (c.id !== id && next[c.id].includes(combo)) next[c.id] = next[c.id].filter(k => k !== combo);
+    next[id] = [combo];
+    this.set(next);
+  }
+
+  unbind(id: CommandId) { this.set({ ...this.map, [id]: [] }); }
+
+  reset() { this.set({ ...DEFAULT_KEYMAP }); }
+
+  private set(next: Keymap) {
+    this.map = next;
+    const changed: Partial<Keymap> = {};
+    for (const c of COMMANDS) if (next[c.id].join() !== DEFAULT_KEYMAP[c.id].join()) changed[c.id] = next[c.id];
+    this.persist?.(changed);
+    this.listeners.forEach(fn => fn());
+  }
+}
+
+// ----- persistence -----
+const KEYMAP_KEY = 'orderflow:keymap';
+
+function loadOverrides(): Partial<Keymap> {
+  const raw = readJson(KEYMAP_KEY);
+  if (!raw || typeof raw !== 'object') return {};
+  const out: Partial<Keymap> = {};
+  for (const c of COMMANDS) {
+    const v = (raw as Record<string, unknown>)[c.id];
+    if (Array.isArray(v) && v.every(k => typeof k === 'string')) out[c.id] = v as string[];
+  }
+  return out;
+}
+
+let shared: KeymapStore | null = null;
+
+/** The page's key bindings, loaded from and saved to localStorage. */
+export function keymap(): KeymapStore {
+  shared ??= new KeymapStore(loadOverrides(), (o) => writeJson(KEYMAP_KEY, o));
+  return shared;
+}
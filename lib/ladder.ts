@@ -0,0 +1,69 @@
+// ============================================================================
+// Ladder — the grouped, row-limited slice of a book that the tables render
+//
+// Falls back to the ticker's top of book while the local book is crossed or
+// still syncing, and to an empty ladder when the spread is implausible.
+// ============================================================================
+import type { BookReader, GroupedLevel, BookLevel } from '@/lib/orderbook';
+import type { PriceStep } from '@/lib/decimal';
+
+export type LevelFlash = 'grew' | 'shrank' | 'new' | 'gone';
+
+/** A ladder row; the extra fields are filled in by LevelDiff. */
+export interface LadderRow extends GroupedLevel {
+  flash?: LevelFlash;
+  /** Net size change over the Δ window. */
+  delta?: number;
+  /** Just vanished; kept briefly so the flash has somewhere to show. */
+  gone?: boolean;
+}
+
+export interface ProcessedOrderBook {
+  bids: LadderRow[]; asks: LadderRow[];
+  maxBidTotal: number; maxAskTotal: number;
+  spread: number; spreadPercent: number; midPrice: number;
+  bestBid?: BookLevel; bestAsk?: BookLevel;
+}
+
+export const EMPTY_LADDER: ProcessedOrderBook = { bids: [], asks: [], maxBidTotal: 1, maxAskTotal: 1, spread: 0, spreadPercent: 0, midPrice: 0 };
+
+// spreads wider than this (in %) mean a half-synced book, not a market
+export const MAX_SPREAD_PCT = 10;
+
+/** Mid of the book's top; 0 while a side is empty or the book is crossed. */
+export function bookMid(book: BookReader): number {
+  const bb = book.bestBid(), ba = book.bestAsk();
+  return bb && ba && ba.price > bb.price ? (bb.price + ba.price) / 2 : 0;
+}
+
+export function buildLadder(book: BookReader, step: PriceStep, rows: number, ticker: { bid: number; ask: number }): ProcessedOrderBook {
+  const bb = book.bestBid();
+  const ba = book.bestAsk();
+  if (!bb || !ba) return EMPTY_LADDER;
+
+  const spread = ba.price - bb.price;
+  if (!isFinite(spread) || spread <= 0) {
+    const { bid, ask } = ticker;
+    if (ask > bid && isFinite(ask - bid)) {
+      const midT = (ask + bid) / 2;
+      const sprT = ask - bid;
+      return { ...EMPTY_LADDER, spread: sprT, spreadPercent: midT > 0 ? (sprT/midT)*100 : 0, midPrice: midT, bestBid: {price: bid, amount: 0}, bestAsk: {price: ask, amount: 0} };
+    }
+    return EMPTY_LADDER;
+  }
+
+  const mid = (ba.price + bb.price) / 2;
+  const sPct = mid > 0 ? (spread / mid) * 100 : 0;
+  if (!isFinite(sPct) || sPct > MAX_SPREAD_PCT) return EMPTY_LADDER;
+
+  const bids = book.grouped('bid', step, rows);
+  const asks = book.grouped('ask', step, rows);
+  return {
+    bids, asks,
+    maxBidTotal: bids[bids.length-1]?.total ?? 1,
+    maxAskTotal: asks[asks.length-1]?.total ?? 1,
+    spread, spreadPercent: sPct, midPrice: mid,
+    bestBid: bids.length ? { price: bids[0].price, amount: bids[0].amount } : undefined,
+    bestAsk: asks.length ? { price: asks[0].price, amount: asks[0].amount } : undefined,
+  };
+}
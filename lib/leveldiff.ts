@@ -0,0 +1,106 @@
+// ============================================================================
+// LevelDiff — what changed between consecutive ladder views
+//
+// Each flush hands over the new top-N rows; every level is compared with the
+// previous view at the same price. A level that shows up inside the range
+// the previous view covered really appeared, one that shows up beyond it
+// just scrolled into the top N (and the reverse for levels that leave), so
+// only the former flash or count towards Δ. Vanished levels linger as
+// `gone` rows for the length of the flash.
+//
+// Rows are buckets at the current step. A new step means new bucket
+// boundaries and nothing is comparable, so the diff starts over instead of
+// flashing every row.
+// ============================================================================
+import type { GroupedLevel, Side } from '@/lib/orderbook';
+import type { LadderRow, LevelFlash, ProcessedOrderBook } from '@/lib/ladder';
+
+export const DELTA_WINDOWS = [0, 1000, 5000, 15_000, 30_000];
+
+const FLASH_MS = 350;
+
+interface Change { t: number; d: number; }
+
+class SideDiff {
+  prev = new Map<number, number>();
+  worst: number | null = null;
+  flashes = new Map<number, { kind: LevelFlash; t: number }>();
+  history = new Map<number, Change[]>();
+  ghosts = new Map<number, number>();
+
+  constructor(private readonly side: Side) {}
+
+  // whether `p` lies between the best row and `worst`
+  private within(p: number, worst: number | null) {
+    return worst !== null && (this.side === 'bid' ? p >= worst : p <= worst);
+  }
+
+  private record(p: number, d: number, kind: LevelFlash, now: number, windowMs: number) {
+    this.flashes.set(p, { kind, t: now });
+    if (!windowMs) return;
+    const h = this.history.get(p);
+    if (h) h.push({ t: now, d }); else this.history.set(p, [{ t: now, d }]);
+  }
+
+  apply(rows: GroupedLevel[], now: number, windowMs: number): LadderRow[] {
+    const cur = new Map<number, number>();
+    for (const r of rows) cur.set(r.price, r.amount);
+    const worst = rows.length ? rows[rows.length - 1].price : null;
+
+    for (const r of rows) {
+      const old = this.prev.get(r.price);
+      if (old === undefined) { if (this.within(r.price, this.worst)) this.record(r.price, r.amount, 'new', now, windowMs); }
+      else if (r.amount !== old) this.record(r.price, r.amount - old, r.amount > old ? 'grew' : 'shrank', now, windowMs);
+    }
+    for (const [p, old] of this.prev) {
+      if (cur.has(p) || !this.within(p, worst)) continue;
+      this.record(p, -old, 'gone', now, windowMs);
+      this.ghosts.set(p, now);
+    }
+    this.prev = cur; this.worst = worst;
+
+    // expire
+    for (const [p, f] of this.flashes) if (now - f.t >= FLASH_MS) this.flashes.delete(p);
+    for (const [p, t] of this.ghosts) if (now - t >= FLASH_MS || cur.has(p) || !this.within(p, worst)) this.ghosts.delete(p);
+    if (!windowMs) this.history.clear();
+    for (const [p, h] of this.history) {
+      let i = 0;
+      while (i < h.length && now - h[i].t > windowMs) i++;
+      if (i === h.length) this.history.delete(p); else if (i) h.splice(0, i);
+    }
+
+    const delta = (p: number) => {
+      if (!windowMs) return undefined;
+      let s = 0;
+      for (const c of this.history.get(p) ?? []) s += c.d;
+      return s;
+    };
+    const out: LadderRow[] = rows.map(r => ({ ...r, flash: this.flashes.get(r.price)?.kind, delta: delta(r.price) }));
+    if (!this.ghosts.size) return out;
+
+    const better = this.side === 'bid' ? (a: number, b: number) => a > b : (a: number, b: number) => a < b;
+    for (const p of this.ghosts.keys()) {
+      let i = out.findIndex(r => better(p, r.price));
+      if (i === -1) i = out.length;
+      out.splice(i, 0, { price: p, amount: 0, total: i > 0 ? out[i - 1].total : 0, flash: 'gone', delta: delta(p), gone: true });
+    }
+    return out;
+  }
+}
+
+export class LevelDiff {
+  /** Rolling window for Δ in ms; 0 turns it off. */
+  windowMs = 0;
+  private step = 0;
+  private bid = new SideDiff('bid');
+  private ask = new SideDiff('ask');
+
+  clear() { this.step = 0; this.bid = new SideDiff('bid'); this.ask = new SideDiff('ask'); }
+
+  /** Annotate a freshly built view with flashes, Δ and vanished rows. */
+  apply(view: ProcessedOrderBook, step: number, now: number): ProcessedOrderBook {
+    if (!view.bids.length && !view.asks.length) return view;
+    if (step !== this.step) { this.clear(); this.step = step; }
+    return { ...view, bids: this.bid.apply(view.bids, now, this.windowMs), asks: this.ask.apply(view.asks, now, this.windowMs) };
+  }
+}
@@ -0,0 +1,103 @@
+// ============================================================================
+// Microstructure metrics — sampled from the full book on a fixed cadence
+//
+// microprice    best bid/ask weighted by the opposite side's size, so it
+//               leans towards the side more likely to be taken out
+// wmid5         midpoint of the size-weighted bid and ask over 5 levels
+// imbN          (bid − ask) / (bid + ask) size over the top N levels, in %
+// liqN          quote notional resting within ±N bps of mid, both sides
+//
+// One sorted pass per side per sample; the history is a bounded array the
+// sparklines read and the CSV export dumps.
+// ============================================================================
+import type { BookReader } from '@/lib/orderbook';
+
+export const IMBALANCE_DEPTHS = [1, 5, 10, 20] as const;
+export const LIQUIDITY_BPS = [10, 25, 50, 100] as const;
+
+export const SAMPLE_MS = 1000;   // the page samples on its 1s metrics tick
+const HISTORY = 1800;            // 30 minutes at SAMPLE_MS
+
+export interface MicroSample {
+  t: number;
+  mid: number;
+  spreadBps: number;
+  microprice: number;
+  wmid5: number;
+  imb1: number; imb5: number; imb10: number; imb20: number;
+  liq10: number; liq25: number; liq50: number; liq100: number;
+  /** Whole-book size per side, for the dominance bar. */
+  bidTotal: number; askTotal: number;
+}
+
+export type MicroKey = Exclude<keyof MicroSample, 't'>;
+
+const VWAP_LEVELS = 5;
+
+export function sampleBook(book: BookReader, t: number): MicroSample | null {
+  const bids = book.levels('bid'), asks = book.levels('ask');
+  if (!bids.length || !asks.length || asks[0].price <= bids[0].price) return null;
+  const bb = bids[0], ba = asks[0];
+  const mid = (bb.price + ba.price) / 2;
+  const top = bb.amount + ba.amount;
+
+  const depth = (lv: typeof bids, n: number) => { let s = 0; for (let i = 0; i < n && i < lv.length; i++) s += lv[i].amount; return s; };
+  const imb = (n: number) => { const b = depth(bids, n), a = depth(asks, n); return b + a > 0 ? ((b - a) / (b + a)) * 100 : 0; };
+  const vwap = (lv: typeof bids) => {
+    let q = 0, pq = 0;
+    for (let i = 0; i < VWAP_LEVELS && i < lv.length; i++) { q += lv[i].amount; pq += lv[i].amount * lv[i].price; }
+    return q > 0 ? pq / q : lv[0].price;
+  };
+  const liq = (bps: number) => {
+    const lim = mid * bps / 1e4;
+    let s = 0;
+    for (const l of bids) { if (mid - l.price > lim) break; s += l.amount * l.price; }
+    for (const l of asks) { if (l.price - mid > lim) break; s += l.amount * l.price; }
+    return s;
+  };
+  let bidTotal = 0, askTotal = 0;
+  for (const l of bids) bidTotal += l.amount;
+  for (const l of asks) askTotal += l.amount;
+
+  return {
+    t, mid,
+    spreadBps: ((ba.price - bb.price) / mid) * 1e4,
+    microprice: top > 0 ? (bb.price * ba.amount + ba.price * bb.amount) / top : mid,
+    wmid5: (vwap(bids) + vwap(asks)) / 2,
+    imb1: imb(1), imb5: imb(5), imb10: imb(10), imb20: imb(20),
+    liq10: liq(10), liq25: liq(25), liq50: liq(50), liq100: liq(100),
+    bidTotal, askTotal,
+  };
+}
+
+export class MicroSeries {
+  private samples: MicroSample[] = [];
+  private _version = 0;
+
+  get version(): number { return this._version; }
+  get latest(): MicroSample | undefined { return this.samples[this.samples.length - 1]; }
+
+  clear() { this.samples = []; this._version++; }
+
+  push(s: MicroSample) {
+    this.samples.push(s);
+    if (this.samples.length > HISTORY * 1.1) this.samples = this.samples.slice(-HISTORY);
+    this._version++;
+  }
+
+  /** The last `n` values of one metric, oldest first. */
+  values(key: MicroKey, n = Infinity): number[] {
+    const from = Math.max(0, this.samples.length - n);
+    const out: number[] = new Array(this.samples.length - from);
+    for (let i = from; i < this.samples.length; i++) out[i - from] = this.samples[i][key];
+    return out;
+  }
+
+  toCsv(): string {
+    if (!this.samples.length) return '';
+    const keys = Object.keys(this.samples[0]) as (keyof MicroSample)[];
+    const lines = [['time', ...keys.slice(1)].join(',')];
+    for (const s of this.samples) lines.push([new Date(s.t).toISOString(), ...keys.slice(1).map(k => s[k])].join(','));
+    return lines.join('\n') + '\n';
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { OrderBook, type BinanceDepthUpdate, type DepthSnapshot, type OrderBookEvent } from '@/lib/orderbook';
+import spotJson from '@/lib/__fixtures__/binance-depth.json';
+import futuresJson from '@/lib/__fixtures__/binance-futures-depth.json';
+
+// JSON imports widen the level tuples to string[][]
+const spot = spotJson as unknown as {
+  snapshot: DepthSnapshot;
+  arrival: BinanceDepthUpdate[];
+  live: Record<'stale' | 'next' | 'gap', BinanceDepthUpdate>;
+  bufferGap: BinanceDepthUpdate[];
+};
+const futures = futuresJson as unknown as { snapshot: DepthSnapshot; events: BinanceDepthUpdate[] };
+
+function book() {
+  const b = new OrderBook();
+  const events: OrderBookEvent[] = [];
+  b.on(ev => events.push(ev));
+  return { b, events };
+}
+
+/** Snapshot plus the buffered spot arrival sequence, synced. */
+function synced() {
+  const s = book();
+  for (const ev of spot.arrival) expect(s.b.applyDelta(ev)).toBe('buffered');
+  expect(s.b.applySnapshot(spot.snapshot)).toBe(true);
+  return s;
+}
+
+describe('OrderBook snapshot sync', () => {
+  it('buffers deltas until a snapshot arrives', () => {
+    const { b } = book();
+    expect(b.status).toBe('buffering');
+    expect(b.applyDelta(spot.arrival[0])).toBe('buffered');
+    expect(b.buffered).toBe(1);
+    expect(b.bestBid()).toBeUndefined();
+  });
+
+  it('replays out-of-order buffered deltas in id order, from the one overlapping the snapshot', () => {
+    const { b, events } = synced();
+    expect(b.status).toBe('live');
+    expect(b.lastUpdateId).toBe(1010);
+    // 990–995 is covered by the snapshot: its 9.999 never lands
+    expect(events).toEqual([{ type: 'synced', lastUpdateId: 1010, replayed: 3 }]);
+    expect(b.levels('bid')).toEqual([
+      { price: 67000.1, amount: 1.25 },    // 998–1003 overlaps the snapshot (U ≤ 1001 ≤ u)
+      { price: 66999.9, amount: 0.75 },
+      { price: 66999.8, amount: 4 },
+    ]);
+    expect(b.levels('ask')).toEqual([
+      { price: 67000.2, amount: 0.5 },
+      { price: 67000.3, amount: 1.2 },
+      { price: 67000.5, amount: 2.5 },
+    ]);
+  });
+
+  it('reports deltas the book already covers as stale and leaves it alone', () => {
+    const { b, events } = synced();
+    const v = b.version;
+    expect(b.applyDelta(spot.live.stale)).toBe('stale');
+    expect(b.version).toBe(v);
+    expect(b.best('bid')).toEqual({ price: 67000.1, amount: 1.25 });
+    expect(events).toHaveLength(1);
+  });
+
+  it('applies a delta that continues from the last id', () => {
+    const { b } = synced();
+    expect(b.applyDelta(spot.live.next)).toBe('applied');
+    expect(b.lastUpdateId).toBe(1012);
+    expect(b.best('bid')).toEqual({ price: 67000.1, amount: 1 });
+  });
+
+  it('drops back to buffering and asks for a resync on a gap', () => {
+    const { b, events } = synced();
+    expect(b.applyDelta(spot.live.gap)).toBe('gap');
+    expect(b.status).toBe('buffering');
+    expect(events.slice(1)).toEqual([
+      { type: 'gap', expected: 1011, received: 1020, dropped: 1 },
+      { type: 'resync', reason: 'gap' },
+    ]);
+    // the old levels stay readable until the next snapshot
+    expect(b.best('bid')).toEqual({ price: 67000.1, amount: 1.25 });
+    expect(b.applyDelta(spot.live.next)).toBe('buffered');
+  });
+
+  it('refuses a snapshot whose buffered deltas have a hole', () => {
+    const { b, events } = book();
+    for (const ev of spot.bufferGap) b.applyDelta(ev);
+    expect(b.applySnapshot(spot.snapshot)).toBe(false);
+    expect(b.status).toBe('buffering');
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'gap', expected: 1004, received: 1008 }),
+      { type: 'resync', reason: 'gap' },
+    ]);
+  });
+});
+
+describe('OrderBook futures pu chain', () => {
+  it('bridges the snapshot on U/u, then chains on pu', () => {
+    const { b, events } = book();
+    b.applySnapshot(futures.snapshot);
+    const [bridge, jump, next, broken] = futures.events;
+
+    expect(b.applyDelta(bridge)).toBe('applied');
+    // U is well past lastUpdateId + 1, but pu names the last applied event
+    expect(b.applyDelta(jump)).toBe('applied');
+    expect(b.applyDelta(next)).toBe('applied');
+    expect(b.lastUpdateId).toBe(2018);
+    expect(b.levels('bid')).toEqual([{ price: 3500.1, amount: 9 }]);
+    expect(b.best('ask')).toEqual({ price: 3500.2, amount: 5.5 });
+
+    // U = lastUpdateId + 1 would pass the spot rule; pu says an event was missed
+    expect(b.applyDelta(broken)).toBe('gap');
+    expect(events.at(-2)).toEqual({ type: 'gap', expected: 2019, received: 2017, dropped: 1 });
+    expect(events.at(-1)).toEqual({ type: 'resync', reason: 'gap' });
+  });
+
+  it('uses the U/u rule until the first delta after the snapshot is applied', () => {
+    const { b } = book();
+    b.applySnapshot(futures.snapshot);
+    // pu 2003 matches nothing applied yet; U 2010 does not reach 2001
+    expect(b.applyDelta(futures.events[1])).toBe('gap');
+  });
+});
+
+describe('OrderBook size', () => {
+  it('reads a level by price and keeps up with deltas and resyncs', () => {
+    const { b } = synced();
+    expect(b.size('bid', 67000.1)).toBe(1.25);
+    expect(b.size('ask', 67000.4)).toBe(0);
+    b.applyDelta(spot.live.next);
+    expect(b.size('bid', 67000.1)).toBe(1);
+    // a fresh snapshot drops the index along with the levels
+    b.applySnapshot(spot.snapshot);
+    expect(b.size('bid', 66999.8)).toBe(0);
+    expect(b.size('bid', 67000)).toBe(2);
+  });
+});
@@ -0,0 +1,244 @@
+// ============================================================================
+// OrderBook — framework-free L2 book with Binance snapshot + delta sync
+//
+// Follows the documented procedure: buffer diff events until a REST snapshot
+// arrives, drop everything the snapshot already covers, then require each
+// event's first id (U) to continue from the last applied id (u). Feeds that
+// carry the previous event's final id (`pu`, Binance futures) are chained on
+// that instead once the snapshot has been bridged.
+// ============================================================================
+import { bucketScaled, fromScaled, scaleFloat, toScaled, type PriceStep } from '@/lib/decimal';
+
+export type StrNumTuple = [string, string];
+export type Side = 'bid' | 'ask';
+
+export interface DepthSnapshot { lastUpdateId: number; bids: StrNumTuple[]; asks: StrNumTuple[]; }
+export interface DepthDelta { U:number; u:number; pu?:number; b:StrNumTuple[]; a:StrNumTuple[]; }
+export interface BinanceDepthUpdate extends DepthDelta { e:string; E:number; s:string; }
+
+export interface BookLevel { price: number; amount: number; }
+export interface GroupedLevel extends BookLevel { total: number; }
+
+export type OrderBookStatus = 'buffering' | 'live';
+export type ApplyResult = 'buffered' | 'stale' | 'applied' | 'gap';
+
+export type OrderBookEvent =
+  | { type: 'synced'; lastUpdateId: number; replayed: number }
+  | { type: 'gap'; expected: number; received: number; dropped: number }
+  | { type: 'resync'; reason: 'gap' | 'reset' | 'check' };
+
+export type OrderBookListener = (ev: OrderBookEvent) => void;
+
+/** Read side shared by OrderBook and mirrors of it (see BookView). */
+export interface BookReader {
+  readonly version: number;
+  best(side: Side): BookLevel | undefined;
+  bestBid(): BookLevel | undefined;
+  bestAsk(): BookLevel | undefined;
+  totalSize(side: Side): number;
+  /** Size resting at exactly `price`; 0 when there is no such level. */
+  size(side: Side, price: number): number;
+  /**
+   * Whether `side` is held down to `price`, so that size() there is known. A
+   * mirror of the top levels (BookView) cannot tell an empty level past its
+   * last one from a level it was not sent.
+   */
+  covers(side: Side, price: number): boolean;
+  /** Largest level from the best down to `price` (inclusive); on equal sizes the better-priced one. */
+  largestWithin(side: Side, price: number): BookLevel | undefined;
+  levels(side: Side, n?: number): BookLevel[];
+  grouped(side: Side, step: PriceStep, n?: number): GroupedLevel[];
+}
+
+// Round a tick-aligned price into its display bucket (see lib/decimal).
+export function bucketize(price: number, step: PriceStep, side: Side): number {
+  return fromScaled(bucketScaled(scaleFloat(price, step.dp), step, side), step.dp);
+}
+
+/** Apply levels to one side, keeping its price index (see OrderBook.size) in step when there is one. */
+function applyLevels(book: Map<string, number>, levels: StrNumTuple[], index: Map<number, string> | null) {
+  for (const [p, q] of levels) {
+    const n = +q;
+    if (n === 0) { if (book.delete(p)) index?.delete(parseFloat(p)); }
+    else { if (index && !book.has(p)) index.set(parseFloat(p), p); book.set(p, n); }
+  }
+}
+
+export class OrderBook implements BookReader {
+  readonly bids = new Map<string, number>();
+  readonly asks = new Map<string, number>();
+
+  private _status: OrderBookStatus = 'buffering';
+  private _lastUpdateId = 0;
+  private _version = 0;
+  private bridged = false;
+  private buffer: DepthDelta[] = [];
+  private listeners = new Set<OrderBookListener>();
+  // price → key string per side, built by the first size() and then kept up to date
+  private index: Record<Side, Map<number, string> | null> = { bid: null, ask: null };
+
+  get status(): OrderBookStatus { return this._status; }
+  get lastUpdateId(): number { return this._lastUpdateId; }
+  get buffered(): number { return this.buffer.length; }
+  /** Bumped on every change to the levels; cheap to poll from a render loop. */
+  get version(): number { return this._version; }
+
+  on(fn: OrderBookListener): () => void {
+    this.listeners.add(fn);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  private emit(ev: OrderBookEvent) { this.listeners.forEach(fn => fn(ev)); }
+
+  /** Drop all levels and buffered events; the book waits for a new snapshot. */
+  reset() {
+    this.bids.clear(); this.asks.clear(); this.index = { bid: null, ask: null };
+    this.buffer = []; this._lastUpdateId = 0; this._status = 'buffering'; this.bridged = false;
+    this._version++;
+  }
+
+  private continues(ev: DepthDelta): boolean {
+    if (this.bridged && ev.pu !== undefined) return ev.pu === this._lastUpdateId;
+    return ev.U <= this._lastUpdateId + 1;
+  }
+
+  private apply(ev: DepthDelta) {
+    applyLevels(this.bids, ev.b, this.index.bid); applyLevels(this.asks, ev.a, this.index.ask);
+    this._lastUpdateId = ev.u; this.bridged = true;
+    this._version++;
+  }
+
+  private requestResync(expected: number, received: number) {
+    // the buffered events and the one that broke the chain are discarded
+    const dropped = this.buffer.length + 1;
+    this.buffer = []; this._status = 'buffering';
+    this.emit({ type: 'gap', expected, received, dropped });
+    this.emit({ type: 'resync', reason: 'gap' });
+  }
+
+  /**
+   * Distrust the current levels (an integrity check failed): buffer deltas
+   * again and emit `resync` so the owner fetches a fresh snapshot. The old
+   * levels stay readable until it arrives.
+   */
+  invalidate() {
+    this.buffer = []; this._status = 'buffering';
+    this.emit({ type: 'resync', reason: 'check' });
+  }
+
+  /**
+   * Load a REST snapshot and replay buffered deltas on top of it.
+   * Returns false when the buffer has a hole; a `resync` event is emitted and
+   * the caller should fetch a fresh snapshot.
+   */
+  applySnapshot(s: DepthSnapshot): boolean {
+    this.bids.clear(); this.asks.clear(); this.index = { bid: null, ask: null };
+    for (const [p, q] of s.bids) { const n = +q; if (n > 0) this.bids.set(p, n); }
+    for (const [p, q] of s.asks) { const n = +q; if (n > 0) this.asks.set(p, n); }
+    this._lastUpdateId = s.lastUpdateId; this.bridged = false; this._version++;
+
+    const buf = this.buffer.sort((x, y) => x.U - y.U);
+    const next = this._lastUpdateId + 1;
+    let i = buf.findIndex(ev => ev.U <= next && ev.u >= next);
+    if (i === -1) i = buf.findIndex(ev => ev.u >= this._lastUpdateId);
+
+    let replayed = 0;
+    if (i !== -1) {
+      for (let k = i; k < buf.length; k++) {
+        const ev = buf[k];
+        if (ev.u <= this._lastUpdateId) continue;
+        if (!this.continues(ev)) { this.requestResync(this._lastUpdateId + 1, ev.pu ?? ev.U); return false; }
+        this.apply(ev); replayed++;
+      }
+    }
+
+    this.buffer = []; this._status = 'live';
+    this.emit({ type: 'synced', lastUpdateId: this._lastUpdateId, replayed });
+    return true;
+  }
+
+  /** Apply one diff event, buffering it while no snapshot has been loaded. */
+  applyDelta(ev: DepthDelta): ApplyResult {
+    if (this._status !== 'live') { this.buffer.push(ev); return 'buffered'; }
+    if (ev.u <= this._lastUpdateId) return 'stale';
+    if (!this.continues(ev)) { this.requestResync(this._lastUpdateId + 1, ev.pu ?? ev.U); return 'gap'; }
+    this.apply(ev);
+    return 'applied';
+  }
+
+  // ----- queries -----
+  /** The current book as a snapshot; replaying later deltas on it re-syncs. */
+  toSnapshot(): DepthSnapshot {
+    return { lastUpdateId: this._lastUpdateId, bids: Array.from(this.bids.entries(), ([p, q]) => [p, String(q)]), asks: Array.from(this.asks.entries(), ([p, q]) => [p, String(q)]) };
+  }
+
+  private sideMap(side: Side) { return side === 'bid' ? this.bids : this.asks; }
+
+  best(side: Side): BookLevel | undefined {
+    let price = side === 'bid' ? -Infinity : Infinity;
+    let amount = 0;
+    for (const [ps, q] of this.sideMap(side)) {
+      const p = parseFloat(ps);
+      if (side === 'bid' ? p > price : p < price) { price = p; amount = q; }
+    }
+    return isFinite(price) ? { price, amount } : undefined;
+  }
+  bestBid() { return this.best('bid'); }
+  bestAsk() { return this.best('ask'); }
+
+  totalSize(side: Side): number {
+    let s = 0;
+    for (const q of this.sideMap(side).values()) s += q;
+    return s;
+  }
+
+  private priceIndex(side: Side): Map<number, string> {
+    let idx = this.index[side];
+    if (!idx) {
+      idx = this.index[side] = new Map();
+      for (const ps of this.sideMap(side).keys()) idx.set(parseFloat(ps), ps);
+    }
+    return idx;
+  }
+
+  size(side: Side, price: number): number {
+    const ps = this.priceIndex(side).get(price);
+    return ps === undefined ? 0 : this.sideMap(side).get(ps) ?? 0;
+  }
+
+  covers(): boolean { return true; }
+
+  /** One pass over the side with no sorting; the levels outside the band are only compared. */
+  largestWithin(side: Side, price: number): BookLevel | undefined {
+    const map = this.sideMap(side), bid = side === 'bid';
+    let best: BookLevel | undefined;
+    for (const [p, ps] of this.priceIndex(side)) {
+      if (bid ? p < price : p > price) continue;
+      const q = map.get(ps) ?? 0;
+      if (!best || q > best.amount || (q === best.amount && (bid ? p > best.price : p < best.price))) best = { price: p, amount: q };
+    }
+    return best;
+  }
+
+  /** Raw levels sorted best-first, optionally truncated to `n`. */
+  levels(side: Side, n = Infinity): BookLevel[] {
+    const out: BookLevel[] = [];
+    for (const [ps, q] of this.sideMap(side)) out.push({ price: parseFloat(ps), amount: q });
+    out.sort(side === 'bid' ? (a, b) => b.price - a.price : (a, b) => a.price - b.price);
+    return n < out.length ? out.slice(0, n) : out;
+  }
+
+  /** Levels bucketed by `step`, best-first, with cumulative totals. Buckets are keyed by scaled integer, straight from the price strings. */
+  grouped(side: Side, step: PriceStep, n = Infinity): GroupedLevel[] {
+    const g = new Map<number, number>();
+    for (const [ps, q] of this.sideMap(side)) {
+      const b = bucketScaled(toScaled(ps, step.dp), step, side);
+      g.set(b, (g.get(b) ?? 0) + q);
+    }
+    const arr = Array.from(g.entries()).sort(side === 'bid' ? (a, b) => b[0] - a[0] : (a, b) => a[0] - b[0]);
+    let t = 0;
+    const out: GroupedLevel[] = [];
+    for (let i = 0; i < arr.length && i < n; i++) { t += arr[i][1]; out.push({ price: fromScaled(arr[i][0], step.dp), amount: arr[i][1], total: t }); }
+    return out;
+  }
+}
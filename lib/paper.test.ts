@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { OrderBook, type DepthSnapshot } from '@/lib/orderbook';
+import { parseBinance } from '@/lib/exchanges/binance';
+import { priceStep } from '@/lib/decimal';
+import { BookView, packBook } from '@/lib/bookview';
+import { PaperTrader, bestInBucket } from '@/lib/paper';
+import session from '@/lib/__fixtures__/paper-session.json';
+
+type Frame = { kind: 'depth' | 'trades'; data: object };
+// JSON imports widen the level tuples to string[][]
+const rec = session as unknown as { snapshot: DepthSnapshot; queue: Frame[]; through: Frame[] };
+const T0 = 1760875200000;
+
+function market() {
+  const book = new OrderBook();
+  expect(book.applySnapshot(rec.snapshot)).toBe(true);
+  return { book, trader: new PaperTrader() };
+}
+
+/** Feed recorded frames the way the page does: deltas into the book, then the trader looks. */
+function play({ book, trader }: ReturnType<typeof market>, frames: Frame[]) {
+  for (const f of frames) {
+    for (const ev of parseBinance(f.kind, JSON.stringify(f.data))) {
+      if (ev.type === 'depth') { expect(book.applyDelta(ev.delta)).toBe('applied'); trader.onBook(book); }
+      else if (ev.type === 'trade') trader.onTrades([ev.trade]);
+    }
+  }
+}
+
+describe('PaperTrader resting limit', () => {
+  it('queues behind the level, splits shrinkage into trades and cancels, then fills', () => {
+    const m = market(), [joined, hit, shrank, eats, drained, through] = rec.queue;
+    const o = m.trader.place({ side: 'buy', type: 'limit', qty: 1, price: 100 }, m.book, T0);
+    expect(o.ahead).toBe(5);
+
+    // size joining behind the order does not move it up
+    play(m, [joined]);
+    expect(o.ahead).toBe(5);
+
+    play(m, [hit]);
+    expect(o.ahead).toBe(3);
+    expect(o.filled).toBe(0);
+
+    // 9 → 4 with 2 printed: 3 cancelled across the level, a third of them in front
+    play(m, [shrank]);
+    expect(o.ahead).toBeCloseTo(2, 12);
+
+    // 2.5 sold: 2 clears the queue, 0.5 is ours
+    play(m, [eats]);
+    expect(o.ahead).toBe(0);
+    expect(o.filled).toBeCloseTo(0.5, 12);
+    expect(m.trader.fills[0]).toEqual({ orderId: o.id, side: 'buy', price: 100, qty: expect.closeTo(0.5, 12), time: T0 + 409, liquidity: 'maker' });
+
+    // the level shrinking by exactly what printed is not a cancel
+    play(m, [drained]);
+    expect(o.ahead).toBe(0);
+    expect(o.status).toBe('open');
+
+    // a print below the bid means the level went: the rest fills at the limit
+    play(m, [through]);
+    expect(o.status).toBe('filled');
+    expect(o.filled).toBe(1);
+    expect(o.doneAt).toBe(T0 + 608);
+    expect(m.trader.open).toEqual([]);
+    expect(m.trader.position).toEqual({ qty: 1, avgPrice: 100, realized: 0 });
+  });
+
+  it('ignores prints on the other side and at other prices', () => {
+    const m = market();
+    const o = m.trader.place({ side: 'sell', type: 'limit', qty: 1, price: 100.02 }, m.book, T0);
+    // sellers hitting 100.00, buyers lifting 100.01: neither reaches a 100.02 ask
+    play(m, rec.queue.filter(f => f.kind === 'trades').slice(0, 2));
+    play(m, rec.through.slice(0, 1));
+    expect(o.ahead).toBe(4);
+    expect(o.filled).toBe(0);
+  });
+});
+
+describe('PaperTrader on a mirror of the top of the book', () => {
+  const sell = (price: number, quantity: number, time = T0) => ({ id: 1, price, quantity, time, isBuyerMaker: true });
+
+  it('leaves an order past the mirrored levels unqueued until its level comes into view', () => {
+    const { book, trader } = market(), view = new BookView();
+    // bids 100, 99.99 mirrored; 99.98 (10 resting) is not
+    view.set(packBook(book, 2));
+    const o = trader.place({ side: 'buy', type: 'limit', qty: 1, price: 99.98 }, view, T0);
+    expect(o).toMatchObject({ queued: false, ahead: 0 });
+
+    // a print at the price says nothing about a queue we cannot see
+    trader.onTrades([sell(99.98, 4)]);
+    trader.onBook(view);
+    expect(o).toMatchObject({ filled: 0, queued: false });
+
+    view.set(packBook(book, 3));
+    trader.onBook(view);
+    expect(o).toMatchObject({ queued: true, ahead: 10, aheadAtEntry: 10 });
+
+    // dropping out of view again keeps the queue as it was
+    trader.onTrades([sell(99.98, 4)]);
+    view.set(packBook(book, 2));
+    trader.onBook(view);
+    expect(o).toMatchObject({ ahead: 6, filled: 0 });
+  });
+
+  it('still fills an unqueued order on a trade through its price', () => {
+    const { book, trader } = market(), view = new BookView();
+    view.set(packBook(book, 1));
+    const o = trader.place({ side: 'buy', type: 'limit', qty: 1, price: 99.99 }, view, T0);
+    trader.onTrades([sell(99.97, 0.1, T0 + 5)]);
+    expect(o).toMatchObject({ status: 'filled', filled: 1, doneAt: T0 + 5 });
+  });
+});
+
+describe('PaperTrader P&L', () => {
+  it('realizes across a flip each way and marks the rest to mid', () => {
+    const m = market();
+    m.trader.place({ side: 'buy', type: 'limit', qty: 1, price: 100 }, m.book, T0);
+    play(m, rec.queue);
+    expect(m.trader.position).toEqual({ qty: 1, avgPrice: 100, realized: 0 });
+
+    // long 1 → short 0.5 on a through-price fill of a 1.5 ask at 100.02
+    const ask = m.trader.place({ side: 'sell', type: 'limit', qty: 1.5, price: 100.02 }, m.book, T0 + 1000);
+    expect(ask.ahead).toBe(4);
+    play(m, rec.through);
+    expect(ask.status).toBe('filled');
+    const short = m.trader.position;
+    expect(short.qty).toBeCloseTo(-0.5, 12);
+    expect(short.avgPrice).toBe(100.02);
+    expect(short.realized).toBeCloseTo(0.02, 10);
+
+    const mid = (m.book.bestBid()!.price + m.book.bestAsk()!.price) / 2;
+    expect(mid).toBeCloseTo(100.005, 10);
+    const marked = m.trader.pnl(mid);
+    expect(marked.unrealized).toBeCloseTo(0.0075, 10);
+    expect(marked.total).toBeCloseTo(0.0275, 10);
+
+    // short 0.5 → long 0.5: the market buy walks 0.8 @ 100.01 and 0.2 @ 100.05
+    const buy = m.trader.place({ side: 'buy', type: 'market', qty: 1 }, m.book, T0 + 2000);
+    expect(buy.status).toBe('filled');
+    expect(buy.price).toBeCloseTo(100.018, 10);
+    expect(m.trader.fills[0]).toMatchObject({ side: 'buy', qty: 1, liquidity: 'taker', time: T0 + 2000 });
+    const long = m.trader.position;
+    expect(long.qty).toBeCloseTo(0.5, 12);
+    expect(long.avgPrice).toBeCloseTo(100.018, 10);
+    // 0.5 covered 0.002 under the short's entry
+    expect(long.realized).toBeCloseTo(0.021, 10);
+    expect(m.trader.pnl(0).unrealized).toBe(0);
+  });
+});
+
+describe('bestInBucket', () => {
+  it('finds the best real level inside a grouped row, or null for an empty one', () => {
+    const { book } = market(), step = priceStep(5, 2);   // $0.05 rows
+    expect(bestInBucket(book, 'bid', 100, step)).toBe(100);
+    expect(bestInBucket(book, 'bid', 99.95, step)).toBe(99.99);
+    expect(bestInBucket(book, 'bid', 99.9, step)).toBeNull();
+    // asks round up: 100.01 through 100.05 share the 100.05 row
+    expect(bestInBucket(book, 'ask', 100.05, step)).toBe(100.01);
+    expect(bestInBucket(book, 'ask', 100.1, step)).toBeNull();
+  });
+});
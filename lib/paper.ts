@@ -0,0 +1,277 @@
+// ============================================================================
+// PaperTrader — simulated orders against the live book, no account involved
+//
+// Market orders (and the marketable part of a limit) take liquidity at once,
+// walking the current book. A resting limit joins the back of its level: the
+// size already there when it is placed is the queue ahead of it. The queue
+// then shrinks two ways:
+//
+// trades     an aggTrade that sells into a bid at the order's price (or buys
+//            an ask) eats the queue first; what is left over fills the order.
+//            A trade through the price — below a resting bid, above a resting
+//            ask — means the whole level went, so the rest of the order fills.
+// book       when the level shrinks by more than the trades printed there
+//            since the last look, the difference was cancelled. Cancels are
+//            spread over the queue, so the part in front of the order shrinks
+//            by its share. The queue can never be longer than the level.
+//
+// A reader that mirrors only the top of the book (worker, relay) cannot see
+// a level past its last one. An order placed there has no queue yet: only
+// trades through its price fill it until the level comes into view, when it
+// joins the back of it. A queued order whose level drops out of view keeps
+// its queue as it was.
+//
+// Nothing here reads a clock: every input is a trade or a book state, so a
+// recording replayed through the same feed path fills the same way. The
+// trade and depth streams are separate sockets, so a level shrinking before
+// its trade prints is counted as a cancel and then as a trade; the queue
+// runs a little optimistic in that case.
+//
+// The position is one net quantity per market at an average cost; P&L is
+// marked to whatever mid the caller passes.
+// ============================================================================
+import { bucketize, type BookReader, type Side } from '@/lib/orderbook';
+import type { PriceStep } from '@/lib/decimal';
+import type { MarketTrade } from '@/lib/exchanges';
+
+export type PaperSide = 'buy' | 'sell';
+export type PaperOrderType = 'limit' | 'market';
+export type PaperStatus = 'open' | 'filled' | 'cancelled';
+
+export interface PaperOrderRequest { side: PaperSide; type: PaperOrderType; qty: number; /** Limit price; ignored for market orders. */ price?: number; }
+
+export interface PaperOrder {
+  id: number;
+  side: PaperSide;
+  type: PaperOrderType;
+  /** Limit price; for a market order, its average fill. */
+  price: number;
+  qty: number;
+  filled: number;
+  /** Book size in front of the order at its price. */
+  ahead: number;
+  /** Queue ahead when the order started resting, for progress. */
+  aheadAtEntry: number;
+  /** False while the price is past the book the reader holds: `ahead` is unknown and only trades through the price fill. */
+  queued: boolean;
+  status: PaperStatus;
+  placedAt: number;
+  /** Time of the last fill or the cancel. */
+  doneAt?: number;
+}
+
+export interface PaperFill { orderId: number; side: PaperSide; price: number; qty: number; time: number; liquidity: 'maker' | 'taker'; }
+
+export interface PaperPosition {
+  /** Net base quantity: positive long, negative short. */
+  qty: number;
+  /** Average entry of the open quantity. */
+  avgPrice: number;
+  realized: number;
+}
+
+export interface PaperPnl { unrealized: number; realized: number; total: number; }
+
+/** Resting orders summed into one ladder row. */
+export interface PaperMark { qty: number; count: number; }
+
+const MAX_DONE = 200;
+const MAX_FILLS = 500;
+
+/** Resting book side of a limit order. */
+const restSide = (s: PaperSide): Side => s === 'buy' ? 'bid' : 'ask';
+
+interface Resting { order: PaperOrder; /** Level size at the last look. */ level: number; /** Traded at the price since the last look. */ traded: number; }
+
+export class PaperTrader {
+  private resting: Resting[] = [];
+  private done: PaperOrder[] = [];
+  private _fills: PaperFill[] = [];
+  private pos: PaperPosition = { qty: 0, avgPrice: 0, realized: 0 };
+  private nextId = 1;
+  private _version = 0;
+
+  get version(): number { return this._version; }
+  /** Resting orders, oldest first. */
+  get open(): PaperOrder[] { return this.resting.map(r => r.order); }
+  /** Filled and cancelled orders, newest first. */
+  get history(): readonly PaperOrder[] { return this.done; }
+  /** Newest first. */
+  get fills(): readonly PaperFill[] { return this._fills; }
+  get position(): Readonly<PaperPosition> { return this.pos; }
+
+  clear() {
+    this.resting = []; this.done = []; this._fills = []; this.pos = { qty: 0, avgPrice: 0, realized: 0 };
+    this._version++;
+  }
+
+  /** Place an order against `book`; throws when it cannot be accepted. */
+  place(req: PaperOrderRequest, book: BookReader, time: number): PaperOrder {
+    if (!(req.qty > 0)) throw new Error('quantity must be positive');
+    if (req.type === 'limit' && !(req.price! > 0)) throw new Error('limit price must be positive');
+    if (!book.bestBid() || !book.bestAsk()) throw new Error('no book yet');
+    const order: PaperOrder = {
+      id: this.nextId++, side: req.side, type: req.type, price: req.type === 'limit' ? req.price! : 0,
+      qty: req.qty, filled: 0, ahead: 0, aheadAtEntry: 0, queued: false, status: 'open', placedAt: time,
+    };
+
+    // take whatever the order crosses
+    const limit = req.type === 'limit' ? req.price! : req.side === 'buy' ? Infinity : 0;
+    let cost = 0;
+    for (const l of book.levels(req.side === 'buy' ? 'ask' : 'bid')) {
+      if (req.side === 'buy' ? l.price > limit : l.price < limit) break;
+      const left = order.qty - order.filled, take = Math.min(l.amount, left);
+      // land on qty exactly, not a float's breadth short of it
+      order.filled = take === left ? order.qty : order.filled + take;
+      cost += take * l.price;
+      if (order.filled >= order.qty) break;
+    }
+    if (order.filled > 0) this.fill(order, order.filled, cost / order.filled, time, 'taker');
+
+    if (req.type === 'market') {
+      order.price = order.filled > 0 ? cost / order.filled : 0;
+      // a market order never rests; a book too thin for it fills what it can
+      this.finish(order, order.filled > 0 ? 'filled' : 'cancelled', time);
+    } else if (order.filled >= order.qty) {
+      this.finish(order, 'filled', time);
+    } else {
+      const r: Resting = { order, level: 0, traded: 0 };
+      this.join(r, book);
+      this.resting.push(r);
+    }
+    this._version++;
+    return order;
+  }
+
+  cancel(id: number, time: number): boolean {
+    const i = this.resting.findIndex(r => r.order.id === id);
+    if (i < 0) return false;
+    const [r] = this.resting.splice(i, 1);
+    this.finish(r.order, 'cancelled', time);
+    this._version++;
+    return true;
+  }
+
+  cancelAll(time: number) {
+    if (!this.resting.length) return;
+    for (const r of this.resting) this.finish(r.order, 'cancelled', time);
+    this.resting = [];
+    this._version++;
+  }
+
+  /** Look at each resting order's level after a book change. */
+  onBook(book: BookReader) {
+    let changed = false;
+    for (const r of this.resting) {
+      const o = r.order, side = restSide(o.side);
+      // out of view: nothing to learn about the level
+      if (!book.covers(side, o.price)) continue;
+      if (!o.queued) { this.join(r, book); changed = true; continue; }
+      const size = book.size(side, o.price);
+      const before = o.ahead;
+      if (size < r.level && r.level > 0) {
+        // trades already came off the queue when they printed
+        const cancelled = Math.max(0, r.level - size - r.traded);
+        o.ahead -= cancelled * (o.ahead / r.level);
+      }
+      o.ahead = Math.max(0, Math.min(o.ahead, size));
+      r.level = size; r.traded = 0;
+      if (o.ahead !== before) changed = true;
+    }
+    if (changed) this._version++;
+  }
+
+  onTrades(ts: MarketTrade[]) {
+    if (!this.resting.length || !ts.length) return;
+    let changed = false;
+    for (const t of ts) {
+      for (const r of this.resting) {
+        const o = r.order;
+        // a resting bid is hit by sellers, a resting ask lifted by buyers
+        if (t.isBuyerMaker !== (o.side === 'buy')) continue;
+        const through = o.side === 'buy' ? t.price < o.price : t.price > o.price;
+        if (!through && t.price !== o.price) continue;
+        let q = t.quantity;
+        if (!through && !o.queued) continue;
+        if (!through) {
+          r.traded += q;
+          const eaten = Math.min(o.ahead, q);
+          o.ahead -= eaten; q -= eaten;
+        } else {
+          o.ahead = 0; q = Infinity;
+        }
+        const left = o.qty - o.filled, take = Math.min(q, left);
+        if (take > 0) { o.filled = take === left ? o.qty : o.filled + take; this.fill(o, take, o.price, t.time, 'maker'); }
+        if (o.filled >= o.qty) this.finish(o, 'filled', t.time);
+        changed = true;
+      }
+      if (changed) this.resting = this.resting.filter(r => r.order.status === 'open');
+    }
+    if (changed) this._version++;
+  }
+
+  pnl(mid: number): PaperPnl {
+    const unrealized = this.pos.qty && mid > 0 ? (mid - this.pos.avgPrice) * this.pos.qty : 0;
+    return { unrealized, realized: this.pos.realized, total: unrealized + this.pos.realized };
+  }
+
+  /** Resting orders keyed by the grouped price of their book side. */
+  rowMarks(step: PriceStep): { bid: Map<number, PaperMark>; ask: Map<number, PaperMark> } {
+    const out = { bid: new Map<number, PaperMark>(), ask: new Map<number, PaperMark>() };
+    for (const { order: o } of this.resting) {
+      const side = restSide(o.side), key = bucketize(o.price, step, side);
+      const m = out[side].get(key), left = o.qty - o.filled;
+      if (m) { m.qty += left; m.count++; } else out[side].set(key, { qty: left, count: 1 });
+    }
+    return out;
+  }
+
+  /** Start queueing at the back of the order's level, if the reader can see it. */
+  private join(r: Resting, book: BookReader) {
+    const o = r.order, side = restSide(o.side);
+    if (!book.covers(side, o.price)) return;
+    r.level = book.size(side, o.price); r.traded = 0;
+    o.ahead = o.aheadAtEntry = r.level; o.queued = true;
+  }
+
+  private fill(o: PaperOrder, qty: number, price: number, time: number, liquidity: PaperFill['liquidity']) {
+    this._fills.unshift({ orderId: o.id, side: o.side, price, qty, time, liquidity });
+    if (this._fills.length > MAX_FILLS) this._fills.pop();
+    o.doneAt = time;
+
+    // average cost: adding to the position moves the entry, reducing realizes against it
+    const p = this.pos, signed = o.side === 'buy' ? qty : -qty;
+    if (p.qty === 0 || Math.sign(p.qty) === Math.sign(signed)) {
+      p.avgPrice = (p.avgPrice * Math.abs(p.qty) + price * qty) / (Math.abs(p.qty) + qty);
+      p.qty += signed;
+    } else {
+      const closed = Math.min(Math.abs(p.qty), qty);
+      p.realized += closed * (price - p.avgPrice) * Math.sign(p.qty);
+      p.qty += signed;
+      // flipped: the remainder opens at this price
+      if (Math.abs(signed) > closed) p.avgPrice = price;
+      else if (Math.abs(p.qty) < qty * 1e-12) { p.qty = 0; p.avgPrice = 0; }
+    }
+  }
+
+  private finish(o: PaperOrder, status: PaperStatus, time: number) {
+    o.status = status; o.doneAt = time;
+    this.done.unshift(o);
+    if (this.done.length > MAX_DONE) this.done.pop();
+  }
+}
+
+/**
+ * The best real level of `side` inside the grouped row at `bucket`, or null
+ * when the row is empty: a click on a grouped row trades at a price the book
+ * actually has, not at the row's rounded edge.
+ */
+export function bestInBucket(book: BookReader, side: Side, bucket: number, step: PriceStep): number | null {
+  for (const l of book.levels(side)) {
+    const b = bucketize(l.price, step, side);
+    if (b === bucket) return l.price;
+    // best-first: past the row there is nothing left to find
+    if (side === 'bid' ? b < bucket : b > bucket) break;
+  }
+  return null;
+}
@@ -0,0 +1,41 @@
+// ============================================================================
+// Main-thread cost probes
+// ============================================================================
+const FRAME_MS = 1000 / 60;
+
+/** Counts frames that overran their budget, from gaps between rAF callbacks. */
+export class FrameMonitor {
+  private raf = 0;
+  private last = 0;
+  private dropped = 0;
+
+  start() {
+    const tick = (t: number) => {
+      // ignore gaps from background tabs, where rAF is suspended entirely
+      if (this.last && t - this.last < 1000 && t - this.last > FRAME_MS * 1.5) this.dropped += Math.round((t - this.last) / FRAME_MS) - 1;
+      this.last = t;
+      this.raf = requestAnimationFrame(tick);
+    };
+    this.raf = requestAnimationFrame(tick);
+  }
+
+  stop() { cancelAnimationFrame(this.raf); this.raf = 0; this.last = 0; }
+
+  /** Dropped frames since the previous call. */
+  take(): number { const d = this.dropped; this.dropped = 0; return d; }
+}
+
+/** Running average and max of a duration, reset on take(). */
+export class DurationStat {
+  private sum = 0;
+  private n = 0;
+  private max = 0;
+
+  add(ms: number) { this.sum += ms; this.n++; if (ms > this.max) this.max = ms; }
+
+  take(): { avg: number; max: number; count: number } {
+    const out = { avg: this.n ? this.sum / this.n : 0, max: this.max, count: this.n };
+    this.sum = 0; this.n = 0; this.max = 0;
+    return out;
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { LIQ_MARK_MS, PerpsTracker } from '@/lib/perps';
+import { parseBinance, openInterestFromBinance } from '@/lib/exchanges/binance';
+import type { Liquidation, MarkPrice, TopOfBook } from '@/lib/exchanges';
+import { priceStep } from '@/lib/decimal';
+import { fmtCountdown } from '@/lib/format';
+import rec from '@/lib/__fixtures__/binance-perps.json';
+
+const mark = (): MarkPrice => {
+  const [ev] = parseBinance('mark', JSON.stringify(rec.markPrice));
+  if (ev.type !== 'mark') throw new Error('expected a mark event');
+  return ev.mark;
+};
+const spot = (): TopOfBook => {
+  const [ev] = parseBinance('ticker', JSON.stringify(rec.spotTicker));
+  if (ev.type !== 'ticker') throw new Error('expected a ticker event');
+  return ev.top;
+};
+const liqs = (): Liquidation[] => rec.forceOrders.flatMap(f => parseBinance('liquidations', JSON.stringify(f)))
+  .map(ev => { if (ev.type !== 'liquidation') throw new Error('expected a liquidation'); return ev.liq; });
+
+describe('markPrice@1s and basis', () => {
+  it('parses mark, index and the next funding', () => {
+    expect(mark()).toEqual({ time: 1760875199000, mark: 67052.3, index: 67038.91234783, fundingRate: 0.0001, nextFundingTime: 1760875200000 });
+  });
+
+  it('takes basis as mark minus the spot mid, in bps of the mid', () => {
+    const p = new PerpsTracker();
+    p.setMark(mark());
+    expect(p.basis()).toBeNull();
+    p.setSpot(spot());
+    expect(p.spotMid).toBeCloseTo(67012.5, 8);
+    const b = p.basis()!;
+    expect(b.abs).toBeCloseTo(39.8, 8);
+    expect(b.bps).toBeCloseTo(39.8 / 67012.5 * 1e4, 8);
+  });
+
+  it('has no basis without both sides of the spot book', () => {
+    const p = new PerpsTracker();
+    p.setMark(mark());
+    p.setSpot({ ...spot(), ask: 0 });
+    expect(p.basis()).toBeNull();
+  });
+});
+
+describe('funding countdown', () => {
+  it('counts down to the recorded settlement', () => {
+    const m = mark();
+    expect(fmtCountdown(m.nextFundingTime - m.time)).toBe('0:01');
+    expect(fmtCountdown(m.nextFundingTime - (m.time - 3 * 3600_000 - 59 * 60_000 - 58_000))).toBe('3:59:59');
+  });
+
+  it('rounds a partial second up and stops at zero', () => {
+    expect(fmtCountdown(59_001)).toBe('1:00');
+    expect(fmtCountdown(3600_000)).toBe('1:00:00');
+    expect(fmtCountdown(0)).toBe('0:00');
+    expect(fmtCountdown(-5000)).toBe('0:00');
+  });
+});
+
+describe('forceOrder liquidations', () => {
+  it('uses the average fill and filled quantity, or the order price for an unfilled one', () => {
+    expect(liqs()).toEqual([
+      { time: 1760875190119, price: 66910.27, quantity: 0.512, side: 'sell' },
+      { time: 1760875191297, price: 66905.1, quantity: 1.2, side: 'sell' },
+      { time: 1760875192405, price: 67110.9, quantity: 0.04, side: 'buy' },
+      { time: 1760875193515, price: 67300, quantity: 0.3, side: 'buy' },
+    ]);
+  });
+
+  it('buckets forced sells onto bid rows and forced buys onto ask rows', () => {
+    const p = new PerpsTracker(), t0 = 1_000_000;
+    liqs().forEach((l, i) => p.addLiquidation(l, t0 + i * 1000));
+    // $100 rows at a 0.1 tick; `last` is the newest receive time in the row
+    const { bid, ask } = p.rowMarks(priceStep(1000, 1), t0 + 3000);
+    // 66910.27 and 66905.10 both floor into 66900
+    expect([...bid]).toEqual([[66900, { quantity: 1.712, count: 2, last: t0 + 1000 }]]);
+    // asks ceil: 67110.9 → 67200, 67300 stays
+    expect(new Map(ask)).toEqual(new Map([[67200, { quantity: 0.04, count: 1, last: t0 + 2000 }], [67300, { quantity: 0.3, count: 1, last: t0 + 3000 }]]));
+  });
+
+  it('drops marks older than the window by receive time', () => {
+    const p = new PerpsTracker(), t0 = 1_000_000;
+    liqs().forEach((l, i) => p.addLiquidation(l, t0 + i * 1000));
+    const step = priceStep(1, 1);
+    const later = p.rowMarks(step, t0 + 1000 + LIQ_MARK_MS);
+    expect(later.bid.size).toBe(1);
+    expect([...later.bid.keys()]).toEqual([66905.1]);
+    expect(later.ask.size).toBe(2);
+    expect(p.rowMarks(step, t0 + 4000 + LIQ_MARK_MS).ask.size).toBe(0);
+  });
+});
+
+describe('open interest', () => {
+  it('sorts the history and appends the live figure', () => {
+    const pts = openInterestFromBinance(rec.openInterestHist, rec.openInterest);
+    expect(pts).toEqual([
+      { t: 1760874300000, oi: 80711.333 },
+      { t: 1760874600000, oi: 81002.5 },
+      { t: 1760874900000, oi: 81250.104 },
+      { t: 1760875198512, oi: 81391.776 },
+    ]);
+    const p = new PerpsTracker();
+    p.setOpenInterest(pts);
+    expect(p.oiChange()).toBeCloseTo((81391.776 - 80711.333) / 80711.333 * 100, 8);
+  });
+
+  it('replaces points at the same time when a poll overlaps', () => {
+    const p = new PerpsTracker();
+    p.setOpenInterest(openInterestFromBinance(rec.openInterestHist, null));
+    p.setOpenInterest([{ t: 1760874900000, oi: 81260 }, { t: 1760875200000, oi: 81400 }]);
+    expect(p.openInterest.map(x => x.oi)).toEqual([80711.333, 81002.5, 81260, 81400]);
+  });
+});
@@ -0,0 +1,108 @@
+// ============================================================================
+// PerpsTracker — mark/index, funding, basis, open interest and liquidations
+//
+// Fed by the perpetual venue's mark and forceOrder streams, a 5-minute open
+// interest poll and the spot venue's bookTicker for the basis. Basis is mark
+// minus spot mid; bps are of the spot mid. Readers poll `version` like the
+// tape and the charts.
+//
+// Recent liquidations are also bucketed onto the ladder: a forced sell hits
+// the bids and a forced buy lifts the asks, so each lands on the row of the
+// book side it traded against, at the current grouping. Marks age by local
+// receive time, so a replay marks the book as it happened.
+// ============================================================================
+import { bucketize } from '@/lib/orderbook';
+import { streamPool } from '@/lib/streampool';
+import type { PriceStep } from '@/lib/decimal';
+import type { ExchangeAdapter, Liquidation, MarkPrice, OpenInterestPoint, TopOfBook } from '@/lib/exchanges';
+
+export const OI_POLL_MS = 60_000;
+export const OI_POINTS = 48;            // four hours of 5-minute history
+/** How long a liquidation stays marked on the book. */
+export const LIQ_MARK_MS = 120_000;
+const LIQ_CAPACITY = 500;
+
+export interface LiqEntry extends Liquidation { /** Local receive time. */ at: number; }
+
+/** Liquidations summed into one ladder row. */
+export interface LiqMark { quantity: number; count: number; last: number; }
+
+export interface Basis { abs: number; bps: number; }
+
+export class PerpsTracker {
+  private _mark: MarkPrice | null = null;
+  private spot: TopOfBook | null = null;
+  private oi: OpenInterestPoint[] = [];
+  private liqs: LiqEntry[] = [];
+  private _version = 0;
+
+  get version(): number { return this._version; }
+  get mark(): MarkPrice | null { return this._mark; }
+  get openInterest(): readonly OpenInterestPoint[] { return this.oi; }
+  /** Oldest first. */
+  get liquidations(): readonly LiqEntry[] { return this.liqs; }
+  get spotMid(): number { return this.spot && this.spot.bid > 0 && this.spot.ask > 0 ? (this.spot.bid + this.spot.ask) / 2 : 0; }
+
+  clear() { this._mark = null; this.spot = null; this.oi = []; this.liqs = []; this._version++; }
+
+  setMark(m: MarkPrice) { this._mark = m; this._version++; }
+  setSpot(top: TopOfBook | null) { this.spot = top; this._version++; }
+
+  /** Merge a fetched series: points at the same time are replaced, the rest kept in time order. */
+  setOpenInterest(points: OpenInterestPoint[]) {
+    const byT = new Map(this.oi.map(p => [p.t, p]));
+    for (const p of points) byT.set(p.t, p);
+    this.oi = [...byT.values()].sort((a, b) => a.t - b.t).slice(-OI_POINTS - 1);
+    this._version++;
+  }
+
+  addLiquidation(l: Liquidation, now = Date.now()) {
+    this.liqs.push({ ...l, at: now });
+    if (this.liqs.length > LIQ_CAPACITY * 1.2) this.liqs = this.liqs.slice(-LIQ_CAPACITY);
+    this._version++;
+  }
+
+  basis(): Basis | null {
+    const mid = this.spotMid;
+    if (!this._mark || !mid) return null;
+    const abs = this._mark.mark - mid;
+    return { abs, bps: (abs / mid) * 1e4 };
+  }
+
+  /** Open interest change over the loaded history, in %. */
+  oiChange(): number | null {
+    const first = this.oi[0], last = this.oi[this.oi.length - 1];
+    return first && last && first !== last && first.oi > 0 ? ((last.oi - first.oi) / first.oi) * 100 : null;
+  }
+
+  /** Liquidations received since `now − windowMs`, keyed by the grouped price of the book side they hit. */
+  rowMarks(step: PriceStep, now: number, windowMs = LIQ_MARK_MS): { bid: Map<number, LiqMark>; ask: Map<number, LiqMark> } {
+    const out = { bid: new Map<number, LiqMark>(), ask: new Map<number, LiqMark>() };
+    for (let i = this.liqs.length - 1; i >= 0; i--) {
+      const l = this.liqs[i];
+      if (l.at < now - windowMs) break;
+      const side = l.side === 'sell' ? 'bid' : 'ask';
+      const key = bucketize(l.price, step, side);
+      const m = out[side].get(key);
+      if (m) { m.quantity += l.quantity; m.count++; }
+      else out[side].set(key, { quantity: l.quantity, count: 1, last: l.at });
+    }
+    return out;
+  }
+}
+
+/**
+ * Follow one symbol's top of book on a spot venue through its StreamPool;
+ * returns the leave function. A no-op for venues that cannot multiplex.
+ */
+export function watchTicker(adapter: ExchangeAdapter, symbol: string, onTop: (top: TopOfBook) => void): () => void {
+  const pool = streamPool(adapter), mux = adapter.mux;
+  if (!pool || !mux?.kinds.includes('ticker')) return () => {};
+  return pool.subscribe(mux.channel('ticker', adapter.normalizeSymbol(symbol)), {
+    onFrame: (raw) => {
+      try {
+        for (const ev of adapter.parse('ticker', raw)) if (ev.type === 'ticker') onTop(ev.top);
+      } catch {}
+    },
+  });
+}
@@ -0,0 +1,214 @@
+// ============================================================================
+// Volume profile and footprint — executed volume by price
+//
+// Trades are kept at fine resolution (scaled integers at KEY_DP decimals, see
+// lib/decimal) and bucketed on read at whatever step the book uses, so a
+// grouping change regroups history instead of restarting it. A trade is
+// bucketed like the resting level it traded against: sells hit bids and
+// floor, buys lift asks and ceil. A profile row therefore holds exactly the
+// volume executed against the book row of the same price.
+//
+// profile    since the last reset (session) or over a rolling window; the
+//            window slides on trade time, so replays profile the same way
+// POC        the row with the most volume
+// value area the rows around the POC holding VALUE_AREA of the volume, grown
+//            one row at a time towards the busier neighbour
+// footprint  the same cells per candle: bid (sell) × ask (buy) volume and
+//            delta for each price
+// ============================================================================
+import { bucketScaled, fromScaled, pow10, priceStep, scaleFloat, type PriceStep } from '@/lib/decimal';
+import type { MarketTrade } from '@/lib/exchanges';
+
+export const PROFILE_WINDOWS = [0, 300_000, 900_000, 3_600_000];   // 0: session
+export const VALUE_AREA = 0.7;
+export const FOOTPRINT_INTERVALS = [60_000, 300_000, 900_000];
+
+const KEY_DP = 8;
+const SLICE_MS = 1000;
+const MAX_WINDOW_MS = Math.max(...PROFILE_WINDOWS);
+const FOOTPRINT_KEEP = 60;
+const REFRESH_MS = 500;
+
+export interface ProfileLevel { price: number; buy: number; sell: number; }
+
+export interface ProfileView {
+  /** Price descending, traded rows only. */
+  levels: ProfileLevel[];
+  /** Largest row volume, for bar widths. */
+  max: number;
+  total: number;
+  poc: number | null;
+  /** Value area high / low (row prices). */
+  vah: number | null;
+  val: number | null;
+}
+
+export interface FootprintCandle { t: number; levels: ProfileLevel[]; buy: number; sell: number; poc: number | null; }
+
+/** One profile row as drawn under the book row of the same price. */
+export interface ProfileMark { buy: number; sell: number; /** Share of the busiest row. */ share: number; poc: boolean; inValue: boolean; }
+
+export const EMPTY_PROFILE: ProfileView = { levels: [], max: 0, total: 0, poc: null, vah: null, val: null };
+
+interface Cell { buy: number; sell: number; }
+type Cells = Map<number, Cell>;
+
+function addTo(cells: Cells, key: number, buy: number, sell: number) {
+  const c = cells.get(key);
+  if (c) { c.buy += buy; c.sell += sell; } else cells.set(key, { buy, sell });
+}
+
+function addTrade(cells: Cells, t: MarketTrade) {
+  const k = scaleFloat(t.price, KEY_DP);
+  if (t.isBuyerMaker) addTo(cells, k, 0, t.quantity); else addTo(cells, k, t.quantity, 0);
+}
+
+/** The step in KEY_DP units; steps finer than that are clamped to one unit. */
+const keyStep = (step: PriceStep) => priceStep(step.units * pow10(Math.max(0, KEY_DP - step.dp)), KEY_DP);
+
+/** Regroup fine cells at `step`: sells floor (bid side), buys ceil (ask side). Price descending. */
+function regroup(sources: Cells[], step: PriceStep): ProfileLevel[] {
+  const ks = keyStep(step);
+  const out = new Map<number, Cell>();
+  for (const cells of sources) {
+    for (const [k, c] of cells) {
+      if (c.sell) addTo(out, bucketScaled(k, ks, 'bid'), 0, c.sell);
+      if (c.buy) addTo(out, bucketScaled(k, ks, 'ask'), c.buy, 0);
+    }
+  }
+  return [...out].sort((a, b) => b[0] - a[0]).map(([k, c]) => ({ price: fromScaled(k, KEY_DP), buy: c.buy, sell: c.sell }));
+}
+
+/** POC and value area over rows sorted by price, descending. */
+export function valueArea(levels: ProfileLevel[], share = VALUE_AREA): { poc: number | null; vah: number | null; val: number | null; total: number; max: number } {
+  let total = 0, max = 0, p = -1;
+  levels.forEach((l, i) => { const v = l.buy + l.sell; total += v; if (v > max) { max = v; p = i; } });
+  if (p < 0) return { poc: null, vah: null, val: null, total, max };
+  let hi = p, lo = p, acc = max;
+  const vol = (i: number) => levels[i].buy + levels[i].sell;
+  while (acc < total * share && (hi > 0 || lo < levels.length - 1)) {
+    const up = hi > 0 ? vol(hi - 1) : -1, down = lo < levels.length - 1 ? vol(lo + 1) : -1;
+    if (up >= down) acc += vol(--hi); else acc += vol(++lo);
+  }
+  return { poc: levels[p].price, vah: levels[hi].price, val: levels[lo].price, total, max };
+}
+
+/** Profile rows keyed by price, for the book rows to look up. */
+export function profileMarks(v: ProfileView): Map<number, ProfileMark> {
+  const out = new Map<number, ProfileMark>();
+  for (const l of v.levels) {
+    out.set(l.price, {
+      buy: l.buy, sell: l.sell, share: v.max > 0 ? (l.buy + l.sell) / v.max : 0, poc: l.price === v.poc,
+      inValue: v.vah !== null && v.val !== null && l.price <= v.vah && l.price >= v.val,
+    });
+  }
+  return out;
+}
+
+export class VolumeProfile {
+  /** Since the last reset. */
+  private session: Cells = new Map();
+  /** One-second slices covering the longest rolling window. */
+  private slices: { t: number; cells: Cells }[] = [];
+  private lastTime = 0;
+  private _since = 0;
+  private _version = 0;
+  private refreshed = 0;
+  private cache: { version: number; units: number; dp: number; windowMs: number; view: ProfileView } | null = null;
+
+  get version(): number { return this._version; }
+  /** Time of the first trade since the last reset; 0 before any. */
+  get since(): number { return this._since; }
+
+  due(now: number): boolean { return now - this.refreshed >= REFRESH_MS; }
+
+  clear() {
+    this.session = new Map(); this.slices = []; this.lastTime = 0; this._since = 0; this.cache = null;
+    this._version++;
+  }
+
+  add(ts: MarketTrade[]) {
+    for (const t of ts) {
+      if (!this._since) this._since = t.time;
+      addTrade(this.session, t);
+      const st = t.time - (t.time % SLICE_MS);
+      let s = this.slices[this.slices.length - 1];
+      if (!s || st > s.t) { s = { t: st, cells: new Map() }; this.slices.push(s); }
+      // a late print lands in the newest slice; off by at most a second
+      addTrade(s.cells, t);
+      if (t.time > this.lastTime) this.lastTime = t.time;
+    }
+    let drop = 0;
+    while (drop < this.slices.length && this.slices[drop].t < this.lastTime - MAX_WINDOW_MS) drop++;
+    if (drop) this.slices.splice(0, drop);
+    if (ts.length) this._version++;
+  }
+
+  /** Rows at `step` over the session (windowMs 0) or the last windowMs of trade time. */
+  view(step: PriceStep, windowMs: number, now = Date.now()): ProfileView {
+    const c = this.cache;
+    if (c && c.version === this._version && c.units === step.units && c.dp === step.dp && c.windowMs === windowMs) return c.view;
+    this.refreshed = now;
+    let sources: Cells[] = [this.session];
+    if (windowMs > 0) {
+      const from = this.lastTime - windowMs;
+      sources = this.slices.filter(s => s.t + SLICE_MS > from).map(s => s.cells);
+    }
+    const levels = regroup(sources, step);
+    const view = { levels, ...valueArea(levels) };
+    this.cache = { version: this._version, units: step.units, dp: step.dp, windowMs, view };
+    return view;
+  }
+}
+
+export class Footprint {
+  private bars: { t: number; cells: Cells }[] = [];
+  private _version = 0;
+
+  constructor(private _intervalMs = FOOTPRINT_INTERVALS[0]) {}
+
+  get version(): number { return this._version; }
+  get intervalMs(): number { return this._intervalMs; }
+
+  /** Switch candle length; bars are rebuilt from live trades only. */
+  setInterval(ms: number) { this._intervalMs = ms; this.clear(); }
+
+  clear() { this.bars = []; this._version++; }
+
+  add(ts: MarketTrade[]) {
+    for (const tr of ts) {
+      const t = tr.time - (tr.time % this._intervalMs);
+      let b = this.bars[this.bars.length - 1];
+      if (b && t < b.t) continue;           // late trade for a closed bar
+      if (!b || t > b.t) {
+        b = { t, cells: new Map() };
+        this.bars.push(b);
+        if (this.bars.length > FOOTPRINT_KEEP) this.bars.shift();
+      }
+      addTrade(b.cells, tr);
+    }
+    if (ts.length) this._version++;
+  }
+
+  /**
+   * The last `n` candles, oldest first, at `step` or a whole multiple of it
+   * coarse enough to span their price range in `maxRows` rows.
+   */
+  candles(step: PriceStep, n: number, maxRows: number): { step: PriceStep; candles: FootprintCandle[] } {
+    const bars = this.bars.slice(-n);
+    let lo = Infinity, hi = -Infinity;
+    for (const b of bars) for (const k of b.cells.keys()) { if (k < lo) lo = k; if (k > hi) hi = k; }
+    const ks = keyStep(step);
+    const rows = hi >= lo ? Math.floor((hi - lo) / ks.units) + 2 : 0;
+    const s = rows > maxRows ? priceStep(step.units * Math.ceil(rows / maxRows), step.dp) : step;
+    return {
+      step: s,
+      candles: bars.map(b => {
+        const levels = regroup([b.cells], s);
+        let buy = 0, sell = 0;
+        for (const l of levels) { buy += l.buy; sell += l.sell; }
+        return { t: b.t, levels, buy, sell, poc: valueArea(levels).poc };
+      }),
+    };
+  }
+}
@@ -0,0 +1,70 @@
+// ============================================================================
+// Feed recorder — raw frames to NDJSON
+//
+// Line 1 is a header; every following line is one received message:
+//   {"v":1,"venue":"binance","symbol":"btcusdt","start":1718000000000}
+//   {"t":1718000000123,"k":"depth","d":{...raw frame...}}
+// Raw frames are spliced in verbatim so recording costs no extra JSON.parse
+// on the hot path.
+// ============================================================================
+import type { DepthSnapshot } from '@/lib/orderbook';
+import type { InstrumentInfo, StreamKind, VenueId } from '@/lib/exchanges';
+
+export const RECORDING_VERSION = 1;
+
+export type RecordKind = StreamKind | 'snapshot' | 'instrument';
+
+export interface RecordingHeader { v: number; venue: VenueId; symbol: string; start: number; }
+export interface FeedRecord { t: number; kind: RecordKind; raw: string; }
+export interface Recording { header: RecordingHeader; records: FeedRecord[]; }
+
+const KINDS: RecordKind[] = ['depth', 'trades', 'ticker', 'mark', 'liquidations', 'snapshot', 'instrument'];
+
+export class FeedRecorder {
+  private lines: string[] = [];
+  private _bytes = 0;
+
+  constructor(readonly header: RecordingHeader) {
+    this.write(JSON.stringify(header));
+  }
+
+  get count(): number { return this.lines.length - 1; }
+  get bytes(): number { return this._bytes; }
+
+  private write(line: string) { this.lines.push(line); this._bytes += line.length + 1; }
+
+  /** Append one raw frame exactly as received. */
+  push(kind: StreamKind, raw: string, t = Date.now()) {
+    this.write(`{"t":${t},"k":"${kind}","d":${raw.replace(/\r?\n/g, ' ')}}`);
+  }
+  snapshot(s: DepthSnapshot, t = Date.now()) { this.write(JSON.stringify({ t, k: 'snapshot', d: s })); }
+  instrument(i: InstrumentInfo, t = Date.now()) { this.write(JSON.stringify({ t, k: 'instrument', d: i })); }
+
+  toNdjson(): string { return this.lines.join('\n') + '\n'; }
+
+  fileName(): string {
+    const ts = new Date(this.header.start).toISOString().replace(/[:.]/g, '-');
+    return `${this.header.venue}-${this.header.symbol}-${ts}.ndjson`;
+  }
+}
+
+/** Parse an NDJSON recording; malformed lines are counted and skipped. */
+export function parseRecording(text: string): Recording & { skipped: number } {
+  const lines = text.split('\n');
+  const header = JSON.parse(lines[0]) as RecordingHeader;
+  if (header.v !== RECORDING_VERSION || !header.venue || !header.symbol) throw new Error('not a feed recording');
+
+  const records: FeedRecord[] = [];
+  let skipped = 0;
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    try {
+      const j = JSON.parse(line) as { t: number; k: RecordKind; d: unknown };
+      if (!KINDS.includes(j.k) || typeof j.t !== 'number') { skipped++; continue; }
+      records.push({ t: j.t, kind: j.k, raw: JSON.stringify(j.d) });
+    } catch { skipped++; }
+  }
+  records.sort((a, b) => a.t - b.t);
+  return { header, records, skipped };
+}
@@ -0,0 +1,71 @@
+// ============================================================================
+// Relay protocol — server-maintained books streamed to browsers over SSE
+//
+// The relay (see lib/relayhub.ts and app/api/relay) runs one MarketFeed per
+// venue/symbol and sends every subscriber the same messages the feed worker
+// posts, except that the book is a top-RELAY_DEPTH snapshot as plain arrays
+// and raw frames are not forwarded. connectRelay() turns those back into
+// FeedWorkerMessages, so the page handles a relay exactly like a worker.
+// ============================================================================
+import type { FeedWorkerMessage } from '@/lib/feedworker';
+import type { VenueId } from '@/lib/exchanges';
+import { INITIAL_STATUS } from '@/lib/feed';
+
+/** Levels per side in each relayed book. */
+export const RELAY_DEPTH = 200;
+/** Most often a session sends its book and trade batch. */
+export const RELAY_FLUSH_MS = 100;
+/** EventSource reconnect delay the relay asks for. */
+export const RELAY_RETRY_MS = 2000;
+
+export type RelayMessage =
+  /** `totals` is each whole side's size, past RELAY_DEPTH too. */
+  | { type: 'book'; bids: [number, number][]; asks: [number, number][]; totals: [number, number] }
+  | Exclude<FeedWorkerMessage, { type: 'book' } | { type: 'frame' } | { type: 'snapshot' }>;
+
+export function relayPath(venue: VenueId, symbol: string): string {
+  return `/api/relay/${venue}/${encodeURIComponent(symbol)}`;
+}
+
+export function sseEvent(m: RelayMessage): string {
+  return `data: ${JSON.stringify(m)}\n\n`;
+}
+
+function unpack(levels: [number, number][]) {
+  const p = new Float64Array(levels.length), q = new Float64Array(levels.length);
+  for (let i = 0; i < levels.length; i++) { p[i] = levels[i][0]; q[i] = levels[i][1]; }
+  return [p, q] as const;
+}
+
+/**
+ * Subscribe to the relay for one market; returns the disconnect function.
+ * EventSource reconnects on its own; drops are reported as a disconnected status.
+ */
+export function connectRelay(venue: VenueId, symbol: string, onMessage: (m: FeedWorkerMessage) => void, base = ''): () => void {
+  const es = new EventSource(base + relayPath(venue, symbol));
+  let reconnects = 0, dropped = false;
+  es.onmessage = (e: MessageEvent<string>) => {
+    let m: RelayMessage;
+    try { m = JSON.parse(e.data) as RelayMessage; } catch { return; }
+    if (m.type === 'book') {
+      const [bp, bq] = unpack(m.bids), [ap, aq] = unpack(m.asks);
+      onMessage({ type: 'book', bp, bq, ap, aq, bt: m.totals[0], at: m.totals[1] });
+    } else if (m.type === 'status') {
+      onMessage({ ...m, status: { ...m.status, reconnects: m.status.reconnects + reconnects } });
+    } else {
+      onMessage(m);
+    }
+  };
+  es.onopen = () => { if (dropped) { dropped = false; reconnects++; } };
+  es.onerror = () => {
+    if (dropped) return;
+    dropped = true;
+    const closed = es.readyState === EventSource.CLOSED;
+    const status = closed
+      ? { ...INITIAL_STATUS, reconnects }
+      : { ...INITIAL_STATUS, reconnects, state: 'backoff' as const, retryAt: Date.now() + RELAY_RETRY_MS };
+    onMessage({ type: 'status', status, frames: 0, lastFrameAt: 0 });
+    if (closed) onMessage({ type: 'error', message: 'relay unavailable' });
+  };
+  return () => es.close();
+}
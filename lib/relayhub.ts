@@ -0,0 +1,168 @@
+// ============================================================================
+// RelayHub — one upstream MarketFeed per market, fanned out to many clients
+//
+// Server-side counterpart of lib/relay.ts. A session starts with its first
+// client and keeps the book with the usual snapshot + delta sync; book and
+// trades go out at most every RELAY_FLUSH_MS, and a client that joins late
+// is sent the current instrument, status and book straight away. The
+// upstream lingers briefly after the last client leaves so reloads don't
+// churn connections or snapshots. At most MAX_SESSIONS markets run at once,
+// lingering ones included; the route answers 503 past that.
+//
+// RELAY_UPSTREAM points the Binance venues at a compatible server (REST and
+// WebSocket on one origin, e.g. scripts/mock-upstream.mjs) for testing.
+// Feeds open sockets through the global WebSocket, which Node only has from
+// 22 on; older runtimes get the `ws` package's browser-compatible one.
+// ============================================================================
+import { WebSocket as NodeWebSocket } from 'ws';
+import { MarketFeed } from '@/lib/feed';
+import { ADAPTERS, type ExchangeAdapter, type InstrumentError, type InstrumentInfo, type MarkPrice, type MarketTrade, type VenueId } from '@/lib/exchanges';
+import { BINANCE_ENDPOINTS, makeBinance } from '@/lib/exchanges/binance';
+import { RELAY_DEPTH, RELAY_FLUSH_MS, type RelayMessage } from '@/lib/relay';
+
+export type RelayClient = (m: RelayMessage) => void;
+
+globalThis.WebSocket ??= NodeWebSocket as unknown as typeof WebSocket;
+
+const LINGER_MS = 10_000;
+/** Upstream sessions (each its own exchange sockets) the hub keeps at once. */
+export const MAX_SESSIONS = 32;
+
+class RelaySession {
+  readonly clients = new Set<RelayClient>();
+  private feed: MarketFeed;
+  private instrument: InstrumentInfo | null | undefined;
+  private mark: MarkPrice | null = null;
+  /** Set once the venue refused the symbol; the feed has stopped. */
+  private unavailable: InstrumentError | null = null;
+  private trades: MarketTrade[] = [];
+  private bookDirty = false;
+  private statusDirty = false;
+  private frames = 0;
+  private lastFrameAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(adapter: ExchangeAdapter, symbol: string) {
+    this.feed = new MarketFeed(adapter, symbol, {
+      onBook: () => { this.bookDirty = true; this.schedule(); },
+      onTrade: (t) => { this.trades.push(t); this.schedule(); },
+      onTicker: (top) => this.send({ type: 'ticker', top }),
+      onMark: (mark) => { this.mark = mark; this.send({ type: 'mark', mark }); },
+      onLiquidation: (liq) => this.send({ type: 'liquidation', liq }),
+      onInstrument: (info) => { this.instrument = info; this.send({ type: 'instrument', info }); },
+      onStatus: () => { this.statusDirty = true; this.schedule(); },
+      onFrame: (kind) => { if (kind !== 'ticker') { this.frames++; this.lastFrameAt = Date.now(); } },
+      onError: (message) => this.send({ type: 'error', message }),
+      onUnavailable: (err) => { this.unavailable = err; this.send(this.refusal(err)); },
+    });
+  }
+
+  start() { this.feed.start(); }
+  stop() { this.feed.stop(); if (this.timer) clearTimeout(this.timer); this.timer = null; }
+
+  private send(m: RelayMessage) { this.clients.forEach(c => c(m)); }
+
+  private book(): RelayMessage {
+    const side = (s: 'bid' | 'ask') => this.feed.book.levels(s, RELAY_DEPTH).map(l => [l.price, l.amount] as [number, number]);
+    const b = this.feed.book;
+    return { type: 'book', bids: side('bid'), asks: side('ask'), totals: [b.totalSize('bid'), b.totalSize('ask')] };
+  }
+
+  private status(): RelayMessage {
+    const m: RelayMessage = { type: 'status', status: this.feed.status, frames: this.frames, lastFrameAt: this.lastFrameAt, health: this.feed.health() };
+    this.frames = 0;
+    return m;
+  }
+
+  private refusal(err: InstrumentError): RelayMessage { return { type: 'unavailable', reason: err.reason, message: err.message }; }
+
+  private schedule() { if (!this.timer) this.timer = setTimeout(() => this.flush(), RELAY_FLUSH_MS); }
+
+  private flush() {
+    this.timer = null;
+    if (this.bookDirty) { this.bookDirty = false; this.send(this.book()); }
+    if (this.trades.length) { this.send({ type: 'trades', trades: this.trades }); this.trades = []; }
+    if (this.statusDirty || this.frames) { this.statusDirty = false; this.send(this.status()); }
+  }
+
+  /** Bring a new client up to date without waiting for the next change. */
+  greet(c: RelayClient) {
+    if (this.instrument !== undefined) c({ type: 'instrument', info: this.instrument });
+    if (this.mark) c({ type: 'mark', mark: this.mark });
+    c({ type: 'status', status: this.feed.status, frames: 0, lastFrameAt: this.lastFrameAt, health: this.feed.health() });
+    if (this.unavailable) c(this.refusal(this.unavailable));
+    else if (this.feed.book.status === 'live') c(this.book());
+  }
+}
+
+export class RelayHub {
+  private sessions = new Map<string, RelaySession>();
+  private lingering = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(private readonly adapterFor: (venue: VenueId) => ExchangeAdapter = upstreamAdapter, private readonly maxSessions = MAX_SESSIONS) {}
+
+  get markets(): string[] { return [...this.sessions.keys()]; }
+
+  /** Whether join() would be accepted: the market already runs, or there is room for it. */
+  admits(venue: VenueId, symbol: string): boolean {
+    return this.sessions.has(`${venue}:${symbol}`) || this.sessions.size < this.maxSessions;
+  }
+
+  /** Subscribe a client to a market; returns the leave function, or null when the hub is full. */
+  join(venue: VenueId, symbol: string, client: RelayClient): (() => void) | null {
+    if (!this.admits(venue, symbol)) return null;
+    const key = `${venue}:${symbol}`;
+    const linger = this.lingering.get(key);
+    if (linger) { clearTimeout(linger); this.lingering.delete(key); }
+
+    let s = this.sessions.get(key);
+    if (!s) {
+      s = new RelaySession(this.adapterFor(venue), symbol);
+      this.sessions.set(key, s);
+      s.start();
+    }
+    s.clients.add(client);
+    s.greet(client);
+
+    const session = s;
+    return () => {
+      if (!session.clients.delete(client) || session.clients.size) return;
+      this.lingering.set(key, setTimeout(() => {
+        this.lingering.delete(key);
+        if (session.clients.size) return;
+        session.stop();
+        this.sessions.delete(key);
+      }, LINGER_MS));
+    };
+  }
+
+  /** Drop every session at once (tests, shutdown). */
+  close() {
+    this.lingering.forEach(t => clearTimeout(t));
+    this.lingering.clear();
+    this.sessions.forEach(s => s.stop());
+    this.sessions.clear();
+  }
+}
+
+const mockAdapters = new Map<VenueId, ExchangeAdapter>();
+
+/** The venue's adapter, or with RELAY_UPSTREAM set, the same Binance API (prefix, perps streams) on that origin. */
+function upstreamAdapter(venue: VenueId): ExchangeAdapter {
+  const base = process.env.RELAY_UPSTREAM;
+  const e = Object.hasOwn(BINANCE_ENDPOINTS, venue) ? BINANCE_ENDPOINTS[venue as keyof typeof BINANCE_ENDPOINTS] : undefined;
+  if (!base || !e) return ADAPTERS[venue];
+  let a = mockAdapters.get(venue);
+  if (!a) {
+    a = makeBinance(venue, `${e.label} via ${base}`, base, base.replace(/^http/, 'ws'), e.api, e.perps);
+    mockAdapters.set(venue, a);
+  }
+  return a;
+}
+
+/** The process-wide hub; kept on globalThis so dev reloads don't orphan upstreams. */
+export function relayHub(): RelayHub {
+  const g = globalThis as { __orderflowRelay?: RelayHub };
+  g.__orderflowRelay ??= new RelayHub();
+  return g.__orderflowRelay;
+}
@@ -0,0 +1,108 @@
+// ============================================================================
+// ReplayPlayer — drives a parsed recording in (scaled) real time
+//
+// Positions are milliseconds from the first record. Seeking rewinds via
+// `onReset` and fast-forwards every record up to the target synchronously,
+// so consumers rebuild state exactly as they would have live.
+// ============================================================================
+import type { FeedRecord, Recording } from '@/lib/recorder';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 5, 10, 20];
+
+export interface ReplayState { playing: boolean; position: number; duration: number; speed: number; }
+
+export interface ReplayHandlers {
+  onRecord(rec: FeedRecord): void;
+  onReset(): void;
+  onState?(s: ReplayState): void;
+}
+
+// cap the sleep so progress keeps ticking through quiet stretches
+const MAX_SLEEP_MS = 250;
+
+export class ReplayPlayer {
+  private idx = 0;
+  private pos = 0;
+  private speed = 1;
+  private playing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private wallAt = 0;
+  private readonly t0: number;
+  readonly duration: number;
+
+  constructor(private readonly rec: Recording, private readonly h: ReplayHandlers) {
+    const rs = rec.records;
+    this.t0 = rs.length ? rs[0].t : 0;
+    this.duration = rs.length ? rs[rs.length - 1].t - this.t0 : 0;
+  }
+
+  get state(): ReplayState { return { playing: this.playing, position: this.pos, duration: this.duration, speed: this.speed }; }
+  /** Recorded time at the playhead (epoch ms): the replayed market's "now". */
+  get clock(): number {
+    const pos = this.playing ? Math.min(this.duration, this.pos + (Date.now() - this.wallAt) * this.speed) : this.pos;
+    return this.t0 + pos;
+  }
+  private notify() { this.h.onState?.(this.state); }
+
+  play() {
+    if (this.playing) return;
+    if (this.idx >= this.rec.records.length) this.seek(0);
+    this.playing = true; this.wallAt = Date.now();
+    this.tick();
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.advanceClock();
+    this.playing = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.notify();
+  }
+
+  setSpeed(x: number) {
+    this.advanceClock();
+    this.speed = Math.max(REPLAY_SPEEDS[0], Math.min(REPLAY_SPEEDS[REPLAY_SPEEDS.length - 1], x));
+    this.notify();
+  }
+
+  seek(position: number) {
+    const target = Math.max(0, Math.min(this.duration, position));
+    if (target < this.pos || this.idx === 0) { this.h.onReset(); this.idx = 0; }
+    this.pos = target; this.wallAt = Date.now();
+    this.emitDue();
+    this.notify();
+  }
+
+  dispose() {
+    this.playing = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private advanceClock() {
+    if (!this.playing) return;
+    const now = Date.now();
+    this.pos = Math.min(this.duration, this.pos + (now - this.wallAt) * this.speed);
+    this.wallAt = now;
+  }
+
+  private emitDue() {
+    const rs = this.rec.records;
+    while (this.idx < rs.length && rs[this.idx].t - this.t0 <= this.pos) this.h.onRecord(rs[this.idx++]);
+  }
+
+  private tick = () => {
+    this.timer = null;
+    if (!this.playing) return;
+    this.advanceClock();
+    this.emitDue();
+
+    const rs = this.rec.records;
+    if (this.idx >= rs.length) { this.playing = false; this.notify(); return; }
+
+    const wait = (rs[this.idx].t - this.t0 - this.pos) / this.speed;
+    this.timer = setTimeout(this.tick, Math.max(0, Math.min(MAX_SLEEP_MS, wait)));
+    this.notify();
+  };
+}
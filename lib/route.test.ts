@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { bookHref, isVenue, parseBookLocation, resolveBookRoute } from '@/lib/route';
+
+describe('isVenue', () => {
+  it('accepts registered venues only, not inherited object keys', () => {
+    expect(isVenue('binance-futures')).toBe(true);
+    for (const v of ['constructor', 'toString', '__proto__', 'hasOwnProperty', '', 'kraken', 1, null]) expect(isVenue(v)).toBe(false);
+  });
+});
+
+describe('book routes', () => {
+  it('round-trips a symbol and venue through the URL', () => {
+    const href = bookHref('coinbase', 'btc-usd');
+    expect(href).toBe('/book/BTC-USD?venue=coinbase');
+    const [path, search] = href.split('?');
+    expect(parseBookLocation(path, `?${search}`)).toEqual({ venue: 'coinbase', symbol: 'BTC-USD' });
+  });
+
+  it('falls back to the default venue for an unknown or inherited one', () => {
+    expect(resolveBookRoute('ETHUSDT', 'constructor')).toEqual({ venue: 'binance', symbol: 'ethusdt' });
+  });
+
+  it('treats a malformed percent-encoding as no route', () => {
+    expect(resolveBookRoute('%E0%A4%A')).toBeNull();
+    expect(parseBookLocation('/book/BTC%', '')).toBeNull();
+  });
+});
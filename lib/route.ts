@@ -0,0 +1,42 @@
+// ============================================================================
+// Book routes — /book/ETHUSDT, /book/BTC-USD?venue=coinbase
+//
+// Symbols are upper-cased in the URL and mapped back to the adapter's own
+// form on the way in; Binance spot is the default venue and is left implicit.
+// ============================================================================
+import { ADAPTERS, type VenueId } from '@/lib/exchanges';
+
+export const DEFAULT_VENUE: VenueId = 'binance';
+
+export interface BookRoute { venue: VenueId; symbol: string; }
+
+export function isVenue(v: unknown): v is VenueId {
+  // own keys only: 'constructor' and 'toString' are `in` every object
+  return typeof v === 'string' && Object.hasOwn(ADAPTERS, v);
+}
+
+/** A percent-encoded path segment, or null when it is malformed ('%E0%A4%A'). */
+export function decodeSegment(s: string): string | null {
+  try { return decodeURIComponent(s); } catch { return null; }
+}
+
+/** `query` adds further parameters after the venue. */
+export function bookHref(venue: VenueId, symbol: string, query: Record<string, string> = {}): string {
+  const path = `/book/${encodeURIComponent(symbol.toUpperCase())}`;
+  const q = new URLSearchParams(venue === DEFAULT_VENUE ? query : { venue, ...query }).toString();
+  return q ? `${path}?${q}` : path;
+}
+
+/** Resolve route params; an unrecognised venue falls back to the default, a malformed symbol is no route. */
+export function resolveBookRoute(symbol: string, venue?: string | null): BookRoute | null {
+  const v = isVenue(venue) ? venue : DEFAULT_VENUE;
+  const s = decodeSegment(symbol);
+  return s === null ? null : { venue: v, symbol: ADAPTERS[v].normalizeSymbol(s) };
+}
+
+/** Parse a location; null for anything that is not a /book/ route. */
+export function parseBookLocation(pathname: string, search: string): BookRoute | null {
+  const m = /^\/book\/([^/]+)\/?$/.exec(pathname);
+  if (!m) return null;
+  return resolveBookRoute(m[1], new URLSearchParams(search).get('venue'));
+}
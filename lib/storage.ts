@@ -0,0 +1,13 @@
+// ============================================================================
+// localStorage JSON helpers — quiet no-ops on the server, in private mode
+// or when the quota is full
+// ============================================================================
+export function readJson(key: string): unknown {
+  if (typeof window === 'undefined') return null;
+  try { return JSON.parse(localStorage.getItem(key) ?? 'null'); } catch { return null; }
+}
+
+export function writeJson(key: string, v: unknown) {
+  if (typeof window === 'undefined') return;
+  try { localStorage.setItem(key, JSON.stringify(v)); } catch {}
+}
@@ -0,0 +1,168 @@
+// ============================================================================
+// StreamPool — one shared socket per venue, many channel subscribers
+//
+// Feeds join channels instead of opening sockets; the pool keeps a refcount
+// per channel, batches (un)subscribes into one message per tick, and closes
+// the socket when the last channel goes. After a drop it reconnects with
+// every live channel and tells subscribers, whose books then catch the
+// sequence gap and resync as usual.
+//
+// Reconnects back off exponentially (reset once data flows again). A quiet
+// connection gets a heartbeat request and is dropped if even that goes
+// unanswered; connections nearing the venue's maximum age are replaced
+// straight away rather than waiting to be cut off.
+// ============================================================================
+import type { ExchangeAdapter, StreamMux, VenueId } from '@/lib/exchanges';
+import { Backoff } from '@/lib/backoff';
+
+export interface ChannelHandlers {
+  onFrame(raw: string): void;
+  /** A connection attempt is under way. */
+  onConnecting?(): void;
+  onOpen?(): void;
+  /** The connection dropped; the next attempt is due at `retryAt` (epoch ms). */
+  onClose?(retryAt: number): void;
+  onError?(message: string): void;
+}
+
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_CAP_MS = 30_000;
+// socket liveness, shared with MarketFeed's own sockets
+export const WATCHDOG_MS = 2500;
+export const CONNECT_TIMEOUT_MS = 10_000;
+export const HEARTBEAT_MS = 10_000;      // quiet this long: ask the server something
+export const IDLE_TIMEOUT_MS = 20_000;   // quiet this long despite the heartbeat: dead
+export const ROTATE_EARLY_MS = 5 * 60_000;
+
+export class StreamPool {
+  private subs = new Map<string, Set<ChannelHandlers>>();
+  private ws: WebSocket | null = null;
+  /** Channels the server currently has (or will have once the socket opens). */
+  private active = new Set<string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchdog: ReturnType<typeof setInterval> | null = null;
+  private backoff = new Backoff(RECONNECT_BASE_MS, RECONNECT_CAP_MS);
+  /** When the pending reconnect fires; 0 when none is pending. */
+  private retryAt = 0;
+  private connectedAt = 0;
+  private openedAt = 0;
+  private lastFrameAt = 0;
+  private pinged = false;
+
+  constructor(private readonly mux: StreamMux) {}
+
+  get open(): boolean { return this.ws?.readyState === WebSocket.OPEN; }
+  get channels(): number { return this.subs.size; }
+
+  /** Join a channel; returns the leave function. */
+  subscribe(channel: string, h: ChannelHandlers): () => void {
+    let set = this.subs.get(channel);
+    if (!set) { set = new Set(); this.subs.set(channel, set); }
+    set.add(h);
+    if (this.open) h.onOpen?.();
+    else if (this.retryAt) h.onClose?.(this.retryAt);
+    this.schedule();
+    return () => {
+      const s = this.subs.get(channel);
+      if (!s?.delete(h)) return;
+      if (!s.size) this.subs.delete(channel);
+      this.schedule();
+    };
+  }
+
+  private schedule() { if (!this.flushTimer) this.flushTimer = setTimeout(() => this.flush(), 0); }
+
+  // reconcile the server's channels with the wanted set
+  private flush() {
+    this.flushTimer = null;
+    if (!this.subs.size) { this.shutdown(); return; }
+    if (!this.ws) { if (!this.reconnectTimer) this.connect(); return; }
+    if (!this.open) return;            // onopen reconciles
+    this.sync();
+  }
+
+  private sync() {
+    const want = [...this.subs.keys()];
+    const add = want.filter(c => !this.active.has(c));
+    const drop = [...this.active].filter(c => !this.subs.has(c));
+    for (const m of [...this.mux.unsubscribe(drop), ...this.mux.subscribe(add)]) this.ws?.send(JSON.stringify(m));
+    this.active = new Set(want);
+  }
+
+  private connect() {
+    this.reconnectTimer = null; this.retryAt = 0;
+    const channels = [...this.subs.keys()];
+    this.each(h => h.onConnecting?.());
+    let ws: WebSocket;
+    try { ws = new WebSocket(this.mux.url(channels)); } catch { this.each(h => h.onError?.('failed to open shared socket')); this.lost(); return; }
+    this.ws = ws; this.connectedAt = Date.now();
+    this.active = new Set(this.mux.urlSubscribes ? channels : []);
+    ws.onopen = () => {
+      this.openedAt = this.lastFrameAt = Date.now(); this.pinged = false;
+      this.sync(); this.each(h => h.onOpen?.());
+    };
+    ws.onmessage = (e) => {
+      this.lastFrameAt = Date.now(); this.pinged = false;
+      this.backoff.reset();
+      let parts: { channel: string; raw: string }[];
+      try { parts = this.mux.route(e.data); } catch { return; }
+      for (const p of parts) this.subs.get(p.channel)?.forEach(h => h.onFrame(p.raw));
+    };
+    ws.onerror = () => this.each(h => h.onError?.('shared connection error'));
+    ws.onclose = () => { if (this.ws === ws) this.lost(); };
+    if (!this.watchdog) this.watchdog = setInterval(() => this.watch(), WATCHDOG_MS);
+  }
+
+  private watch() {
+    const ws = this.ws;
+    if (!ws) return;
+    const now = Date.now();
+    // a handshake that never completes (blackholed, or no close event after a refusal)
+    if (ws.readyState === WebSocket.CONNECTING) { if (now - this.connectedAt >= CONNECT_TIMEOUT_MS) this.lost(); return; }
+    if (!this.open) return;
+    if (this.mux.maxAgeMs && now - this.openedAt >= this.mux.maxAgeMs - ROTATE_EARLY_MS) { this.lost(0); return; }
+    if (!this.mux.heartbeat) return;
+    const quiet = now - this.lastFrameAt;
+    if (quiet >= IDLE_TIMEOUT_MS) { this.each(h => h.onError?.(`shared connection silent for ${Math.round(quiet / 1000)}s`)); this.lost(); return; }
+    if (quiet >= HEARTBEAT_MS && !this.pinged) { this.pinged = true; ws.send(JSON.stringify(this.mux.heartbeat())); }
+  }
+
+  /** Forget the current socket and schedule the next one, by default after the backoff delay. */
+  private lost(delay = this.backoff.next()) {
+    this.detach();
+    if (!this.subs.size || this.reconnectTimer) return;
+    this.retryAt = Date.now() + delay;
+    this.each(h => h.onClose?.(this.retryAt));
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private detach() {
+    const ws = this.ws;
+    this.ws = null; this.active.clear();
+    if (ws) {
+      ws.onclose = null; ws.onmessage = null; ws.onerror = null; ws.onopen = null;
+      try { ws.close(); } catch {}
+    }
+  }
+
+  private shutdown() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.watchdog) clearInterval(this.watchdog);
+    this.reconnectTimer = null; this.watchdog = null; this.retryAt = 0;
+    this.backoff.reset();
+    this.detach();
+  }
+
+  private each(fn: (h: ChannelHandlers) => void) { this.subs.forEach(s => s.forEach(fn)); }
+}
+
+const pools = new Map<VenueId, StreamPool>();
+
+/** The shared pool for a venue in this realm (page or worker); undefined if the venue cannot multiplex. */
+export function streamPool(adapter: ExchangeAdapter): StreamPool | undefined {
+  if (!adapter.mux) return undefined;
+  let p = pools.get(adapter.id);
+  if (!p) { p = new StreamPool(adapter.mux); pools.set(adapter.id, p); }
+  return p;
+}
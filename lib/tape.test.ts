@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { TAPE_CAPACITY, TradeTape, type TapeEntry, type TapeFilter } from '@/lib/tape';
+import type { MarketTrade } from '@/lib/exchanges';
+
+const T0 = 1_760_875_200_000;
+
+/** Full rebuild, newest first: consecutive same-side prints at one time fold together. */
+function reference(entries: TapeEntry[], f: TapeFilter) {
+  const out: Omit<TapeEntry, 'at'>[] = [];
+  let cur: TapeEntry | null = null;
+  const emit = (e: TapeEntry | null) => { if (e && e.quantity >= f.minSize) out.push(e); };
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const t = entries[i];
+    if (!f.merge) { emit(t); continue; }
+    if (cur && !cur.liq && !t.liq && cur.time === t.time && cur.isBuyerMaker === t.isBuyerMaker) {
+      const c: TapeEntry = cur, q = c.quantity + t.quantity;
+      cur = { ...c, price: (c.price * c.quantity + t.price * t.quantity) / q, quantity: q, count: (c.count ?? 1) + (t.count ?? 1) };
+      continue;
+    }
+    emit(cur);
+    cur = { ...t };
+  }
+  emit(cur);
+  return out;
+}
+
+const key = (e: Omit<TapeEntry, 'at'>) => [e.seq, e.time, e.isBuyerMaker, +e.quantity.toFixed(9), +e.price.toFixed(6), e.count ?? 1];
+
+describe('TradeTape rows', () => {
+  const trade = fc.record({
+    dt: fc.constantFrom(0, 0, 0, 1, 250), price: fc.integer({ min: 9990, max: 10010 }),
+    quantity: fc.integer({ min: 1, max: 2000 }), isBuyerMaker: fc.boolean(),
+  });
+  const filters = fc.record({ minSize: fc.constantFrom(0, 0.5, 1.5), merge: fc.boolean() });
+
+  it('folds each batch in to the same rows a full rebuild gives', () => {
+    fc.assert(fc.property(fc.array(fc.array(trade, { maxLength: 8 }), { maxLength: 12 }), filters, (batches, f) => {
+      const tape = new TradeTape();
+      let t = T0, id = 1;
+      for (const batch of batches) {
+        tape.add(batch.map((b): MarketTrade => ({ id: id++, time: (t += b.dt), price: b.price / 100, quantity: b.quantity / 1000, isBuyerMaker: b.isBuyerMaker })));
+        // read between batches so the cache has to catch up rather than start over
+        const want = reference(tape.rows({ minSize: 0, merge: false }).reverse(), f);
+        expect(tape.rowCount(f)).toBe(want.length);
+        expect(tape.rows(f).map(key)).toEqual(want.map(key));
+      }
+    }));
+  });
+
+  it('reads a range by index, newest first', () => {
+    const tape = new TradeTape();
+    tape.add(Array.from({ length: 10 }, (_, i) => ({ id: i + 1, time: T0 + i, price: 100, quantity: 1, isBuyerMaker: false })));
+    const f = { minSize: 0, merge: false };
+    expect(tape.rows(f, 2, 5).map(r => r.id)).toEqual([8, 7, 6]);
+    expect(tape.rows(f, 8).map(r => r.id)).toEqual([2, 1]);
+    expect(tape.rowIndex(f, tape.rows(f, 3, 4)[0].seq)).toBe(3);
+  });
+
+  it('keeps growing a merge group across batches, size filter applied to the group', () => {
+    const tape = new TradeTape(), f = { minSize: 1, merge: true };
+    tape.add([{ id: 1, time: T0, price: 100, quantity: 0.6, isBuyerMaker: true }]);
+    expect(tape.rowCount(f)).toBe(0);
+    tape.add([{ id: 2, time: T0, price: 101, quantity: 0.6, isBuyerMaker: true }]);
+    expect(tape.rows(f)).toEqual([expect.objectContaining({ id: 2, quantity: 1.2, count: 2 })]);
+    expect(tape.rows(f)[0].price).toBeCloseTo(100.5, 10);
+    // a new print on the other side closes the group
+    tape.add([{ id: 3, time: T0, price: 101, quantity: 2, isBuyerMaker: false }]);
+    expect(tape.rows(f).map(r => r.id)).toEqual([3, 2]);
+    expect(tape.rowIndex(f, tape.rows(f)[1].seq)).toBe(1);
+  });
+
+  it('drops cached rows the buffer trimmed away', () => {
+    const tape = new TradeTape(), f = { minSize: 0, merge: false };
+    const batch = (from: number, n: number) => Array.from({ length: n }, (_, i) => ({ id: from + i, time: T0 + from + i, price: 100, quantity: 1, isBuyerMaker: false }));
+    tape.add(batch(1, TAPE_CAPACITY));
+    expect(tape.rowCount(f)).toBe(TAPE_CAPACITY);
+    tape.add(batch(TAPE_CAPACITY + 1, TAPE_CAPACITY * 0.2 + 1));
+    expect(tape.size).toBe(TAPE_CAPACITY);
+    expect(tape.rowCount(f)).toBe(TAPE_CAPACITY);
+    expect(tape.rows(f, TAPE_CAPACITY - 1)[0].id).toBe(TAPE_CAPACITY * 0.2 + 2);
+  });
+});
+
+describe('TradeTape stats clock', () => {
+  it('windows the stats on trade time, moved on by advance()', () => {
+    const tape = new TradeTape();
+    tape.add([{ id: 1, time: T0, price: 100, quantity: 2, isBuyerMaker: false }, { id: 2, time: T0 + 30_000, price: 100, quantity: 1, isBuyerMaker: true }], 0);
+    expect(tape.clock).toBe(T0 + 30_000);
+    expect(tape.stats(tape.clock, 60_000)).toMatchObject({ buy: 2, sell: 1, trades: 2 });
+    tape.advance(T0 + 61_000);
+    expect(tape.stats(tape.clock, 60_000)).toMatchObject({ buy: 0, sell: 1, trades: 1 });
+    tape.advance(T0);
+    expect(tape.clock).toBe(T0 + 61_000);
+  });
+});
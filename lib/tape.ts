@@ -0,0 +1,190 @@
+// ============================================================================
+// Trade tape — deep trade history plus rolling flow stats
+//
+// Keeps the last TAPE_CAPACITY trades for display and per-second buy/sell
+// buckets covering the longest stats window, so the volume figures stay
+// exact for 15 minutes even when the tape itself holds less than that.
+// Readers poll `version` (like the charts) instead of being pushed updates.
+// The stats clock is trade time, moved forward by the page's 1s tick while
+// live (like TradeFlow), so a replay's windows follow the recording.
+//
+// The merged and filtered rows are kept incrementally, oldest first: each
+// version folds in only the entries added since, and readers take the slice
+// they show, so a full 50k tape costs nothing per frame.
+//
+// Liquidations (perpetuals) go on the tape as flagged entries but stay out of
+// the flow stats: their fills already arrive as ordinary trades.
+// ============================================================================
+import type { Liquidation, MarketTrade } from '@/lib/exchanges';
+
+export const TAPE_CAPACITY = 50_000;
+export const STAT_WINDOWS = [60_000, 300_000, 900_000];
+
+const BUCKET_MS = 1000;
+const STATS_SPAN_MS = Math.max(...STAT_WINDOWS);
+
+export interface TapeEntry extends MarketTrade {
+  /** Arrival order; newer entries have larger seq. */
+  seq: number;
+  /** Local receive time, for flashing new prints. */
+  at: number;
+  /** A forced order from the liquidation stream rather than a trade; id is 0. */
+  liq?: boolean;
+}
+
+export interface TapeFilter {
+  /** Hide prints smaller than this (base units), applied after merging. */
+  minSize: number;
+  /** Fold consecutive same-side trades with the same timestamp into one print. */
+  merge: boolean;
+}
+
+export interface FlowStats { buy: number; sell: number; buyNotional: number; sellNotional: number; trades: number; }
+
+interface Bucket extends FlowStats { t: number; }
+
+/** Rows for one filter, oldest first; `open` is the newest merge group, still taking prints and not yet size-filtered. */
+interface RowCache { minSize: number; merge: boolean; rows: TapeEntry[]; open: TapeEntry | null; seq: number; }
+
+const shownOpen = (c: RowCache) => c.open && c.open.quantity >= c.minSize ? c.open : null;
+const mergeable = (a: TapeEntry, b: TapeEntry) => !a.liq && !b.liq && a.time === b.time && a.isBuyerMaker === b.isBuyerMaker;
+
+export class TradeTape {
+  private buf: TapeEntry[] = [];
+  private buckets: Bucket[] = [];
+  private seq = 0;
+  private _version = 0;
+  private _lastAt = 0;
+  private _clock = 0;
+  private cache: RowCache | null = null;
+
+  get version(): number { return this._version; }
+  get size(): number { return this.buf.length; }
+  /** Local time of the last add(). */
+  get lastAt(): number { return this._lastAt; }
+  /** Latest trade time, or later once advance() moves it. */
+  get clock(): number { return this._clock; }
+
+  clear() { this.buf = []; this.buckets = []; this.cache = null; this._clock = 0; this._version++; }
+
+  /** Move the stats clock to `now`; never back. */
+  advance(now: number) { if (now > this._clock) this._clock = now; }
+
+  add(ts: MarketTrade[], now = Date.now()) {
+    if (!ts.length) return;
+    this._lastAt = now;
+    for (const t of ts) {
+      this.buf.push({ ...t, seq: ++this.seq, at: now });
+      this.count(t);
+      if (t.time > this._clock) this._clock = t.time;
+    }
+    // trim in chunks so the copy is rare
+    if (this.buf.length > TAPE_CAPACITY * 1.2) this.buf = this.buf.slice(-TAPE_CAPACITY);
+    const cutoff = this._clock - STATS_SPAN_MS - BUCKET_MS;
+    let drop = 0;
+    while (drop < this.buckets.length && this.buckets[drop].t < cutoff) drop++;
+    if (drop) this.buckets.splice(0, drop);
+    this._version++;
+  }
+
+  addLiquidation(l: Liquidation, now = Date.now()) {
+    this._lastAt = now;
+    this.buf.push({ id: 0, price: l.price, quantity: l.quantity, time: l.time, isBuyerMaker: l.side === 'sell', seq: ++this.seq, at: now, liq: true });
+    this._version++;
+  }
+
+  private count(t: MarketTrade) {
+    const start = t.time - (t.time % BUCKET_MS);
+    let i = this.buckets.length - 1;
+    while (i >= 0 && this.buckets[i].t > start) i--;
+    let b = this.buckets[i];
+    if (!b || b.t !== start) {
+      b = { t: start, buy: 0, sell: 0, buyNotional: 0, sellNotional: 0, trades: 0 };
+      this.buckets.splice(i + 1, 0, b);
+    }
+    const n = t.price * t.quantity;
+    if (t.isBuyerMaker) { b.sell += t.quantity; b.sellNotional += n; } else { b.buy += t.quantity; b.buyNotional += n; }
+    b.trades += t.count ?? 1;
+  }
+
+  /** Taker volume over the `windowMs` before `now` (to the second); pass `clock` for the tape's own time. */
+  stats(now: number, windowMs: number): FlowStats {
+    const s: FlowStats = { buy: 0, sell: 0, buyNotional: 0, sellNotional: 0, trades: 0 };
+    for (let i = this.buckets.length - 1; i >= 0; i--) {
+      const b = this.buckets[i];
+      if (b.t + BUCKET_MS <= now - windowMs) break;
+      s.buy += b.buy; s.sell += b.sell; s.buyNotional += b.buyNotional; s.sellNotional += b.sellNotional; s.trades += b.trades;
+    }
+    return s;
+  }
+
+  /** Number of rows after merging and filtering. */
+  rowCount(f: TapeFilter): number {
+    const c = this.sync(f);
+    return c.rows.length + (shownOpen(c) ? 1 : 0);
+  }
+
+  /** Rows newest-first after merging and filtering, indices `from` up to `to`. */
+  rows(f: TapeFilter, from = 0, to = Infinity): TapeEntry[] {
+    const c = this.sync(f), open = shownOpen(c);
+    const n = c.rows.length + (open ? 1 : 0), out: TapeEntry[] = [];
+    for (let i = Math.max(0, from); i < Math.min(to, n); i++) out.push(open ? (i ? c.rows[n - 1 - i] : open) : c.rows[n - 1 - i]);
+    return out;
+  }
+
+  /** Index of the newest row at or before `seq`; the row count when every row is newer. */
+  rowIndex(f: TapeFilter, seq: number): number {
+    const c = this.sync(f), open = shownOpen(c);
+    if (open && open.seq <= seq) return 0;
+    // rows are in seq order: find the first one past `seq`
+    let lo = 0, hi = c.rows.length;
+    while (lo < hi) { const m = (lo + hi) >> 1; if (c.rows[m].seq <= seq) lo = m + 1; else hi = m; }
+    return (open ? 1 : 0) + c.rows.length - lo;
+  }
+
+  /** Bring the row cache up to date with the entries added since it was last read. */
+  private sync(f: TapeFilter): RowCache {
+    let c = this.cache;
+    const first = this.buf.length ? this.buf[0].seq : this.seq + 1;
+    if (!c || c.minSize !== f.minSize || c.merge !== f.merge || c.seq < first - 1) {
+      c = this.cache = { minSize: f.minSize, merge: f.merge, rows: [], open: null, seq: first - 1 };
+    } else if (c.rows.length && c.rows[0].seq < first) {
+      // the buffer was trimmed under the cached rows
+      let k = 0;
+      while (k < c.rows.length && c.rows[k].seq < first) k++;
+      c.rows.splice(0, k);
+    }
+    const emit = (e: TapeEntry) => { if (e.quantity >= f.minSize) c.rows.push(e); };
+    for (let i = c.seq - first + 1; i < this.buf.length; i++) {
+      const t = this.buf[i];
+      if (!f.merge) { emit(t); continue; }
+      const o = c.open;
+      if (o && mergeable(o, t)) {
+        // a fresh object, so rows showing the group re-render; it takes the newest print's identity
+        const q = o.quantity + t.quantity;
+        c.open = { ...t, price: (o.price * o.quantity + t.price * t.quantity) / q, quantity: q, count: (o.count ?? 1) + (t.count ?? 1) };
+        continue;
+      }
+      if (o) emit(o);
+      c.open = { ...t };
+    }
+    c.seq = this.seq;
+    return c;
+  }
+}
+
+// ----- export -----
+export function tapeToCsv(rows: TapeEntry[]): string {
+  const lines = ['id,time,price,quantity,side,notional,fills,liquidation'];
+  for (const t of rows) {
+    lines.push([t.id, new Date(t.time).toISOString(), t.price, t.quantity, t.isBuyerMaker ? 'sell' : 'buy', t.price * t.quantity, t.count ?? 1, t.liq ? 1 : 0].join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function tapeToJson(rows: TapeEntry[]): string {
+  return JSON.stringify(rows.map(t => ({
+    id: t.id, time: t.time, price: t.price, quantity: t.quantity, side: t.isBuyerMaker ? 'sell' : 'buy', fills: t.count ?? 1,
+    ...(t.liq && { liquidation: true }),
+  })));
+}
@@ -0,0 +1,171 @@
+// ============================================================================
+// View settings — the book page's options, persisted, linkable and saved as
+// named presets
+//
+// Stored payloads carry a version ({ v, view }); an older one is walked
+// forward through MIGRATIONS before use, and every field is then validated on
+// its own, so one bad value falls back to its default instead of voiding the
+// rest. Links spell out the whole view (/book/ETHUSDT?rows=40&group=10&…) so
+// they reproduce it exactly whatever the recipient has stored; on load the
+// query wins over stored settings, which win over the defaults.
+// ============================================================================
+import { ADAPTERS, type VenueId } from '@/lib/exchanges';
+import { DELTA_WINDOWS } from '@/lib/leveldiff';
+import { DEFAULT_GROUPING, formatGrouping, parseGrouping, sanitizeGrouping, type Grouping } from '@/lib/grouping';
+import { STAT_WINDOWS } from '@/lib/tape';
+import { bookHref, DEFAULT_VENUE, isVenue, type BookRoute } from '@/lib/route';
+import { readJson, writeJson } from '@/lib/storage';
+
+export interface ViewSettings {
+  venue: VenueId;
+  symbol: string;
+  rows: number;
+  grouping: Grouping;
+  dense: boolean;
+  paused: boolean;
+  /** Size-change column window, ms; 0 hides it. */
+  deltaWindow: number;
+  /** Trade volume sums window, ms. */
+  statWindow: number;
+}
+
+export const SETTINGS_VERSION = 2;
+export const MIN_ROWS = 5;
+export const MAX_ROWS = 100;
+
+export const clampRows = (n: number) => Math.max(MIN_ROWS, Math.min(MAX_ROWS, Math.floor(n)));
+
+export function defaultView(venue: VenueId = DEFAULT_VENUE): ViewSettings {
+  return {
+    venue, symbol: ADAPTERS[venue].symbols[0].value, rows: 20, grouping: DEFAULT_GROUPING,
+    dense: false, paused: false, deltaWindow: 0, statWindow: STAT_WINDOWS[0],
+  };
+}
+
+type Raw = Record<string, unknown>;
+
+/** MIGRATIONS[n] turns a version-n view into version n + 1. Add one whenever ViewSettings changes shape. */
+const MIGRATIONS: Record<number, (view: Raw) => Raw> = {
+  // v2: tick multiples became one of several grouping modes
+  1: ({ groupMult, ...rest }) => ({ ...rest, grouping: { kind: 'ticks', mult: groupMult } }),
+};
+
+/** The valid fields of an untrusted view; a symbol without a venue is taken to be on the default venue. */
+function sanitize(o: Raw): Partial<ViewSettings> {
+  const out: Partial<ViewSettings> = {};
+  if (isVenue(o.venue)) out.venue = o.venue;
+  if (typeof o.symbol === 'string' && o.symbol) out.symbol = ADAPTERS[out.venue ?? DEFAULT_VENUE].normalizeSymbol(o.symbol);
+  const rows = Number(o.rows);
+  if (Number.isFinite(rows) && o.rows !== null && o.rows !== '') out.rows = clampRows(rows);
+  const grouping = sanitizeGrouping(o.grouping);
+  if (grouping) out.grouping = grouping;
+  if (typeof o.dense === 'boolean') out.dense = o.dense;
+  if (typeof o.paused === 'boolean') out.paused = o.paused;
+  if (DELTA_WINDOWS.includes(Number(o.deltaWindow)) && o.deltaWindow !== null) out.deltaWindow = Number(o.deltaWindow);
+  if (STAT_WINDOWS.includes(Number(o.statWindow))) out.statWindow = Number(o.statWindow);
+  return out;
+}
+
+/** Bring a view saved at version `v` up to date; null when it can't be read. */
+function upgrade(v: unknown, view: unknown): Partial<ViewSettings> | null {
+  if (typeof v !== 'number' || !Number.isInteger(v) || v < 1 || !view || typeof view !== 'object') return null;
+  let out = view as Raw;
+  for (let n = v; n < SETTINGS_VERSION; n++) {
+    const step = MIGRATIONS[n];
+    if (!step) return null;
+    out = step(out);
+  }
+  // a newer version (from a newer build in another tab) is read as far as its fields still validate
+  return sanitize(out);
+}
+
+/** A partial view filled out with the defaults of its venue. */
+export function completeView(p: Partial<ViewSettings>): ViewSettings {
+  const d = defaultView(p.venue);
+  return { ...d, ...p, symbol: p.symbol ?? d.symbol };
+}
+
+// ----- page settings -----
+const VIEW_KEY = 'orderflow:view';
+
+export function loadView(): Partial<ViewSettings> {
+  const raw = readJson(VIEW_KEY) as { v?: unknown; view?: unknown } | null;
+  return (raw && upgrade(raw.v, raw.view)) ?? {};
+}
+
+export function saveView(view: ViewSettings) { writeJson(VIEW_KEY, { v: SETTINGS_VERSION, view }); }
+
+/**
+ * The view a page load starts from. A /book/ route fixes the market; the
+ * bare root reopens the last one.
+ */
+export function initialView(route: BookRoute | null, search: string): ViewSettings {
+  const stored = loadView(), linked = viewFromQuery(search);
+  const market = route ?? completeView({ venue: stored.venue, symbol: stored.symbol });
+  return { ...completeView({ ...stored, ...linked }), venue: market.venue, symbol: market.symbol };
+}
+
+// ----- URL -----
+export function viewHref(v: ViewSettings): string {
+  return bookHref(v.venue, v.symbol, {
+    rows: String(v.rows), group: formatGrouping(v.grouping), dense: v.dense ? '1' : '0', paused: v.paused ? '1' : '0',
+    delta: String(v.deltaWindow / 1000), stats: String(v.statWindow / 60_000),
+  });
+}
+
+/** View options present in a query string (the market comes from the route). */
+export function viewFromQuery(search: string): Partial<ViewSettings> {
+  const p = new URLSearchParams(search);
+  const num = (k: string, scale = 1) => p.get(k) ? Number(p.get(k)) * scale : undefined;
+  const flag = (k: string) => p.has(k) ? p.get(k) === '1' : undefined;
+  return sanitize({
+    rows: num('rows'), grouping: parseGrouping(p.get('group') ?? ''), dense: flag('dense'), paused: flag('paused'),
+    deltaWindow: num('delta', 1000), statWindow: num('stats', 60_000),
+  });
+}
+
+// ----- presets -----
+const PRESETS_KEY = 'orderflow:view-presets';
+const EXPORT_KIND = 'orderflow-view-presets';
+
+function readPresets(v: unknown, all: unknown): Record<string, ViewSettings> {
+  const out: Record<string, ViewSettings> = {};
+  if (all && typeof all === 'object') {
+    for (const [name, view] of Object.entries(all)) {
+      const p = upgrade(v, view);
+      // a preset names its market; one that lost it is not worth restoring
+      if (p?.symbol && name.trim()) out[name.trim()] = completeView(p);
+    }
+  }
+  return out;
+}
+
+export function loadPresets(): Record<string, ViewSettings> {
+  const raw = readJson(PRESETS_KEY) as { v?: unknown; presets?: unknown } | null;
+  return raw ? readPresets(raw.v, raw.presets) : {};
+}
+
+function writePresets(presets: Record<string, ViewSettings>) { writeJson(PRESETS_KEY, { v: SETTINGS_VERSION, presets }); }
+
+/** Save `view` under `name`, or delete the preset when `view` is null. */
+export function storePreset(name: string, view: ViewSettings | null) {
+  const all = loadPresets();
+  if (view) all[name] = view; else delete all[name];
+  writePresets(all);
+}
+
+export function exportPresets(): string {
+  return JSON.stringify({ kind: EXPORT_KIND, v: SETTINGS_VERSION, presets: loadPresets() }, null, 2);
+}
+
+/** Merge presets from an exported file, replacing same-named ones. Returns the names imported. */
+export function importPresets(text: string): string[] {
+  let raw: { kind?: unknown; v?: unknown; presets?: unknown };
+  try { raw = JSON.parse(text); } catch { throw new Error('not valid JSON'); }
+  if (!raw || raw.kind !== EXPORT_KIND) throw new Error('not a presets file');
+  const found = readPresets(raw.v, raw.presets);
+  const names = Object.keys(found);
+  if (!names.length) throw new Error(Number(raw.v) > SETTINGS_VERSION ? 'presets were saved by a newer version' : 'no usable presets in file');
+  writePresets({ ...loadPresets(), ...found });
+  return names;
+}
@@ -0,0 +1,149 @@
+// ============================================================================
+// Walls & icebergs — unusually large resting levels, and levels that refill
+//
+// A level is a wall when it is `threshold`× larger than both the median of
+// its neighbours and the side's recent typical level (an EMA of the median
+// level size), so neither a thick stretch deep in the book nor one blip in
+// a thin patch gets flagged on its own. Levels are tracked at the display
+// grouping; changing the grouping starts over.
+//
+// Icebergs: aggTrades print against a level (sells hit bids, buys lift
+// asks). Once the book has had time to reflect them, a level that is back
+// to at least half of what was taken counts one refill. Depth and trades
+// arrive on separate streams, so a refill is only judged SETTLE_MS after
+// the last print at that price.
+// ============================================================================
+import { bucketize, type GroupedLevel, type Side } from '@/lib/orderbook';
+import type { PriceStep } from '@/lib/decimal';
+import type { MarketTrade } from '@/lib/exchanges';
+
+export interface WallMark {
+  side: Side;
+  price: number;
+  amount: number;
+  /** Size over the larger of the neighbour median and the recent average. */
+  ratio: number;
+  /** ms flagged as a wall (or tracked, for icebergs that aren't walls). */
+  age: number;
+  refills: number;
+  /** Volume traded at the level across all judged refills. */
+  executed: number;
+  wall: boolean;
+  iceberg: boolean;
+}
+
+export const WALL_THRESHOLDS = [3, 5, 10, 20];
+
+const NEIGHBOURS = 10;          // levels either side for the local median
+const MIN_LEVELS = 8;           // too few levels to call anything large
+const AVG_HALF_LIFE_MS = 60_000;
+const UPDATE_MS = 250;
+const SETTLE_MS = 600;
+const GONE_MS = 2000;           // a level missing this long loses its history
+const ICEBERG_REFILLS = 2;
+
+interface LevelState {
+  amount: number;
+  prev: number;
+  firstSeen: number;
+  seen: number;
+  wallSince: number | null;
+  // pending prints, judged once settled
+  before: number | null;
+  traded: number;
+  lastTrade: number;
+  refills: number;
+  executed: number;
+}
+
+function median(xs: number[]): number {
+  if (!xs.length) return 0;
+  const s = [...xs].sort((a, b) => a - b), m = s.length >> 1;
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+export class WallTracker {
+  threshold = 5;
+  private step: PriceStep | null = null;
+  private last = 0;
+  private levels: Record<Side, Map<number, LevelState>> = { bid: new Map(), ask: new Map() };
+  private avg: Record<Side, number> = { bid: 0, ask: 0 };
+  private marks: Record<Side, Map<number, WallMark>> = { bid: new Map(), ask: new Map() };
+
+  due(now: number): boolean { return now - this.last >= UPDATE_MS; }
+
+  clear() {
+    this.step = null; this.last = 0;
+    this.levels = { bid: new Map(), ask: new Map() };
+    this.avg = { bid: 0, ask: 0 };
+    this.marks = { bid: new Map(), ask: new Map() };
+  }
+
+  /** Note a print against the level it traded at. */
+  addTrade(t: MarketTrade, now = Date.now()) {
+    if (!this.step) return;
+    const side: Side = t.isBuyerMaker ? 'bid' : 'ask';
+    const st = this.levels[side].get(bucketize(t.price, this.step, side));
+    if (!st) return;
+    // depth can show the fill before its print arrives, so take the larger of the last two readings
+    st.before ??= Math.max(st.amount, st.prev);
+    st.traded += t.quantity;
+    st.lastTrade = now;
+  }
+
+  /** Re-scan both sides; `bids`/`asks` are grouped best-first at `step`. */
+  update(now: number, step: PriceStep, bids: GroupedLevel[], asks: GroupedLevel[]) {
+    if (step.value !== this.step?.value) { this.clear(); this.step = step; }
+    const dt = this.last ? now - this.last : Infinity;
+    this.last = now;
+    this.scan('bid', now, dt, bids);
+    this.scan('ask', now, dt, asks);
+  }
+
+  private scan(side: Side, now: number, dt: number, levels: GroupedLevel[]) {
+    const states = this.levels[side];
+    const sizes = levels.map(l => l.amount);
+    const typical = median(sizes);
+    const alpha = 1 - Math.pow(2, -dt / AVG_HALF_LIFE_MS);
+    this.avg[side] = this.avg[side] > 0 ? this.avg[side] + (typical - this.avg[side]) * alpha : typical;
+
+    const marks = new Map<number, WallMark>();
+    for (let i = 0; i < levels.length; i++) {
+      const { price, amount } = levels[i];
+      let st = states.get(price);
+      if (!st) {
+        st = { amount, prev: amount, firstSeen: now, seen: now, wallSince: null, before: null, traded: 0, lastTrade: 0, refills: 0, executed: 0 };
+        states.set(price, st);
+      }
+      st.prev = st.amount; st.amount = amount; st.seen = now;
+
+      if (st.before !== null && now - st.lastTrade >= SETTLE_MS) {
+        if (amount >= st.before - st.traded / 2) st.refills++;
+        st.executed += st.traded; st.before = null; st.traded = 0;
+      }
+
+      let ratio = 0;
+      if (levels.length >= MIN_LEVELS) {
+        const near = sizes.slice(Math.max(0, i - NEIGHBOURS), i).concat(sizes.slice(i + 1, i + 1 + NEIGHBOURS));
+        const base = Math.max(median(near), this.avg[side]);
+        ratio = base > 0 ? amount / base : 0;
+      }
+      const wall = ratio >= this.threshold;
+      st.wallSince = wall ? (st.wallSince ?? now) : null;
+      const iceberg = st.refills >= ICEBERG_REFILLS;
+      if (wall || iceberg) {
+        marks.set(price, { side, price, amount, ratio, age: now - (st.wallSince ?? st.firstSeen), refills: st.refills, executed: st.executed, wall, iceberg });
+      }
+    }
+    for (const [p, st] of states) if (now - st.seen > GONE_MS) states.delete(p);
+    this.marks[side] = marks;
+  }
+
+  /** The flag on a grouped level, if any; unchanged between updates. */
+  mark(side: Side, price: number): WallMark | undefined { return this.marks[side].get(price); }
+
+  /** Largest current walls on a side. */
+  top(side: Side, n: number): WallMark[] {
+    return [...this.marks[side].values()].filter(m => m.wall).sort((a, b) => b.amount - a.amount).slice(0, n);
+  }
+}
@@ -0,0 +1,101 @@
+// ============================================================================
+// Workspace layout — panes, their settings, and saved layouts
+//
+// Pure operations over an immutable Layout so the component only swaps
+// state. Pane `size` is a flex weight: resizing moves weight between two
+// neighbours and leaves the rest of the row alone.
+// ============================================================================
+import { ADAPTERS, type VenueId } from '@/lib/exchanges';
+import { isVenue } from '@/lib/route';
+import { readJson as read, writeJson as write } from '@/lib/storage';
+
+export interface PaneConfig {
+  id: string;
+  venue: VenueId;
+  symbol: string;
+  rows: number;
+  groupMult: number;
+  dense: boolean;
+  size: number;
+}
+
+export interface Layout { panes: PaneConfig[]; }
+
+export const MAX_PANES = 6;
+export const MIN_PANE_SIZE = 0.4;
+
+const CURRENT_KEY = 'orderflow:workspace';
+const SAVED_KEY = 'orderflow:layouts';
+
+let seq = 0;
+const newId = () => `p${Date.now().toString(36)}${(seq++).toString(36)}`;
+
+export function makePane(venue: VenueId, symbol: string, rest: Partial<Omit<PaneConfig, 'id'>> = {}): PaneConfig {
+  return { id: newId(), venue, symbol, rows: 15, groupMult: 1, dense: true, size: 1, ...rest };
+}
+
+export function defaultLayout(): Layout {
+  return { panes: ['btcusdt', 'ethusdt', 'solusdt'].map(s => makePane('binance', s)) };
+}
+
+export function addPane(l: Layout, pane: PaneConfig): Layout {
+  return l.panes.length >= MAX_PANES ? l : { panes: [...l.panes, pane] };
+}
+
+export function removePane(l: Layout, id: string): Layout {
+  return { panes: l.panes.filter(p => p.id !== id) };
+}
+
+export function updatePane(l: Layout, id: string, patch: Partial<Omit<PaneConfig, 'id'>>): Layout {
+  return { panes: l.panes.map(p => p.id === id ? { ...p, ...patch } : p) };
+}
+
+export function movePane(l: Layout, from: number, to: number): Layout {
+  if (from === to || from < 0 || to < 0 || from >= l.panes.length || to >= l.panes.length) return l;
+  const panes = [...l.panes];
+  const [p] = panes.splice(from, 1);
+  panes.splice(to, 0, p);
+  return { panes };
+}
+
+/** Shift `delta` weight from pane i+1 to pane i, keeping both above MIN_PANE_SIZE. */
+export function resizePair(l: Layout, i: number, delta: number): Layout {
+  const a = l.panes[i], b = l.panes[i + 1];
+  if (!a || !b) return l;
+  const d = Math.max(MIN_PANE_SIZE - a.size, Math.min(b.size - MIN_PANE_SIZE, delta));
+  const panes = [...l.panes];
+  panes[i] = { ...a, size: a.size + d };
+  panes[i + 1] = { ...b, size: b.size - d };
+  return { panes };
+}
+
+// ----- persistence -----
+function sanitize(raw: unknown): Layout | null {
+  const panes = (raw as Layout | null)?.panes;
+  if (!Array.isArray(panes)) return null;
+  const ok = panes.filter(p => p && isVenue(p.venue) && typeof p.symbol === 'string').slice(0, MAX_PANES).map(p => makePane(p.venue, ADAPTERS[p.venue].normalizeSymbol(p.symbol), {
+    rows: Math.max(5, Math.min(100, Number(p.rows) || 15)),
+    groupMult: Number(p.groupMult) || 1,
+    dense: !!p.dense,
+    size: Math.max(MIN_PANE_SIZE, Number(p.size) || 1),
+  }));
+  return ok.length ? { panes: ok } : null;
+}
+
+export function loadLayout(): Layout { return sanitize(read(CURRENT_KEY)) ?? defaultLayout(); }
+export function saveLayout(l: Layout) { write(CURRENT_KEY, l); }
+
+export function savedLayouts(): Record<string, Layout> {
+  const all = read(SAVED_KEY);
+  const out: Record<string, Layout> = {};
+  if (all && typeof all === 'object') {
+    for (const [name, l] of Object.entries(all)) { const s = sanitize(l); if (s) out[name] = s; }
+  }
+  return out;
+}
+
+export function storeLayout(name: string, l: Layout | null) {
+  const all = savedLayouts();
+  if (l) all[name] = l; else delete all[name];
+  write(SAVED_KEY, all);
+}
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // the relay's `ws` loads from node_modules, unbundled: its native add-ons are optional requires
+  serverExternalPackages: ['ws'],
 };
 
 export default nextConfig;
@@ -0,0 +1,209 @@
+#!/usr/bin/env node
+// ============================================================================
+// Mock Binance upstream — REST + WebSocket on one origin, no dependencies
+//
+// Serves just enough of the Binance API for the relay to sync a book:
+// exchangeInfo, depth snapshots, empty klines, and depth/aggTrade/bookTicker
+// streams (single /ws/<name> and combined /stream?streams=a/b, with
+// SUBSCRIBE/UNSUBSCRIBE), plus the futures markPrice@1s stream under either
+// REST prefix. Prices random-walk around 100 with a 0.01 tick.
+//
+//   node scripts/mock-upstream.mjs               # listens on :9100 (PORT=0: any free port)
+//   RELAY_UPSTREAM=http://localhost:9100 npm run dev
+// ============================================================================
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = +(process.env.PORT ?? 9100);
+const TICK_MS = 100;
+const LEVELS = 400;
+const TICK = 0.01;
+
+// ---------------------------------------------------------------------------
+// Synthetic market, one per symbol
+// ---------------------------------------------------------------------------
+const markets = new Map();
+
+function market(symbol) {
+  let m = markets.get(symbol);
+  if (m) return m;
+  const bids = new Map(), asks = new Map();
+  const mid = 10000; // in ticks
+  for (let i = 1; i <= LEVELS; i++) {
+    bids.set(mid - i, +(Math.random() * 5).toFixed(3));
+    asks.set(mid + i, +(Math.random() * 5).toFixed(3));
+  }
+  m = { symbol, bids, asks, mid, updateId: 1, tradeId: 1 };
+  markets.set(symbol, m);
+  return m;
+}
+
+const px = (t) => (t * TICK).toFixed(2);
+const sorted = (side, desc) => [...side.entries()].sort((a, b) => desc ? b[0] - a[0] : a[0] - b[0]);
+
+function snapshot(m, limit) {
+  return {
+    lastUpdateId: m.updateId,
+    bids: sorted(m.bids, true).slice(0, limit).map(([p, q]) => [px(p), String(q)]),
+    asks: sorted(m.asks, false).slice(0, limit).map(([p, q]) => [px(p), String(q)]),
+  };
+}
+
+/** Advance one tick: drift the mid, touch a few levels, maybe trade. */
+function step(m) {
+  const now = Date.now();
+  const drift = Math.random() < 0.5 ? -1 : 1;
+  m.mid += Math.random() < 0.2 ? drift : 0;
+  const b = [], a = [];
+  const touch = (side, out, t, q) => { if (q > 0) side.set(t, q); else side.delete(t); out.push([px(t), String(q)]); };
+  // keep the book uncrossed around the mid
+  for (const t of [...m.bids.keys()]) if (t >= m.mid) touch(m.bids, b, t, 0);
+  for (const t of [...m.asks.keys()]) if (t <= m.mid) touch(m.asks, a, t, 0);
+  for (let i = 0; i < 6; i++) {
+    const d = 1 + Math.floor(Math.random() ** 2 * LEVELS);
+    const q = Math.random() < 0.15 ? 0 : +(Math.random() * 5).toFixed(3);
+    if (Math.random() < 0.5) touch(m.bids, b, m.mid - d, q); else touch(m.asks, a, m.mid + d, q);
+  }
+  const U = m.updateId + 1;
+  m.updateId += 1 + Math.floor(Math.random() * 3);
+  const events = [['depth', { e: 'depthUpdate', E: now, s: m.symbol, U, u: m.updateId, pu: U - 1, b, a }]];
+
+  if (Math.random() < 0.6) {
+    const sell = Math.random() < 0.5;
+    const n = 1 + Math.floor(Math.random() * 3);
+    const f = m.tradeId; m.tradeId += n;
+    events.push(['trades', {
+      e: 'aggTrade', E: now, s: m.symbol, a: f, p: px(sell ? m.mid - 1 : m.mid + 1),
+      q: (Math.random() * 2).toFixed(3), f, l: f + n - 1, T: now, m: sell,
+    }]);
+  }
+  const bb = Math.max(...m.bids.keys()), ba = Math.min(...m.asks.keys());
+  events.push(['ticker', { u: m.updateId, s: m.symbol, b: px(bb), B: String(m.bids.get(bb)), a: px(ba), A: String(m.asks.get(ba)) }]);
+  if (now - (m.markAt ?? 0) >= 1000) {
+    m.markAt = now;
+    const hour = 3600_000;
+    events.push(['mark', { e: 'markPriceUpdate', E: now, s: m.symbol, p: px(m.mid), i: px(m.mid - 1), P: px(m.mid), r: '0.00010000', T: Math.ceil(now / (8 * hour)) * 8 * hour }]);
+  }
+  return events;
+}
+
+const SUFFIX = { depth: '@depth@100ms', trades: '@aggTrade', ticker: '@bookTicker', mark: '@markPrice@1s' };
+const parseStream = (name) => {
+  const at = name.indexOf('@');
+  const kind = Object.keys(SUFFIX).find(k => name.slice(at) === SUFFIX[k]);
+  return at > 0 && kind ? { symbol: name.slice(0, at).toUpperCase(), kind } : null;
+};
+
+// ---------------------------------------------------------------------------
+// REST
+// ---------------------------------------------------------------------------
+function rest(req, res) {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const json = (status, body) => { res.writeHead(status, { 'Content-Type': 'application/json' }); res.end(JSON.stringify(body)); };
+  const symbol = url.searchParams.get('symbol')?.toUpperCase();
+  switch (url.pathname.replace(/^\/(api\/v3|fapi\/v1)/, '')) {
+    case '/exchangeInfo': {
+      const info = (s) => ({
+        symbol: s, status: 'TRADING', baseAsset: s.replace(/USDT$/, ''), quoteAsset: 'USDT',
+        filters: [{ filterType: 'PRICE_FILTER', tickSize: '0.01' }, { filterType: 'LOT_SIZE', stepSize: '0.001' }],
+      });
+      // only USDT markets are listed; spot answers anything else like Binance does
+      if (symbol && !symbol.endsWith('USDT')) return json(400, { code: -1121, msg: 'Invalid symbol.' });
+      return json(200, { symbols: (symbol ? [symbol] : ['BTCUSDT', 'ETHUSDT']).map(info) });
+    }
+    case '/depth':
+      if (!symbol) return json(400, { code: -1102, msg: 'symbol required' });
+      return json(200, snapshot(market(symbol), +(url.searchParams.get('limit') ?? 100)));
+    case '/klines':
+      return json(200, []);
+    default:
+      return json(404, { code: -1, msg: `no route ${url.pathname}` });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// WebSocket (RFC 6455, text frames only)
+// ---------------------------------------------------------------------------
+function frame(text) {
+  const body = Buffer.from(text);
+  const n = body.length;
+  const head = n < 126 ? Buffer.from([0x81, n])
+    : n < 65536 ? Buffer.from([0x81, 126, n >> 8, n & 255])
+    : Buffer.concat([Buffer.from([0x81, 127, 0, 0, 0, 0]), Buffer.from([n >>> 24, (n >> 16) & 255, (n >> 8) & 255, n & 255])]);
+  return Buffer.concat([head, body]);
+}
+
+/** Pull complete client frames off `buf`; returns [{op, text}], leaves the remainder. */
+function readFrames(state) {
+  const out = [];
+  for (;;) {
+    const b = state.buf;
+    if (b.length < 2) break;
+    const op = b[0] & 15;
+    let len = b[1] & 127, off = 2;
+    if (len === 126) { if (b.length < 4) break; len = b.readUInt16BE(2); off = 4; }
+    else if (len === 127) { if (b.length < 10) break; len = Number(b.readBigUInt64BE(2)); off = 10; }
+    const masked = b[1] & 128;
+    if (b.length < off + (masked ? 4 : 0) + len) break;
+    const mask = masked ? b.subarray(off, off + 4) : null;
+    off += masked ? 4 : 0;
+    const data = Buffer.from(b.subarray(off, off + len));
+    if (mask) for (let i = 0; i < data.length; i++) data[i] ^= mask[i & 3];
+    out.push({ op, text: data.toString() });
+    state.buf = b.subarray(off + len);
+  }
+  return out;
+}
+
+const clients = new Set();
+
+function upgrade(req, socket) {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const combined = url.pathname === '/stream';
+  const names = combined ? (url.searchParams.get('streams') ?? '').split('/').filter(Boolean)
+    : url.pathname.startsWith('/ws/') ? [url.pathname.slice(4)] : null;
+  const key = req.headers['sec-websocket-key'];
+  if (!names || !key) { socket.end('HTTP/1.1 404 Not Found\r\n\r\n'); return; }
+
+  const accept = createHash('sha1').update(key + '258EAFA5-E914-47DA-95CA-C5AB0DC85B11').digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+  const c = { socket, combined, streams: new Set(names), state: { buf: Buffer.alloc(0) } };
+  clients.add(c);
+  const close = () => { clients.delete(c); socket.destroy(); };
+  socket.on('close', () => clients.delete(c));
+  socket.on('error', close);
+  socket.on('data', (chunk) => {
+    c.state.buf = Buffer.concat([c.state.buf, chunk]);
+    for (const f of readFrames(c.state)) {
+      if (f.op === 8) { socket.end(Buffer.from([0x88, 0])); clients.delete(c); return; }
+      if (f.op === 9) { socket.write(Buffer.from([0x8a, 0])); continue; }
+      if (f.op !== 1) continue;
+      let msg;
+      try { msg = JSON.parse(f.text); } catch { continue; }
+      if (msg.method === 'SUBSCRIBE') msg.params?.forEach(p => c.streams.add(p));
+      else if (msg.method === 'UNSUBSCRIBE') msg.params?.forEach(p => c.streams.delete(p));
+      socket.write(frame(JSON.stringify({ result: null, id: msg.id })));
+    }
+  });
+}
+
+setInterval(() => {
+  const wanted = new Set();
+  for (const c of clients) for (const n of c.streams) { const s = parseStream(n); if (s) wanted.add(s.symbol); }
+  for (const symbol of wanted) {
+    const events = step(market(symbol));
+    for (const [kind, data] of events) {
+      const name = symbol.toLowerCase() + SUFFIX[kind];
+      const raw = JSON.stringify(data);
+      for (const c of clients) {
+        if (!c.streams.has(name)) continue;
+        c.socket.write(frame(c.combined ? `{"stream":"${name}","data":${raw}}` : raw));
+      }
+    }
+  }
+}, TICK_MS);
+
+const server = createServer(rest);
+server.on('upgrade', upgrade);
+server.listen(PORT, () => console.log(`mock upstream on http://localhost:${server.address().port}`));